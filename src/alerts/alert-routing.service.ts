@@ -0,0 +1,402 @@
+import { ALERTS, ENV_VARS } from '@common/constants/config';
+import { AlertCategory, AlertSeverity } from '@common/utils/alert-manager';
+import { ConfigurationError } from '@common/utils/error-handler';
+import { ConfigService } from '@config/config.service';
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import {
+  AlertQuietHours,
+  AlertRouteDecision,
+  AlertRouteInput,
+  AlertRouteMatch,
+  AlertRoutingConfig,
+  AlertRoutingRule,
+  AlertRoutingStatus,
+} from '@types';
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { extname, isAbsolute, join } from 'path';
+
+interface CompiledRule {
+  rule: AlertRoutingRule;
+  messagePattern?: RegExp;
+  quietHours?: CompiledQuietHours;
+}
+
+interface CompiledQuietHours {
+  startMinutes: number;
+  endMinutes: number;
+  days?: Set<number>;
+  formatter: Intl.DateTimeFormat;
+}
+
+const RULE_KEYS = ['name', 'match', 'channels', 'throttleSeconds', 'quietHours', 'telegramTopicId'];
+const MATCH_KEYS = ['severity', 'category', 'component', 'chainId', 'alertType', 'message'];
+const QUIET_HOURS_KEYS = ['start', 'end', 'timezone', 'days'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Declarative alert routing rules
+ *
+ * Rules are read from a YAML or JSON file and evaluated in order, the first rule whose
+ * conditions all match decides the channels, throttle window and quiet hours for an alert.
+ * An invalid file fails startup; later edits are picked up automatically and an invalid
+ * edit keeps the previous rules active.
+ */
+@Injectable()
+export class AlertRoutingService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AlertRoutingService.name);
+  private readonly config: AlertRoutingConfig;
+  private readonly rulesPath?: string;
+
+  private rules: CompiledRule[] = [];
+  private loadedAt: Date | null = null;
+  private lastError: string | null = null;
+  private watching = false;
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = this.configService.getAlertRoutingConfig();
+
+    if (this.config.rulesPath) {
+      this.rulesPath = isAbsolute(this.config.rulesPath)
+        ? this.config.rulesPath
+        : join(process.cwd(), this.config.rulesPath);
+
+      // Validate at startup so a broken rules file stops the service instead of silently misrouting
+      this.rules = this.loadRules();
+      this.loadedAt = new Date();
+      this.logger.log(`Loaded ${this.rules.length} alert routing rules from ${this.rulesPath}`);
+    }
+  }
+
+  onModuleInit() {
+    if (!this.rulesPath) {
+      this.logger.log('No alert routing rules configured, using built-in routing');
+      return;
+    }
+
+    fs.watchFile(this.rulesPath, { interval: this.config.reloadIntervalMs, persistent: false }, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs) {
+        this.reload();
+      }
+    });
+    this.watching = true;
+  }
+
+  onModuleDestroy() {
+    if (this.watching) {
+      fs.unwatchFile(this.rulesPath);
+      this.watching = false;
+    }
+  }
+
+  /**
+   * Reload the rules file, keeping the current rules if the new file is invalid
+   * @returns True if the rules were replaced
+   */
+  reload(): boolean {
+    if (!this.rulesPath) return false;
+
+    try {
+      this.rules = this.loadRules();
+      this.loadedAt = new Date();
+      this.lastError = null;
+      this.logger.log(`Reloaded ${this.rules.length} alert routing rules from ${this.rulesPath}`);
+      return true;
+    } catch (error) {
+      this.lastError = error.message;
+      this.logger.error(`Failed to reload alert routing rules, keeping previous rules: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Pick the route for an alert
+   */
+  route(input: AlertRouteInput): AlertRouteDecision {
+    const index = this.rules.findIndex(compiled => this.matches(compiled, input));
+    if (index === -1) {
+      return { quietHours: false };
+    }
+
+    const { rule, quietHours } = this.rules[index];
+    return {
+      rule: rule.name,
+      ruleIndex: index,
+      channels: rule.channels,
+      throttleSeconds: rule.throttleSeconds,
+      quietHours: quietHours ? this.isInQuietHours(quietHours, input.timestamp ?? Date.now()) : false,
+      telegramTopicId: rule.telegramTopicId,
+    };
+  }
+
+  /**
+   * Get the routing engine status and active rules
+   */
+  getStatus(): AlertRoutingStatus {
+    return {
+      enabled: Boolean(this.rulesPath),
+      rulesPath: this.rulesPath,
+      ruleCount: this.rules.length,
+      loadedAt: this.loadedAt,
+      lastError: this.lastError,
+      rules: this.rules.map(compiled => compiled.rule),
+    };
+  }
+
+  /**
+   * Validate a rule set and return every problem found
+   */
+  validate(raw: unknown): string[] {
+    const errors: string[] = [];
+    const rules = Array.isArray(raw) ? raw : (raw as Record<string, unknown>)?.rules;
+
+    if (!Array.isArray(rules)) {
+      return ['Rules file must contain a "rules" list'];
+    }
+
+    const names = new Set<string>();
+    rules.forEach((rule, index) => {
+      const label = `rules[${index}]${rule?.name ? ` (${rule.name})` : ''}`;
+
+      if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+        errors.push(`${label}: must be an object`);
+        return;
+      }
+
+      this.checkKeys(rule, RULE_KEYS, label, errors);
+
+      if (typeof rule.name !== 'string' || !rule.name.trim()) {
+        errors.push(`${label}: name is required`);
+      } else if (names.has(rule.name)) {
+        errors.push(`${label}: duplicate rule name`);
+      } else {
+        names.add(rule.name);
+      }
+
+      if (rule.match !== undefined) {
+        this.validateMatch(rule.match, label, errors);
+      }
+
+      if (rule.channels !== undefined) {
+        const channels = this.toList(rule.channels);
+        const unknown = channels.filter(channel => !ALERTS.ROUTING.CHANNELS.includes(channel));
+        if (unknown.length > 0) {
+          errors.push(
+            `${label}: unknown channels ${unknown.join(', ')}. Available: ${ALERTS.ROUTING.CHANNELS.join(', ')}`,
+          );
+        }
+      }
+
+      if (
+        rule.throttleSeconds !== undefined &&
+        (typeof rule.throttleSeconds !== 'number' || rule.throttleSeconds < 0)
+      ) {
+        errors.push(`${label}: throttleSeconds must be a non-negative number`);
+      }
+
+      if (rule.quietHours !== undefined) {
+        this.validateQuietHours(rule.quietHours, label, errors);
+      }
+
+      if (rule.telegramTopicId !== undefined && !['string', 'number'].includes(typeof rule.telegramTopicId)) {
+        errors.push(`${label}: telegramTopicId must be a string or number`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Read, validate and compile the rules file
+   */
+  private loadRules(): CompiledRule[] {
+    let raw: unknown;
+    try {
+      const content = fs.readFileSync(this.rulesPath, 'utf8');
+      raw = extname(this.rulesPath).toLowerCase() === '.json' ? JSON.parse(content) : yaml.load(content);
+    } catch (error) {
+      throw new ConfigurationError(
+        `Failed to read alert routing rules: ${error.message}`,
+        ENV_VARS.ALERT_ROUTING_RULES_PATH,
+      );
+    }
+
+    const errors = this.validate(raw);
+    if (errors.length > 0) {
+      throw new ConfigurationError(
+        `Invalid alert routing rules in ${this.rulesPath}:\n  - ${errors.join('\n  - ')}`,
+        ENV_VARS.ALERT_ROUTING_RULES_PATH,
+      );
+    }
+
+    const rules = (Array.isArray(raw) ? raw : (raw as Record<string, unknown>).rules) as Record<string, any>[];
+    return rules.map(rule => this.compileRule(rule));
+  }
+
+  /**
+   * Normalize a validated rule: scalar conditions become lists and patterns are compiled once
+   */
+  private compileRule(raw: Record<string, any>): CompiledRule {
+    const match: Record<string, unknown> = {};
+    for (const key of MATCH_KEYS) {
+      if (raw.match?.[key] === undefined) continue;
+      match[key] = key === 'message' ? raw.match.message : this.toList(raw.match[key]);
+    }
+    if (match.chainId) {
+      match.chainId = (match.chainId as string[]).map(Number);
+    }
+
+    const rule: AlertRoutingRule = {
+      name: raw.name,
+      match: match as AlertRouteMatch,
+      channels: raw.channels !== undefined ? this.toList(raw.channels) : undefined,
+      throttleSeconds: raw.throttleSeconds,
+      quietHours: raw.quietHours && {
+        start: raw.quietHours.start,
+        end: raw.quietHours.end,
+        timezone: raw.quietHours.timezone || 'UTC',
+        days: raw.quietHours.days && this.toList(raw.quietHours.days).map(day => day.toLowerCase()),
+      },
+      telegramTopicId: raw.telegramTopicId !== undefined ? String(raw.telegramTopicId) : undefined,
+    };
+
+    return {
+      rule,
+      messagePattern: rule.match.message ? new RegExp(rule.match.message, 'i') : undefined,
+      quietHours: rule.quietHours ? this.compileQuietHours(rule.quietHours) : undefined,
+    };
+  }
+
+  private compileQuietHours(quietHours: AlertQuietHours): CompiledQuietHours {
+    return {
+      startMinutes: this.toMinutes(quietHours.start),
+      endMinutes: this.toMinutes(quietHours.end),
+      days: quietHours.days && new Set(quietHours.days.map(day => ALERTS.ROUTING.QUIET_HOURS_DAYS.indexOf(day))),
+      formatter: new Intl.DateTimeFormat('en-US', {
+        timeZone: quietHours.timezone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }),
+    };
+  }
+
+  private matches({ rule, messagePattern }: CompiledRule, input: AlertRouteInput): boolean {
+    const { match } = rule;
+
+    return (
+      (!match.severity || match.severity.includes(input.severity)) &&
+      (!match.category || match.category.includes(input.category)) &&
+      (!match.component || match.component.includes(input.component)) &&
+      (!match.chainId || match.chainId.includes(input.chainId)) &&
+      (!match.alertType || match.alertType.includes(input.alertType)) &&
+      (!messagePattern || messagePattern.test(input.message || ''))
+    );
+  }
+
+  /**
+   * Check whether a timestamp falls in a quiet hours window
+   * For windows that wrap past midnight, the early morning part belongs to the previous day
+   */
+  private isInQuietHours(quietHours: CompiledQuietHours, timestamp: number): boolean {
+    const parts = quietHours.formatter.formatToParts(new Date(timestamp));
+    const value = (type: string) => parts.find(part => part.type === type)?.value;
+
+    const day = ALERTS.ROUTING.QUIET_HOURS_DAYS.indexOf(value('weekday').toLowerCase());
+    const minutes = parseInt(value('hour'), 10) * 60 + parseInt(value('minute'), 10);
+    const onDay = (dayIndex: number) => !quietHours.days || quietHours.days.has((dayIndex + 7) % 7);
+    const { startMinutes, endMinutes } = quietHours;
+
+    if (startMinutes < endMinutes) {
+      return onDay(day) && minutes >= startMinutes && minutes < endMinutes;
+    }
+
+    return (onDay(day) && minutes >= startMinutes) || (onDay(day - 1) && minutes < endMinutes);
+  }
+
+  private validateMatch(match: any, label: string, errors: string[]): void {
+    if (!match || typeof match !== 'object' || Array.isArray(match)) {
+      errors.push(`${label}: match must be an object`);
+      return;
+    }
+
+    this.checkKeys(match, MATCH_KEYS, `${label}.match`, errors);
+
+    const checkValues = (key: string, allowed: string[]) => {
+      if (match[key] === undefined) return;
+      const invalid = this.toList(match[key]).filter(value => !allowed.includes(value));
+      if (invalid.length > 0) {
+        errors.push(`${label}: invalid ${key} ${invalid.join(', ')}. Available: ${allowed.join(', ')}`);
+      }
+    };
+    checkValues('severity', Object.values(AlertSeverity));
+    checkValues('category', Object.values(AlertCategory));
+
+    if (match.chainId !== undefined && this.toList(match.chainId).some(chainId => !/^\d+$/.test(chainId))) {
+      errors.push(`${label}: chainId must be a number or list of numbers`);
+    }
+
+    if (match.message !== undefined) {
+      if (typeof match.message !== 'string') {
+        errors.push(`${label}: message must be a regular expression string`);
+      } else {
+        try {
+          new RegExp(match.message, 'i');
+        } catch (error) {
+          errors.push(`${label}: invalid message pattern: ${error.message}`);
+        }
+      }
+    }
+  }
+
+  private validateQuietHours(quietHours: any, label: string, errors: string[]): void {
+    if (!quietHours || typeof quietHours !== 'object' || Array.isArray(quietHours)) {
+      errors.push(`${label}: quietHours must be an object`);
+      return;
+    }
+
+    this.checkKeys(quietHours, QUIET_HOURS_KEYS, `${label}.quietHours`, errors);
+
+    for (const key of ['start', 'end']) {
+      if (!TIME_PATTERN.test(quietHours[key] ?? '')) {
+        errors.push(`${label}: quietHours.${key} must be a HH:MM time`);
+      }
+    }
+    if (quietHours.start && quietHours.start === quietHours.end) {
+      errors.push(`${label}: quietHours start and end must differ`);
+    }
+
+    if (quietHours.timezone !== undefined) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: quietHours.timezone });
+      } catch (error) {
+        errors.push(`${label}: unknown quietHours.timezone ${quietHours.timezone}`);
+      }
+    }
+
+    if (quietHours.days !== undefined) {
+      const days = ALERTS.ROUTING.QUIET_HOURS_DAYS;
+      const invalid = this.toList(quietHours.days).filter(day => !days.includes(day.toLowerCase()));
+      if (invalid.length > 0) {
+        errors.push(`${label}: invalid quietHours.days ${invalid.join(', ')}. Available: ${days.join(', ')}`);
+      }
+    }
+  }
+
+  private checkKeys(value: Record<string, unknown>, allowed: string[], label: string, errors: string[]): void {
+    const unknown = Object.keys(value).filter(key => !allowed.includes(key));
+    if (unknown.length > 0) {
+      errors.push(`${label}: unknown fields ${unknown.join(', ')}`);
+    }
+  }
+
+  private toList(value: unknown): string[] {
+    return (Array.isArray(value) ? value : [value]).map(item => String(item));
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
@@ -1,5 +1,7 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { AlertService } from './alert.service';
+import { AlertRoutingService } from './alert-routing.service';
+import { AlertsController } from './alerts.controller';
 import { NotificationController } from './notification.controller';
 import { TestingController } from './testing.controller';
 import { MetricsModule } from '@metrics/metrics.module';
@@ -9,8 +11,8 @@ import { MonitoringModule } from '@monitoring/monitoring.module';
 
 @Module({
   imports: [MetricsModule, ConfigModule, forwardRef(() => MonitoringModule)],
-  controllers: [NotificationController, TestingController],
-  providers: [AlertService, AlertManager],
+  controllers: [AlertsController, NotificationController, TestingController],
+  providers: [AlertService, AlertRoutingService, AlertManager],
   exports: [AlertService],
 })
 export class AlertModule {}
@@ -0,0 +1,189 @@
+import { AlertRoutingService } from '@alerts/alert-routing.service';
+import { AlertService } from '@alerts/alert.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { ALERTS } from '@common/constants/config';
+import { AlertCategory, AlertManager } from '@common/utils/alert-manager';
+import { ConfigService } from '@config/config.service';
+import { LiveUpdatesService } from '@live/live-updates.service';
+import { MetricsService } from '@metrics/metrics.service';
+import { Test } from '@nestjs/testing';
+import { StateStoreService } from '@state/state-store.service';
+import { AlertRouteDecision } from '@types';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Local PagerDuty Events v2 receiver that keeps every event posted to it
+ */
+class PagerDutyReceiver {
+  events: Record<string, any>[] = [];
+
+  private server: Server;
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        this.events.push(JSON.parse(body));
+        res.statusCode = 202;
+        res.end('{"status":"success"}');
+      });
+    });
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/v2/enqueue`;
+  }
+
+  actions(): string[] {
+    return this.events.map(event => `${event.event_action} ${event.dedup_key}`);
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+// Lets a notification that should not be sent reach the receiver if it were
+const settle = () => new Promise(resolve => setTimeout(resolve, 100));
+
+describe('AlertService escalation', () => {
+  const RPC_DOWN_KEY = 'xdc-monitor:rpc_endpoint_down:rpc:50';
+
+  let receiver: PagerDutyReceiver;
+  let alertService: AlertService;
+  let alertManager: AlertManager;
+  let route: AlertRouteDecision;
+  let routing: { route: jest.Mock };
+
+  const rpcDown = (url: string, alertKey?: string) =>
+    alertService.error(ALERTS.TYPES.RPC_ENDPOINT_DOWN, ALERTS.COMPONENTS.RPC, `Endpoint ${url} is down`, 50, alertKey);
+
+  beforeEach(async () => {
+    receiver = new PagerDutyReceiver();
+    route = { quietHours: false };
+    routing = { route: jest.fn(() => route) };
+    const alertNotifications = {
+      email: {},
+      slack: {},
+      discord: {},
+      pagerDuty: {
+        routingKey: 'test-routing-key',
+        eventsUrl: await receiver.start(),
+        source: 'xdc-monitor',
+        alertTypes: [ALERTS.TYPES.RPC_ENDPOINT_DOWN],
+      },
+      enablePagerDuty: true,
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        AlertService,
+        AlertManager,
+        { provide: ConfigService, useValue: { getMonitoringConfig: () => ({ alertNotifications }) } },
+        { provide: MetricsService, useValue: { saveAlert: jest.fn() } },
+        { provide: StateStoreService, useValue: { register: jest.fn() } },
+        { provide: AlertRoutingService, useValue: routing },
+        {
+          provide: ChainRegistryService,
+          useValue: { getChain: () => ({ chainId: 50, name: 'Mainnet', type: 'mainnet' }) },
+        },
+        { provide: LiveUpdatesService, useValue: { publish: jest.fn() } },
+      ],
+    }).compile();
+
+    moduleRef.useLogger(false);
+    alertService = moduleRef.get(AlertService);
+    alertManager = moduleRef.get(AlertManager);
+  });
+
+  afterEach(() => receiver.stop());
+
+  it('escalates keyed alerts on the escalation list and resolves them when the condition clears', async () => {
+    await rpcDown('https://rpc1.example.org', 'rpc_endpoint_down:https://rpc1.example.org');
+    await waitFor(() => receiver.events.length === 1);
+
+    expect(alertService.getOpenIncidents()[0].escalated).toBe(true);
+
+    await alertService.resolveCondition('rpc_endpoint_down:https://rpc1.example.org', 'Endpoint is back up');
+
+    expect(receiver.actions()).toEqual([`trigger ${RPC_DOWN_KEY}`, `resolve ${RPC_DOWN_KEY}`]);
+  });
+
+  it('does not escalate alerts without an alert key, they would never be resolved', async () => {
+    await rpcDown('https://rpc1.example.org');
+    await settle();
+
+    expect(receiver.events).toHaveLength(0);
+  });
+
+  it('does not escalate alert types missing from the escalation list', async () => {
+    await alertService.error(ALERTS.TYPES.CHAIN_REORG, ALERTS.COMPONENTS.BLOCK, 'Reorg', 50, 'chain_reorg:50');
+    await settle();
+
+    expect(receiver.events).toHaveLength(0);
+    expect(alertService.getOpenIncidents()[0].escalated).toBe(false);
+  });
+
+  it('lets routing rules decide by listing the pagerduty channel', async () => {
+    route = { rule: 'page-on-reorg', channels: ['pagerduty'], quietHours: false };
+    await alertService.error(ALERTS.TYPES.CHAIN_REORG, ALERTS.COMPONENTS.BLOCK, 'Reorg', 50, 'chain_reorg:50');
+    await waitFor(() => receiver.events.length === 1);
+
+    route = { rule: 'telegram-only', channels: ['telegram'], quietHours: false };
+    await rpcDown('https://rpc1.example.org', 'rpc_endpoint_down:https://rpc1.example.org');
+    await settle();
+
+    expect(receiver.actions()).toEqual(['trigger xdc-monitor:chain_reorg:block:50']);
+  });
+
+  it('keeps the escalation open until the last incident sharing its dedup key clears', async () => {
+    route = { quietHours: false, throttleSeconds: 0 };
+    await rpcDown('https://rpc1.example.org', 'rpc_endpoint_down:https://rpc1.example.org');
+    await rpcDown('https://rpc2.example.org', 'rpc_endpoint_down:https://rpc2.example.org');
+    await waitFor(() => receiver.events.length === 2);
+
+    await alertService.resolveCondition('rpc_endpoint_down:https://rpc1.example.org');
+    await settle();
+    expect(receiver.events).toHaveLength(2);
+
+    await alertService.resolveCondition('rpc_endpoint_down:https://rpc2.example.org');
+
+    expect(receiver.actions()).toEqual([
+      `trigger ${RPC_DOWN_KEY}`,
+      `trigger ${RPC_DOWN_KEY}`,
+      `resolve ${RPC_DOWN_KEY}`,
+    ]);
+  });
+
+  it.each([
+    [ALERTS.COMPONENTS.RPC, ALERTS.TYPES.RPC_ENDPOINT_DOWN, AlertCategory.INFRASTRUCTURE],
+    [ALERTS.COMPONENTS.WEBSOCKET, 'websocket_down', AlertCategory.INFRASTRUCTURE],
+    [ALERTS.COMPONENTS.RPC, ALERTS.TYPES.RPC_HIGH_LATENCY, AlertCategory.PERFORMANCE],
+    [ALERTS.COMPONENTS.BLOCK, ALERTS.TYPES.HIGH_BLOCK_TIME, AlertCategory.PERFORMANCE],
+    [ALERTS.COMPONENTS.BLOCK, ALERTS.TYPES.CHAIN_REORG, AlertCategory.BLOCKCHAIN],
+    ['EpochMonitor', ALERTS.TYPES.CONSENSUS_PENALTY_LIST_SIZE_EXCEEDED, AlertCategory.BLOCKCHAIN],
+    ['system', 'metrics_backend_unavailable', AlertCategory.SYSTEM],
+  ])('routes and records %s %s alerts in the %s category', async (component, alertType, category) => {
+    await alertService.warning(alertType, component, 'Something happened', 50);
+
+    expect(routing.route).toHaveBeenCalledWith(expect.objectContaining({ component, alertType, category }));
+    expect(alertManager.getAlerts().map(alert => alert.category)).toEqual([category]);
+  });
+
+  it('does not escalate alerts recorded during quiet hours', async () => {
+    route = { rule: 'night', quietHours: true };
+    await rpcDown('https://rpc1.example.org', 'rpc_endpoint_down:https://rpc1.example.org');
+    await alertService.resolveCondition('rpc_endpoint_down:https://rpc1.example.org');
+    await settle();
+
+    expect(receiver.events).toHaveLength(0);
+  });
+});
@@ -1,11 +1,22 @@
+import { ChainRegistryService } from '@chains/chain-registry.service';
 import { ALERTS, BLOCKCHAIN } from '@common/constants/config';
 import { AlertCategory, AlertManager, Alert as AlertManagerAlert, AlertSeverity } from '@common/utils/alert-manager';
 import { ConfigService } from '@config/config.service';
-import { QueryApi } from '@influxdata/influxdb-client';
+import { LiveUpdatesService } from '@live/live-updates.service';
 import { MetricsService } from '@metrics/metrics.service';
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { Injectable, Logger } from '@nestjs/common';
+import { StateStoreService } from '@state/state-store.service';
+import {
+  AlertFilterOptions,
+  AlertIncident,
+  AlertPage,
+  AlertRouteDecision,
+  AlertSilence,
+  AlertSilenceOptions,
+  ChatWebhookRoutes,
+} from '@types';
 import axios from 'axios';
+import { AlertRoutingService } from './alert-routing.service';
 
 export interface Alert {
   type: 'error' | 'warning' | 'info';
@@ -14,466 +25,160 @@ export interface Alert {
   timestamp: Date;
   component?: string;
   chainId?: number;
+  alertType?: string;
 }
 
-export interface WeeklyAlertReport {
-  startDate: Date;
-  endDate: Date;
-  totalAlerts: number;
-  alertCounts: {
-    error: number;
-    warning: number;
-    info: number;
-  };
-  alertsByComponent: Record<
-    string,
-    {
-      total: number;
-      error: number;
-      warning: number;
-      info: number;
-    }
-  >;
-  alertsByType: Record<string, number>;
-  alertsByChain: {
-    mainnet: {
-      total: number;
-      error: number;
-      warning: number;
-      info: number;
-    };
-    testnet: {
-      total: number;
-      error: number;
-      warning: number;
-      info: number;
-    };
-  };
-  alerts: Alert[];
+interface AlertServiceState {
+  alertThrottling: Record<string, number>;
+  silences: AlertSilence[];
+  incidents: AlertIncident[];
 }
 
 @Injectable()
-export class AlertService implements OnModuleInit {
+export class AlertService {
   private readonly logger = new Logger(AlertService.name);
   private alerts: Alert[] = [];
   private alertThrottling: Record<string, number> = {};
-  private weeklyReports: WeeklyAlertReport[] = [];
-  private lastWeeklyReportDate: Date | null = null;
-  private isInitialized = false;
-  private queryApi: QueryApi;
+  private silences: AlertSilence[] = [];
+  private openIncidents = new Map<string, AlertIncident>();
 
   constructor(
     private readonly configService: ConfigService,
     private readonly metricsService: MetricsService,
     private readonly alertManager: AlertManager,
+    private readonly stateStore: StateStoreService,
+    private readonly alertRouting: AlertRoutingService,
+    private readonly chainRegistry: ChainRegistryService,
+    private readonly liveUpdates: LiveUpdatesService,
   ) {
     this.initializeAlertManager();
-  }
-
-  private async initializeQueryApi(): Promise<void> {
-    const influxConfig = this.configService.getInfluxDbConfig();
-
-    // Try up to 5 times with increasing delays
-    for (let attempt = 1; attempt <= 5; attempt++) {
-      try {
-        const influxClient = this.metricsService.getInfluxClient();
-        if (influxClient) {
-          this.queryApi = influxClient.getQueryApi(influxConfig.org);
-          this.logger.log('InfluxDB query API initialized for alerts service');
-          return;
-        } else {
-          this.logger.debug(
-            `InfluxDB client not available yet (attempt ${attempt}/5), retrying in ${attempt * 1000}ms`,
-          );
-          // Wait before trying again, with increasing delay
-          await new Promise(resolve => setTimeout(resolve, attempt * 1000));
-        }
-      } catch (error) {
-        this.logger.warn(`Failed to initialize InfluxDB query API (attempt ${attempt}/5): ${error.message}`);
-        // Wait before trying again
-        await new Promise(resolve => setTimeout(resolve, attempt * 1000));
-      }
-    }
-
-    this.logger.warn(
-      'Unable to initialize InfluxDB query API after multiple attempts - will use in-memory alerts only',
-    );
+    this.registerStateProvider();
   }
 
   /**
-   * Query alerts from InfluxDB for a specific date range
+   * Query alerts stored in the metrics backend for a specific date range
    * This ensures we get all alerts, even those that occurred before the app started
    */
-  async queryAlertsFromInfluxDB(startDate: Date, endDate: Date): Promise<Alert[]> {
-    if (!this.queryApi) {
-      this.logger.warn('InfluxDB query API not initialized, falling back to in-memory alerts');
-      return this.alerts.filter(alert => alert.timestamp >= startDate && alert.timestamp <= endDate);
-    }
-
-    const bucket = this.configService.getInfluxDbConfig().bucket;
-    const startTime = startDate.toISOString();
-    const endTime = endDate.toISOString();
+  async queryAlertHistory(startDate: Date, endDate: Date): Promise<Alert[]> {
+    const inMemoryAlerts = () =>
+      this.alerts.filter(alert => alert.timestamp >= startDate && alert.timestamp <= endDate);
 
     try {
-      this.logger.log(`Querying alerts from InfluxDB from ${startTime} to ${endTime}`);
+      this.logger.log(`Querying alert history from ${startDate.toISOString()} to ${endDate.toISOString()}`);
 
-      // Query alert_history measurement from InfluxDB
-      const query = `
-        from(bucket: "${bucket}")
-          |> range(start: ${startTime}, stop: ${endTime})
-          |> filter(fn: (r) => r._measurement == "alert_history")
-          |> pivot(rowKey:["_time"], columnKey: ["_field"], valueColumn: "_value")
-      `;
+      const records = await this.metricsService.queryMetrics({
+        measurement: 'alert_history',
+        start: startDate,
+        end: endDate,
+      });
+      if (records === null) {
+        this.logger.warn('Metrics backend not queryable, falling back to in-memory alerts');
+        return inMemoryAlerts();
+      }
 
       const results: Alert[] = [];
-      const rows = await this.queryApi.collectRows(query);
-
-      for (const row of rows) {
-        // Cast row to an object with the expected properties
-        const typedRow = row as {
-          type: string;
-          title: string;
-          value: string;
-          _time: string;
-          component: string;
-          chainId: number | undefined;
-        };
-
+      for (const { tags, fields, timestamp } of records) {
         // Only add if it has the required properties
-        if (typedRow.type && typedRow.title && typedRow._time) {
+        if (tags.type && tags.title) {
+          const chainId = parseInt(tags.chainId, 10);
           results.push({
-            type: typedRow.type as 'error' | 'warning' | 'info',
-            title: typedRow.title,
-            message: typedRow.value || '',
-            timestamp: new Date(typedRow._time),
-            component: typedRow.component || 'system',
-            chainId: typedRow.chainId || undefined,
+            type: tags.type as 'error' | 'warning' | 'info',
+            title: tags.title,
+            message: String(fields.value ?? ''),
+            timestamp,
+            component: tags.component || 'system',
+            chainId: isNaN(chainId) ? undefined : chainId,
           });
         }
       }
 
-      this.logger.log(`Retrieved ${results.length} alerts from InfluxDB`);
+      this.logger.log(`Retrieved ${results.length} alerts from alert history`);
       return results;
     } catch (error) {
-      this.logger.error(`Failed to query alerts from InfluxDB: ${error.message}`);
-      // Fall back to in-memory alerts if InfluxDB query fails
-      return this.alerts.filter(alert => alert.timestamp >= startDate && alert.timestamp <= endDate);
-    }
-  }
-
-  async onModuleInit() {
-    // Initialize InfluxDB query API first
-    await this.initializeQueryApi();
-
-    // Only generate initial report if we haven't initialized yet
-    if (!this.isInitialized) {
-      await this.generateWeeklyReportIfNeeded();
-      this.isInitialized = true;
+      this.logger.error(`Failed to query alert history: ${error.message}`);
+      // Fall back to in-memory alerts if the query fails
+      return inMemoryAlerts();
     }
   }
 
   /**
-   * Generate weekly report if it's time (every Sunday at midnight)
+   * Alerts raised in a date range, stored alerts plus in-memory alerts that are not stored yet
    */
-  @Cron(CronExpression.EVERY_WEEK)
-  async generateWeeklyReportIfNeeded() {
-    // Skip if we're not initialized yet (let onModuleInit handle it)
-    if (!this.isInitialized) {
-      return;
-    }
-
-    const now = new Date();
-    const lastReport = this.lastWeeklyReportDate;
-
-    // If we've never generated a report or it's been more than 6 days
-    if (!lastReport || now.getTime() - lastReport.getTime() > 6 * 24 * 60 * 60 * 1000) {
-      try {
-        // Generate report for the past week
-        const report = await this.generateWeeklyReport(new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000), now);
-
-        // Send report to configured channels
-        await this.sendWeeklyReport(report);
-
-        // Update last report date
-        this.lastWeeklyReportDate = now;
-
-        this.logger.log('Weekly alert report generated and sent successfully');
-      } catch (error) {
-        this.logger.error(`Failed to generate weekly report: ${error.message}`);
+  async getAlertsInRange(startDate: Date, endDate: Date): Promise<Alert[]> {
+    const alertsInRange = await this.queryAlertHistory(startDate, endDate);
+
+    // Stored and in-memory copies of an alert share the same timestamp
+    const existingTimestamps = new Set(alertsInRange.map(alert => alert.timestamp.getTime()));
+    for (const alert of this.alerts) {
+      if (
+        alert.timestamp >= startDate &&
+        alert.timestamp <= endDate &&
+        !existingTimestamps.has(alert.timestamp.getTime())
+      ) {
+        alertsInRange.push(alert);
       }
     }
-  }
-
-  /**
-   * Send weekly report to configured channels
-   */
-  public async sendWeeklyReport(report: WeeklyAlertReport): Promise<void> {
-    // Format report for sending
-    const message = this.formatWeeklyReportMessage(report);
-
-    // Create a unique key for this report to prevent duplicates
-    const reportKey = `weekly_report_${report.startDate.getTime()}_${report.endDate.getTime()}`;
-
-    // Check if we've already sent this report
-    if (this.alertThrottling[reportKey]) {
-      this.logger.debug('Weekly report already sent, skipping duplicate');
-      return;
-    }
 
-    try {
-      // Use AlertManager to send report
-      this.alertManager.addAlert({
-        severity: AlertSeverity.INFO,
-        category: AlertCategory.SYSTEM,
-        component: 'system',
-        title: 'Weekly Alert Report',
-        message: message,
-        shouldNotify: true,
-      });
-
-      // Mark this report as sent
-      this.alertThrottling[reportKey] = Date.now();
-
-      this.logger.log('Weekly report sent successfully');
-    } catch (error) {
-      this.logger.error(`Failed to send weekly report: ${error.message}`);
-    }
+    return alertsInRange;
   }
 
   /**
-   * Get the formatted weekly report message
-   * This returns the same text that would be sent to Telegram
+   * Send a formatted report to the notification channels as an info alert
    */
-  public getFormattedWeeklyReportMessage(report: WeeklyAlertReport): string {
-    return this.formatWeeklyReportMessage(report);
+  public sendReport(title: string, message: string, reportType: string): void {
+    this.alertManager.addAlert({
+      severity: AlertSeverity.INFO,
+      category: AlertCategory.SYSTEM,
+      component: 'system',
+      title,
+      message,
+      shouldNotify: true,
+      metadata: { reportType },
+    });
   }
 
   /**
-   * Format a severity table for the weekly report
+   * Send a test alert through the email channel only
    */
-  private formatSeverityTable(counts: { error: number; warning: number; info: number }, title: string): string {
-    let message = `<b>${title}:</b>\n`;
-    message += `<pre>`;
-    message += `+--------------+--------+\n`;
-    message += `| Severity     | Count  |\n`;
-    message += `+--------------+--------+\n`;
-
-    if (counts.error > 0 || counts.warning > 0 || counts.info > 0) {
-      message += `| Errors       | ${String(counts.error).padEnd(6)} |\n`;
-      message += `| Warnings     | ${String(counts.warning).padEnd(6)} |\n`;
-      message += `| Info         | ${String(counts.info).padEnd(6)} |\n`;
-    } else {
-      message += `| No alerts    | -      |\n`;
-    }
-
-    message += `+--------------+--------+\n`;
-    message += `</pre>\n\n`;
-
-    return message;
+  public sendTestEmail(severity: AlertSeverity, chainId?: number): AlertManagerAlert {
+    return this.alertManager.addAlert({
+      severity,
+      category: AlertCategory.SYSTEM,
+      component: 'Testing',
+      title: this.formatAlertTitle('email_test_alert'),
+      message: `This is a test ${severity} email notification from XDC Monitor`,
+      chainId,
+      shouldNotify: true,
+      notificationChannels: ['email'],
+      metadata: { chainId },
+    });
   }
 
   /**
-   * Format weekly report into a readable message
+   * Trigger or resolve a test escalation through the PagerDuty channel only
+   * Both actions use the same dedup key, so a resolve closes the incident opened by the trigger
+   * @returns The escalation dedup key
    */
-  private formatWeeklyReportMessage(report: WeeklyAlertReport): string {
-    const startDate = report.startDate.toLocaleDateString();
-    const endDate = report.endDate.toLocaleDateString();
-
-    let message = `🔵 <b>Weekly Alert Report</b>\n`;
-    message += `<b>Period:</b> ${startDate} to ${endDate}\n\n`;
-
-    // Total alerts
-    message += `<b>Total Alerts:</b> ${report.totalAlerts}\n\n`;
+  public async sendTestEscalation(action: 'trigger' | 'resolve', chainId?: number): Promise<string> {
+    const source = { alertType: 'escalation_test_alert', component: 'Testing', chainId };
 
-    // Overall alert statistics
-    message += this.formatSeverityTable(report.alertCounts, 'Overall Alert Statistics');
-
-    // MAINNET SECTION
-    message += `\n🔷 <b>MAINNET ALERTS</b> (Total: ${report.alertsByChain.mainnet.total})\n\n`;
-
-    // Mainnet severity breakdown
-    message += this.formatSeverityTable(report.alertsByChain.mainnet, 'Mainnet Alert Breakdown');
-
-    // Get Mainnet components
-    const mainnetComponents = this.getComponentCounts(report.alerts, alert => this.isMainnetAlert(alert));
-    message += this.formatComponentsTable(mainnetComponents, 'Mainnet Components');
-
-    // TESTNET SECTION
-    message += `\n🔶 <b>TESTNET ALERTS</b> (Total: ${report.alertsByChain.testnet.total})\n\n`;
-
-    // Testnet severity breakdown
-    message += this.formatSeverityTable(report.alertsByChain.testnet, 'Testnet Alert Breakdown');
-
-    // Get Testnet components
-    const testnetComponents = this.getComponentCounts(report.alerts, alert => this.isTestnetAlert(alert));
-    message += this.formatComponentsTable(testnetComponents, 'Testnet Components');
-
-    // Most frequent alert types
-    message += `\n<b>Most Frequent Alert Types:</b>\n`;
-    message += `<pre>`;
-    message += `+-------------------------------------------------+--------+\n`;
-    message += `| Alert Type                                      | Count  |\n`;
-    message += `+-------------------------------------------------+--------+\n`;
-
-    const sortedTypes = Object.entries(report.alertsByType)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 5);
-
-    if (sortedTypes.length > 0) {
-      sortedTypes.forEach(([type, count]) => {
-        // For consistent table width, we pad strings with spaces
-        const typeStr = type.length > 47 ? type.substring(0, 44) + '...' : type;
-        message += `| ${typeStr.padEnd(47)} | ${String(count).padEnd(6)} |\n`;
-      });
+    if (action === 'resolve') {
+      await this.alertManager.resolveEscalation(source);
     } else {
-      message += `| No alert types recorded                           | -      |\n`;
-    }
-
-    message += `+-------------------------------------------------+--------+\n`;
-    message += `</pre>\n`;
-
-    return message;
-  }
-
-  /**
-   * Generate a weekly report of alerts
-   */
-  async generateWeeklyReport(startDate?: Date, endDate?: Date): Promise<WeeklyAlertReport> {
-    const now = new Date();
-    const reportStartDate = startDate || new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000); // Default to last 7 days
-    const reportEndDate = endDate || now;
-
-    // Get alerts from both in-memory array and InfluxDB
-    let alertsInRange: Alert[] = [];
-
-    try {
-      // Query alerts from InfluxDB to ensure we have complete history
-      alertsInRange = await this.queryAlertsFromInfluxDB(reportStartDate, reportEndDate);
-
-      // Add any in-memory alerts that might not be in InfluxDB yet
-      const inMemoryAlerts = this.alerts.filter(
-        alert => alert.timestamp >= reportStartDate && alert.timestamp <= reportEndDate,
-      );
-
-      // Create a Set of timestamps to avoid duplicates
-      const existingTimestamps = new Set(alertsInRange.map(a => a.timestamp.getTime()));
-
-      // Add in-memory alerts that aren't already in the results
-      for (const alert of inMemoryAlerts) {
-        if (!existingTimestamps.has(alert.timestamp.getTime())) {
-          alertsInRange.push(alert);
-        }
-      }
-
-      this.logger.log(
-        `Generated weekly report with ${alertsInRange.length} alerts from ${reportStartDate.toISOString()} to ${reportEndDate.toISOString()}`,
-      );
-    } catch (error) {
-      this.logger.error(`Error fetching alerts for report: ${error.message}, falling back to in-memory alerts only`);
-      // Fallback to in-memory alerts only
-      alertsInRange = this.alerts.filter(
-        alert => alert.timestamp >= reportStartDate && alert.timestamp <= reportEndDate,
-      );
-    }
-
-    // Initialize report structure
-    const report: WeeklyAlertReport = {
-      startDate: reportStartDate,
-      endDate: reportEndDate,
-      totalAlerts: alertsInRange.length,
-      alertCounts: {
-        error: 0,
-        warning: 0,
-        info: 0,
-      },
-      alertsByComponent: {},
-      alertsByType: {},
-      alertsByChain: {
-        mainnet: {
-          total: 0,
-          error: 0,
-          warning: 0,
-          info: 0,
-        },
-        testnet: {
-          total: 0,
-          error: 0,
-          warning: 0,
-          info: 0,
-        },
-      },
-      alerts: alertsInRange,
-    };
-
-    // Process each alert to generate statistics
-    alertsInRange.forEach(alert => {
-      // Count by severity
-      report.alertCounts[alert.type]++;
-
-      // Count by component
-      const component = alert.component || 'system';
-      if (!report.alertsByComponent[component]) {
-        report.alertsByComponent[component] = {
-          total: 0,
-          error: 0,
-          warning: 0,
-          info: 0,
-        };
-      }
-      report.alertsByComponent[component].total++;
-      report.alertsByComponent[component][alert.type]++;
-
-      // Count by alert type (title)
-      report.alertsByType[alert.title] = (report.alertsByType[alert.title] || 0) + 1;
-
-      // Determine which chain this alert belongs to
-      if (this.isTestnetAlert(alert)) {
-        report.alertsByChain.testnet.total++;
-        report.alertsByChain.testnet[alert.type]++;
-      } else {
-        // All non-testnet alerts are assigned to mainnet by default
-        report.alertsByChain.mainnet.total++;
-        report.alertsByChain.mainnet[alert.type]++;
-      }
-    });
-
-    // Log component and chain statistics for debugging
-    this.logger.debug(`Weekly report generated with ${alertsInRange.length} alerts`);
-    this.logger.debug(`Components found: ${Object.keys(report.alertsByComponent).length}`);
-    this.logger.debug(
-      `Network breakdown - Mainnet: ${report.alertsByChain.mainnet.total}, Testnet: ${report.alertsByChain.testnet.total}`,
-    );
-
-    // Store the report
-    this.weeklyReports.push(report);
-
-    // Keep only last 4 weeks of reports
-    if (this.weeklyReports.length > 4) {
-      this.weeklyReports.shift();
+      this.alertManager.addAlert({
+        ...source,
+        severity: AlertSeverity.CRITICAL,
+        category: AlertCategory.SYSTEM,
+        title: this.formatAlertTitle(source.alertType),
+        message: 'This is a test escalation from XDC Monitor',
+        shouldNotify: true,
+        notificationChannels: ['pagerduty'],
+        escalate: true,
+        metadata: { chainId },
+      });
     }
 
-    return report;
-  }
-
-  /**
-   * Get all weekly reports
-   */
-  getWeeklyReports(): WeeklyAlertReport[] {
-    return this.weeklyReports;
-  }
-
-  /**
-   * Get the most recent weekly report
-   */
-  getLatestWeeklyReport(): WeeklyAlertReport | null {
-    return this.weeklyReports.length > 0 ? this.weeklyReports[this.weeklyReports.length - 1] : null;
-  }
-
-  /**
-   * Generate a weekly report on demand for a specific time range
-   */
-  async getWeeklyReportForRange(startDate: Date, endDate: Date): Promise<WeeklyAlertReport> {
-    return this.generateWeeklyReport(startDate, endDate);
+    return this.alertManager.getEscalationDedupKey(source);
   }
 
   /**
@@ -540,7 +245,7 @@ export class AlertService implements OnModuleInit {
   }
 
   /**
-   * Clear old alerts and reports
+   * Clear old alerts
    */
   clearOldData(maxAgeDays: number = 30): void {
     const cutoffDate = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000);
@@ -548,10 +253,28 @@ export class AlertService implements OnModuleInit {
     // Clear old alerts
     this.alerts = this.alerts.filter(alert => alert.timestamp >= cutoffDate);
 
-    // Clear old reports
-    this.weeklyReports = this.weeklyReports.filter(report => report.endDate >= cutoffDate);
+    this.logger.log(`Cleared alerts older than ${maxAgeDays} days`);
+  }
 
-    this.logger.log(`Cleared alerts and reports older than ${maxAgeDays} days`);
+  /**
+   * Persist alert throttling timestamps, silences and open incidents so a restart neither re-sends
+   * suppressed alerts nor loses the pending recovery notifications
+   */
+  private registerStateProvider(): void {
+    this.stateStore.register<AlertServiceState>(AlertService.name, {
+      snapshot: () => ({
+        alertThrottling: { ...this.alertThrottling },
+        silences: this.getActiveSilences(),
+        incidents: this.getOpenIncidents(),
+      }),
+      restore: state => {
+        this.alertThrottling = { ...state.alertThrottling, ...this.alertThrottling };
+        this.silences = [...(state.silences || []), ...this.silences];
+        (state.incidents || []).forEach(incident => {
+          if (!this.openIncidents.has(incident.key)) this.openIncidents.set(incident.key, incident);
+        });
+      },
+    });
   }
 
   /**
@@ -591,6 +314,49 @@ export class AlertService implements OnModuleInit {
       });
     }
 
+    // Add email channel if an SMTP host is configured
+    if (alertConfig.email.host) {
+      channels.push({
+        id: 'email',
+        name: 'Email Notifications',
+        type: 'email' as const,
+        enabled: alertConfig.enableEmail,
+        config: alertConfig.email,
+      });
+    }
+
+    // Add Slack and Discord channels if any of their webhook routes is configured
+    if (this.hasChatWebhookRoute(alertConfig.slack)) {
+      channels.push({
+        id: 'slack',
+        name: 'Slack Notifications',
+        type: 'slack' as const,
+        enabled: alertConfig.enableSlack,
+        config: alertConfig.slack,
+      });
+    }
+
+    if (this.hasChatWebhookRoute(alertConfig.discord)) {
+      channels.push({
+        id: 'discord',
+        name: 'Discord Notifications',
+        type: 'discord' as const,
+        enabled: alertConfig.enableDiscord,
+        config: alertConfig.discord,
+      });
+    }
+
+    // Add PagerDuty escalation channel if a routing key is configured
+    if (alertConfig.pagerDuty.routingKey) {
+      channels.push({
+        id: 'pagerduty',
+        name: 'PagerDuty Escalation',
+        type: 'pagerduty' as const,
+        enabled: alertConfig.enablePagerDuty,
+        config: alertConfig.pagerDuty,
+      });
+    }
+
     // Add dashboard channel
     channels.push({
       id: 'dashboard',
@@ -603,6 +369,10 @@ export class AlertService implements OnModuleInit {
     this.alertManager.configureNotificationChannels(channels);
   }
 
+  private hasChatWebhookRoute(routes: ChatWebhookRoutes): boolean {
+    return Boolean(routes.webhookUrl || routes.mainnetWebhookUrl || routes.testnetWebhookUrl);
+  }
+
   /**
    * Get all alerts
    */
@@ -660,8 +430,16 @@ export class AlertService implements OnModuleInit {
 
   /**
    * Add a new alert and potentially send notifications
+   *
+   * @param route Routing decision already made for the alert, routed here when omitted
+   * @param escalate Whether a critical alert pages through the escalation channels
    */
-  async addAlert(alert: Omit<Alert, 'timestamp'>, chainId?: number): Promise<void> {
+  async addAlert(
+    alert: Omit<Alert, 'timestamp'>,
+    chainId?: number,
+    route?: AlertRouteDecision,
+    escalate = false,
+  ): Promise<AlertManagerAlert> {
     this.logger.log(
       `AlertService.addAlert called with chainId: ${chainId}, alert type: ${alert.type}, title: ${alert.title}`,
     );
@@ -682,54 +460,128 @@ export class AlertService implements OnModuleInit {
     }
 
     this.logger.log(`AlertService.addAlert calling AlertManager.addAlert with chainId: ${chainId}`);
+    // Active silences keep the alert on record but suppress Telegram and webhook notifications
+    const silence = this.findMatchingSilence(alert.alertType, alert.component, chainId);
+    if (silence) {
+      this.logger.log(
+        `Alert "${alert.title}" silenced by ${silence.id} until ${new Date(silence.expiresAt).toISOString()}`,
+      );
+    }
+
+    const decision = route ?? this.routeAlert(alert.type, alert.component, alert.message, chainId, alert.alertType);
+    if (decision.quietHours) {
+      this.logger.log(`Alert "${alert.title}" recorded without notification, quiet hours of rule ${decision.rule}`);
+    }
+
     // Use the AlertManager for new alerts
-    this.alertManager.addAlert({
+    const managerAlert = this.alertManager.addAlert({
       severity: this.mapTypeToSeverity(alert.type),
-      category: AlertCategory.BLOCKCHAIN,
+      category: this.getAlertCategory(alert.component, alert.alertType),
       component: alert.component || 'system',
+      alertType: alert.alertType,
       title: alert.title,
       message: alert.message,
       chainId: chainId,
-      shouldNotify: true,
+      shouldNotify: !silence && !decision.quietHours,
+      notificationChannels: decision.channels,
+      escalate,
       metadata: {
         chainId: chainId,
+        silenceId: silence?.id,
+        routingRule: decision.rule,
+        telegramTopicId: decision.telegramTopicId,
       },
     });
 
     this.metricsService.saveAlert(fullAlert, chainId);
+    this.publishAlert(managerAlert);
+    return managerAlert;
+  }
+
+  /**
+   * Stream a new alert to live update clients
+   */
+  private publishAlert(alert: AlertManagerAlert): void {
+    this.liveUpdates.publish('alerts', alert.chainId, 'created', {
+      id: alert.id,
+      severity: alert.severity,
+      alertType: alert.alertType,
+      component: alert.component,
+      title: alert.title,
+      message: alert.message,
+      notified: alert.shouldNotify !== false,
+      timestamp: alert.timestamp,
+    });
   }
 
   /**
    * Create an error-level alert
+   *
+   * @param alertKey Optional stateful key identifying the condition, used to send a RESOLVED
+   *                 notification once the monitor calls resolveCondition with the same key.
+   *                 Only keyed alerts are escalated, so every escalation gets its resolve event
    */
-  async error(alertType: string, component: string, message: string, chainId?: number): Promise<void> {
+  async error(
+    alertType: string,
+    component: string,
+    message: string,
+    chainId?: number,
+    alertKey?: string,
+  ): Promise<void> {
     this.logger.log(
       `AlertService.error called - alertType: ${alertType}, component: ${component}, chainId: ${chainId}`,
     );
 
-    if (this.shouldThrottle(alertType, message, chainId)) {
+    const route = this.routeAlert('error', component, message, chainId, alertType);
+    if (this.shouldThrottle(alertType, message, chainId, route.throttleSeconds)) {
       this.logger.debug(`Throttling error alert: ${alertType}`);
       return;
     }
 
     this.logger.log(`AlertService.error calling addAlert with chainId: ${chainId}`);
-    await this.addAlert(
+    const managerAlert = await this.addAlert(
       {
         type: 'error',
         component,
         title: this.formatAlertTitle(alertType),
         message,
+        alertType,
       },
       chainId,
+      route,
+      Boolean(alertKey) && this.shouldEscalate(alertType, route),
     );
+
+    if (alertKey) this.trackIncident(alertKey, managerAlert);
+  }
+
+  /**
+   * Whether an error alert pages through the escalation channels
+   * A routing rule that picks the channels escalates by listing the pagerduty channel,
+   * otherwise the alert type has to be on the escalation list
+   */
+  private shouldEscalate(alertType: string, route: AlertRouteDecision): boolean {
+    if (route.channels) return route.channels.includes('pagerduty');
+
+    return this.configService.getMonitoringConfig().alertNotifications.pagerDuty.alertTypes.includes(alertType);
   }
 
   /**
    * Create a warning-level alert
-   * Warnings are saved to the database but not sent as notifications
+   * Warnings are saved to the database but not sent as notifications,
+   * unless a routing rule explicitly sends them to channels
+   *
+   * @param alertKey Optional stateful key identifying the condition, see error()
    */
-  async warning(alertType: string, component: string, message: string, chainId?: number): Promise<void> {
-    if (this.shouldThrottle(alertType, message, chainId)) {
+  async warning(
+    alertType: string,
+    component: string,
+    message: string,
+    chainId?: number,
+    alertKey?: string,
+  ): Promise<void> {
+    const route = this.routeAlert('warning', component, message, chainId, alertType);
+    if (this.shouldThrottle(alertType, message, chainId, route.throttleSeconds)) {
       this.logger.debug(`Throttling warning alert: ${alertType}`);
       return;
     }
@@ -743,6 +595,7 @@ export class AlertService implements OnModuleInit {
       title: this.formatAlertTitle(alertType),
       message,
       chainId,
+      alertType,
     };
 
     // Add to legacy alerts
@@ -757,29 +610,40 @@ export class AlertService implements OnModuleInit {
       this.alerts.shift();
     }
 
-    // Use the AlertManager with shouldNotify false
-    this.alertManager.addAlert({
+    const routed = route.channels?.length > 0 && !route.quietHours;
+    const silence = routed ? this.findMatchingSilence(alertType, component, chainId) : undefined;
+
+    const managerAlert = this.alertManager.addAlert({
       severity: AlertSeverity.WARNING,
-      category: AlertCategory.BLOCKCHAIN,
+      category: this.getAlertCategory(component, alertType),
       component: component || 'system',
+      alertType,
       title: this.formatAlertTitle(alertType),
       message,
       chainId: chainId,
-      shouldNotify: false,
+      shouldNotify: routed && !silence,
+      notificationChannels: route.channels,
       metadata: {
         chainId,
+        silenceId: silence?.id,
+        routingRule: route.rule,
+        telegramTopicId: route.telegramTopicId,
       },
     });
 
     // Save to metrics database
     this.metricsService.saveAlert(fullAlert, chainId);
+    this.publishAlert(managerAlert);
+
+    if (alertKey) this.trackIncident(alertKey, managerAlert);
   }
 
   /**
    * Create an info-level alert
    */
   async info(alertType: string, component: string, message: string, chainId?: number): Promise<void> {
-    if (this.shouldThrottle(alertType, message, chainId)) {
+    const route = this.routeAlert('info', component, message, chainId, alertType);
+    if (this.shouldThrottle(alertType, message, chainId, route.throttleSeconds)) {
       this.logger.debug(`Throttling info alert: ${alertType}`);
       return;
     }
@@ -790,8 +654,225 @@ export class AlertService implements OnModuleInit {
         component,
         title: this.formatAlertTitle(alertType),
         message,
+        alertType,
       },
       chainId,
+      route,
+    );
+  }
+
+  /**
+   * Mark the condition behind a stateful alert key as cleared
+   * Resolves every alert raised for the incident and, if the incident was notified,
+   * sends a RESOLVED notification including how long the incident lasted
+   *
+   * @param alertKey Key passed to error() or warning() when the condition was raised
+   * @param message Optional recovery details appended to the notification
+   * @returns True if an open incident was resolved
+   */
+  async resolveCondition(alertKey: string, message?: string): Promise<boolean> {
+    const incident = this.openIncidents.get(alertKey);
+    if (!incident) return false;
+
+    this.openIncidents.delete(alertKey);
+    incident.alertIds.forEach(alertId => this.alertManager.resolveAlert(alertId, 'auto'));
+
+    const duration = this.formatIncidentDuration(Date.now() - incident.startedAt);
+    this.logger.log(`Incident ${alertKey} resolved after ${duration}`);
+
+    if (incident.escalated) {
+      await this.resolveEscalation(incident);
+    }
+
+    if (incident.notified) {
+      await this.addAlert(
+        {
+          type: 'info',
+          component: incident.component,
+          title: `RESOLVED: ${incident.title}`,
+          message: `${message || 'The condition has cleared.'}\n\nIncident duration: ${duration} (since ${new Date(incident.startedAt).toISOString()})`,
+          alertType: incident.alertType,
+        },
+        incident.chainId,
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Resolve the escalated incident for a cleared condition
+   * Other open incidents can share the same dedup key (e.g. two endpoints of one chain down),
+   * the escalation stays open until the last of them clears
+   */
+  private async resolveEscalation(incident: AlertIncident): Promise<void> {
+    const dedupKey = this.alertManager.getEscalationDedupKey(incident);
+    const stillOpen = Array.from(this.openIncidents.values()).some(
+      open => open.escalated && this.alertManager.getEscalationDedupKey(open) === dedupKey,
+    );
+
+    if (stillOpen) {
+      this.logger.debug(`Escalation ${dedupKey} still has open incidents, not resolving it yet`);
+      return;
+    }
+
+    await this.alertManager.resolveEscalation(incident);
+  }
+
+  /**
+   * Get incidents whose condition has not cleared yet
+   */
+  getOpenIncidents(): AlertIncident[] {
+    return Array.from(this.openIncidents.values());
+  }
+
+  /**
+   * Open an incident for a stateful alert key, or attach the alert to the already open one
+   */
+  private trackIncident(alertKey: string, alert: AlertManagerAlert): void {
+    const notified = alert.shouldNotify !== false;
+    const escalated = notified && alert.severity === AlertSeverity.CRITICAL && alert.escalate === true;
+    const incident = this.openIncidents.get(alertKey);
+
+    if (incident) {
+      incident.alertIds.push(alert.id);
+      incident.lastAlertAt = alert.timestamp;
+      incident.notified = incident.notified || notified;
+      incident.escalated = incident.escalated || escalated;
+      return;
+    }
+
+    this.openIncidents.set(alertKey, {
+      key: alertKey,
+      alertType: alert.alertType,
+      component: alert.component,
+      chainId: alert.chainId,
+      title: alert.title,
+      notified,
+      escalated,
+      alertIds: [alert.id],
+      startedAt: alert.timestamp,
+      lastAlertAt: alert.timestamp,
+    });
+  }
+
+  /**
+   * Format an incident duration as a short human readable string
+   */
+  private formatIncidentDuration(durationMs: number): string {
+    const totalMinutes = Math.floor(durationMs / 60000);
+    const days = Math.floor(totalMinutes / 1440);
+    const hours = Math.floor((totalMinutes % 1440) / 60);
+    const minutes = totalMinutes % 60;
+
+    if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    if (minutes > 0) return `${minutes}m`;
+    return `${Math.max(Math.round(durationMs / 1000), 0)}s`;
+  }
+
+  /**
+   * List alerts with filtering and pagination, newest first
+   */
+  listAlerts(
+    filter: AlertFilterOptions,
+    page = 1,
+    pageSize: number = ALERTS.LIFECYCLE.DEFAULT_PAGE_SIZE,
+  ): AlertPage<AlertManagerAlert> {
+    const size = Math.min(Math.max(pageSize, 1), ALERTS.LIFECYCLE.MAX_PAGE_SIZE);
+    const alerts = this.alertManager.getAlerts(filter);
+    const totalPages = Math.max(Math.ceil(alerts.length / size), 1);
+    const currentPage = Math.min(Math.max(page, 1), totalPages);
+
+    return {
+      items: alerts.slice((currentPage - 1) * size, currentPage * size),
+      total: alerts.length,
+      page: currentPage,
+      pageSize: size,
+      totalPages,
+    };
+  }
+
+  /**
+   * Get a single alert by ID
+   */
+  getAlert(alertId: string): AlertManagerAlert | undefined {
+    return this.alertManager.getAlert(alertId);
+  }
+
+  /**
+   * Acknowledge an alert, returns the updated alert or undefined if it does not exist
+   */
+  acknowledgeAlert(alertId: string, acknowledgedBy?: string): AlertManagerAlert | undefined {
+    if (!this.alertManager.acknowledgeAlert(alertId, acknowledgedBy)) return undefined;
+
+    this.logger.log(`Alert ${alertId} acknowledged${acknowledgedBy ? ` by ${acknowledgedBy}` : ''}`);
+    return this.alertManager.getAlert(alertId);
+  }
+
+  /**
+   * Resolve an alert, returns the updated alert or undefined if it does not exist
+   */
+  resolveAlert(alertId: string, resolvedBy?: string): AlertManagerAlert | undefined {
+    if (!this.alertManager.resolveAlert(alertId, resolvedBy)) return undefined;
+
+    this.logger.log(`Alert ${alertId} resolved${resolvedBy ? ` by ${resolvedBy}` : ''}`);
+    return this.alertManager.getAlert(alertId);
+  }
+
+  /**
+   * Create a time-boxed silence for alerts matching type, component and chain ID
+   */
+  createSilence(options: AlertSilenceOptions): AlertSilence {
+    const now = Date.now();
+    const silence: AlertSilence = {
+      id: `silence-${now}-${Math.random().toString(36).substring(2, 7)}`,
+      alertType: options.alertType,
+      component: options.component,
+      chainId: options.chainId,
+      reason: options.reason,
+      createdBy: options.createdBy,
+      createdAt: now,
+      expiresAt: now + options.durationMinutes * 60 * 1000,
+    };
+
+    this.silences.push(silence);
+    this.logger.log(
+      `Created silence ${silence.id} (type=${silence.alertType || '*'}, component=${silence.component || '*'}, chain=${silence.chainId || '*'}) until ${new Date(silence.expiresAt).toISOString()}`,
+    );
+    return silence;
+  }
+
+  /**
+   * Get silences that have not expired yet
+   */
+  getActiveSilences(): AlertSilence[] {
+    const now = Date.now();
+    this.silences = this.silences.filter(silence => silence.expiresAt > now);
+    return [...this.silences];
+  }
+
+  /**
+   * Expire a silence before its end time
+   */
+  expireSilence(silenceId: string): boolean {
+    const silence = this.silences.find(s => s.id === silenceId && s.expiresAt > Date.now());
+    if (!silence) return false;
+
+    silence.expiresAt = Date.now();
+    this.logger.log(`Silence ${silenceId} expired manually`);
+    return true;
+  }
+
+  /**
+   * Find an active silence matching the alert, unset silence matchers match any value
+   */
+  private findMatchingSilence(alertType?: string, component?: string, chainId?: number): AlertSilence | undefined {
+    return this.getActiveSilences().find(
+      silence =>
+        (!silence.alertType || silence.alertType === alertType) &&
+        (!silence.component || silence.component === component) &&
+        (!silence.chainId || silence.chainId === chainId),
     );
   }
 
@@ -802,8 +883,15 @@ export class AlertService implements OnModuleInit {
    * The primary throttling happens in BlocksMonitorService.checkForBlockHeightLag
    * which prevents alerts from even reaching this method during the throttle period.
    * Both use the same config value: ALERTS.NOTIFICATIONS.THROTTLE_SECONDS.SYNC_BLOCKS_LAG
+   *
+   * @param throttleSecondsOverride Throttle window from a matching routing rule, replaces the per-type window
    */
-  private shouldThrottle(alertType: string, message?: string, chainId?: number): boolean {
+  private shouldThrottle(
+    alertType: string,
+    message?: string,
+    chainId?: number,
+    throttleSecondsOverride?: number,
+  ): boolean {
     const now = Date.now();
 
     // Create a throttling key that includes chainId to throttle alerts per chain
@@ -814,8 +902,10 @@ export class AlertService implements OnModuleInit {
     let throttleSeconds =
       ALERTS.NOTIFICATIONS.THROTTLE_SECONDS[alertType] || ALERTS.NOTIFICATIONS.THROTTLE_SECONDS.DEFAULT;
 
-    // For SYNC_BLOCKS_LAG alerts, check if multiple endpoints are affected and use longer throttling
-    if (alertType === ALERTS.TYPES.SYNC_BLOCKS_LAG && message) {
+    if (throttleSecondsOverride !== undefined) {
+      throttleSeconds = throttleSecondsOverride;
+    } else if (alertType === ALERTS.TYPES.SYNC_BLOCKS_LAG && message) {
+      // For SYNC_BLOCKS_LAG alerts, check if multiple endpoints are affected and use longer throttling
       // Extract number of affected endpoints from the message
       const matchResult = message.match(/(\d+)\s+RPC\s+endpoint/i);
       if (matchResult && matchResult[1]) {
@@ -840,6 +930,51 @@ export class AlertService implements OnModuleInit {
     return false;
   }
 
+  /**
+   * Route an alert through the declarative routing rules
+   */
+  private routeAlert(
+    type: Alert['type'],
+    component: string,
+    message: string,
+    chainId?: number,
+    alertType?: string,
+  ): AlertRouteDecision {
+    return this.alertRouting.route({
+      severity: this.mapTypeToSeverity(type),
+      category: this.getAlertCategory(component, alertType),
+      component: component || 'system',
+      chainId,
+      alertType,
+      message,
+    });
+  }
+
+  /**
+   * Derive the alert category from the alert type, falling back to the component
+   */
+  private getAlertCategory(component?: string, alertType?: string): AlertCategory {
+    switch (alertType) {
+      case ALERTS.TYPES.RPC_HIGH_LATENCY:
+      case ALERTS.TYPES.HIGH_BLOCK_TIME:
+      case ALERTS.TYPES.HIGH_TX_VOLUME:
+      case ALERTS.TYPES.LOW_TX_VOLUME:
+        return AlertCategory.PERFORMANCE;
+    }
+
+    switch (component) {
+      case ALERTS.COMPONENTS.RPC:
+      case ALERTS.COMPONENTS.WEBSOCKET:
+        return AlertCategory.INFRASTRUCTURE;
+      case undefined:
+      case '':
+      case 'system':
+        return AlertCategory.SYSTEM;
+      default:
+        return AlertCategory.BLOCKCHAIN;
+    }
+  }
+
   /**
    * Format an alert title based on alert type
    */
@@ -878,25 +1013,14 @@ export class AlertService implements OnModuleInit {
   }
 
   /**
-   * Determine if an alert is for Mainnet based on chainId or content patterns
+   * Network an alert belongs to, keyed like the chain registry
+   * Alerts without a registered chain that are not recognisably for Testnet count as Mainnet
    */
-  private isMainnetAlert(alert: Alert): boolean {
-    // First check chainId if available
-    if (alert.chainId === BLOCKCHAIN.CHAIN_IDS_NUM.MAINNET) {
-      return true;
-    }
+  getAlertNetwork(alert: Alert): string {
+    const chain = alert.chainId !== undefined ? this.chainRegistry.getChain(alert.chainId) : null;
+    if (chain) return chain.key;
 
-    // If chainId is not matching or missing, check title and message content
-    const titleAndMessage = `${alert.title} ${alert.message}`.toLowerCase();
-    return (
-      titleAndMessage.includes('mainnet') ||
-      titleAndMessage.includes('chain 50') ||
-      titleAndMessage.includes('chainid 50') ||
-      titleAndMessage.includes('chain id 50') ||
-      // If it's neither obviously mainnet nor obviously testnet (see isTestnetAlert),
-      // default to mainnet for priority alerts like errors
-      (alert.type === 'error' && !this.isTestnetAlert(alert))
-    );
+    return this.isTestnetAlert(alert) ? 'testnet' : 'mainnet';
   }
 
   /**
@@ -917,61 +1041,4 @@ export class AlertService implements OnModuleInit {
       titleAndMessage.includes('chain id 51')
     );
   }
-
-  /**
-   * Format a components table for the weekly report
-   */
-  private formatComponentsTable(components: Array<[string, any]>, title: string): string {
-    let message = `<b>${title}:</b>\n`;
-    message += `<pre>`;
-    message += `+-------------------------+--------+--------+--------+--------+\n`;
-    message += `| Component               | Total  | Errors | Warn   | Info   |\n`;
-    message += `+-------------------------+--------+--------+--------+--------+\n`;
-
-    if (components.length > 0) {
-      components.forEach(([component, counts]) => {
-        // For consistent table width, we pad strings with spaces
-        const componentStr = component.length > 23 ? component.substring(0, 20) + '...' : component;
-        message += `| ${componentStr.padEnd(23)} | ${String(counts.total).padEnd(6)} | ${String(counts.error).padEnd(6)} | ${String(counts.warning).padEnd(6)} | ${String(counts.info).padEnd(6)} |\n`;
-      });
-    } else {
-      // No components found - display empty message in table
-      message += `| No components affected  | -      | -      | -      | -      |\n`;
-    }
-
-    message += `+-------------------------+--------+--------+--------+--------+\n`;
-    message += `</pre>\n\n`;
-
-    return message;
-  }
-
-  /**
-   * Get component counts based on alert filter function
-   */
-  private getComponentCounts(alerts: Alert[], filterFn: (alert: Alert) => boolean): Array<[string, any]> {
-    const componentAlerts = {};
-
-    // Process alerts according to filter
-    alerts.forEach(alert => {
-      // Skip alerts without component
-      if (!alert.component || !filterFn(alert)) return;
-
-      // Initialize component counter if needed
-      if (!componentAlerts[alert.component]) {
-        componentAlerts[alert.component] = {
-          total: 0,
-          error: 0,
-          warning: 0,
-          info: 0,
-        };
-      }
-
-      // Count this alert
-      componentAlerts[alert.component].total++;
-      componentAlerts[alert.component][alert.type]++;
-    });
-
-    // Convert to array format
-    return Object.entries(componentAlerts);
-  }
 }
@@ -0,0 +1,254 @@
+import { ALERTS } from '@common/constants/config';
+import { AlertCategory, AlertSeverity } from '@common/utils/alert-manager';
+import { parseOptionalInt, parseTimestamp } from '@common/utils/query-params';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ActionResultDto, ErrorResponseDto } from '@common/dto/common.dto';
+import { ApiAuth, ApiChainIdQuery } from '@docs/api-docs.decorators';
+import {
+  ApiBadRequestResponse,
+  ApiCreatedResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AlertFilterOptions, AlertRouteInput } from '@types';
+import { AlertRoutingService } from './alert-routing.service';
+import { AlertService } from './alert.service';
+import {
+  AlertActionPayloadDto,
+  AlertActionResultDto,
+  AlertDto,
+  AlertIncidentListDto,
+  AlertPageDto,
+  AlertSilenceListDto,
+  CreateSilencePayloadDto,
+  CreateSilenceResultDto,
+  RoutingDryRunPayloadDto,
+} from './dto/alert.dto';
+import { AlertRoutingStatusDto, RoutingDryRunResultDto } from './dto/alert-routing.dto';
+
+/**
+ * Alert lifecycle API: list, acknowledge, resolve and silence alerts
+ */
+@Controller('alerts')
+@ApiTags('Alerts')
+@ApiAuth()
+export class AlertsController {
+  constructor(
+    private readonly alertService: AlertService,
+    private readonly alertRouting: AlertRoutingService,
+  ) {}
+
+  @Get()
+  @ApiQuery({ name: 'severity', required: false, enum: AlertSeverity, enumName: 'AlertSeverity' })
+  @ApiQuery({ name: 'category', required: false, enum: AlertCategory, enumName: 'AlertCategory' })
+  @ApiQuery({ name: 'component', required: false })
+  @ApiQuery({ name: 'type', required: false, description: 'Alert type, e.g. rpc_endpoint_down' })
+  @ApiChainIdQuery()
+  @ApiQuery({ name: 'status', required: false, enum: ['active', 'acknowledged', 'resolved'] })
+  @ApiQuery({ name: 'since', required: false, description: 'Epoch milliseconds or an ISO date' })
+  @ApiQuery({ name: 'until', required: false, description: 'Epoch milliseconds or an ISO date' })
+  @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
+  @ApiQuery({ name: 'pageSize', required: false, type: Number, example: ALERTS.LIFECYCLE.DEFAULT_PAGE_SIZE })
+  @ApiOkResponse({ type: AlertPageDto })
+  @ApiBadRequestResponse({ description: 'Invalid filter', type: ErrorResponseDto })
+  listAlerts(
+    @Query('severity') severity?: string,
+    @Query('category') category?: string,
+    @Query('component') component?: string,
+    @Query('type') alertType?: string,
+    @Query('chainId') chainIdStr?: string,
+    @Query('status') status?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('page') pageStr: string = '1',
+    @Query('pageSize') pageSizeStr: string = `${ALERTS.LIFECYCLE.DEFAULT_PAGE_SIZE}`,
+  ): AlertPageDto {
+    if (severity && !Object.values(AlertSeverity).includes(severity as AlertSeverity)) {
+      throw new BadRequestException(`Invalid severity. Available: ${Object.values(AlertSeverity).join(', ')}`);
+    }
+    if (category && !Object.values(AlertCategory).includes(category as AlertCategory)) {
+      throw new BadRequestException(`Invalid category. Available: ${Object.values(AlertCategory).join(', ')}`);
+    }
+
+    const filter: AlertFilterOptions = {
+      severity: severity as AlertSeverity,
+      category: category as AlertCategory,
+      component,
+      alertType,
+      chainId: parseOptionalInt(chainIdStr, 'chainId'),
+      since: parseTimestamp(since, 'since'),
+      until: parseTimestamp(until, 'until'),
+      ...this.parseStatus(status),
+    };
+
+    const page = parseOptionalInt(pageStr, 'page') ?? 1;
+    const pageSize = parseOptionalInt(pageSizeStr, 'pageSize') ?? ALERTS.LIFECYCLE.DEFAULT_PAGE_SIZE;
+
+    return this.alertService.listAlerts(filter, page, pageSize);
+  }
+
+  @Get('incidents')
+  @ApiOkResponse({ type: AlertIncidentListDto })
+  getOpenIncidents(): AlertIncidentListDto {
+    return {
+      timestamp: new Date().toISOString(),
+      incidents: this.alertService.getOpenIncidents(),
+    };
+  }
+
+  @Get('routing')
+  @ApiOkResponse({ type: AlertRoutingStatusDto })
+  getRouting(): AlertRoutingStatusDto {
+    return this.alertRouting.getStatus();
+  }
+
+  /**
+   * Show which routing rule a sample alert would hit without raising it
+   */
+  @Post('routing/dry-run')
+  @ApiCreatedResponse({ type: RoutingDryRunResultDto })
+  @ApiBadRequestResponse({ description: 'Invalid sample alert', type: ErrorResponseDto })
+  dryRunRouting(@Body() payload: RoutingDryRunPayloadDto): RoutingDryRunResultDto {
+    const severity = (payload?.severity || '') as AlertSeverity;
+    if (!Object.values(AlertSeverity).includes(severity)) {
+      throw new BadRequestException(`Invalid severity. Available: ${Object.values(AlertSeverity).join(', ')}`);
+    }
+
+    const category = (payload.category || AlertCategory.BLOCKCHAIN) as AlertCategory;
+    if (!Object.values(AlertCategory).includes(category)) {
+      throw new BadRequestException(`Invalid category. Available: ${Object.values(AlertCategory).join(', ')}`);
+    }
+
+    const input: AlertRouteInput = {
+      severity,
+      category,
+      component: payload.component || 'system',
+      chainId: parseOptionalInt(payload.chainId?.toString(), 'chainId'),
+      alertType: payload.alertType,
+      message: payload.message || '',
+      timestamp: parseTimestamp(payload.timestamp?.toString(), 'timestamp') ?? Date.now(),
+    };
+    const decision = this.alertRouting.route(input);
+
+    return {
+      matched: decision.rule !== undefined,
+      ...decision,
+      input,
+    };
+  }
+
+  @Get('silences')
+  @ApiOkResponse({ type: AlertSilenceListDto })
+  getSilences(): AlertSilenceListDto {
+    return {
+      timestamp: new Date().toISOString(),
+      silences: this.alertService.getActiveSilences(),
+    };
+  }
+
+  @Post('silences')
+  @ApiCreatedResponse({ type: CreateSilenceResultDto })
+  @ApiBadRequestResponse({ description: 'Invalid duration or no matcher set', type: ErrorResponseDto })
+  createSilence(@Body() payload: CreateSilencePayloadDto): CreateSilenceResultDto {
+    const durationMinutes = Number(payload?.durationMinutes);
+    if (!durationMinutes || durationMinutes <= 0 || durationMinutes > ALERTS.LIFECYCLE.MAX_SILENCE_DURATION_MINUTES) {
+      throw new BadRequestException(
+        `durationMinutes must be between 1 and ${ALERTS.LIFECYCLE.MAX_SILENCE_DURATION_MINUTES}`,
+      );
+    }
+
+    const chainId = parseOptionalInt(payload.chainId?.toString(), 'chainId');
+    if (!payload.alertType && !payload.component && !chainId) {
+      throw new BadRequestException('A silence must match at least one of alertType, component or chainId');
+    }
+
+    const silence = this.alertService.createSilence({
+      alertType: payload.alertType,
+      component: payload.component,
+      chainId,
+      durationMinutes,
+      reason: payload.reason,
+      createdBy: payload.createdBy,
+    });
+
+    return { success: true, silence };
+  }
+
+  @Delete('silences/:id')
+  @ApiOkResponse({ type: ActionResultDto })
+  @ApiNotFoundResponse({ description: 'No active silence with this id', type: ErrorResponseDto })
+  expireSilence(@Param('id') silenceId: string): ActionResultDto {
+    if (!this.alertService.expireSilence(silenceId)) {
+      throw new NotFoundException(`Active silence ${silenceId} not found`);
+    }
+
+    return { success: true, message: `Silence ${silenceId} expired` };
+  }
+
+  @Get(':id')
+  @ApiOkResponse({ type: AlertDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  getAlert(@Param('id') alertId: string): AlertDto {
+    const alert = this.alertService.getAlert(alertId);
+    if (!alert) {
+      throw new NotFoundException(`Alert ${alertId} not found`);
+    }
+
+    return alert;
+  }
+
+  @Post(':id/acknowledge')
+  @ApiCreatedResponse({ type: AlertActionResultDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  acknowledgeAlert(@Param('id') alertId: string, @Body() payload: AlertActionPayloadDto = {}): AlertActionResultDto {
+    const alert = this.alertService.acknowledgeAlert(alertId, payload?.by);
+    if (!alert) {
+      throw new NotFoundException(`Alert ${alertId} not found`);
+    }
+
+    return { success: true, alert };
+  }
+
+  @Post(':id/resolve')
+  @ApiCreatedResponse({ type: AlertActionResultDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  resolveAlert(@Param('id') alertId: string, @Body() payload: AlertActionPayloadDto = {}): AlertActionResultDto {
+    const alert = this.alertService.resolveAlert(alertId, payload?.by);
+    if (!alert) {
+      throw new NotFoundException(`Alert ${alertId} not found`);
+    }
+
+    return { success: true, alert };
+  }
+
+  /**
+   * Map the status query parameter to lifecycle filter flags
+   */
+  private parseStatus(status?: string): Partial<AlertFilterOptions> {
+    switch (status) {
+      case undefined:
+      case '':
+        return {};
+      case 'active':
+        return { unacknowledgedOnly: true, unresolvedOnly: true };
+      case 'acknowledged':
+        return { acknowledgedOnly: true, unresolvedOnly: true };
+      case 'resolved':
+        return { resolvedOnly: true };
+      default:
+        throw new BadRequestException('Invalid status. Available: active, acknowledged, resolved');
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { AlertCategory, AlertSeverity } from '@common/utils/alert-manager';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  AlertQuietHours,
+  AlertRouteDecision,
+  AlertRouteInput,
+  AlertRouteMatch,
+  AlertRoutingRule,
+  AlertRoutingStatus,
+} from '@types';
+
+export class AlertRouteMatchDto implements AlertRouteMatch {
+  @ApiPropertyOptional({ enum: AlertSeverity, enumName: 'AlertSeverity', isArray: true })
+  severity?: AlertSeverity[];
+
+  @ApiPropertyOptional({ enum: AlertCategory, enumName: 'AlertCategory', isArray: true })
+  category?: AlertCategory[];
+
+  @ApiPropertyOptional({ type: [String] })
+  component?: string[];
+
+  @ApiPropertyOptional({ type: [Number] })
+  chainId?: number[];
+
+  @ApiPropertyOptional({ type: [String] })
+  alertType?: string[];
+
+  @ApiPropertyOptional({ description: 'Regular expression tested against the alert message (case-insensitive)' })
+  message?: string;
+}
+
+export class AlertQuietHoursDto implements AlertQuietHours {
+  @ApiProperty({ example: '22:00' })
+  start: string;
+
+  @ApiProperty({ example: '07:00' })
+  end: string;
+
+  @ApiProperty({ example: 'UTC' })
+  timezone: string;
+
+  @ApiPropertyOptional({ type: [String], description: 'Days the window starts on (sun..sat), every day when omitted' })
+  days?: string[];
+}
+
+export class AlertRoutingRuleDto implements AlertRoutingRule {
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ type: AlertRouteMatchDto })
+  match: AlertRouteMatchDto;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Notification channel ids, an empty list records the alert without notifying',
+  })
+  channels?: string[];
+
+  @ApiPropertyOptional()
+  throttleSeconds?: number;
+
+  @ApiPropertyOptional({ type: AlertQuietHoursDto })
+  quietHours?: AlertQuietHoursDto;
+
+  @ApiPropertyOptional()
+  telegramTopicId?: string;
+}
+
+export class AlertRoutingStatusDto implements AlertRoutingStatus {
+  @ApiProperty()
+  enabled: boolean;
+
+  @ApiPropertyOptional()
+  rulesPath?: string;
+
+  @ApiProperty()
+  ruleCount: number;
+
+  @ApiProperty({ type: String, format: 'date-time', nullable: true })
+  loadedAt: Date | null;
+
+  @ApiProperty({ type: String, nullable: true })
+  lastError: string | null;
+
+  @ApiProperty({ type: [AlertRoutingRuleDto] })
+  rules: AlertRoutingRuleDto[];
+}
+
+export class AlertRouteInputDto implements AlertRouteInput {
+  @ApiProperty({ enum: AlertSeverity, enumName: 'AlertSeverity' })
+  severity: AlertSeverity;
+
+  @ApiProperty({ enum: AlertCategory, enumName: 'AlertCategory' })
+  category: AlertCategory;
+
+  @ApiProperty()
+  component: string;
+
+  @ApiPropertyOptional()
+  chainId?: number;
+
+  @ApiPropertyOptional()
+  alertType?: string;
+
+  @ApiProperty()
+  message: string;
+
+  @ApiPropertyOptional({ description: 'Epoch milliseconds' })
+  timestamp?: number;
+}
+
+export class RoutingDryRunResultDto implements AlertRouteDecision {
+  @ApiProperty({ description: 'Whether a routing rule matched, the built-in behavior applies otherwise' })
+  matched: boolean;
+
+  @ApiPropertyOptional()
+  rule?: string;
+
+  @ApiPropertyOptional()
+  ruleIndex?: number;
+
+  @ApiPropertyOptional({ type: [String] })
+  channels?: string[];
+
+  @ApiPropertyOptional()
+  throttleSeconds?: number;
+
+  @ApiProperty({ description: 'Whether the alert falls in the quiet hours of the matched rule' })
+  quietHours: boolean;
+
+  @ApiPropertyOptional()
+  telegramTopicId?: string;
+
+  @ApiProperty({ type: AlertRouteInputDto })
+  input: AlertRouteInputDto;
+}
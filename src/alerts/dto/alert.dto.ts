@@ -0,0 +1,289 @@
+import { ApiRecordProperty } from '@common/dto/api-record-property';
+import { Alert, AlertCategory, AlertSeverity } from '@common/utils/alert-manager';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AlertIncident, AlertPage, AlertSilence } from '@types';
+
+export class AlertDto implements Alert {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: AlertSeverity, enumName: 'AlertSeverity' })
+  severity: AlertSeverity;
+
+  @ApiProperty({ enum: AlertCategory, enumName: 'AlertCategory' })
+  category: AlertCategory;
+
+  @ApiProperty()
+  component: string;
+
+  @ApiPropertyOptional()
+  alertType?: string;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty()
+  message: string;
+
+  @ApiProperty({ description: 'Epoch milliseconds' })
+  timestamp: number;
+
+  @ApiPropertyOptional({ type: 'object', additionalProperties: true })
+  metadata?: Record<string, any>;
+
+  @ApiPropertyOptional()
+  chainId?: number;
+
+  @ApiPropertyOptional()
+  shouldNotify?: boolean;
+
+  @ApiPropertyOptional({ type: [String] })
+  notificationChannels?: string[];
+
+  @ApiProperty()
+  acknowledged: boolean;
+
+  @ApiPropertyOptional({ description: 'Epoch milliseconds' })
+  acknowledgedAt?: number;
+
+  @ApiPropertyOptional()
+  acknowledgedBy?: string;
+
+  @ApiPropertyOptional({ description: 'Epoch milliseconds' })
+  resolvedAt?: number;
+
+  @ApiPropertyOptional()
+  resolvedBy?: string;
+}
+
+export class AlertPageDto implements AlertPage<AlertDto> {
+  @ApiProperty({ type: [AlertDto] })
+  items: AlertDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  pageSize: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+export class AlertActionResultDto {
+  @ApiProperty()
+  success: boolean;
+
+  @ApiProperty({ type: AlertDto })
+  alert: AlertDto;
+}
+
+export class AlertIncidentDto implements AlertIncident {
+  @ApiProperty({ description: 'Stateful alert key the incident is tracked under' })
+  key: string;
+
+  @ApiPropertyOptional()
+  alertType?: string;
+
+  @ApiProperty()
+  component: string;
+
+  @ApiPropertyOptional()
+  chainId?: number;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty({ description: 'Whether any alert in the incident was sent as a notification' })
+  notified: boolean;
+
+  @ApiPropertyOptional({ description: 'Whether a critical alert was sent to the escalation channels' })
+  escalated?: boolean;
+
+  @ApiProperty({ type: [String] })
+  alertIds: string[];
+
+  @ApiProperty({ description: 'Epoch milliseconds' })
+  startedAt: number;
+
+  @ApiProperty({ description: 'Epoch milliseconds' })
+  lastAlertAt: number;
+}
+
+export class AlertIncidentListDto {
+  @ApiProperty({ format: 'date-time' })
+  timestamp: string;
+
+  @ApiProperty({ type: [AlertIncidentDto] })
+  incidents: AlertIncidentDto[];
+}
+
+export class AlertSilenceDto implements AlertSilence {
+  @ApiProperty()
+  id: string;
+
+  @ApiPropertyOptional()
+  alertType?: string;
+
+  @ApiPropertyOptional()
+  component?: string;
+
+  @ApiPropertyOptional()
+  chainId?: number;
+
+  @ApiPropertyOptional()
+  reason?: string;
+
+  @ApiPropertyOptional()
+  createdBy?: string;
+
+  @ApiProperty({ description: 'Epoch milliseconds' })
+  createdAt: number;
+
+  @ApiProperty({ description: 'Epoch milliseconds' })
+  expiresAt: number;
+}
+
+export class AlertSilenceListDto {
+  @ApiProperty({ format: 'date-time' })
+  timestamp: string;
+
+  @ApiProperty({ type: [AlertSilenceDto] })
+  silences: AlertSilenceDto[];
+}
+
+export class CreateSilenceResultDto {
+  @ApiProperty()
+  success: boolean;
+
+  @ApiProperty({ type: AlertSilenceDto })
+  silence: AlertSilenceDto;
+}
+
+/**
+ * Body of the acknowledge and resolve routes
+ */
+export class AlertActionPayloadDto {
+  @ApiPropertyOptional({ description: 'Who acknowledged or resolved the alert' })
+  by?: string;
+}
+
+/**
+ * Body of POST /api/alerts/silences, at least one of alertType, component or chainId is required
+ */
+export class CreateSilencePayloadDto {
+  @ApiPropertyOptional()
+  alertType?: string;
+
+  @ApiPropertyOptional()
+  component?: string;
+
+  @ApiPropertyOptional({ oneOf: [{ type: 'integer' }, { type: 'string' }] })
+  chainId?: number | string;
+
+  @ApiProperty({ oneOf: [{ type: 'integer' }, { type: 'string' }], description: 'Between 1 and the maximum duration' })
+  durationMinutes: number | string;
+
+  @ApiPropertyOptional()
+  reason?: string;
+
+  @ApiPropertyOptional()
+  createdBy?: string;
+}
+
+/**
+ * Sample alert for POST /api/alerts/routing/dry-run
+ */
+export class RoutingDryRunPayloadDto {
+  @ApiProperty({ enum: AlertSeverity, enumName: 'AlertSeverity' })
+  severity: string;
+
+  @ApiPropertyOptional({ enum: AlertCategory, enumName: 'AlertCategory', default: AlertCategory.BLOCKCHAIN })
+  category?: string;
+
+  @ApiPropertyOptional({ default: 'system' })
+  component?: string;
+
+  @ApiPropertyOptional({ oneOf: [{ type: 'integer' }, { type: 'string' }] })
+  chainId?: number | string;
+
+  @ApiPropertyOptional()
+  alertType?: string;
+
+  @ApiPropertyOptional()
+  message?: string;
+
+  @ApiPropertyOptional({
+    oneOf: [{ type: 'integer' }, { type: 'string' }],
+    description: 'Epoch milliseconds or an ISO date, defaults to now',
+  })
+  timestamp?: number | string;
+}
+
+/**
+ * Body of POST /api/notifications/telegram, accepts both Grafana legacy and unified alerting webhooks
+ */
+export class GrafanaAlertPayloadDto {
+  @ApiPropertyOptional()
+  dashboardId?: number;
+
+  @ApiPropertyOptional({
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        value: { type: 'number' },
+        metric: { type: 'string' },
+        tags: { type: 'object', additionalProperties: { type: 'string' } },
+      },
+    },
+  })
+  evalMatches?: Array<{
+    value: number;
+    metric: string;
+    tags: Record<string, string>;
+  }>;
+
+  @ApiPropertyOptional({ description: 'Unified alerting status, e.g. firing or resolved' })
+  status?: string;
+
+  @ApiRecordProperty('string', { required: false })
+  labels?: Record<string, string>;
+
+  @ApiRecordProperty('string', { required: false })
+  annotations?: {
+    summary?: string;
+    description?: string;
+    [key: string]: string;
+  };
+
+  @ApiRecordProperty('number', { required: false })
+  values?: Record<string, number>;
+
+  @ApiPropertyOptional()
+  title?: string;
+
+  @ApiPropertyOptional()
+  message?: string;
+
+  @ApiPropertyOptional()
+  ruleId?: number;
+
+  @ApiPropertyOptional()
+  ruleName?: string;
+
+  @ApiPropertyOptional()
+  ruleUrl?: string;
+
+  @ApiPropertyOptional({ description: 'Legacy alert state, e.g. alerting or pending' })
+  state?: string;
+
+  @ApiPropertyOptional()
+  imageUrl?: string;
+
+  @ApiRecordProperty('string', { required: false })
+  tags?: Record<string, string>;
+}
@@ -0,0 +1,162 @@
+import { ActionResultDto } from '@common/dto/common.dto';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SimulatedAlertDto {
+  @ApiProperty()
+  type: string;
+
+  @ApiProperty()
+  threshold: string;
+
+  @ApiProperty()
+  value: string;
+}
+
+export class TriggerAllAlertsResultDto extends ActionResultDto {
+  @ApiProperty({ type: [SimulatedAlertDto] })
+  alerts: SimulatedAlertDto[];
+}
+
+export class TelegramTopicTestDto {
+  @ApiPropertyOptional({ description: 'Unset for the alert sent to the main thread' })
+  chainId?: number;
+
+  @ApiProperty()
+  title: string;
+}
+
+export class TelegramTopicsTestResultDto extends ActionResultDto {
+  @ApiProperty({ type: [TelegramTopicTestDto] })
+  details: TelegramTopicTestDto[];
+}
+
+export class SmtpSettingsDto {
+  @ApiProperty()
+  host: string;
+
+  @ApiProperty()
+  port: number;
+
+  @ApiProperty()
+  secure: boolean;
+
+  @ApiProperty()
+  from: string;
+}
+
+export class EmailTestResultDto extends ActionResultDto {
+  @ApiProperty({ type: SmtpSettingsDto })
+  smtp: SmtpSettingsDto;
+
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: true,
+    description: 'Configured recipients per scope and severity',
+  })
+  recipients: Record<string, unknown>;
+}
+
+export class PagerDutyTestResultDto extends ActionResultDto {
+  @ApiProperty({ description: 'Deduplication key of the test escalation' })
+  dedupKey: string;
+
+  @ApiProperty()
+  eventsUrl: string;
+
+  @ApiProperty()
+  routingKeyConfigured: boolean;
+}
+
+export class TelegramConfigDto {
+  @ApiProperty({ description: 'Masked, only shows whether a token is configured' })
+  botToken: string;
+
+  @ApiProperty()
+  chatId: string;
+
+  @ApiProperty()
+  mainnetTopicId: string;
+
+  @ApiProperty()
+  testnetTopicId: string;
+
+  @ApiProperty()
+  enableTelegram: boolean;
+}
+
+export class TelegramDiagnosisDto {
+  @ApiProperty()
+  canSendTelegram: boolean;
+
+  @ApiProperty()
+  canRouteMainnet: boolean;
+
+  @ApiProperty()
+  canRouteTestnet: boolean;
+
+  @ApiProperty()
+  willGoToGeneral: boolean;
+}
+
+export class TelegramConfigDebugDto {
+  @ApiProperty()
+  success: boolean;
+
+  @ApiProperty({ type: TelegramConfigDto })
+  telegramConfig: TelegramConfigDto;
+
+  @ApiProperty({ type: TelegramDiagnosisDto })
+  diagnosis: TelegramDiagnosisDto;
+
+  @ApiProperty()
+  recommendation: string;
+}
+
+export class TransactionAlertTraceParamsDto {
+  @ApiProperty()
+  chainId: number;
+
+  @ApiProperty()
+  alertType: string;
+
+  @ApiProperty()
+  component: string;
+
+  @ApiProperty()
+  messageLength: number;
+}
+
+export class TransactionAlertTraceConfigDto {
+  @ApiPropertyOptional()
+  testnetTopicId?: string;
+
+  @ApiPropertyOptional()
+  mainnetTopicId?: string;
+
+  @ApiProperty()
+  enableTelegram: boolean;
+}
+
+export class TransactionAlertTraceDto extends ActionResultDto {
+  @ApiProperty({ type: TransactionAlertTraceParamsDto })
+  testParams: TransactionAlertTraceParamsDto;
+
+  @ApiProperty({ type: TransactionAlertTraceConfigDto })
+  configuration: TransactionAlertTraceConfigDto;
+}
+
+export class TestNotificationDetailsDto {
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty()
+  message: string;
+
+  @ApiProperty({ enum: ['error', 'warning', 'info'] })
+  severity: string;
+}
+
+export class TestNotificationResultDto extends ActionResultDto {
+  @ApiProperty({ type: TestNotificationDetailsDto })
+  details: TestNotificationDetailsDto;
+}
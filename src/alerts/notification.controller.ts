@@ -1,42 +1,24 @@
+import { RequireRole } from '@auth/auth.decorators';
+import { ActionResultDto } from '@common/dto/common.dto';
+import { ApiAuth } from '@docs/api-docs.decorators';
 import { Body, Controller, Get, Logger, Post, Query } from '@nestjs/common';
+import { ApiCreatedResponse, ApiOkResponse, ApiQuery, ApiTags } from '@nestjs/swagger';
 import { AlertService } from './alert.service';
-
-interface GrafanaAlertPayload {
-  // Grafana specific fields
-  dashboardId?: number;
-  evalMatches?: Array<{
-    value: number;
-    metric: string;
-    tags: Record<string, string>;
-  }>;
-  // Grafana Unified Alerting fields
-  status?: string;
-  labels?: Record<string, string>;
-  annotations?: {
-    summary?: string;
-    description?: string;
-    [key: string]: string;
-  };
-  values?: Record<string, number>;
-  // Common fields
-  title?: string;
-  message?: string;
-  ruleId?: number;
-  ruleName?: string;
-  ruleUrl?: string;
-  state?: string;
-  imageUrl?: string;
-  tags?: Record<string, string>;
-}
+import { GrafanaAlertPayloadDto } from './dto/alert.dto';
+import { TestNotificationResultDto } from './dto/testing.dto';
 
 @Controller('notifications')
+@RequireRole('admin')
+@ApiTags('Notifications')
+@ApiAuth()
 export class NotificationController {
   private readonly logger = new Logger(NotificationController.name);
 
   constructor(private readonly alertService: AlertService) {}
 
   @Post('telegram')
-  async sendTelegramNotification(@Body() payload: GrafanaAlertPayload) {
+  @ApiCreatedResponse({ type: ActionResultDto })
+  async sendTelegramNotification(@Body() payload: GrafanaAlertPayloadDto): Promise<ActionResultDto> {
     this.logger.log(`Received notification request from Grafana: ${JSON.stringify(payload)}`);
 
     // Extract the most relevant information from Grafana payload
@@ -88,11 +70,15 @@ export class NotificationController {
    * Example: GET /api/notifications/test?message=Hello&severity=info
    */
   @Get('test')
+  @ApiQuery({ name: 'message', required: false })
+  @ApiQuery({ name: 'severity', required: false, enum: ['info', 'warning', 'error', 'critical'] })
+  @ApiQuery({ name: 'title', required: false })
+  @ApiOkResponse({ type: TestNotificationResultDto })
   async testNotification(
     @Query('message') message: string = 'Test notification',
     @Query('severity') severity: string = 'info',
     @Query('title') title: string = 'Test Alert',
-  ) {
+  ): Promise<TestNotificationResultDto> {
     this.logger.log(`Testing notification: ${title} - ${message} (${severity})`);
 
     const type =
@@ -1,10 +1,26 @@
+import { RequireRole } from '@auth/auth.decorators';
 import { MetricsService } from '@metrics/metrics.service';
 import { Controller, Get, Logger, Param, Post, Query } from '@nestjs/common';
 import { AlertService } from './alert.service';
 import { RpcMonitorService } from '@monitoring/rpc/rpc.monitor';
 import { ConfigService } from '@config/config.service';
+import { AlertSeverity } from '@common/utils/alert-manager';
+import { ActionResultDto } from '@common/dto/common.dto';
+import { ApiAuth, ApiChainIdQuery } from '@docs/api-docs.decorators';
+import { ApiCreatedResponse, ApiOkResponse, ApiParam, ApiQuery, ApiTags } from '@nestjs/swagger';
+import {
+  EmailTestResultDto,
+  PagerDutyTestResultDto,
+  TelegramConfigDebugDto,
+  TelegramTopicsTestResultDto,
+  TransactionAlertTraceDto,
+  TriggerAllAlertsResultDto,
+} from './dto/testing.dto';
 
 @Controller('testing')
+@RequireRole('admin')
+@ApiTags('Testing')
+@ApiAuth()
 export class TestingController {
   private readonly logger = new Logger(TestingController.name);
 
@@ -16,7 +32,9 @@ export class TestingController {
   ) {}
 
   @Get('simulate-slow-blocktime')
-  simulateSlowBlockTime(@Query('seconds') seconds: string = '4') {
+  @ApiQuery({ name: 'seconds', required: false, type: Number, example: 4 })
+  @ApiOkResponse({ type: ActionResultDto })
+  simulateSlowBlockTime(@Query('seconds') seconds: string = '4'): ActionResultDto {
     const blockTime = parseFloat(seconds);
     this.logger.log(`Simulating slow block time: ${blockTime}s`);
     this.metricsService.setBlockTime(blockTime);
@@ -24,7 +42,9 @@ export class TestingController {
   }
 
   @Get('simulate-apothem-blocktime')
-  simulateApothemBlockTime(@Query('seconds') seconds: string = '4') {
+  @ApiQuery({ name: 'seconds', required: false, type: Number, example: 4 })
+  @ApiOkResponse({ type: ActionResultDto })
+  simulateApothemBlockTime(@Query('seconds') seconds: string = '4'): ActionResultDto {
     const blockTime = parseFloat(seconds);
     this.logger.log(`Simulating Apothem testnet block time: ${blockTime}s`);
     this.metricsService.setBlockTime(blockTime, 51);
@@ -32,7 +52,9 @@ export class TestingController {
   }
 
   @Post('simulate-rpc-down')
-  simulateRpcDown(@Query('endpoint') endpoint: string) {
+  @ApiQuery({ name: 'endpoint', description: 'RPC endpoint URL' })
+  @ApiCreatedResponse({ type: ActionResultDto })
+  simulateRpcDown(@Query('endpoint') endpoint: string): ActionResultDto {
     if (!endpoint) {
       return { success: false, message: 'Endpoint parameter is required' };
     }
@@ -44,7 +66,10 @@ export class TestingController {
   }
 
   @Post('simulate-rpc-latency')
-  simulateRpcLatency(@Query('endpoint') endpoint: string, @Query('latency') latency: string = '500') {
+  @ApiQuery({ name: 'endpoint', description: 'RPC endpoint URL' })
+  @ApiQuery({ name: 'latency', required: false, type: Number, description: 'Milliseconds', example: 500 })
+  @ApiCreatedResponse({ type: ActionResultDto })
+  simulateRpcLatency(@Query('endpoint') endpoint: string, @Query('latency') latency: string = '500'): ActionResultDto {
     if (!endpoint) {
       return { success: false, message: 'Endpoint parameter is required' };
     }
@@ -57,12 +82,17 @@ export class TestingController {
   }
 
   @Get('trigger-manual-alert')
+  @ApiQuery({ name: 'type', required: false, enum: ['error', 'warning', 'info'] })
+  @ApiQuery({ name: 'title', required: false })
+  @ApiQuery({ name: 'message', required: false })
+  @ApiChainIdQuery()
+  @ApiOkResponse({ type: ActionResultDto })
   async triggerManualAlert(
     @Query('type') type: string = 'warning',
     @Query('title') title: string = 'Manual Test Alert',
     @Query('message') message: string = 'This is a manually triggered test alert',
     @Query('chainId') chainIdStr: string = '',
-  ) {
+  ): Promise<ActionResultDto> {
     const alertType = ['error', 'warning', 'info'].includes(type) ? (type as 'error' | 'warning' | 'info') : 'warning';
     const chainId = chainIdStr ? parseInt(chainIdStr) : undefined;
 
@@ -89,7 +119,8 @@ export class TestingController {
    * This will trigger all the alerts we've implemented for quick testing
    */
   @Get('trigger-all-alerts')
-  async triggerAllAlerts() {
+  @ApiOkResponse({ type: TriggerAllAlertsResultDto })
+  async triggerAllAlerts(): Promise<TriggerAllAlertsResultDto> {
     this.logger.log('Triggering all alert types for testing');
 
     // 1. Average Block Time Alert
@@ -141,7 +172,9 @@ export class TestingController {
    * Test specific alert type
    */
   @Get('trigger-alert/:type')
-  async triggerSpecificAlert(@Param('type') alertType: string) {
+  @ApiParam({ name: 'type', enum: ['block-time', 'tx-errors', 'tx-volume', 'rpc-time'] })
+  @ApiOkResponse({ type: ActionResultDto })
+  async triggerSpecificAlert(@Param('type') alertType: string): Promise<ActionResultDto> {
     this.logger.log(`Triggering specific alert type: ${alertType}`);
 
     switch (alertType) {
@@ -195,7 +228,8 @@ export class TestingController {
    * Sends alerts to both Mainnet and Testnet topics
    */
   @Get('test-telegram-topics')
-  async testTelegramTopics() {
+  @ApiOkResponse({ type: TelegramTopicsTestResultDto })
+  async testTelegramTopics(): Promise<TelegramTopicsTestResultDto> {
     this.logger.log('Testing Telegram topics for Mainnet and Testnet alerts');
 
     // Send a Mainnet alert (chain ID 50)
@@ -240,102 +274,64 @@ export class TestingController {
   }
 
   /**
-   * Manually generate a weekly report
-   * Allows getting a report for a custom date range
+   * Test the email channel
+   * Sends a test alert through the email channel only, using the recipients for the given network and severity
    */
-  @Get('generate-weekly-report')
-  async generateWeeklyReport(
-    @Query('startDays') startDaysAgo: string = '7',
-    @Query('endDays') endDaysAgo: string = '0',
-  ) {
-    this.logger.log('Manually generating weekly report');
-
-    const now = new Date();
-    const startDate = new Date(now.getTime() - parseInt(startDaysAgo) * 24 * 60 * 60 * 1000);
-    const endDate = new Date(now.getTime() - parseInt(endDaysAgo) * 24 * 60 * 60 * 1000);
+  @Get('test-email')
+  @ApiQuery({ name: 'severity', required: false, enum: AlertSeverity, enumName: 'AlertSeverity' })
+  @ApiChainIdQuery()
+  @ApiOkResponse({ type: EmailTestResultDto })
+  async testEmail(
+    @Query('severity') severity: string = 'info',
+    @Query('chainId') chainIdStr: string = '',
+  ): Promise<EmailTestResultDto> {
+    const alertSeverity = Object.values(AlertSeverity).includes(severity as AlertSeverity)
+      ? (severity as AlertSeverity)
+      : AlertSeverity.INFO;
+    const chainId = chainIdStr ? parseInt(chainIdStr) : undefined;
+    const emailConfig = this.configService.getMonitoringConfig().alertNotifications.email;
 
-    // Generate the report
-    const report = await this.alertService.generateWeeklyReport(startDate, endDate);
+    this.logger.log(`Sending ${alertSeverity} test email${chainId ? ` for chain ID ${chainId}` : ''}`);
+    const alert = this.alertService.sendTestEmail(alertSeverity, chainId);
 
-    // Format for API response
     return {
       success: true,
-      message: `Weekly report generated for period ${startDate.toISOString()} to ${endDate.toISOString()}`,
-      report: {
-        period: {
-          start: report.startDate,
-          end: report.endDate,
-        },
-        stats: {
-          totalAlerts: report.totalAlerts,
-          byType: report.alertCounts,
-          byNetwork: {
-            mainnet: report.alertsByChain.mainnet,
-            testnet: report.alertsByChain.testnet,
-          },
-          topAlertTypes: Object.entries(report.alertsByType)
-            .sort(([, a], [, b]) => b - a)
-            .slice(0, 5)
-            .map(([type, count]) => ({ type, count })),
-        },
-        // Include component breakdown
-        byComponent: Object.entries(report.alertsByComponent).map(([name, counts]) => ({
-          name,
-          counts,
-        })),
+      message: `Test email queued: ${alert.title}`,
+      smtp: {
+        host: emailConfig.host || 'not configured',
+        port: emailConfig.port,
+        secure: emailConfig.secure,
+        from: emailConfig.from,
       },
+      recipients: emailConfig.recipients,
     };
   }
 
   /**
-   * Get the formatted weekly report message
-   * This returns the same format that would be sent to Telegram
-   */
-  @Get('weekly-report-message')
-  async getWeeklyReportMessage(
-    @Query('startDays') startDaysAgo: string = '7',
-    @Query('endDays') endDaysAgo: string = '0',
-  ) {
-    this.logger.log('Getting formatted weekly report message');
-
-    const now = new Date();
-    const startDate = new Date(now.getTime() - parseInt(startDaysAgo) * 24 * 60 * 60 * 1000);
-    const endDate = new Date(now.getTime() - parseInt(endDaysAgo) * 24 * 60 * 60 * 1000);
-
-    // Generate the report
-    const report = await this.alertService.getWeeklyReportForRange(startDate, endDate);
-
-    // Get the formatted message that would be sent to Telegram
-    const message = this.alertService.getFormattedWeeklyReportMessage(report);
-
-    return {
-      success: true,
-      message: `Weekly report message generated for period ${startDate.toISOString()} to ${endDate.toISOString()}`,
-      formattedReport: message,
-    };
-  }
-
-  /**
-   * Send the weekly report to communication channels
-   * This will generate a report and actually send it to configured channels
+   * Send a test escalation to the PagerDuty channel
+   * Point PAGERDUTY_EVENTS_URL at a local mock receiver to inspect the trigger and resolve events
    */
-  @Post('send-weekly-report')
-  async sendWeeklyReport(@Query('startDays') startDaysAgo: string = '7', @Query('endDays') endDaysAgo: string = '0') {
-    this.logger.log('Manually sending weekly report');
-
-    const now = new Date();
-    const startDate = new Date(now.getTime() - parseInt(startDaysAgo) * 24 * 60 * 60 * 1000);
-    const endDate = new Date(now.getTime() - parseInt(endDaysAgo) * 24 * 60 * 60 * 1000);
-
-    // Generate the report
-    const report = await this.alertService.generateWeeklyReport(startDate, endDate);
+  @Get('test-pagerduty')
+  @ApiQuery({ name: 'action', required: false, enum: ['trigger', 'resolve'] })
+  @ApiChainIdQuery()
+  @ApiOkResponse({ type: PagerDutyTestResultDto })
+  async testPagerDuty(
+    @Query('action') action: string = 'trigger',
+    @Query('chainId') chainIdStr: string = '',
+  ): Promise<PagerDutyTestResultDto> {
+    const escalationAction = action === 'resolve' ? 'resolve' : 'trigger';
+    const chainId = chainIdStr ? parseInt(chainIdStr) : undefined;
+    const pagerDutyConfig = this.configService.getMonitoringConfig().alertNotifications.pagerDuty;
 
-    // Send the report
-    await this.alertService.sendWeeklyReport(report);
+    this.logger.log(`Sending test escalation ${escalationAction}${chainId ? ` for chain ID ${chainId}` : ''}`);
+    const dedupKey = await this.alertService.sendTestEscalation(escalationAction, chainId);
 
     return {
       success: true,
-      message: `Weekly report sent for period ${startDate.toISOString()} to ${endDate.toISOString()}`,
+      message: `Test escalation ${escalationAction} sent`,
+      dedupKey,
+      eventsUrl: pagerDutyConfig.eventsUrl,
+      routingKeyConfigured: Boolean(pagerDutyConfig.routingKey),
     };
   }
 
@@ -343,7 +339,8 @@ export class TestingController {
    * Debug Telegram configuration - shows actual config values
    */
   @Get('debug-telegram-config')
-  async debugTelegramConfig() {
+  @ApiOkResponse({ type: TelegramConfigDebugDto })
+  async debugTelegramConfig(): Promise<TelegramConfigDebugDto> {
     this.logger.log('Debugging Telegram configuration values');
 
     const monitoringConfig = this.configService.getMonitoringConfig();
@@ -388,7 +385,8 @@ export class TestingController {
    * Test the exact transaction failure alert flow for debugging
    */
   @Get('trace-transaction-alert-flow')
-  async traceTransactionAlertFlow() {
+  @ApiOkResponse({ type: TransactionAlertTraceDto })
+  async traceTransactionAlertFlow(): Promise<TransactionAlertTraceDto> {
     this.logger.log('Tracing transaction alert flow for debugging');
 
     // Get configuration like transaction monitor does
@@ -1,13 +1,39 @@
 import { AlertModule } from '@alerts/alert.module';
+import { AuthModule } from '@auth/auth.module';
 import { BlockchainModule } from '@blockchain/blockchain.module';
+import { ChainsModule } from '@chains/chains.module';
 import { ConfigModule } from '@config/config.module';
+import { DashboardModule } from '@dashboard/dashboard.module';
+import { EndpointsModule } from '@endpoints/endpoints.module';
+import { GraphqlApiModule } from '@graphql/graphql-api.module';
 import { HealthModule } from './health/health.module';
+import { HistoryModule } from '@history/history.module';
+import { LiveModule } from '@live/live.module';
 import { MetricsModule } from '@metrics/metrics.module';
 import { MonitoringModule } from '@monitoring/monitoring.module';
 import { LoggerModule } from '@logging/logger.module';
 import { Module } from '@nestjs/common';
+import { ReportsModule } from '@reports/reports.module';
+import { StateModule } from '@state/state.module';
 
 @Module({
-  imports: [LoggerModule, ConfigModule, BlockchainModule, MonitoringModule, MetricsModule, AlertModule, HealthModule],
+  imports: [
+    LoggerModule,
+    ConfigModule,
+    AuthModule,
+    StateModule,
+    ChainsModule,
+    EndpointsModule,
+    LiveModule,
+    BlockchainModule,
+    MonitoringModule,
+    MetricsModule,
+    AlertModule,
+    HealthModule,
+    HistoryModule,
+    ReportsModule,
+    DashboardModule,
+    GraphqlApiModule,
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,16 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiRole } from '@types';
+
+export const IS_PUBLIC_KEY = 'auth:public';
+export const REQUIRED_ROLE_KEY = 'auth:role';
+
+/**
+ * Serve a controller or route without authentication or rate limiting
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+/**
+ * Minimum role for a controller or route
+ * Without it reads require read-only and everything else operator
+ */
+export const RequireRole = (role: ApiRole) => SetMetadata(REQUIRED_ROLE_KEY, role);
@@ -0,0 +1,97 @@
+import { IS_PUBLIC_KEY, REQUIRED_ROLE_KEY } from '@auth/auth.decorators';
+import { AuthService } from '@auth/auth.service';
+import { RateLimitService } from '@auth/rate-limit.service';
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { GqlContextType, GqlExecutionContext } from '@nestjs/graphql';
+import { ApiPrincipal, ApiRole } from '@types';
+import { Request, Response } from 'express';
+
+// Methods that only read, served to every role
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+type AuthenticatedRequest = Request & { principal?: ApiPrincipal };
+
+/**
+ * Global guard authenticating API callers, enforcing roles and rate limiting per caller
+ *
+ * Routes marked @Public() are always served. Otherwise reads require the read-only role
+ * and everything else the operator role, unless the route asks for another role with
+ * @RequireRole(). Nothing is checked while authentication is disabled.
+ *
+ * GraphQL queries and subscriptions count as reads and mutations as writes. The guard runs
+ * for every root field of a GraphQL request but authenticates and counts the request once,
+ * subscriptions were already authenticated when their WebSocket connected.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+    private readonly rateLimitService: RateLimitService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const type = context.getType<GqlContextType>();
+    if (!this.authService.isEnabled() || (type !== 'http' && type !== 'graphql')) return true;
+
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) return true;
+
+    let request: AuthenticatedRequest;
+    let response: Response;
+    let readOnly: boolean;
+    if (type === 'graphql') {
+      const gqlContext = GqlExecutionContext.create(context);
+      ({ req: request, res: response } = gqlContext.getContext<{ req: AuthenticatedRequest; res?: Response }>());
+      readOnly = gqlContext.getInfo().operation.operation !== 'mutation';
+    } else {
+      request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+      response = context.switchToHttp().getResponse<Response>();
+      readOnly = READ_METHODS.includes(request.method);
+    }
+
+    const principal = request.principal || this.authenticate(request, response);
+
+    const role =
+      this.reflector.getAllAndOverride<ApiRole>(REQUIRED_ROLE_KEY, targets) || (readOnly ? 'read-only' : 'operator');
+    if (!this.authService.hasRole(principal, role)) {
+      throw new ForbiddenException(`This route requires the ${role} role, ${principal.name} has ${principal.role}`);
+    }
+
+    request.principal = principal;
+    return true;
+  }
+
+  private authenticate(request: AuthenticatedRequest, response: Response): ApiPrincipal {
+    const principal = this.authService.authenticate(
+      this.authService.getCredential(request.headers, request.query as Record<string, unknown>),
+    );
+    this.checkRateLimit(principal, response);
+    return principal;
+  }
+
+  private checkRateLimit(principal: ApiPrincipal, response: Response): void {
+    const result = this.rateLimitService.consume(principal.id);
+
+    response.setHeader('X-RateLimit-Limit', result.limit);
+    response.setHeader('X-RateLimit-Remaining', result.remaining);
+    response.setHeader('X-RateLimit-Reset', Math.ceil(result.resetAt / 1000));
+
+    if (!result.allowed) {
+      const retryAfter = Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000));
+      response.setHeader('Retry-After', retryAfter);
+      throw new HttpException(
+        `Rate limit of ${result.limit} requests exceeded, retry in ${retryAfter}s`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+}
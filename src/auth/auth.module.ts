@@ -0,0 +1,17 @@
+import { AuthGuard } from '@auth/auth.guard';
+import { AuthService } from '@auth/auth.service';
+import { RateLimitService } from '@auth/rate-limit.service';
+import { ConfigModule } from '@config/config.module';
+import { Global, Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+
+/**
+ * Global module authenticating and rate limiting every API route
+ */
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [AuthService, RateLimitService, { provide: APP_GUARD, useClass: AuthGuard }],
+  exports: [AuthService, RateLimitService],
+})
+export class AuthModule {}
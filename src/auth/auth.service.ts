@@ -0,0 +1,156 @@
+import { HTTP } from '@common/constants/config';
+import { ConfigService } from '@config/config.service';
+import { Injectable, Logger, OnModuleInit, UnauthorizedException } from '@nestjs/common';
+import { ApiAuthConfig, ApiPrincipal, ApiRole } from '@types';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+
+// API key from the configuration, stored as its SHA-256 digest
+interface KeyDigest {
+  digest: Buffer;
+  name: string;
+  role: ApiRole;
+}
+
+/**
+ * Identifies API callers by API key or HS256-signed JWT
+ *
+ * API keys come from the API_KEYS setting. JWTs carry the caller in the `sub` claim
+ * and the role in the `role` claim, `exp` and `nbf` are honoured and `iss` is checked
+ * when JWT_ISSUER is set.
+ */
+@Injectable()
+export class AuthService implements OnModuleInit {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly config: ApiAuthConfig;
+  // Lookups compare fixed-length digests in constant time
+  private readonly keyDigests: KeyDigest[];
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = this.configService.getApiAuthConfig();
+    this.keyDigests = this.config.apiKeys.map(({ name, role, key }) => ({ digest: this.digest(key), name, role }));
+  }
+
+  onModuleInit() {
+    if (!this.config.enabled) {
+      this.logger.warn('API authentication is disabled, every route is open to anyone who can reach the server');
+      return;
+    }
+
+    if (this.keyDigests.length === 0 && !this.config.jwtSecret) {
+      this.logger.warn('API authentication is enabled without API keys or a JWT secret, only public routes respond');
+    }
+
+    const { windowMs, maxRequests } = this.config.rateLimit;
+    this.logger.log(
+      `API authentication enabled with ${this.keyDigests.length} API key(s)${this.config.jwtSecret ? ' and JWTs' : ''}, ` +
+        `rate limited to ${maxRequests} requests per ${windowMs / 1000}s per caller`,
+    );
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getConfig(): ApiAuthConfig {
+    return this.config;
+  }
+
+  /**
+   * Read the credential from the X-API-Key header, a Bearer Authorization header or the apiKey query parameter
+   */
+  getCredential(headers: IncomingHttpHeaders, query: Record<string, unknown> = {}): string | null {
+    const header = headers[HTTP.AUTH.API_KEY_HEADER];
+    if (typeof header === 'string' && header) return header;
+
+    const match = /^Bearer\s+(.+)$/i.exec(headers.authorization || '');
+    if (match) return match[1].trim();
+
+    const param = query[HTTP.AUTH.API_KEY_QUERY_PARAM];
+    return typeof param === 'string' && param ? param : null;
+  }
+
+  /**
+   * Identify the caller of a credential, throws UnauthorizedException when it is missing or invalid
+   */
+  authenticate(credential: string | null): ApiPrincipal {
+    if (!credential) {
+      throw new UnauthorizedException(
+        `Missing credentials, send an API key in the X-API-Key header or a Bearer token in the Authorization header`,
+      );
+    }
+
+    return credential.split('.').length === 3 ? this.verifyJwt(credential) : this.verifyApiKey(credential);
+  }
+
+  hasRole(principal: ApiPrincipal, role: ApiRole): boolean {
+    return HTTP.AUTH.ROLES.indexOf(principal.role) >= HTTP.AUTH.ROLES.indexOf(role);
+  }
+
+  private verifyApiKey(key: string): ApiPrincipal {
+    const digest = this.digest(key);
+    // Compare against every key so the response time does not reveal which one matched
+    const match = this.keyDigests.reduce<KeyDigest | null>(
+      (found, entry) => (timingSafeEqual(entry.digest, digest) ? entry : found),
+      null,
+    );
+    if (!match) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    return { id: `key:${match.name}`, name: match.name, role: match.role, method: 'api-key' };
+  }
+
+  private verifyJwt(token: string): ApiPrincipal {
+    if (!this.config.jwtSecret) {
+      throw new UnauthorizedException('JWT authentication is not configured');
+    }
+
+    const [encodedHeader, encodedPayload, signature] = token.split('.');
+    const expected = createHmac('sha256', this.config.jwtSecret).update(`${encodedHeader}.${encodedPayload}`).digest();
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new UnauthorizedException('Invalid JWT signature');
+    }
+
+    const header = this.decodeJwtPart(encodedHeader);
+    if (header.alg !== HTTP.AUTH.JWT_ALGORITHM) {
+      throw new UnauthorizedException(`Unsupported JWT algorithm, expected ${HTTP.AUTH.JWT_ALGORITHM}`);
+    }
+
+    const claims = this.decodeJwtPart(encodedPayload);
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp === 'number' && claims.exp <= now) {
+      throw new UnauthorizedException('JWT has expired');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf > now) {
+      throw new UnauthorizedException('JWT is not valid yet');
+    }
+    if (this.config.jwtIssuer && claims.iss !== this.config.jwtIssuer) {
+      throw new UnauthorizedException('JWT issuer is not accepted');
+    }
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new UnauthorizedException('JWT has no sub claim');
+    }
+    if (!(HTTP.AUTH.ROLES as readonly unknown[]).includes(claims.role)) {
+      throw new UnauthorizedException(`JWT role claim must be one of ${HTTP.AUTH.ROLES.join(', ')}`);
+    }
+
+    return { id: `jwt:${claims.sub}`, name: claims.sub, role: claims.role as ApiRole, method: 'jwt' };
+  }
+
+  private decodeJwtPart(part: string): Record<string, any> {
+    try {
+      const decoded = JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+      if (decoded && typeof decoded === 'object') return decoded;
+    } catch {
+      // Reported below
+    }
+
+    throw new UnauthorizedException('Malformed JWT');
+  }
+
+  private digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+  }
+}
@@ -0,0 +1,63 @@
+import { ConfigService } from '@config/config.service';
+import { Injectable } from '@nestjs/common';
+import { RateLimitResult } from '@types';
+
+// Requests counted for a caller in the current window
+interface RateLimitWindow {
+  start: number;
+  count: number;
+}
+
+/**
+ * Fixed-window request counter per API caller
+ */
+@Injectable()
+export class RateLimitService {
+  private readonly windowMs: number;
+  private readonly maxRequests: number;
+
+  private windows = new Map<string, RateLimitWindow>();
+  private lastSweep = Date.now();
+
+  constructor(private readonly configService: ConfigService) {
+    const { windowMs, maxRequests } = this.configService.getApiAuthConfig().rateLimit;
+    this.windowMs = windowMs;
+    this.maxRequests = maxRequests;
+  }
+
+  /**
+   * Count a request of a caller, the request is not allowed once the caller used up its window
+   */
+  consume(callerId: string): RateLimitResult {
+    const now = Date.now();
+    this.sweep(now);
+
+    let window = this.windows.get(callerId);
+    if (!window || now - window.start >= this.windowMs) {
+      window = { start: now, count: 0 };
+      this.windows.set(callerId, window);
+    }
+
+    const allowed = window.count < this.maxRequests;
+    if (allowed) window.count++;
+
+    return {
+      allowed,
+      limit: this.maxRequests,
+      remaining: this.maxRequests - window.count,
+      resetAt: window.start + this.windowMs,
+    };
+  }
+
+  /**
+   * Forget expired windows once per window length, so callers seen once do not pile up
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < this.windowMs) return;
+
+    this.lastSweep = now;
+    for (const [callerId, window] of this.windows) {
+      if (now - window.start >= this.windowMs) this.windows.delete(callerId);
+    }
+  }
+}
@@ -1,9 +1,11 @@
-import { ConfigService } from '@config/config.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { EndpointRegistryService } from '@endpoints/endpoint-registry.service';
 import { RpcSelectorService } from '@monitoring/rpc/rpc-selector.service';
 import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import {
   AccountBalance,
   BlockInfo,
+  EndpointChange,
   ProviderWithMetadata,
   RpcEndpoint,
   TransactionInfo,
@@ -21,7 +23,8 @@ export class BlockchainService implements OnModuleInit, OnModuleDestroy {
   private readonly MAX_FAILURES = 3;
 
   constructor(
-    private readonly configService: ConfigService,
+    private readonly endpointRegistry: EndpointRegistryService,
+    private readonly chainRegistry: ChainRegistryService,
     private readonly rpcSelectorService?: RpcSelectorService,
   ) {
     // Initialize Map objects
@@ -30,6 +33,8 @@ export class BlockchainService implements OnModuleInit, OnModuleDestroy {
 
     // Initialize providers first and set active provider later using onModuleInit
     this.logger.log('Providers will be initialized during module initialization...');
+
+    this.endpointRegistry.onChange(change => this.handleEndpointChange(change));
   }
 
   /**
@@ -40,13 +45,14 @@ export class BlockchainService implements OnModuleInit, OnModuleDestroy {
     this.logger.log('Initializing all RPC and WebSocket providers...');
     await this.initializeProviders();
 
-    // Set the active provider to the Mainnet primary one initially (for backward compatibility)
-    const mainnetPrimaryUrl = this.configService.getPrimaryRpcUrl(50);
-    const providerData = this.providers.get(mainnetPrimaryUrl);
+    // Set the active provider to the primary one of the first registered chain initially (for backward compatibility)
+    const [defaultChain] = this.chainRegistry.getChains();
+    const defaultPrimaryUrl = this.endpointRegistry.getPrimaryRpcUrl(defaultChain.chainId);
+    const providerData = this.providers.get(defaultPrimaryUrl);
 
     if (providerData) {
       this.activeProvider = providerData;
-      this.logger.log(`Set active provider to ${providerData.endpoint.name} (${mainnetPrimaryUrl})`);
+      this.logger.log(`Set active provider to ${providerData.endpoint.name} (${defaultPrimaryUrl})`);
     } else {
       // Fallback to first available provider if primary not found
       if (this.providers.size > 0) {
@@ -59,12 +65,12 @@ export class BlockchainService implements OnModuleInit, OnModuleDestroy {
         this.logger.error('No providers available after initialization');
         // Create a minimal provider as fallback to prevent app crashes
         this.activeProvider = {
-          provider: new ethers.JsonRpcProvider(mainnetPrimaryUrl),
+          provider: new ethers.JsonRpcProvider(defaultPrimaryUrl),
           endpoint: {
-            url: mainnetPrimaryUrl,
+            url: defaultPrimaryUrl,
             name: 'Fallback Provider',
             type: 'rpc',
-            chainId: 50,
+            chainId: defaultChain.chainId,
             status: 'down',
           },
         };
@@ -80,53 +86,106 @@ export class BlockchainService implements OnModuleInit, OnModuleDestroy {
 
     // Clean up HTTP providers
     for (const [url, providerData] of this.providers.entries()) {
-      if (providerData.provider) {
-        try {
-          // Remove all listeners
-          providerData.provider.removeAllListeners();
+      await this.destroyProvider(url, providerData);
+    }
 
-          // Destroy the provider
-          if (typeof providerData.provider.destroy === 'function') {
-            await providerData.provider.destroy();
-          }
+    // Clean up WebSocket providers
+    for (const [url, providerData] of this.wsProviders.entries()) {
+      await this.destroyWsProvider(url, providerData);
+    }
 
-          this.logger.debug(`Cleaned up provider: ${url}`);
-        } catch (error) {
-          this.logger.error(`Error cleaning up provider ${url}: ${error.message}`);
-        }
+    // Clear the maps
+    this.providers.clear();
+    this.wsProviders.clear();
+
+    this.logger.log('All providers cleaned up successfully');
+  }
+
+  /**
+   * Clean up an HTTP provider
+   */
+  private async destroyProvider(url: string, providerData: ProviderWithMetadata): Promise<void> {
+    if (!providerData.provider) return;
+
+    try {
+      // Remove all listeners
+      providerData.provider.removeAllListeners();
+
+      // Destroy the provider
+      if (typeof providerData.provider.destroy === 'function') {
+        await providerData.provider.destroy();
       }
+
+      this.logger.debug(`Cleaned up provider: ${url}`);
+    } catch (error) {
+      this.logger.error(`Error cleaning up provider ${url}: ${error.message}`);
     }
+  }
 
-    // Clean up WebSocket providers
-    for (const [url, providerData] of this.wsProviders.entries()) {
-      if (providerData.provider) {
-        try {
-          // Remove all listeners
-          providerData.provider.removeAllListeners();
+  /**
+   * Clean up a WebSocket provider
+   */
+  private async destroyWsProvider(url: string, providerData: WsProviderWithMetadata): Promise<void> {
+    if (!providerData.provider) return;
 
-          // Close WebSocket connection
-          const websocket = (providerData.provider as any).websocket || (providerData.provider as any)._websocket;
-          if (websocket && typeof websocket.close === 'function') {
-            websocket.close();
-          }
+    try {
+      // Remove all listeners
+      providerData.provider.removeAllListeners();
 
-          // Destroy the provider
-          if (typeof providerData.provider.destroy === 'function') {
-            await providerData.provider.destroy();
-          }
+      // Close WebSocket connection
+      const websocket = (providerData.provider as any).websocket || (providerData.provider as any)._websocket;
+      if (websocket && typeof websocket.close === 'function') {
+        websocket.close();
+      }
 
-          this.logger.debug(`Cleaned up WebSocket provider: ${url}`);
-        } catch (error) {
-          this.logger.error(`Error cleaning up WebSocket provider ${url}: ${error.message}`);
-        }
+      // Destroy the provider
+      if (typeof providerData.provider.destroy === 'function') {
+        await providerData.provider.destroy();
       }
+
+      this.logger.debug(`Cleaned up WebSocket provider: ${url}`);
+    } catch (error) {
+      this.logger.error(`Error cleaning up WebSocket provider ${url}: ${error.message}`);
     }
+  }
 
-    // Clear the maps
-    this.providers.clear();
-    this.wsProviders.clear();
+  /**
+   * Add, replace or drop the provider of an endpoint changed in the endpoint registry
+   */
+  private async handleEndpointChange({ type, endpoint }: EndpointChange): Promise<void> {
+    if (endpoint.kind !== 'rpc' && endpoint.kind !== 'websocket') return;
+
+    const providers: Map<string, ProviderWithMetadata | WsProviderWithMetadata> =
+      endpoint.kind === 'rpc' ? this.providers : this.wsProviders;
+    const existing = providers.get(endpoint.url);
+    if (existing) {
+      providers.delete(endpoint.url);
+      if (endpoint.kind === 'rpc') {
+        await this.destroyProvider(endpoint.url, existing as ProviderWithMetadata);
+      } else {
+        await this.destroyWsProvider(endpoint.url, existing as WsProviderWithMetadata);
+      }
+    }
 
-    this.logger.log('All providers cleaned up successfully');
+    if (type !== 'removed') {
+      if (endpoint.kind === 'rpc') {
+        await this.initializeRpcProvider(endpoint);
+      } else {
+        this.initializeWebSocketProvider(endpoint);
+      }
+    }
+
+    // Move off a removed or replaced active provider
+    if (endpoint.kind === 'rpc' && this.activeProvider?.endpoint.url === endpoint.url) {
+      const replacement =
+        this.providers.get(endpoint.url) ??
+        this.getProviderForChainId(this.activeProvider.endpoint.chainId) ??
+        Array.from(this.providers.values())[0];
+      if (replacement) {
+        this.activeProvider = replacement;
+        this.logger.log(`Set active provider to ${replacement.endpoint.name} (${replacement.endpoint.url})`);
+      }
+    }
   }
 
   /**
@@ -137,61 +196,68 @@ export class BlockchainService implements OnModuleInit, OnModuleDestroy {
   public async initializeProviders(): Promise<void> {
     this.logger.log('Initializing blockchain providers...');
 
-    const endpoints = this.configService.getRpcEndpoints();
+    const endpoints = this.endpointRegistry.getRpcEndpoints();
     this.logger.log(`Found ${endpoints.length} RPC endpoints`);
 
-    const wsEndpoints = this.configService.getWsEndpoints();
+    const wsEndpoints = this.endpointRegistry.getWsEndpoints();
     this.logger.log(`Found ${wsEndpoints.length} WebSocket endpoints: ${JSON.stringify(wsEndpoints.map(e => e.url))}`);
 
     for (const endpoint of endpoints) {
-      try {
-        if (!endpoint.url || !endpoint.url.startsWith('http')) {
-          this.logger.warn(`Invalid RPC URL: ${endpoint.url}`);
-          this.providers.set(endpoint.url, {
-            provider: null,
-            endpoint: { ...endpoint, status: 'down' },
-          });
-          continue;
-        }
-
-        // Use a timeout for provider creation
-        const provider = new ethers.JsonRpcProvider(endpoint.url, undefined, {
-          staticNetwork: true,
-          polling: false,
-          cacheTimeout: 10000,
-        });
-
-        // ✅ Add error handling for provider to prevent memory leaks
-        provider.on('error', error => {
-          this.logger.error(`Provider error for ${endpoint.name}: ${error.message}`);
-          this.updateProviderStatus(endpoint.url, false);
-        });
+      await this.initializeRpcProvider(endpoint);
+    }
 
-        // Test the provider with a basic call
-        const networkPromise = provider.getNetwork();
-        const networkTimeout = new Promise((_, reject) =>
-          setTimeout(() => reject(new Error('Network detection timeout')), 5000),
-        );
+    for (const endpoint of wsEndpoints) {
+      this.initializeWebSocketProvider(endpoint);
+    }
 
-        await Promise.race([networkPromise, networkTimeout]);
+    // Test all providers after initialization
+    await this.testAllProviders();
+  }
 
-        this.providers.set(endpoint.url, { provider, endpoint: { ...endpoint, status: 'up' } });
-        this.logger.log(`Initialized RPC provider: ${endpoint.name} (${endpoint.url})`);
-      } catch (error) {
-        this.logger.error(`Failed to initialize provider ${endpoint.name}: ${error.message}`);
+  /**
+   * Initialize an HTTP provider for an endpoint
+   */
+  private async initializeRpcProvider(endpoint: RpcEndpoint): Promise<void> {
+    try {
+      if (!endpoint.url || !endpoint.url.startsWith('http')) {
+        this.logger.warn(`Invalid RPC URL: ${endpoint.url}`);
         this.providers.set(endpoint.url, {
           provider: null,
           endpoint: { ...endpoint, status: 'down' },
         });
+        return;
       }
-    }
 
-    for (const endpoint of wsEndpoints) {
-      this.initializeWebSocketProvider(endpoint);
-    }
+      // Use a timeout for provider creation
+      const provider = new ethers.JsonRpcProvider(endpoint.url, undefined, {
+        staticNetwork: true,
+        polling: false,
+        cacheTimeout: 10000,
+      });
 
-    // Test all providers after initialization
-    await this.testAllProviders();
+      // ✅ Add error handling for provider to prevent memory leaks
+      provider.on('error', error => {
+        this.logger.error(`Provider error for ${endpoint.name}: ${error.message}`);
+        this.updateProviderStatus(endpoint.url, false);
+      });
+
+      // Test the provider with a basic call
+      const networkPromise = provider.getNetwork();
+      const networkTimeout = new Promise((_, reject) =>
+        setTimeout(() => reject(new Error('Network detection timeout')), 5000),
+      );
+
+      await Promise.race([networkPromise, networkTimeout]);
+
+      this.providers.set(endpoint.url, { provider, endpoint: { ...endpoint, status: 'up' } });
+      this.logger.log(`Initialized RPC provider: ${endpoint.name} (${endpoint.url})`);
+    } catch (error) {
+      this.logger.error(`Failed to initialize provider ${endpoint.name}: ${error.message}`);
+      this.providers.set(endpoint.url, {
+        provider: null,
+        endpoint: { ...endpoint, status: 'down' },
+      });
+    }
   }
 
   /**
@@ -238,10 +304,10 @@ export class BlockchainService implements OnModuleInit, OnModuleDestroy {
 
       const testWs = new WebSocket(endpoint.url, {
         headers: {
-          'Pragma': 'no-cache',
+          Pragma: 'no-cache',
           'Cache-Control': 'no-cache',
-          'Upgrade': 'websocket',
-          'Connection': 'Upgrade',
+          Upgrade: 'websocket',
+          Connection: 'Upgrade',
         },
       });
 
@@ -746,7 +812,7 @@ export class BlockchainService implements OnModuleInit, OnModuleDestroy {
       primaryUrl = this.rpcSelectorService.getPrimaryRpcUrl(chainId);
     } else {
       // Fall back to the static config
-      primaryUrl = this.configService.getPrimaryRpcUrl(chainId);
+      primaryUrl = this.endpointRegistry.getPrimaryRpcUrl(chainId);
     }
 
     // Try to get the primary provider
@@ -0,0 +1,379 @@
+import { BUILTIN_CHAINS, CHAIN_DEFAULTS, CHAIN_TYPES } from '@common/constants/chains';
+import { ENV_VARS } from '@common/constants/config';
+import { ENDPOINT_URL_PROTOCOLS } from '@common/constants/endpoints';
+import { ConfigurationError } from '@common/utils/error-handler';
+import { ConfigService } from '@config/config.service';
+import { Injectable, Logger } from '@nestjs/common';
+import { ChainDefinition, ChainEndpointConfig, ChainTestWallet, ChainType, EndpointKind } from '@types';
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { extname, isAbsolute, join } from 'path';
+
+const CHAIN_KEYS = [
+  'chainId',
+  'key',
+  'name',
+  'type',
+  'enabled',
+  'epochLength',
+  'blockTimeSeconds',
+  'v2SwitchBlock',
+  'primaryRpcUrl',
+  'endpoints',
+  'wallet',
+  'parentChainId',
+  'checkpointContract',
+];
+const ENDPOINT_KEYS = ['url', 'name', 'kind', 'type'];
+const WALLET_KEYS = ['privateKeyEnv', 'receiverAddressEnv', 'receiverAddress'];
+const KEY_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * Registry of the chains XDC Monitor watches
+ *
+ * Starts from the built-in Mainnet and Apothem definitions and applies the chains file, which can
+ * add devnets and subnets, change a built-in chain or disable it. Monitors iterate over the
+ * registered chains instead of fixed chain IDs. An invalid chains file fails startup.
+ * Subnets name their parent chain and the checkpoint contract their headers are submitted to.
+ */
+@Injectable()
+export class ChainRegistryService {
+  private readonly logger = new Logger(ChainRegistryService.name);
+  private readonly chains: ChainDefinition[];
+
+  constructor(private readonly configService: ConfigService) {
+    this.chains = this.load();
+    this.logger.log(
+      `Monitoring ${this.chains.length} chains: ${this.chains.map(chain => `${chain.name} (${chain.chainId})`).join(', ')}`,
+    );
+  }
+
+  getChains(): ChainDefinition[] {
+    return this.chains;
+  }
+
+  getChainIds(): number[] {
+    return this.chains.map(chain => chain.chainId);
+  }
+
+  getChain(chainId: number): ChainDefinition | null {
+    return this.chains.find(chain => chain.chainId === chainId) ?? null;
+  }
+
+  isSupported(chainId: number): boolean {
+    return this.getChain(chainId) !== null;
+  }
+
+  /**
+   * Registered subnets, monitored by SubnetMonitor
+   */
+  getSubnets(): ChainDefinition[] {
+    return this.chains.filter(chain => chain.type === 'subnet');
+  }
+
+  /**
+   * Display name of a chain, unknown chains are named after their ID
+   */
+  getChainName(chainId: number): string {
+    return this.getChain(chainId)?.name ?? `Chain ${chainId}`;
+  }
+
+  /**
+   * Test wallet of a chain, the private key is empty when its environment variable is not set
+   */
+  getTestWallet(chainId: number): ChainTestWallet | null {
+    const chain = this.getChain(chainId);
+    if (!chain) return null;
+
+    const { privateKeyEnv, receiverAddressEnv, receiverAddress } = chain.wallet;
+    return {
+      privateKey: this.configService.get(privateKeyEnv, ''),
+      receiverAddress: this.configService.get(receiverAddressEnv, receiverAddress || CHAIN_DEFAULTS.RECEIVER_ADDRESS),
+    };
+  }
+
+  /**
+   * Validate a chains file and return every problem found
+   */
+  validate(raw: unknown): string[] {
+    const errors: string[] = [];
+    const chains = Array.isArray(raw) ? raw : (raw as Record<string, unknown>)?.chains;
+
+    if (!Array.isArray(chains)) {
+      return ['Chains file must contain a "chains" list'];
+    }
+
+    const chainIds = new Set<number>();
+    chains.forEach((chain, index) => {
+      const label = `chains[${index}]${chain?.name ? ` (${chain.name})` : ''}`;
+
+      if (!chain || typeof chain !== 'object' || Array.isArray(chain)) {
+        errors.push(`${label}: must be an object`);
+        return;
+      }
+
+      this.checkKeys(chain, CHAIN_KEYS, label, errors);
+
+      if (!Number.isInteger(chain.chainId) || chain.chainId <= 0) {
+        errors.push(`${label}: chainId must be a positive integer`);
+      } else if (chainIds.has(chain.chainId)) {
+        errors.push(`${label}: duplicate chainId ${chain.chainId}`);
+      } else {
+        chainIds.add(chain.chainId);
+      }
+
+      // New chains need enough to be monitored, built-in chains only list what they change
+      const isBuiltin = BUILTIN_CHAINS.some(builtin => builtin.chainId === chain.chainId);
+      if (!isBuiltin && chain.enabled !== false) {
+        if (chain.name === undefined) errors.push(`${label}: name is required`);
+        if (chain.primaryRpcUrl === undefined) errors.push(`${label}: primaryRpcUrl is required`);
+      }
+
+      if (chain.name !== undefined && (typeof chain.name !== 'string' || !chain.name.trim())) {
+        errors.push(`${label}: name must be a non-empty string`);
+      }
+      if (chain.key !== undefined && (typeof chain.key !== 'string' || !KEY_PATTERN.test(chain.key))) {
+        errors.push(`${label}: key must be lowercase letters, digits, - or _`);
+      }
+      if (chain.type !== undefined && !CHAIN_TYPES.includes(chain.type)) {
+        errors.push(`${label}: type must be one of ${CHAIN_TYPES.join(', ')}`);
+      }
+      if (chain.enabled !== undefined && typeof chain.enabled !== 'boolean') {
+        errors.push(`${label}: enabled must be a boolean`);
+      }
+
+      for (const field of ['epochLength', 'blockTimeSeconds']) {
+        if (chain[field] !== undefined && (typeof chain[field] !== 'number' || chain[field] <= 0)) {
+          errors.push(`${label}: ${field} must be a positive number`);
+        }
+      }
+      if (chain.v2SwitchBlock !== undefined && (!Number.isInteger(chain.v2SwitchBlock) || chain.v2SwitchBlock < 0)) {
+        errors.push(`${label}: v2SwitchBlock must be a non-negative integer`);
+      }
+
+      if (chain.primaryRpcUrl !== undefined && !this.isValidUrl(chain.primaryRpcUrl, 'rpc')) {
+        errors.push(`${label}: primaryRpcUrl must be an http or https URL`);
+      }
+
+      if (chain.endpoints !== undefined) {
+        this.validateEndpoints(chain.endpoints, label, errors);
+      }
+
+      if (chain.wallet !== undefined) {
+        this.validateWallet(chain.wallet, label, errors);
+      }
+
+      if (chain.parentChainId !== undefined || chain.checkpointContract !== undefined) {
+        this.validateSubnet(chain, label, errors);
+      }
+    });
+
+    return errors;
+  }
+
+  private validateEndpoints(endpoints: unknown, label: string, errors: string[]): void {
+    if (!Array.isArray(endpoints)) {
+      errors.push(`${label}: endpoints must be a list`);
+      return;
+    }
+
+    endpoints.forEach((endpoint, index) => {
+      const endpointLabel = `${label}.endpoints[${index}]`;
+      if (!endpoint || typeof endpoint !== 'object' || Array.isArray(endpoint)) {
+        errors.push(`${endpointLabel}: must be an object`);
+        return;
+      }
+
+      this.checkKeys(endpoint, ENDPOINT_KEYS, endpointLabel, errors);
+
+      if (typeof endpoint.name !== 'string' || !endpoint.name.trim()) {
+        errors.push(`${endpointLabel}: name is required`);
+      }
+      if (!ENDPOINT_URL_PROTOCOLS[endpoint.kind]) {
+        errors.push(`${endpointLabel}: kind must be one of ${Object.keys(ENDPOINT_URL_PROTOCOLS).join(', ')}`);
+      } else if (!this.isValidUrl(endpoint.url, endpoint.kind)) {
+        errors.push(`${endpointLabel}: url is not a valid ${endpoint.kind} URL`);
+      }
+      if (endpoint.type !== undefined && (endpoint.kind !== 'rpc' || !['rpc', 'erpc'].includes(endpoint.type))) {
+        errors.push(`${endpointLabel}: type is only allowed for rpc endpoints and must be rpc or erpc`);
+      }
+    });
+  }
+
+  private validateWallet(value: unknown, label: string, errors: string[]): void {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      errors.push(`${label}: wallet must be an object`);
+      return;
+    }
+
+    const wallet = value as Record<string, unknown>;
+    this.checkKeys(wallet, WALLET_KEYS, `${label}.wallet`, errors);
+
+    for (const field of WALLET_KEYS) {
+      if (wallet[field] !== undefined && typeof wallet[field] !== 'string') {
+        errors.push(`${label}: wallet.${field} must be a string`);
+      }
+    }
+  }
+
+  private validateSubnet(chain: Record<string, any>, label: string, errors: string[]): void {
+    if (chain.type !== 'subnet') {
+      errors.push(`${label}: parentChainId and checkpointContract are only allowed for subnet chains`);
+    }
+    if (chain.parentChainId !== undefined) {
+      if (!Number.isInteger(chain.parentChainId) || chain.parentChainId <= 0) {
+        errors.push(`${label}: parentChainId must be a positive integer`);
+      } else if (chain.parentChainId === chain.chainId) {
+        errors.push(`${label}: parentChainId must be another chain`);
+      }
+    }
+    if (chain.checkpointContract !== undefined) {
+      if (typeof chain.checkpointContract !== 'string' || !ADDRESS_PATTERN.test(chain.checkpointContract)) {
+        errors.push(`${label}: checkpointContract must be a 0x-prefixed 20-byte address`);
+      }
+      if (chain.parentChainId === undefined) {
+        errors.push(`${label}: checkpointContract requires parentChainId`);
+      }
+    }
+  }
+
+  private checkKeys(value: Record<string, unknown>, allowed: string[], label: string, errors: string[]): void {
+    const unknown = Object.keys(value).filter(key => !allowed.includes(key));
+    if (unknown.length > 0) {
+      errors.push(`${label}: unknown fields ${unknown.join(', ')}`);
+    }
+  }
+
+  private isValidUrl(value: unknown, kind: EndpointKind): boolean {
+    if (typeof value !== 'string') return false;
+
+    try {
+      return ENDPOINT_URL_PROTOCOLS[kind].includes(new URL(value).protocol);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Read the chains file and apply it to the built-in chains
+   */
+  private load(): ChainDefinition[] {
+    const path = this.configService.getChainsConfigPath();
+    if (!path) return BUILTIN_CHAINS;
+
+    const filePath = isAbsolute(path) ? path : join(process.cwd(), path);
+    let raw: unknown;
+    try {
+      const content = fs.readFileSync(filePath, 'utf8');
+      raw = extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : yaml.load(content);
+    } catch (error) {
+      throw new ConfigurationError(`Failed to read chains file: ${error.message}`, ENV_VARS.CHAINS_CONFIG_PATH);
+    }
+
+    const errors = this.validate(raw);
+    if (errors.length > 0) {
+      throw new ConfigurationError(
+        `Invalid chains file ${filePath}:\n  - ${errors.join('\n  - ')}`,
+        ENV_VARS.CHAINS_CONFIG_PATH,
+      );
+    }
+
+    const entries = (Array.isArray(raw) ? raw : (raw as Record<string, unknown>).chains) as Record<string, any>[];
+    const chains = [
+      ...BUILTIN_CHAINS.map(builtin => {
+        const entry = entries.find(({ chainId }) => chainId === builtin.chainId);
+        return entry ? (entry.enabled === false ? null : this.toChainDefinition(entry, builtin)) : builtin;
+      }),
+      ...entries
+        .filter(entry => entry.enabled !== false)
+        .filter(entry => !BUILTIN_CHAINS.some(builtin => builtin.chainId === entry.chainId))
+        .map(entry => this.toChainDefinition(entry)),
+    ].filter(Boolean);
+
+    if (chains.length === 0) {
+      throw new ConfigurationError(
+        `Invalid chains file ${filePath}: every chain is disabled`,
+        ENV_VARS.CHAINS_CONFIG_PATH,
+      );
+    }
+
+    const keys = chains.map(chain => chain.key);
+    const duplicates = keys.filter((key, index) => keys.indexOf(key) !== index);
+    if (duplicates.length > 0) {
+      throw new ConfigurationError(
+        `Invalid chains file ${filePath}: duplicate chain keys ${Array.from(new Set(duplicates)).join(', ')}`,
+        ENV_VARS.CHAINS_CONFIG_PATH,
+      );
+    }
+
+    const orphans = chains.filter(chain => chain.parentChainId && !chains.some(c => c.chainId === chain.parentChainId));
+    if (orphans.length > 0) {
+      throw new ConfigurationError(
+        `Invalid chains file ${filePath}: ${orphans
+          .map(chain => `parent chain ${chain.parentChainId} of ${chain.name} is not registered`)
+          .join(', ')}`,
+        ENV_VARS.CHAINS_CONFIG_PATH,
+      );
+    }
+
+    return chains;
+  }
+
+  /**
+   * Build a chain from a validated chains file entry, on top of the built-in chain it changes
+   * Endpoints listed for a built-in chain are monitored in addition to its built-in endpoints.
+   */
+  private toChainDefinition(entry: Record<string, any>, base?: ChainDefinition): ChainDefinition {
+    const chainId: number = entry.chainId;
+    const name: string = entry.name?.trim() ?? base.name;
+    const primaryRpcUrl: string = (entry.primaryRpcUrl ?? base.primaryRpcUrl).replace(/\/+$/, '');
+
+    const endpoints: ChainEndpointConfig[] = [
+      ...(base?.endpoints ?? []),
+      ...(entry.endpoints ?? []).map(endpoint => ({
+        url: endpoint.url.trim().replace(/\/+$/, ''),
+        name: endpoint.name.trim(),
+        kind: endpoint.kind,
+        type: endpoint.kind === 'rpc' ? (endpoint.type ?? 'rpc') : endpoint.kind === 'websocket' ? 'websocket' : 'rpc',
+      })),
+    ];
+    if (!endpoints.some(endpoint => endpoint.kind === 'rpc' && endpoint.url === primaryRpcUrl)) {
+      endpoints.unshift({ url: primaryRpcUrl, name: `${name} Primary RPC`, kind: 'rpc', type: 'rpc' });
+    }
+
+    return {
+      chainId,
+      key: entry.key ?? base?.key ?? (this.toKey(name) || `chain-${chainId}`),
+      name,
+      type: (entry.type ?? base?.type ?? CHAIN_DEFAULTS.TYPE) as ChainType,
+      epochLength: entry.epochLength ?? base?.epochLength ?? CHAIN_DEFAULTS.EPOCH_LENGTH,
+      blockTimeSeconds: entry.blockTimeSeconds ?? base?.blockTimeSeconds ?? CHAIN_DEFAULTS.BLOCK_TIME_SECONDS,
+      v2SwitchBlock: entry.v2SwitchBlock ?? base?.v2SwitchBlock ?? CHAIN_DEFAULTS.V2_SWITCH_BLOCK,
+      primaryRpcUrl,
+      endpoints: endpoints.filter(
+        (endpoint, index) => endpoints.findIndex(({ url }) => url === endpoint.url) === index,
+      ),
+      wallet: {
+        privateKeyEnv:
+          entry.wallet?.privateKeyEnv ??
+          base?.wallet.privateKeyEnv ??
+          `${CHAIN_DEFAULTS.PRIVATE_KEY_ENV_PREFIX}${chainId}`,
+        receiverAddressEnv:
+          entry.wallet?.receiverAddressEnv ??
+          base?.wallet.receiverAddressEnv ??
+          `${CHAIN_DEFAULTS.RECEIVER_ADDRESS_ENV_PREFIX}${chainId}`,
+        receiverAddress: entry.wallet?.receiverAddress ?? base?.wallet.receiverAddress,
+      },
+      parentChainId: entry.parentChainId,
+      checkpointContract: entry.checkpointContract,
+    };
+  }
+
+  private toKey(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+}
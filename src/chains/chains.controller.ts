@@ -0,0 +1,35 @@
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { ChainDto } from '@chains/dto/chain.dto';
+import { ErrorResponseDto } from '@common/dto/common.dto';
+import { ApiAuth } from '@docs/api-docs.decorators';
+import { Controller, Get, NotFoundException, Param, ParseIntPipe } from '@nestjs/common';
+import { ApiNotFoundResponse, ApiOkResponse, ApiTags } from '@nestjs/swagger';
+
+/**
+ * Monitored chains, the endpoints of a chain are listed by the endpoint registry
+ */
+@Controller('chains')
+@ApiTags('Chains')
+@ApiAuth()
+export class ChainsController {
+  constructor(private readonly chainRegistry: ChainRegistryService) {}
+
+  @Get()
+  @ApiOkResponse({ type: [ChainDto] })
+  getChains(): ChainDto[] {
+    return this.chainRegistry.getChains().map(({ endpoints, ...chain }) => chain);
+  }
+
+  @Get(':chainId')
+  @ApiOkResponse({ type: ChainDto })
+  @ApiNotFoundResponse({ description: 'The chain is not monitored', type: ErrorResponseDto })
+  getChain(@Param('chainId', ParseIntPipe) chainId: number): ChainDto {
+    const chain = this.chainRegistry.getChain(chainId);
+    if (!chain) {
+      throw new NotFoundException(`Chain ${chainId} is not monitored`);
+    }
+
+    const { endpoints, ...definition } = chain;
+    return definition;
+  }
+}
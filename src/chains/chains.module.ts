@@ -0,0 +1,16 @@
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { ChainsController } from '@chains/chains.controller';
+import { ConfigModule } from '@config/config.module';
+import { Global, Module } from '@nestjs/common';
+
+/**
+ * Global module providing the chain registry
+ */
+@Global()
+@Module({
+  imports: [ConfigModule],
+  controllers: [ChainsController],
+  providers: [ChainRegistryService],
+  exports: [ChainRegistryService],
+})
+export class ChainsModule {}
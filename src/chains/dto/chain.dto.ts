@@ -0,0 +1,51 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ChainDefinition, ChainType, ChainWalletConfig } from '@types';
+
+export class ChainWalletConfigDto implements ChainWalletConfig {
+  @ApiProperty({ description: 'Environment variable holding the test wallet private key' })
+  privateKeyEnv: string;
+
+  @ApiProperty({ description: 'Environment variable holding the receiver address' })
+  receiverAddressEnv: string;
+
+  @ApiPropertyOptional({ description: 'Used when the receiver environment variable is not set' })
+  receiverAddress?: string;
+}
+
+/**
+ * Chain definition without its endpoints, those are listed by the endpoint registry
+ */
+export class ChainDto implements Omit<ChainDefinition, 'endpoints'> {
+  @ApiProperty({ example: 50 })
+  chainId: number;
+
+  @ApiProperty({ example: 'mainnet', description: 'Identifier used as key in status payloads' })
+  key: string;
+
+  @ApiProperty({ example: 'Mainnet' })
+  name: string;
+
+  @ApiProperty({ enum: ['mainnet', 'testnet', 'devnet', 'subnet'] })
+  type: ChainType;
+
+  @ApiProperty({ description: 'Blocks per epoch' })
+  epochLength: number;
+
+  @ApiProperty({ description: 'Target time between blocks in seconds' })
+  blockTimeSeconds: number;
+
+  @ApiProperty({ description: 'Block where XDPoS v2 started' })
+  v2SwitchBlock: number;
+
+  @ApiProperty()
+  primaryRpcUrl: string;
+
+  @ApiProperty({ type: ChainWalletConfigDto })
+  wallet: ChainWalletConfigDto;
+
+  @ApiPropertyOptional({ description: 'Subnets only: chain the subnet checkpoints to' })
+  parentChainId?: number;
+
+  @ApiPropertyOptional({ description: 'Subnets only: checkpoint contract on the parent chain' })
+  checkpointContract?: string;
+}
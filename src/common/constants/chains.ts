@@ -0,0 +1,66 @@
+import { ChainDefinition, ChainEndpointConfig, EndpointKind, RpcEndpoint } from '@types';
+import {
+  EXPLORER_ENDPOINTS,
+  FAUCET_ENDPOINTS,
+  MAINNET_CHAIN_ID,
+  PRIMARY_RPC_URLS,
+  RPC_ENDPOINTS,
+  TESTNET_CHAIN_ID,
+  WS_ENDPOINTS,
+} from './endpoints';
+
+// Defaults for chains defined in the chains file
+export const CHAIN_DEFAULTS = {
+  TYPE: 'devnet' as const,
+  EPOCH_LENGTH: 900,
+  BLOCK_TIME_SECONDS: 2,
+  V2_SWITCH_BLOCK: 0,
+  // Test wallet environment variables, suffixed with the chain ID
+  PRIVATE_KEY_ENV_PREFIX: 'TEST_PRIVATE_KEY_',
+  RECEIVER_ADDRESS_ENV_PREFIX: 'TEST_RECEIVER_ADDRESS_',
+  // Burn address used when no receiver is configured
+  RECEIVER_ADDRESS: '0x0000000000000000000000000000000000000000',
+};
+
+export const CHAIN_TYPES = ['mainnet', 'testnet', 'devnet', 'subnet'];
+
+const ENDPOINT_LISTS: [EndpointKind, RpcEndpoint[]][] = [
+  ['rpc', RPC_ENDPOINTS],
+  ['websocket', WS_ENDPOINTS],
+  ['explorer', EXPLORER_ENDPOINTS],
+  ['faucet', FAUCET_ENDPOINTS],
+];
+
+const endpointsOf = (chainId: number): ChainEndpointConfig[] =>
+  ENDPOINT_LISTS.flatMap(([kind, endpoints]) =>
+    endpoints
+      .filter(endpoint => endpoint.chainId === chainId)
+      .map(({ url, name, type }) => ({ url, name, kind, type })),
+  );
+
+export const BUILTIN_CHAINS: ChainDefinition[] = [
+  {
+    chainId: MAINNET_CHAIN_ID,
+    key: 'mainnet',
+    name: 'Mainnet',
+    type: 'mainnet',
+    epochLength: 900,
+    blockTimeSeconds: 2,
+    v2SwitchBlock: 80370000, // 2nd Oct 2024
+    primaryRpcUrl: PRIMARY_RPC_URLS[MAINNET_CHAIN_ID],
+    endpoints: endpointsOf(MAINNET_CHAIN_ID),
+    wallet: { privateKeyEnv: 'MAINNET_TEST_PRIVATE_KEY', receiverAddressEnv: 'TEST_MAINNET_RECEIVER_ADDRESS' },
+  },
+  {
+    chainId: TESTNET_CHAIN_ID,
+    key: 'testnet',
+    name: 'Testnet',
+    type: 'testnet',
+    epochLength: 900,
+    blockTimeSeconds: 2,
+    v2SwitchBlock: 56828700, // 13th Nov 2023
+    primaryRpcUrl: PRIMARY_RPC_URLS[TESTNET_CHAIN_ID],
+    endpoints: endpointsOf(TESTNET_CHAIN_ID),
+    wallet: { privateKeyEnv: 'TESTNET_TEST_PRIVATE_KEY', receiverAddressEnv: 'TEST_TESTNET_RECEIVER_ADDRESS' },
+  },
+];
@@ -51,6 +51,13 @@ export const BLOCKCHAIN = {
 
     // Block time thresholds in seconds (only critical threshold)
     BLOCK_TIME_ERROR_THRESHOLD: 10, // 10 seconds
+
+    // Block gap backfill settings
+    BACKFILL_MAX_BLOCKS: 1000, // Maximum blocks backfilled per gap, older blocks are skipped
+    BACKFILL_MAX_CONCURRENT: 3,
+    BACKFILL_MAX_RETRIES: 3,
+    BACKFILL_RETRY_DELAY_MS: 2000,
+    BACKFILL_RECENT_GAPS: 20, // Number of recent gaps kept for the status endpoint
   },
 };
 
@@ -63,6 +70,7 @@ export const FEATURE_FLAGS = {
   ENABLE_PORT_MONITORING: 'ENABLE_PORT_MONITORING',
   ENABLE_METRICS_COLLECTION: 'ENABLE_METRICS_COLLECTION',
   ENABLE_CONSENSUS_MONITORING: 'ENABLE_CONSENSUS_MONITORING',
+  ENABLE_SUBNET_MONITORING: 'ENABLE_SUBNET_MONITORING',
 
   // Alert feature flags
   ENABLE_DASHBOARD_ALERTS: 'ENABLE_DASHBOARD_ALERTS',
@@ -72,13 +80,24 @@ export const FEATURE_FLAGS = {
   ENABLE_DASHBOARD: 'ENABLE_DASHBOARD',
   ENABLE_WEBSOCKET_UPDATES: 'ENABLE_WEBSOCKET_UPDATES',
 
+  // API feature flags
+  ENABLE_API_AUTH: 'ENABLE_API_AUTH',
+  ENABLE_API_DOCS: 'ENABLE_API_DOCS',
+
   // Storage feature flags
   ENABLE_INFLUXDB: 'ENABLE_INFLUXDB',
 
+  // OpenTelemetry export feature flags
+  ENABLE_OTEL_METRICS: 'ENABLE_OTEL_METRICS',
+  ENABLE_OTEL_TRACES: 'ENABLE_OTEL_TRACES',
+
   // Notification feature flags
   ENABLE_WEBHOOK_NOTIFICATIONS: 'ENABLE_WEBHOOK_NOTIFICATIONS',
   ENABLE_TELEGRAM_NOTIFICATIONS: 'ENABLE_TELEGRAM_NOTIFICATIONS',
   ENABLE_EMAIL_NOTIFICATIONS: 'ENABLE_EMAIL_NOTIFICATIONS',
+  ENABLE_SLACK_NOTIFICATIONS: 'ENABLE_SLACK_NOTIFICATIONS',
+  ENABLE_DISCORD_NOTIFICATIONS: 'ENABLE_DISCORD_NOTIFICATIONS',
+  ENABLE_PAGERDUTY_NOTIFICATIONS: 'ENABLE_PAGERDUTY_NOTIFICATIONS',
 } as const;
 
 // Environment variable names
@@ -114,6 +133,28 @@ export const ENV_VARS = {
   INFLUXDB_ADMIN_USER: 'INFLUXDB_ADMIN_USER',
   INFLUXDB_ADMIN_PASSWORD: 'INFLUXDB_ADMIN_PASSWORD',
 
+  // Time-series storage backend (influxdb, prometheus-remote-write, timescaledb, memory)
+  METRICS_BACKEND: 'METRICS_BACKEND',
+  METRICS_MEMORY_MAX_POINTS: 'METRICS_MEMORY_MAX_POINTS',
+  PROMETHEUS_REMOTE_WRITE_URL: 'PROMETHEUS_REMOTE_WRITE_URL',
+  PROMETHEUS_REMOTE_WRITE_USERNAME: 'PROMETHEUS_REMOTE_WRITE_USERNAME',
+  PROMETHEUS_REMOTE_WRITE_PASSWORD: 'PROMETHEUS_REMOTE_WRITE_PASSWORD',
+  PROMETHEUS_REMOTE_WRITE_BEARER_TOKEN: 'PROMETHEUS_REMOTE_WRITE_BEARER_TOKEN',
+  TIMESCALEDB_URL: 'TIMESCALEDB_URL',
+  TIMESCALEDB_TABLE: 'TIMESCALEDB_TABLE',
+
+  // On-disk spool for points written while the time-series backend is down
+  ENABLE_METRICS_SPOOL: 'ENABLE_METRICS_SPOOL',
+  METRICS_SPOOL_PATH: 'METRICS_SPOOL_PATH',
+  METRICS_SPOOL_MAX_BYTES: 'METRICS_SPOOL_MAX_BYTES',
+
+  // OpenTelemetry (OTLP/HTTP) export configuration
+  OTEL_EXPORTER_OTLP_ENDPOINT: 'OTEL_EXPORTER_OTLP_ENDPOINT',
+  OTEL_EXPORTER_OTLP_HEADERS: 'OTEL_EXPORTER_OTLP_HEADERS',
+  OTEL_SERVICE_NAME: 'OTEL_SERVICE_NAME',
+  OTEL_METRIC_EXPORT_INTERVAL: 'OTEL_METRIC_EXPORT_INTERVAL',
+  OTEL_TRACES_SAMPLE_RATIO: 'OTEL_TRACES_SAMPLE_RATIO',
+
   // Grafana Configuration
   GRAFANA_ADMIN_USER: 'GRAFANA_ADMIN_USER',
   GRAFANA_ADMIN_PASSWORD: 'GRAFANA_ADMIN_PASSWORD',
@@ -125,6 +166,34 @@ export const ENV_VARS = {
   TELEGRAM_MAINNET_TOPIC_ID: 'TELEGRAM_MAINNET_TOPIC_ID',
   TELEGRAM_TESTNET_TOPIC_ID: 'TELEGRAM_TESTNET_TOPIC_ID',
 
+  // Email (SMTP) configuration
+  SMTP_HOST: 'SMTP_HOST',
+  SMTP_PORT: 'SMTP_PORT',
+  SMTP_SECURE: 'SMTP_SECURE',
+  SMTP_USER: 'SMTP_USER',
+  SMTP_PASSWORD: 'SMTP_PASSWORD',
+  EMAIL_FROM: 'EMAIL_FROM',
+  // Recipient lists, suffixed with _MAINNET/_TESTNET and/or _CRITICAL/_WARNING/_INFO for specific routes
+  EMAIL_RECIPIENTS: 'EMAIL_RECIPIENTS',
+  EMAIL_REPORT_RECIPIENTS: 'EMAIL_REPORT_RECIPIENTS',
+
+  // Alert reports sent on a schedule: comma-separated daily, weekly, monthly
+  REPORT_SCHEDULES: 'REPORT_SCHEDULES',
+
+  // Slack and Discord incoming webhooks
+  SLACK_WEBHOOK_URL: 'SLACK_WEBHOOK_URL',
+  SLACK_MAINNET_WEBHOOK_URL: 'SLACK_MAINNET_WEBHOOK_URL',
+  SLACK_TESTNET_WEBHOOK_URL: 'SLACK_TESTNET_WEBHOOK_URL',
+  DISCORD_WEBHOOK_URL: 'DISCORD_WEBHOOK_URL',
+  DISCORD_MAINNET_WEBHOOK_URL: 'DISCORD_MAINNET_WEBHOOK_URL',
+  DISCORD_TESTNET_WEBHOOK_URL: 'DISCORD_TESTNET_WEBHOOK_URL',
+
+  // PagerDuty (Events v2) escalation
+  PAGERDUTY_ROUTING_KEY: 'PAGERDUTY_ROUTING_KEY',
+  PAGERDUTY_EVENTS_URL: 'PAGERDUTY_EVENTS_URL',
+  PAGERDUTY_SOURCE: 'PAGERDUTY_SOURCE',
+  PAGERDUTY_ALERT_TYPES: 'PAGERDUTY_ALERT_TYPES',
+
   // Wallet Configuration
   MNEMONIC_WALLET: 'MNEMONIC_WALLET',
   MAINNET_TEST_PRIVATE_KEY: 'MAINNET_TEST_PRIVATE_KEY',
@@ -136,6 +205,15 @@ export const ENV_VARS = {
   CONSENSUS_MONITORING_CHAIN_IDS: 'CONSENSUS_MONITORING_CHAIN_IDS',
   CONSENSUS_SCAN_INTERVAL: 'CONSENSUS_SCAN_INTERVAL',
 
+  // Subnet monitoring configuration
+  SUBNET_SCAN_INTERVAL: 'SUBNET_SCAN_INTERVAL',
+  SUBNET_BLOCK_STALL_SECONDS: 'SUBNET_BLOCK_STALL_SECONDS',
+  SUBNET_CHECKPOINT_LAG_EPOCHS: 'SUBNET_CHECKPOINT_LAG_EPOCHS',
+
+  // Live updates configuration
+  DASHBOARD_UPDATE_INTERVAL_MS: 'DASHBOARD_UPDATE_INTERVAL_MS',
+  WEBSOCKET_PING_INTERVAL_MS: 'WEBSOCKET_PING_INTERVAL_MS',
+
   // Healthchecks.io configuration
   HEALTHCHECKS_IO_URL: 'HEALTHCHECKS_IO_URL',
   HEALTHCHECKS_IO_INTERVAL: 'HEALTHCHECKS_IO_INTERVAL',
@@ -146,6 +224,30 @@ export const ENV_VARS = {
   SENTINEL_PEER_COUNT: 'SENTINEL_PEER_COUNT',
   SENTINEL_LATENCY: 'SENTINEL_LATENCY',
   SENTINEL_STATUS_DOWN: 'SENTINEL_STATUS_DOWN',
+
+  // State store configuration
+  ENABLE_STATE_STORE: 'ENABLE_STATE_STORE',
+  STATE_STORE_BACKEND: 'STATE_STORE_BACKEND',
+  STATE_STORE_PATH: 'STATE_STORE_PATH',
+  STATE_STORE_SNAPSHOT_INTERVAL_MS: 'STATE_STORE_SNAPSHOT_INTERVAL_MS',
+  STATE_STORE_MAX_AGE_MS: 'STATE_STORE_MAX_AGE_MS',
+
+  // Alert routing rules
+  ALERT_ROUTING_RULES_PATH: 'ALERT_ROUTING_RULES_PATH',
+  ALERT_ROUTING_RELOAD_INTERVAL_MS: 'ALERT_ROUTING_RELOAD_INTERVAL_MS',
+
+  // Endpoint registry
+  ENDPOINT_REGISTRY_PATH: 'ENDPOINT_REGISTRY_PATH',
+
+  // Chain registry
+  CHAINS_CONFIG_PATH: 'CHAINS_CONFIG_PATH',
+
+  // API authentication and rate limiting
+  API_KEYS: 'API_KEYS',
+  JWT_SECRET: 'JWT_SECRET',
+  JWT_ISSUER: 'JWT_ISSUER',
+  RATE_LIMIT_WINDOW_MS: 'RATE_LIMIT_WINDOW_MS',
+  RATE_LIMIT_MAX_REQUESTS: 'RATE_LIMIT_MAX_REQUESTS',
 } as const;
 
 // Network related constants
@@ -184,6 +286,19 @@ export const DEFAULTS = {
   INFLUXDB_ORG: 'xdc',
   INFLUXDB_BUCKET: 'xdc_monitoring',
 
+  // Time-series storage defaults
+  METRICS_BACKEND: 'influxdb',
+  METRICS_MEMORY_MAX_POINTS: 10000,
+  TIMESCALEDB_TABLE: 'xdc_metrics',
+  METRICS_SPOOL_PATH: 'data/metrics-spool',
+  METRICS_SPOOL_MAX_BYTES: 100 * 1024 * 1024, // 100 MB
+
+  // OpenTelemetry defaults
+  OTEL_EXPORTER_OTLP_ENDPOINT: 'http://localhost:4318',
+  OTEL_SERVICE_NAME: 'xdc-monitor',
+  OTEL_METRIC_EXPORT_INTERVAL: 60000, // 1 minute
+  OTEL_TRACES_SAMPLE_RATIO: 1, // Trace every check
+
   // Maximum number of attempts for RPC calls
   RPC_MAX_RETRIES: 3,
 
@@ -202,6 +317,36 @@ export const DEFAULTS = {
   SENTINEL_PEER_COUNT: -1,
   SENTINEL_LATENCY: -1,
   SENTINEL_STATUS_DOWN: 0,
+
+  // Email defaults
+  SMTP_PORT: 587,
+  EMAIL_FROM: 'XDC Monitor <xdc-monitor@localhost>',
+  REPORT_SCHEDULES: ['weekly'],
+
+  // PagerDuty defaults
+  PAGERDUTY_EVENTS_URL: 'https://events.pagerduty.com/v2/enqueue',
+  PAGERDUTY_SOURCE: 'xdc-monitor',
+  // Stateful error alerts escalated when no routing rule picks the channels
+  PAGERDUTY_ALERT_TYPES: ['rpc_endpoint_down', 'sync_blocks_lag', 'subnet_block_production_stalled'],
+
+  // State store defaults
+  STATE_STORE_BACKEND: 'file',
+  STATE_STORE_PATH: 'data/state.json',
+  STATE_STORE_SQLITE_PATH: 'data/state.db', // The sqlite backend never reuses the JSON file of the file backend
+  STATE_STORE_SNAPSHOT_INTERVAL_MS: 60000, // 1 minute
+  STATE_STORE_MAX_AGE_MS: 24 * 60 * 60 * 1000, // Snapshots older than 24 hours are not restored
+
+  // Alert routing defaults
+  ALERT_ROUTING_RELOAD_INTERVAL_MS: 5000, // How often the rules file is checked for changes
+
+  // Endpoint registry defaults
+  ENDPOINT_REGISTRY_PATH: 'data/endpoints.json',
+  CHAINS_CONFIG_PATH: '',
+
+  // Subnet monitoring defaults
+  SUBNET_SCAN_INTERVAL: 30000, // 30 seconds
+  SUBNET_BLOCK_STALL_SECONDS: 60, // Alert when a subnet produced no block for a minute
+  SUBNET_CHECKPOINT_LAG_EPOCHS: 2, // Alert when the last checkpointed header is 2+ epochs behind the subnet head
 } as const;
 
 // Time constants in milliseconds for convenience
@@ -294,6 +439,13 @@ export const ALERTS = {
     CONSENSUS_UNUSUAL_TIMEOUT: 'consensus_unusual_timeout',
     CONSENSUS_PENALTY_LIST_SIZE_EXCEEDED: 'consensus_penalty_list_size_exceeded',
     CONSENSUS_FREQUENT_PENALTY_NODES: 'consensus_frequent_penalty_nodes',
+    CONSENSUS_PENALIZED_NODE_REWARDED: 'consensus_penalized_node_rewarded',
+    CONSENSUS_MASTERNODE_MISSING_REWARD: 'consensus_masternode_missing_reward',
+    CHAIN_REORG: 'chain_reorg',
+    ENDPOINT_CHAIN_DIVERGENCE: 'endpoint_chain_divergence',
+    SUBNET_BLOCK_PRODUCTION_STALLED: 'subnet_block_production_stalled',
+    SUBNET_CHECKPOINT_LAG: 'subnet_checkpoint_lag',
+    SUBNET_CHECKPOINT_MISMATCH: 'subnet_checkpoint_mismatch',
   },
 
   // Alert components
@@ -304,6 +456,7 @@ export const ALERTS = {
     BLOCK: 'block',
     SYNC: 'sync',
     CONSENSUS: 'consensus',
+    SUBNET: 'subnet',
   },
 
   // Alert severities
@@ -323,6 +476,9 @@ export const ALERTS = {
     SYNC_LAG_ERROR_BLOCKS: 100, // 100 blocks
     SYNC_LAG_CRITICAL_BLOCKS: 1000, // 1000 blocks
 
+    // Reorg
+    REORG_DEPTH_ERROR_BLOCKS: 3, // Reorgs of 3+ blocks are errors, shallower ones warnings
+
     // Transaction volume
     TX_VOLUME_LOW_THRESHOLD: 10, // 10 transactions
 
@@ -344,6 +500,67 @@ export const ALERTS = {
       SYNC_BLOCKS_LAG_MANY_ENDPOINTS: 3600, // 1 hours (when many endpoints are affected)
     },
   },
+
+  // Alert lifecycle API
+  LIFECYCLE: {
+    DEFAULT_PAGE_SIZE: 50,
+    MAX_PAGE_SIZE: 200,
+    MAX_SILENCE_DURATION_MINUTES: 7 * 24 * 60, // 1 week
+  },
+
+  // Declarative routing rules
+  ROUTING: {
+    // Channel ids a rule may route to
+    CHANNELS: ['webhook', 'telegram', 'email', 'slack', 'discord', 'pagerduty', 'dashboard'],
+    QUIET_HOURS_DAYS: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'],
+  },
+};
+
+// Historical query API
+export const HISTORY = {
+  DEFAULT_RANGE_MS: 24 * 60 * 60 * 1000, // 24 hours
+  MAX_RANGE_MS: 90 * 24 * 60 * 60 * 1000, // 90 days
+  METRICS: ['block-time', 'latency', 'uptime', 'peer-count', 'tps', 'missed-rounds'],
+  AGGREGATIONS: ['mean', 'min', 'max', 'sum', 'count', 'last', 'p95'],
+  UPTIME_ENDPOINT_TYPES: ['rpc', 'websocket', 'explorer', 'faucet'],
+  PEER_COUNT_ENDPOINT_TYPES: ['rpc', 'websocket'],
+  // Bucket count the default interval aims for, and the most a request may ask for
+  TARGET_BUCKETS: 200,
+  MAX_BUCKETS: 5000,
+  // Candidate intervals for the default, smallest first
+  INTERVALS_MS: [
+    60 * 1000, // 1 minute
+    5 * 60 * 1000,
+    15 * 60 * 1000,
+    60 * 60 * 1000, // 1 hour
+    6 * 60 * 60 * 1000,
+    24 * 60 * 60 * 1000, // 1 day
+  ],
+};
+
+// Live updates streamed over WebSocket and SSE
+export const LIVE_UPDATES = {
+  TOPICS: ['blocks', 'endpoints', 'rpc-selection', 'alerts', 'consensus'],
+  WEBSOCKET_PATH: '/api/live/ws',
+  // Events are dropped for a WebSocket client while this much data is still unsent
+  MAX_BUFFERED_BYTES: 1024 * 1024,
+} as const;
+
+// Scheduled and on-demand reports
+export const REPORTS = {
+  PERIODS_MS: {
+    daily: 24 * 60 * 60 * 1000,
+    weekly: 7 * 24 * 60 * 60 * 1000,
+    monthly: 30 * 24 * 60 * 60 * 1000,
+  },
+  MAX_RANGE_MS: 93 * 24 * 60 * 60 * 1000, // About a quarter
+  ALERTS: {
+    FORMATS: ['telegram', 'markdown', 'html', 'text'],
+    NOISY_ALERT_TYPES: 10,
+  },
+  SLA: {
+    ENDPOINT_TYPES: ['rpc', 'websocket', 'explorer', 'faucet'],
+  },
 };
 
 // Performance and resource tuning
@@ -371,6 +588,12 @@ export const PERFORMANCE = {
     // Retry delay in milliseconds
     RETRY_DELAY_MS: 1000, // 1 second
   },
+
+  // Time-series history queries
+  METRICS_QUERY: {
+    // Long ranges are read one day at a time so they never hold every raw point in memory
+    CHUNK_MS: 24 * 60 * 60 * 1000,
+  },
 };
 
 // HTTP and API settings
@@ -388,12 +611,44 @@ export const HTTP = {
     API: '/api',
   },
 
-  // Rate limiting
+  // Rate limiting, applied per API key or JWT subject
   RATE_LIMIT: {
     WINDOW_MS: 15 * 60 * 1000, // 15 minutes
     MAX_REQUESTS: 100, // 100 requests per window
   },
 
+  // Authentication
+  AUTH: {
+    // Roles from least to most privileged, each role can do everything the previous ones can
+    ROLES: ['read-only', 'operator', 'admin'] as const,
+    API_KEY_HEADER: 'x-api-key',
+    // Query parameter for clients that cannot set headers, such as browser WebSockets and EventSource
+    API_KEY_QUERY_PARAM: 'apiKey',
+    JWT_ALGORITHM: 'HS256',
+  },
+
+  // OpenAPI documentation, paths include the global prefix
+  DOCS: {
+    PATH: 'api/docs',
+    JSON_PATH: 'api/docs/openapi.json',
+    YAML_PATH: 'api/docs/openapi.yaml',
+    TITLE: 'XDC Monitor API',
+    VERSION: '1.0',
+    BEARER_SECURITY: 'bearer',
+    API_KEY_SECURITY: 'api-key',
+  },
+
+  // GraphQL API, queries over HTTP and subscriptions over WebSocket share the path
+  GRAPHQL: {
+    PATH: '/api/graphql',
+    // Window of the endpoint history fields when the query does not set one
+    DEFAULT_HISTORY_HOURS: 24,
+    // Related alerts returned per endpoint or chain when the query does not set a limit
+    DEFAULT_ALERT_LIMIT: 20,
+    // Events queued per subscription while the client is slow, the oldest are dropped beyond this
+    MAX_BUFFERED_EVENTS: 100,
+  },
+
   // Timeouts
   TIMEOUTS: {
     DEFAULT_TIMEOUT_MS: 30000, // 30 seconds
@@ -417,5 +672,10 @@ export const FEATURES = {
     REFRESH_INTERVAL_MS: 10000, // 10 seconds
     MAX_BLOCKS_DISPLAY: 50,
     MAX_TRANSACTIONS_DISPLAY: 100,
+    // Uptime bars of the status page: one bar per hour over the last 24 hours
+    UPTIME_WINDOW_MS: 24 * 60 * 60 * 1000,
+    UPTIME_BAR_INTERVAL_MS: 60 * 60 * 1000,
+    // Uptime is read from the metrics backend at most this often
+    UPTIME_CACHE_MS: 5 * 60 * 1000,
   },
 };
@@ -188,3 +188,11 @@ export const RPC_QUALITY_TIERS = {
   LOW: 1, // Less reliable or higher latency
   UNKNOWN: 0, // Not yet evaluated
 };
+
+// URL schemes the endpoint registry accepts for each kind of endpoint
+export const ENDPOINT_URL_PROTOCOLS = {
+  rpc: ['http:', 'https:'],
+  websocket: ['ws:', 'wss:'],
+  explorer: ['http:', 'https:'],
+  faucet: ['http:', 'https:'],
+};
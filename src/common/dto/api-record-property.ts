@@ -0,0 +1,36 @@
+import { Type } from '@nestjs/common';
+import { ApiProperty, ApiPropertyOptions, getSchemaPath } from '@nestjs/swagger';
+
+// Models only referenced from additionalProperties, the spec scanner does not discover them by itself
+const recordValueModels = new Set<Type<unknown>>();
+
+/**
+ * Document a Record<string, T> property, e.g. per-chain fields keyed by chain key
+ */
+export function ApiRecordProperty(
+  value: Type<unknown> | 'string' | 'number' | 'boolean',
+  options: ApiPropertyOptions & { isArray?: boolean } = {},
+): PropertyDecorator {
+  const { isArray, ...propertyOptions } = options;
+
+  let schema: Record<string, unknown>;
+  if (typeof value === 'string') {
+    schema = { type: value };
+  } else {
+    recordValueModels.add(value);
+    schema = { $ref: getSchemaPath(value) };
+  }
+
+  return ApiProperty({
+    type: 'object',
+    additionalProperties: isArray ? { type: 'array', items: schema } : schema,
+    ...propertyOptions,
+  } as ApiPropertyOptions);
+}
+
+/**
+ * Models to register as extra models when building the OpenAPI document
+ */
+export function getRecordValueModels(): Type<unknown>[] {
+  return Array.from(recordValueModels);
+}
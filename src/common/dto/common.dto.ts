@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Outcome of an action route such as a test or a simulation
+ */
+export class ActionResultDto {
+  @ApiProperty()
+  success: boolean;
+
+  @ApiProperty()
+  message: string;
+}
+
+/**
+ * Error body returned for 4xx and 5xx responses
+ */
+export class ErrorResponseDto {
+  @ApiProperty({ example: 400 })
+  statusCode: number;
+
+  @ApiProperty({ oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] })
+  message: string | string[];
+
+  @ApiProperty({ example: 'Bad Request' })
+  error: string;
+}
@@ -0,0 +1,325 @@
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { AlertCategory, AlertManager, AlertOptions, AlertSeverity } from '@common/utils/alert-manager';
+import { Logger } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { ChainDefinition, EmailNotificationConfig, PagerDutyNotificationConfig } from '@types';
+import { createServer, Server } from 'http';
+import { ParsedMail, simpleParser } from 'mailparser';
+import { AddressInfo } from 'net';
+import { SMTPServer, SMTPServerEnvelope } from 'smtp-server';
+
+const CHAINS: Partial<ChainDefinition>[] = [
+  { chainId: 50, name: 'Mainnet', type: 'mainnet' },
+  { chainId: 51, name: 'Apothem', type: 'testnet' },
+];
+
+interface ReceivedMail {
+  envelope: SMTPServerEnvelope;
+  mail: ParsedMail;
+}
+
+/**
+ * Local SMTP server that keeps every message it accepts
+ */
+class SmtpSink {
+  received: ReceivedMail[] = [];
+  rejectedRecipients = new Set<string>();
+
+  private server: SMTPServer;
+  private waiting: ((mail: ReceivedMail) => void)[] = [];
+
+  async start(): Promise<number> {
+    this.server = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['STARTTLS'],
+      logger: false,
+      onRcptTo: (address, session, callback) =>
+        callback(this.rejectedRecipients.has(address.address) ? new Error('Mailbox unavailable') : undefined),
+      onData: (stream, session, callback) => {
+        simpleParser(stream)
+          .then(mail => {
+            const received = { envelope: session.envelope, mail };
+            this.received.push(received);
+            this.waiting.splice(0).forEach(resolve => resolve(received));
+            callback();
+          })
+          .catch(callback);
+      },
+    });
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.server.address() as AddressInfo).port;
+  }
+
+  nextMail(): Promise<ReceivedMail> {
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+/**
+ * Local PagerDuty Events v2 receiver that keeps every event posted to it
+ */
+class PagerDutyReceiver {
+  events: Record<string, any>[] = [];
+  status = 202;
+
+  private server: Server;
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        this.events.push(JSON.parse(body));
+        res.statusCode = this.status;
+        res.end(JSON.stringify({ status: this.status === 202 ? 'success' : 'error' }));
+      });
+    });
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/v2/enqueue`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('AlertManager', () => {
+  let alertManager: AlertManager;
+
+  const alert = (options: Partial<AlertOptions> = {}): AlertOptions => ({
+    severity: AlertSeverity.WARNING,
+    category: AlertCategory.BLOCKCHAIN,
+    component: 'rpc',
+    alertType: 'rpc_endpoint_down',
+    title: 'RPC endpoint down',
+    message: 'Endpoint https://rpc.example.org is not responding',
+    chainId: 50,
+    ...options,
+  });
+
+  beforeEach(async () => {
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        AlertManager,
+        {
+          provide: ChainRegistryService,
+          useValue: { getChain: (chainId: number) => CHAINS.find(chain => chain.chainId === chainId) },
+        },
+      ],
+    }).compile();
+
+    moduleRef.useLogger(false);
+    alertManager = moduleRef.get(AlertManager);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('email notifications', () => {
+    let sink: SmtpSink;
+    let config: EmailNotificationConfig;
+
+    beforeEach(async () => {
+      sink = new SmtpSink();
+      config = {
+        host: '127.0.0.1',
+        port: await sink.start(),
+        secure: false,
+        from: 'monitor@example.org',
+        recipients: {
+          global: { default: ['ops@example.org'], critical: ['oncall@example.org'], warning: [], info: [] },
+          mainnet: { default: [], critical: [], warning: ['mainnet-team@example.org'], info: [] },
+          testnet: { default: [], critical: [], warning: [], info: [] },
+          reports: ['reports@example.org'],
+        },
+      };
+      alertManager.configureNotificationChannels([
+        { id: 'email', name: 'Email', type: 'email', enabled: true, config },
+      ]);
+    });
+
+    afterEach(() => sink.stop());
+
+    it('sends the alert to the network recipients with a tagged subject', async () => {
+      const delivery = sink.nextMail();
+      alertManager.addAlert(alert());
+      const { envelope, mail } = await delivery;
+
+      expect(envelope.mailFrom && envelope.mailFrom.address).toBe('monitor@example.org');
+      expect(envelope.rcptTo.map(recipient => recipient.address)).toEqual(['mainnet-team@example.org']);
+      expect(mail.subject).toBe('[XDC Monitor][Mainnet][WARNING] RPC endpoint down');
+      expect(mail.text).toContain('Endpoint https://rpc.example.org is not responding');
+      expect(mail.text).toContain('Network: Mainnet (chain 50)');
+      expect(mail.html).toContain('Endpoint https://rpc.example.org is not responding');
+    });
+
+    it('falls back to the global severity list, then to the global default list', async () => {
+      let delivery = sink.nextMail();
+      alertManager.addAlert(alert({ severity: AlertSeverity.CRITICAL, chainId: 51 }));
+      expect((await delivery).envelope.rcptTo.map(recipient => recipient.address)).toEqual(['oncall@example.org']);
+
+      delivery = sink.nextMail();
+      alertManager.addAlert(alert({ severity: AlertSeverity.INFO, chainId: 51 }));
+      expect((await delivery).envelope.rcptTo.map(recipient => recipient.address)).toEqual(['ops@example.org']);
+    });
+
+    it('sends reports to the report recipients', async () => {
+      const delivery = sink.nextMail();
+      alertManager.addAlert(alert({ severity: AlertSeverity.INFO, metadata: { reportType: 'weekly' } }));
+
+      expect((await delivery).envelope.rcptTo.map(recipient => recipient.address)).toEqual(['reports@example.org']);
+    });
+
+    it('escapes the title and plain-text message in the HTML body', async () => {
+      const delivery = sink.nextMail();
+      alertManager.addAlert(
+        alert({ title: 'Peer count <low> & "dropping"', message: 'Peers 3 < 5 & "falling"\nline 2' }),
+      );
+      const { mail } = await delivery;
+
+      expect(mail.html).toContain('Peer count &lt;low&gt; &amp; &quot;dropping&quot;');
+      expect(mail.html).toContain('Peers 3 &lt; 5 &amp; &quot;falling&quot;<br>line 2');
+    });
+
+    it('keeps the formatting tags of HTML messages and escapes everything else', async () => {
+      const delivery = sink.nextMail();
+      alertManager.addAlert(
+        alert({
+          message:
+            '<b>Weekly report</b>\nEndpoint: <a href="https://evil.example">x</a> &lt;unknown&gt;' +
+            '<script>steal()</script><img src=x onerror=alert(1)>\n<pre>a | b\n1 | 2</pre>',
+        }),
+      );
+      const { mail } = await delivery;
+
+      expect(mail.html).toContain(
+        '<b>Weekly report</b><br>Endpoint: x &lt;unknown&gt;steal()<br><pre>a | b\n1 | 2</pre>',
+      );
+      expect(mail.html).not.toMatch(/<(a|script|img)\b/);
+    });
+
+    it('logs SMTP failures without throwing from addAlert', async () => {
+      const errorSpy = jest.spyOn(Logger.prototype, 'error');
+      sink.rejectedRecipients.add('mainnet-team@example.org');
+
+      expect(() => alertManager.addAlert(alert())).not.toThrow();
+      await waitFor(() => errorSpy.mock.calls.some(([message]) => String(message).includes('email channel email')));
+
+      expect(sink.received).toHaveLength(0);
+      expect(errorSpy.mock.calls.find(([message]) => String(message).includes('email channel'))[0]).toContain(
+        'Email error',
+      );
+    });
+
+    it('skips alerts without recipients', async () => {
+      config.recipients.global.default = [];
+      const debugSpy = jest.spyOn(Logger.prototype, 'debug');
+
+      alertManager.addAlert(alert({ severity: AlertSeverity.INFO, chainId: 51 }));
+      await waitFor(() => debugSpy.mock.calls.some(([message]) => String(message).includes('No email recipients')));
+
+      expect(sink.received).toHaveLength(0);
+    });
+  });
+
+  describe('PagerDuty escalation', () => {
+    let receiver: PagerDutyReceiver;
+    let config: PagerDutyNotificationConfig;
+
+    // Lets a notification that should not be sent reach the receiver if it were
+    const settle = () => new Promise(resolve => setTimeout(resolve, 100));
+
+    beforeEach(async () => {
+      receiver = new PagerDutyReceiver();
+      config = {
+        routingKey: 'test-routing-key',
+        eventsUrl: await receiver.start(),
+        source: 'xdc-monitor',
+        alertTypes: [],
+      };
+      alertManager.configureNotificationChannels([
+        { id: 'pagerduty', name: 'PagerDuty', type: 'pagerduty', enabled: true, config },
+      ]);
+    });
+
+    afterEach(() => receiver.stop());
+
+    it('triggers an incident with a stable dedup key for critical alerts marked for escalation', async () => {
+      const sent = alertManager.addAlert(alert({ severity: AlertSeverity.CRITICAL, escalate: true }));
+      await waitFor(() => receiver.events.length === 1);
+
+      expect(receiver.events[0]).toEqual({
+        routing_key: 'test-routing-key',
+        event_action: 'trigger',
+        dedup_key: 'xdc-monitor:rpc_endpoint_down:rpc:50',
+        payload: {
+          summary: '[Mainnet] RPC endpoint down',
+          source: 'xdc-monitor',
+          severity: 'critical',
+          timestamp: new Date(sent.timestamp).toISOString(),
+          component: 'rpc',
+          group: 'Mainnet',
+          class: 'rpc_endpoint_down',
+          custom_details: {
+            message: 'Endpoint https://rpc.example.org is not responding',
+            category: AlertCategory.BLOCKCHAIN,
+            chainId: 50,
+            alertId: sent.id,
+          },
+        },
+        client: 'XDC Monitor',
+      });
+    });
+
+    it('does not escalate unmarked critical alerts or lower severities', async () => {
+      alertManager.addAlert(alert({ severity: AlertSeverity.CRITICAL }));
+      alertManager.addAlert(alert({ severity: AlertSeverity.WARNING, escalate: true }));
+      await settle();
+
+      expect(receiver.events).toHaveLength(0);
+    });
+
+    it('sends a resolve event with the same dedup key', async () => {
+      alertManager.addAlert(alert({ severity: AlertSeverity.CRITICAL, escalate: true }));
+      await waitFor(() => receiver.events.length === 1);
+
+      await alertManager.resolveEscalation({ alertType: 'rpc_endpoint_down', component: 'rpc', chainId: 50 });
+
+      expect(receiver.events[1]).toEqual({
+        routing_key: 'test-routing-key',
+        event_action: 'resolve',
+        dedup_key: receiver.events[0].dedup_key,
+      });
+    });
+
+    it('logs receiver errors without throwing', async () => {
+      receiver.status = 500;
+      const errorSpy = jest.spyOn(Logger.prototype, 'error');
+
+      alertManager.addAlert(alert({ severity: AlertSeverity.CRITICAL, escalate: true }));
+      await waitFor(() => errorSpy.mock.calls.some(([message]) => String(message).includes('pagerduty channel')));
+      await expect(
+        alertManager.resolveEscalation({ alertType: 'rpc_endpoint_down', component: 'rpc', chainId: 50 }),
+      ).resolves.toBeUndefined();
+
+      expect(receiver.events.map(event => event.event_action)).toEqual(['trigger', 'resolve']);
+      expect(errorSpy.mock.calls.map(([message]) => String(message))).toEqual(
+        expect.arrayContaining([
+          expect.stringContaining('PagerDuty error'),
+          expect.stringContaining('Failed to resolve'),
+        ]),
+      );
+    });
+  });
+});
@@ -1,6 +1,17 @@
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { escapeHtml } from '@common/utils/html';
 import { Injectable, Logger } from '@nestjs/common';
+import {
+  AlertFilterOptions,
+  ChainType,
+  ChatWebhookRoutes,
+  EmailNotificationConfig,
+  PagerDutyNotificationConfig,
+} from '@types';
 import axios from 'axios';
 import TelegramBot from 'node-telegram-bot-api';
+import * as nodemailer from 'nodemailer';
+import { Transporter } from 'nodemailer';
 
 export enum AlertSeverity {
   INFO = 'info',
@@ -19,6 +30,7 @@ export interface AlertOptions {
   severity: AlertSeverity;
   category: AlertCategory;
   component: string;
+  alertType?: string;
   title: string;
   message: string;
   timestamp?: number;
@@ -26,19 +38,27 @@ export interface AlertOptions {
   chainId?: number;
   shouldNotify?: boolean;
   notificationChannels?: string[];
+  // Whether a critical alert pages through the escalation channels
+  escalate?: boolean;
 }
 
 export interface Alert extends AlertOptions {
   id: string;
   timestamp: number;
   acknowledged: boolean;
+  acknowledgedAt?: number;
+  acknowledgedBy?: string;
   resolvedAt?: number;
+  resolvedBy?: string;
 }
 
+// Fields that identify an escalated condition, the title is only used when the alert has no type
+export type EscalationSource = Pick<AlertOptions, 'alertType' | 'component' | 'chainId'> & { title?: string };
+
 export interface NotificationChannel {
   id: string;
   name: string;
-  type: 'webhook' | 'telegram' | 'email' | 'dashboard';
+  type: 'webhook' | 'telegram' | 'email' | 'slack' | 'discord' | 'pagerduty' | 'dashboard';
   enabled: boolean;
   config: Record<string, any>;
 }
@@ -47,18 +67,20 @@ export interface NotificationChannel {
 export class AlertManager {
   private alerts: Alert[] = [];
   private notificationChannels: NotificationChannel[] = [];
+  private emailTransports = new Map<string, Transporter>();
   private readonly logger = new Logger(AlertManager.name);
 
   // Max alerts to keep in memory
   private readonly maxAlerts = 1000;
 
-  constructor() {}
+  constructor(private readonly chainRegistry: ChainRegistryService) {}
 
   /**
    * Configure notification channels
    */
   configureNotificationChannels(channels: NotificationChannel[]): void {
     this.notificationChannels = channels;
+    this.emailTransports.clear();
     this.logger.log(`Configured ${channels.length} notification channels`);
   }
 
@@ -113,14 +135,7 @@ export class AlertManager {
   /**
    * Get all alerts, optionally filtered
    */
-  getAlerts(filter?: {
-    severity?: AlertSeverity;
-    category?: AlertCategory;
-    component?: string;
-    acknowledgedOnly?: boolean;
-    unacknowledgedOnly?: boolean;
-    since?: number;
-  }): Alert[] {
+  getAlerts(filter?: AlertFilterOptions): Alert[] {
     let filteredAlerts = this.alerts;
 
     if (filter) {
@@ -147,37 +162,103 @@ export class AlertManager {
       if (filter.since) {
         filteredAlerts = filteredAlerts.filter(a => a.timestamp >= filter.since);
       }
+
+      if (filter.alertType) {
+        filteredAlerts = filteredAlerts.filter(a => a.alertType === filter.alertType);
+      }
+
+      if (filter.chainId) {
+        filteredAlerts = filteredAlerts.filter(a => a.chainId === filter.chainId);
+      }
+
+      if (filter.until) {
+        filteredAlerts = filteredAlerts.filter(a => a.timestamp <= filter.until);
+      }
+
+      if (filter.resolvedOnly) {
+        filteredAlerts = filteredAlerts.filter(a => a.resolvedAt !== undefined);
+      }
+
+      if (filter.unresolvedOnly) {
+        filteredAlerts = filteredAlerts.filter(a => a.resolvedAt === undefined);
+      }
+
+      if (filter.text) {
+        filteredAlerts = filteredAlerts.filter(a => a.title.includes(filter.text) || a.message.includes(filter.text));
+      }
+
+      if (filter.limit) {
+        filteredAlerts = filteredAlerts.slice(0, filter.limit);
+      }
     }
 
     return filteredAlerts;
   }
 
+  /**
+   * Get a single alert by ID
+   */
+  getAlert(alertId: string): Alert | undefined {
+    return this.alerts.find(a => a.id === alertId);
+  }
+
   /**
    * Acknowledge an alert
    */
-  acknowledgeAlert(alertId: string): boolean {
+  acknowledgeAlert(alertId: string, acknowledgedBy?: string): boolean {
     const alert = this.alerts.find(a => a.id === alertId);
     if (!alert) {
       return false;
     }
 
     alert.acknowledged = true;
+    alert.acknowledgedAt = Date.now();
+    alert.acknowledgedBy = acknowledgedBy;
     return true;
   }
 
   /**
    * Mark an alert as resolved
    */
-  resolveAlert(alertId: string): boolean {
+  resolveAlert(alertId: string, resolvedBy?: string): boolean {
     const alert = this.alerts.find(a => a.id === alertId);
     if (!alert) {
       return false;
     }
 
     alert.resolvedAt = Date.now();
+    alert.resolvedBy = resolvedBy;
     return true;
   }
 
+  /**
+   * Build the stable escalation dedup key for an alert condition
+   * Alerts with the same type, component and chain map to the same PagerDuty incident
+   */
+  getEscalationDedupKey(source: EscalationSource): string {
+    return ['xdc-monitor', source.alertType || source.title, source.component, source.chainId ?? 'global'].join(':');
+  }
+
+  /**
+   * Send a resolve event to all enabled escalation channels once a condition has cleared
+   */
+  async resolveEscalation(source: EscalationSource): Promise<void> {
+    const dedupKey = this.getEscalationDedupKey(source);
+    const channels = this.notificationChannels.filter(channel => channel.enabled && channel.type === 'pagerduty');
+
+    for (const channel of channels) {
+      try {
+        await this.sendPagerDutyEvent(channel.config as PagerDutyNotificationConfig, {
+          event_action: 'resolve',
+          dedup_key: dedupKey,
+        });
+        this.logger.debug(`PagerDuty resolve event sent for ${dedupKey}`);
+      } catch (error) {
+        this.logger.error(`Failed to resolve escalation ${dedupKey} on channel ${channel.id}: ${error.message}`);
+      }
+    }
+  }
+
   /**
    * Send notifications about an alert to specified channels or all enabled channels
    */
@@ -218,6 +299,15 @@ export class AlertManager {
       case 'email':
         await this.sendEmail(alert, channel);
         break;
+      case 'slack':
+        await this.sendSlack(alert, channel);
+        break;
+      case 'discord':
+        await this.sendDiscord(alert, channel);
+        break;
+      case 'pagerduty':
+        await this.sendPagerDuty(alert, channel);
+        break;
       case 'dashboard':
         // Dashboard notifications are handled automatically by the frontend
         break;
@@ -333,10 +423,13 @@ export class AlertManager {
       // Determine message thread ID based on chainId
       let messageThreadId: string | undefined;
 
-      if (chainId === 50 && mainnetTopicId) {
+      if (alert.metadata?.telegramTopicId) {
+        messageThreadId = alert.metadata.telegramTopicId;
+        this.logger.log(`✅ TELEGRAM TOPIC: Using routing rule topic ID: ${messageThreadId}`);
+      } else if (this.getChainType(chainId) === 'mainnet' && mainnetTopicId) {
         messageThreadId = mainnetTopicId;
         this.logger.log(`✅ TELEGRAM TOPIC: Using Mainnet topic ID: ${messageThreadId}`);
-      } else if (chainId === 51 && testnetTopicId) {
+      } else if (this.getChainType(chainId) === 'testnet' && testnetTopicId) {
         messageThreadId = testnetTopicId;
         this.logger.log(`✅ TELEGRAM TOPIC: Using Testnet topic ID: ${messageThreadId}`);
       } else {
@@ -548,10 +641,343 @@ export class AlertManager {
   }
 
   /**
-   * Send an alert via email
+   * Send an alert via email (SMTP)
+   * The subject uses the alert title, which AlertService builds with formatAlertTitle
    */
   private async sendEmail(alert: Alert, channel: NotificationChannel): Promise<void> {
-    // Email implementation would go here - typically using a service like SendGrid, AWS SES, etc.
-    this.logger.debug('Email sending is not implemented yet');
+    const config = channel.config as EmailNotificationConfig;
+
+    if (!config.host) {
+      throw new Error('SMTP host is not configured');
+    }
+
+    const recipients = this.resolveEmailRecipients(alert, config);
+    if (recipients.length === 0) {
+      this.logger.debug(`No email recipients configured for ${alert.severity} alert on chain ${alert.chainId}`);
+      return;
+    }
+
+    const networkName = this.chainRegistry.getChain(alert.chainId)?.name;
+    const subjectParts = ['[XDC Monitor]', networkName && `[${networkName}]`, `[${alert.severity.toUpperCase()}]`];
+    const subject = `${subjectParts.filter(Boolean).join('')} ${alert.title}`;
+
+    try {
+      const info = await this.getEmailTransport(channel.id, config).sendMail({
+        from: config.from,
+        to: recipients.join(', '),
+        subject,
+        text: this.formatEmailText(alert, networkName),
+        html: this.formatEmailHtml(alert, networkName),
+      });
+      this.logger.debug(`Email notification sent to ${recipients.length} recipients, message ID: ${info.messageId}`);
+    } catch (error) {
+      throw new Error(`Email error: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Pick recipients for an alert: network severity list, network default, global severity list, global default
+   * Reports go to the report recipients and fall back to the global default list
+   */
+  private resolveEmailRecipients(alert: Alert, config: EmailNotificationConfig): string[] {
+    const { global, mainnet, testnet, reports } = config.recipients;
+
+    if (alert.metadata?.reportType) {
+      return reports.length > 0 ? reports : global.default;
+    }
+
+    const chainType = this.getChainType(alert.chainId);
+    const networkRules = chainType === 'mainnet' ? mainnet : chainType === 'testnet' ? testnet : undefined;
+    const candidates = [networkRules?.[alert.severity], networkRules?.default, global[alert.severity], global.default];
+
+    return candidates.find(list => list && list.length > 0) || [];
+  }
+
+  /**
+   * Get a cached SMTP transport for an email channel
+   */
+  private getEmailTransport(channelId: string, config: EmailNotificationConfig): Transporter {
+    if (!this.emailTransports.has(channelId)) {
+      this.emailTransports.set(
+        channelId,
+        nodemailer.createTransport({
+          host: config.host,
+          port: config.port,
+          secure: config.secure,
+          auth: config.user ? { user: config.user, pass: config.password } : undefined,
+        }),
+      );
+    }
+
+    return this.emailTransports.get(channelId);
+  }
+
+  /**
+   * Format the plain-text email body
+   */
+  private formatEmailText(alert: Alert, networkName?: string): string {
+    const lines = [
+      alert.title,
+      '',
+      this.stripHtml(alert.message),
+      '',
+      `Severity: ${alert.severity}`,
+      `Component: ${alert.component}`,
+      `Category: ${alert.category}`,
+    ];
+
+    if (networkName) lines.push(`Network: ${networkName} (chain ${alert.chainId})`);
+    lines.push(`Time: ${new Date(alert.timestamp).toISOString()}`);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Format the HTML email body
+   * Messages that already contain HTML (e.g. the weekly report) keep their <b>, <pre> and <br> tags with line
+   * breaks preserved, any other markup is dropped and the text in between is escaped again
+   */
+  private formatEmailHtml(alert: Alert, networkName?: string): string {
+    const severityColor = this.getSeverityColor(alert.severity);
+
+    const containsHtml = /<[a-z][\s\S]*>/i.test(alert.message);
+    const body = containsHtml
+      ? alert.message
+          .split(/(<\/?(?:b|pre)>|<br\s*\/?>)/i)
+          .map((part, index) => (index % 2 === 1 ? part.toLowerCase() : escapeHtml(this.stripHtml(part))))
+          .join('')
+          .replace(/(<pre>[\s\S]*?<\/pre>)|\n/g, (match, pre) => pre || '<br>')
+      : escapeHtml(alert.message).replace(/\n/g, '<br>');
+
+    const details = [
+      ['Severity', alert.severity],
+      ['Component', alert.component],
+      ['Category', alert.category],
+      ...(networkName ? [['Network', `${networkName} (chain ${alert.chainId})`]] : []),
+      ['Time', new Date(alert.timestamp).toISOString()],
+    ]
+      .map(
+        ([label, value]) =>
+          `<tr><td style="padding:2px 12px 2px 0;color:#666">${label}</td><td>${escapeHtml(value)}</td></tr>`,
+      )
+      .join('');
+
+    return (
+      `<div style="font-family:Arial,sans-serif;font-size:14px">` +
+      `<h2 style="color:${severityColor};margin:0 0 12px">${escapeHtml(alert.title)}</h2>` +
+      `<div style="margin-bottom:16px">${body}</div>` +
+      `<table style="font-size:13px;border-collapse:collapse">${details}</table>` +
+      `</div>`
+    );
+  }
+
+  /**
+   * Send an alert to Slack as a Block Kit message
+   * The attachment color marks the severity, the webhook route is picked by network
+   */
+  private async sendSlack(alert: Alert, channel: NotificationChannel): Promise<void> {
+    const url = this.resolveChatWebhookUrl(alert, channel.config as ChatWebhookRoutes);
+    if (!url) {
+      this.logger.debug(`No Slack webhook route configured for alert on chain ${alert.chainId}`);
+      return;
+    }
+
+    const severityEmoji = this.getSeverityEmoji(alert.severity);
+    const fields = this.getChatAlertFields(alert).map(([label, value]) => ({
+      type: 'mrkdwn',
+      text: `*${label}:*\n${this.escapeSlack(value)}`,
+    }));
+
+    const payload = {
+      text: `${severityEmoji} ${alert.title}`,
+      attachments: [
+        {
+          color: this.getSeverityColor(alert.severity),
+          blocks: [
+            {
+              type: 'header',
+              text: { type: 'plain_text', text: this.truncate(`${severityEmoji} ${alert.title}`, 150), emoji: true },
+            },
+            {
+              type: 'section',
+              text: { type: 'mrkdwn', text: this.truncate(this.formatChatMarkdown(alert.message, '*', true), 3000) },
+            },
+            { type: 'section', fields },
+            {
+              type: 'context',
+              elements: [
+                {
+                  type: 'mrkdwn',
+                  text: `XDC Monitor • <!date^${Math.floor(alert.timestamp / 1000)}^{date_short_pretty} {time_secs}|${new Date(alert.timestamp).toISOString()}>`,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    try {
+      const response = await axios.post(url, payload);
+      this.logger.debug(`Slack notification sent, status: ${response.status}`);
+    } catch (error) {
+      throw new Error(`Slack error: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Send an alert to Discord as an embed
+   * The embed color marks the severity, the webhook route is picked by network
+   */
+  private async sendDiscord(alert: Alert, channel: NotificationChannel): Promise<void> {
+    const url = this.resolveChatWebhookUrl(alert, channel.config as ChatWebhookRoutes);
+    if (!url) {
+      this.logger.debug(`No Discord webhook route configured for alert on chain ${alert.chainId}`);
+      return;
+    }
+
+    const payload = {
+      username: 'XDC Monitor',
+      embeds: [
+        {
+          title: this.truncate(`${this.getSeverityEmoji(alert.severity)} ${alert.title}`, 256),
+          description: this.truncate(this.formatChatMarkdown(alert.message, '**', false), 4096),
+          color: parseInt(this.getSeverityColor(alert.severity).slice(1), 16),
+          fields: this.getChatAlertFields(alert).map(([name, value]) => ({ name, value, inline: true })),
+          timestamp: new Date(alert.timestamp).toISOString(),
+          footer: { text: 'XDC Monitor' },
+        },
+      ],
+    };
+
+    try {
+      const response = await axios.post(url, payload);
+      this.logger.debug(`Discord notification sent, status: ${response.status}`);
+    } catch (error) {
+      throw new Error(`Discord error: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Trigger a PagerDuty incident for a critical alert marked for escalation
+   * Lower severities and unmarked alerts are never escalated
+   */
+  private async sendPagerDuty(alert: Alert, channel: NotificationChannel): Promise<void> {
+    if (alert.severity !== AlertSeverity.CRITICAL || !alert.escalate) return;
+
+    const config = channel.config as PagerDutyNotificationConfig;
+    const networkName = this.chainRegistry.getChain(alert.chainId)?.name;
+
+    await this.sendPagerDutyEvent(config, {
+      event_action: 'trigger',
+      dedup_key: this.getEscalationDedupKey(alert),
+      payload: {
+        summary: this.truncate(`${networkName ? `[${networkName}] ` : ''}${alert.title}`, 1024),
+        source: config.source,
+        severity: 'critical',
+        timestamp: new Date(alert.timestamp).toISOString(),
+        component: alert.component,
+        group: networkName || 'General',
+        class: alert.alertType || alert.category,
+        custom_details: {
+          message: this.stripHtml(alert.message),
+          category: alert.category,
+          chainId: alert.chainId,
+          alertId: alert.id,
+        },
+      },
+      client: 'XDC Monitor',
+    });
+    this.logger.debug(`PagerDuty trigger event sent for ${this.getEscalationDedupKey(alert)}`);
+  }
+
+  /**
+   * Post an event to a PagerDuty Events v2 compatible endpoint
+   */
+  private async sendPagerDutyEvent(config: PagerDutyNotificationConfig, event: Record<string, any>): Promise<void> {
+    if (!config.routingKey) {
+      throw new Error('PagerDuty routing key is not configured');
+    }
+
+    try {
+      await axios.post(config.eventsUrl, { routing_key: config.routingKey, ...event });
+    } catch (error) {
+      throw new Error(`PagerDuty error: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Pick the chat webhook for an alert, same rules as the Telegram topic routing:
+   * mainnet and testnet alerts use their own route when configured, everything else uses the general route
+   */
+  private resolveChatWebhookUrl(alert: Alert, routes: ChatWebhookRoutes): string | undefined {
+    const chainId = alert.chainId !== undefined ? alert.chainId : (alert.metadata?.chainId as number | undefined);
+
+    const chainType = this.getChainType(chainId);
+
+    if (chainType === 'mainnet' && routes.mainnetWebhookUrl) return routes.mainnetWebhookUrl;
+    if (chainType === 'testnet' && routes.testnetWebhookUrl) return routes.testnetWebhookUrl;
+    return routes.webhookUrl || undefined;
+  }
+
+  /**
+   * Type of the registered chain an alert belongs to, used to pick the mainnet or testnet routes
+   */
+  private getChainType(chainId?: number): ChainType | undefined {
+    return chainId !== undefined ? this.chainRegistry.getChain(chainId)?.type : undefined;
+  }
+
+  /**
+   * Label/value pairs shown under chat alerts
+   */
+  private getChatAlertFields(alert: Alert): [string, string][] {
+    const networkName = this.chainRegistry.getChain(alert.chainId)?.name;
+
+    return [
+      ['Severity', alert.severity.toUpperCase()],
+      ['Network', networkName ? `${networkName} (chain ${alert.chainId})` : 'General'],
+      ['Component', alert.component],
+      ['Category', alert.category],
+    ];
+  }
+
+  /**
+   * Convert an alert message to chat markdown
+   * Only <b> and <pre> are used in alert messages, other tags are dropped
+   */
+  private formatChatMarkdown(message: string, bold: string, escape: boolean): string {
+    const text = message
+      .replace(/<pre>([\s\S]*?)<\/pre>/gi, '```\n$1\n```')
+      .replace(/<\/?b>/gi, bold)
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]+>/g, '');
+
+    return escape ? this.escapeSlack(this.stripHtml(text)) : this.stripHtml(text);
+  }
+
+  private getSeverityColor(severity: AlertSeverity): string {
+    return severity === AlertSeverity.CRITICAL ? '#d32f2f' : severity === AlertSeverity.WARNING ? '#f9a825' : '#1976d2';
+  }
+
+  private getSeverityEmoji(severity: AlertSeverity): string {
+    return severity === AlertSeverity.CRITICAL ? '🔴' : severity === AlertSeverity.WARNING ? '⚠️' : '🔵';
+  }
+
+  private escapeSlack(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private truncate(value: string, maxLength: number): string {
+    return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+  }
+
+  private stripHtml(value: string): string {
+    return value
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&amp;/g, '&');
   }
 }
@@ -0,0 +1,11 @@
+/**
+ * Render rows as CSV, quoting cells that contain separators, quotes or line breaks
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : `${value}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,6 @@
+/**
+ * Escape text for use in HTML content and double-quoted attributes
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
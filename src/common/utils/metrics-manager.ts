@@ -1,4 +1,4 @@
-import { Point } from '@influxdata/influxdb-client';
+import { MetricPoint } from '@metrics/metric-point';
 import { MetricsService } from '@metrics/metrics.service';
 import { AlertService } from '@alerts/alert.service';
 import { Injectable, Logger } from '@nestjs/common';
@@ -118,11 +118,10 @@ export class MetricsManager {
     // Add data point to time window
     metric.data.addDataPoint(value);
 
-    // Record in InfluxDB if there's specific method for this metric
-    // We'll use a generic Point with tags from metadata
+    // Record in the metrics backend using a generic point with tags from metadata
     try {
       const measurement = name.replace(/([A-Z])/g, '_$1').toLowerCase();
-      const point = new Point(measurement);
+      const point = new MetricPoint(measurement);
 
       // Add all metadata as tags
       for (const [key, val] of Object.entries(metadata)) {
@@ -132,12 +131,9 @@ export class MetricsManager {
       // Add the value
       point.floatField('value', value);
 
-      // Write using the writePoint method if it exists
-      if (typeof this.metricsService['writePoint'] === 'function') {
-        this.metricsService['writePoint'](point);
-      }
+      this.metricsService.writePoint(point);
     } catch (error) {
-      this.logger.error(`Failed to record metric "${name}" to InfluxDB: ${error.message}`);
+      this.logger.error(`Failed to record metric "${name}": ${error.message}`);
     }
 
     // Check thresholds
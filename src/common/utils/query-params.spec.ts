@@ -0,0 +1,34 @@
+import { parseOptionalInt, parseTimestamp } from '@common/utils/query-params';
+import { BadRequestException } from '@nestjs/common';
+
+describe('query params', () => {
+  describe('parseTimestamp', () => {
+    it('accepts epoch milliseconds and ISO dates', () => {
+      expect(parseTimestamp('1704067200000', 'from')).toBe(1704067200000);
+      expect(parseTimestamp('2024-01-01T00:00:00Z', 'from')).toBe(1704067200000);
+    });
+
+    it('returns undefined for an omitted value', () => {
+      expect(parseTimestamp(undefined, 'from')).toBeUndefined();
+      expect(parseTimestamp('', 'from')).toBeUndefined();
+    });
+
+    it('rejects anything else with the parameter name', () => {
+      expect(() => parseTimestamp('yesterday', 'until')).toThrow(
+        new BadRequestException('until must be epoch milliseconds or an ISO date'),
+      );
+    });
+  });
+
+  describe('parseOptionalInt', () => {
+    it('parses integers and returns undefined for an omitted value', () => {
+      expect(parseOptionalInt('50', 'chainId')).toBe(50);
+      expect(parseOptionalInt(undefined, 'chainId')).toBeUndefined();
+      expect(parseOptionalInt('', 'chainId')).toBeUndefined();
+    });
+
+    it('rejects values that are not numbers with the parameter name', () => {
+      expect(() => parseOptionalInt('mainnet', 'chainId')).toThrow(new BadRequestException('chainId must be a number'));
+    });
+  });
+});
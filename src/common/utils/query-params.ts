@@ -0,0 +1,33 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Parse a query or body timestamp given as epoch milliseconds or an ISO date string
+ *
+ * @param value Raw value, undefined or empty when omitted
+ * @param name Parameter name used in the error message
+ */
+export function parseTimestamp(value: string | undefined, name: string): number | undefined {
+  if (!value) return undefined;
+
+  const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (isNaN(timestamp)) {
+    throw new BadRequestException(`${name} must be epoch milliseconds or an ISO date`);
+  }
+  return timestamp;
+}
+
+/**
+ * Parse an optional integer query or body parameter
+ *
+ * @param value Raw value, undefined or empty when omitted
+ * @param name Parameter name used in the error message
+ */
+export function parseOptionalInt(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed)) {
+    throw new BadRequestException(`${name} must be a number`);
+  }
+  return parsed;
+}
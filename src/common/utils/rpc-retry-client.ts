@@ -1,4 +1,6 @@
+import { SPAN_ATTRIBUTES, withSpan } from '@common/utils/tracing';
 import { Logger } from '@nestjs/common';
+import { SpanKind } from '@opentelemetry/api';
 import axios, { AxiosRequestConfig } from 'axios';
 
 /**
@@ -97,29 +99,44 @@ export class RpcRetryClient {
     const options = { ...this.options, ...customOptions };
     const urls = [this.primaryUrl, ...options.fallbackUrls];
 
-    let lastError: Error | null = null;
-
-    // Try each URL in sequence
-    for (const url of urls) {
-      try {
-        const result = await this.callWithRetry<T>(url, method, params, options);
-        return result;
-      } catch (error) {
-        lastError = error;
-        this.logger.warn(`Failed to call ${method} on ${url}: ${error.message}`);
-
-        // If this is the last URL, don't swallow the error
-        if (url === urls[urls.length - 1]) {
-          throw error;
+    return withSpan(
+      'rpc.call',
+      { [SPAN_ATTRIBUTES.ENDPOINT]: this.primaryUrl, [SPAN_ATTRIBUTES.METHOD]: method },
+      async span => {
+        const stats = { retries: 0 };
+        let lastError: Error | null = null;
+
+        try {
+          // Try each URL in sequence
+          for (const [index, url] of urls.entries()) {
+            span.setAttributes({ [SPAN_ATTRIBUTES.ENDPOINT]: url, [SPAN_ATTRIBUTES.FALLBACK_COUNT]: index });
+
+            try {
+              const result = await this.callWithRetry<T>(url, method, params, options, stats);
+              return result;
+            } catch (error) {
+              lastError = error;
+              this.logger.warn(`Failed to call ${method} on ${url}: ${error.message}`);
+
+              // If this is the last URL, don't swallow the error
+              if (url === urls[urls.length - 1]) {
+                throw error;
+              }
+
+              // Otherwise, try the next URL
+              span.addEvent('rpc.fallback', { [SPAN_ATTRIBUTES.ENDPOINT]: url, 'exception.message': error.message });
+              this.logger.debug(`Trying fallback URL for ${method}`);
+            }
+          }
+
+          // This should never happen, but TypeScript needs it
+          throw lastError || new Error(`Failed to call ${method}`);
+        } finally {
+          span.setAttribute(SPAN_ATTRIBUTES.RETRY_COUNT, stats.retries);
         }
-
-        // Otherwise, try the next URL
-        this.logger.debug(`Trying fallback URL for ${method}`);
-      }
-    }
-
-    // This should never happen, but TypeScript needs it
-    throw lastError || new Error(`Failed to call ${method}`);
+      },
+      SpanKind.CLIENT,
+    );
   }
 
   /**
@@ -128,6 +145,7 @@ export class RpcRetryClient {
    * @param method The RPC method name
    * @param params Parameters for the method
    * @param options Configuration options
+   * @param stats Retry counter shared across the URLs tried by one call
    * @returns The RPC response
    */
   private async callWithRetry<T = any>(
@@ -135,6 +153,7 @@ export class RpcRetryClient {
     method: string,
     params: any[],
     options: Required<Omit<RpcRetryOptions, 'fallbackUrls'>> & { fallbackUrls: string[] },
+    stats: { retries: number },
   ): Promise<T> {
     let attempt = 0;
     let lastError: Error | null = null;
@@ -160,6 +179,7 @@ export class RpcRetryClient {
         this.logger.debug(
           `Retry attempt ${attempt}/${options.maxRetries} for ${method} on ${url} after ${delay}ms: ${error.message}`,
         );
+        stats.retries++;
 
         // Wait before retrying
         await new Promise(resolve => setTimeout(resolve, delay));
@@ -0,0 +1,63 @@
+import { Attributes, Span, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+
+/**
+ * Name of the tracer and meter the monitor reports under
+ */
+export const TELEMETRY_SCOPE = 'xdc-monitor';
+
+/**
+ * Span attribute keys shared by all monitor spans
+ */
+export const SPAN_ATTRIBUTES = {
+  CHAIN_ID: 'xdc.chain_id',
+  ENDPOINT: 'xdc.endpoint',
+  METHOD: 'xdc.method',
+  RETRY_COUNT: 'xdc.retry_count',
+  FALLBACK_COUNT: 'xdc.fallback_count',
+  OUTCOME: 'xdc.outcome',
+  BLOCK_NUMBER: 'xdc.block.number',
+  TRANSACTION_COUNT: 'xdc.block.transaction_count',
+  TRANSACTION_TYPE: 'xdc.transaction.type',
+  TRANSACTION_HASH: 'xdc.transaction.hash',
+} as const;
+
+export type SpanOutcome = 'success' | 'failure' | 'error' | 'skipped';
+
+/**
+ * Run a function inside an active span so spans started within it become its children
+ *
+ * The outcome defaults to success, the function may override it through the span. A thrown error marks
+ * the span as failed and is re-thrown. Spans are no-ops until TelemetryService registers a tracer provider.
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>,
+  kind: SpanKind = SpanKind.INTERNAL,
+): Promise<T> {
+  const tracer = trace.getTracer(TELEMETRY_SCOPE);
+
+  return tracer.startActiveSpan(
+    name,
+    { kind, attributes: { [SPAN_ATTRIBUTES.OUTCOME]: 'success', ...attributes } },
+    async span => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        markSpanFailed(span, error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    },
+  );
+}
+
+/**
+ * Record an error on a span whose function handles the error itself
+ */
+export function markSpanFailed(span: Span, error: Error, outcome: SpanOutcome = 'error'): void {
+  span.recordException(error);
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+  span.setAttribute(SPAN_ATTRIBUTES.OUTCOME, outcome);
+}
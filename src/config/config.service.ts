@@ -1,18 +1,28 @@
-import { DEFAULTS, ENV_VARS, FEATURE_FLAGS, NETWORK } from '@common/constants/config';
+import { DEFAULTS, ENV_VARS, FEATURE_FLAGS, HTTP, REPORTS } from '@common/constants/config';
 import { ConfigurationError } from '@common/utils/error-handler';
 import { Injectable, Logger } from '@nestjs/common';
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import { join } from 'path';
-import { RpcEndpoint, AlertNotificationConfig, MonitoringConfig, InfluxDbConfig, SentinelValueConfig } from '@types';
 import {
-  EXPLORER_ENDPOINTS,
-  FAUCET_ENDPOINTS,
-  MAINNET_CHAIN_ID,
-  PRIMARY_RPC_URLS,
-  RPC_ENDPOINTS,
-  WS_ENDPOINTS,
-} from '@common/constants/endpoints';
+  AlertNotificationConfig,
+  ApiAuthConfig,
+  ApiKeyConfig,
+  ApiRole,
+  AlertRoutingConfig,
+  EmailNotificationConfig,
+  EmailRecipientRules,
+  MonitoringConfig,
+  ReportPeriod,
+  InfluxDbConfig,
+  LiveUpdatesConfig,
+  SentinelValueConfig,
+  StateStoreBackendType,
+  StateStoreConfig,
+  TelemetryConfig,
+  TimeSeriesBackendType,
+  TimeSeriesConfig,
+} from '@types';
 
 /**
  * Configuration service with strict typing and validation
@@ -26,6 +36,9 @@ export class ConfigService {
   // Cached config values
   private monitoringConfig: MonitoringConfig | null = null;
   private influxDbConfig: InfluxDbConfig | null = null;
+  private stateStoreConfig: StateStoreConfig | null = null;
+  private liveUpdatesConfig: LiveUpdatesConfig | null = null;
+  private apiAuthConfig: ApiAuthConfig | null = null;
   private mainnetRpcEndpoints: string[] | null = null;
   private testnetRpcEndpoints: string[] | null = null;
 
@@ -193,8 +206,29 @@ export class ConfigService {
         telegramChatId: this.get(ENV_VARS.TELEGRAM_CHAT_ID, undefined),
         telegramMainnetTopicId: this.get(ENV_VARS.TELEGRAM_MAINNET_TOPIC_ID, undefined),
         telegramTestnetTopicId: this.get(ENV_VARS.TELEGRAM_TESTNET_TOPIC_ID, undefined),
+        email: this.getEmailNotificationConfig(),
+        slack: {
+          webhookUrl: this.get(ENV_VARS.SLACK_WEBHOOK_URL, ''),
+          mainnetWebhookUrl: this.get(ENV_VARS.SLACK_MAINNET_WEBHOOK_URL, ''),
+          testnetWebhookUrl: this.get(ENV_VARS.SLACK_TESTNET_WEBHOOK_URL, ''),
+        },
+        discord: {
+          webhookUrl: this.get(ENV_VARS.DISCORD_WEBHOOK_URL, ''),
+          mainnetWebhookUrl: this.get(ENV_VARS.DISCORD_MAINNET_WEBHOOK_URL, ''),
+          testnetWebhookUrl: this.get(ENV_VARS.DISCORD_TESTNET_WEBHOOK_URL, ''),
+        },
+        pagerDuty: {
+          routingKey: this.get(ENV_VARS.PAGERDUTY_ROUTING_KEY, ''),
+          eventsUrl: this.get(ENV_VARS.PAGERDUTY_EVENTS_URL, DEFAULTS.PAGERDUTY_EVENTS_URL),
+          source: this.get(ENV_VARS.PAGERDUTY_SOURCE, DEFAULTS.PAGERDUTY_SOURCE),
+          alertTypes: this.getArray(ENV_VARS.PAGERDUTY_ALERT_TYPES, [...DEFAULTS.PAGERDUTY_ALERT_TYPES]),
+        },
         enableWebhook: this.isFeatureEnabled(FEATURE_FLAGS.ENABLE_WEBHOOK_NOTIFICATIONS, false),
         enableTelegram: this.isFeatureEnabled(FEATURE_FLAGS.ENABLE_CHAT_NOTIFICATIONS, false),
+        enableEmail: this.isFeatureEnabled(FEATURE_FLAGS.ENABLE_EMAIL_NOTIFICATIONS, false),
+        enableSlack: this.isFeatureEnabled(FEATURE_FLAGS.ENABLE_SLACK_NOTIFICATIONS, false),
+        enableDiscord: this.isFeatureEnabled(FEATURE_FLAGS.ENABLE_DISCORD_NOTIFICATIONS, false),
+        enablePagerDuty: this.isFeatureEnabled(FEATURE_FLAGS.ENABLE_PAGERDUTY_NOTIFICATIONS, false),
         enableDashboard: this.isFeatureEnabled(FEATURE_FLAGS.ENABLE_DASHBOARD_ALERTS, true),
       };
 
@@ -231,6 +265,38 @@ export class ConfigService {
     return this.monitoringConfig;
   }
 
+  /**
+   * Get SMTP email notification configuration
+   */
+  getEmailNotificationConfig(): EmailNotificationConfig {
+    return {
+      host: this.get(ENV_VARS.SMTP_HOST, ''),
+      port: this.getNumber(ENV_VARS.SMTP_PORT, DEFAULTS.SMTP_PORT),
+      secure: this.getBoolean(ENV_VARS.SMTP_SECURE, false),
+      user: this.get(ENV_VARS.SMTP_USER, ''),
+      password: this.get(ENV_VARS.SMTP_PASSWORD, ''),
+      from: this.get(ENV_VARS.EMAIL_FROM, DEFAULTS.EMAIL_FROM),
+      recipients: {
+        global: this.getEmailRecipientRules(ENV_VARS.EMAIL_RECIPIENTS),
+        mainnet: this.getEmailRecipientRules(`${ENV_VARS.EMAIL_RECIPIENTS}_MAINNET`),
+        testnet: this.getEmailRecipientRules(`${ENV_VARS.EMAIL_RECIPIENTS}_TESTNET`),
+        reports: this.getArray(ENV_VARS.EMAIL_REPORT_RECIPIENTS, []),
+      },
+    };
+  }
+
+  /**
+   * Read a recipient list and its per-severity variants (e.g. EMAIL_RECIPIENTS_MAINNET_CRITICAL)
+   */
+  private getEmailRecipientRules(prefix: string): EmailRecipientRules {
+    return {
+      default: this.getArray(prefix, []),
+      critical: this.getArray(`${prefix}_CRITICAL`, []),
+      warning: this.getArray(`${prefix}_WARNING`, []),
+      info: this.getArray(`${prefix}_INFO`, []),
+    };
+  }
+
   /**
    * Get InfluxDB configuration
    */
@@ -257,144 +323,234 @@ export class ConfigService {
   }
 
   /**
-   * Get network configuration by chain ID
+   * Get time-series storage configuration
    */
-  getNetworkNameByChainId(chainId: number): string {
-    if (chainId === NETWORK.MAINNET_CHAIN_ID) {
-      return NETWORK.MAINNET;
-    } else if (chainId === NETWORK.TESTNET_CHAIN_ID) {
-      return NETWORK.TESTNET;
-    }
-    throw new ConfigurationError(`Unknown chain ID: ${chainId}`, 'chainId');
+  getTimeSeriesConfig(): TimeSeriesConfig {
+    return {
+      backend: this.get<TimeSeriesBackendType>(ENV_VARS.METRICS_BACKEND, DEFAULTS.METRICS_BACKEND),
+      remoteWrite: {
+        url: this.get(ENV_VARS.PROMETHEUS_REMOTE_WRITE_URL, ''),
+        username: this.get(ENV_VARS.PROMETHEUS_REMOTE_WRITE_USERNAME, ''),
+        password: this.get(ENV_VARS.PROMETHEUS_REMOTE_WRITE_PASSWORD, ''),
+        bearerToken: this.get(ENV_VARS.PROMETHEUS_REMOTE_WRITE_BEARER_TOKEN, ''),
+      },
+      timescale: {
+        connectionString: this.get(ENV_VARS.TIMESCALEDB_URL, ''),
+        table: this.get(ENV_VARS.TIMESCALEDB_TABLE, DEFAULTS.TIMESCALEDB_TABLE),
+      },
+      memoryMaxPoints: this.getNumber(ENV_VARS.METRICS_MEMORY_MAX_POINTS, DEFAULTS.METRICS_MEMORY_MAX_POINTS),
+      spool: {
+        enabled: this.getBoolean(ENV_VARS.ENABLE_METRICS_SPOOL, true),
+        path: this.get(ENV_VARS.METRICS_SPOOL_PATH, DEFAULTS.METRICS_SPOOL_PATH),
+        maxBytes: this.getNumber(ENV_VARS.METRICS_SPOOL_MAX_BYTES, DEFAULTS.METRICS_SPOOL_MAX_BYTES),
+      },
+    };
   }
 
   /**
-   * Get RPC endpoints by network name
+   * Get state store configuration
    */
-  getRpcEndpointsByNetwork(network: string): string[] {
-    if (network === NETWORK.MAINNET) {
-      return this.getMainnetRpcEndpoints();
-    } else if (network === NETWORK.TESTNET) {
-      return this.getTestnetRpcEndpoints();
+  getStateStoreConfig(): StateStoreConfig {
+    if (!this.stateStoreConfig) {
+      const backend = this.get<StateStoreBackendType>(ENV_VARS.STATE_STORE_BACKEND, DEFAULTS.STATE_STORE_BACKEND);
+      const defaultPath = backend === 'sqlite' ? DEFAULTS.STATE_STORE_SQLITE_PATH : DEFAULTS.STATE_STORE_PATH;
+      this.stateStoreConfig = {
+        enabled: this.getBoolean(ENV_VARS.ENABLE_STATE_STORE, true),
+        backend,
+        filePath: this.get(ENV_VARS.STATE_STORE_PATH, '') || defaultPath,
+        snapshotIntervalMs: this.getNumber(
+          ENV_VARS.STATE_STORE_SNAPSHOT_INTERVAL_MS,
+          DEFAULTS.STATE_STORE_SNAPSHOT_INTERVAL_MS,
+        ),
+        maxAgeMs: this.getNumber(ENV_VARS.STATE_STORE_MAX_AGE_MS, DEFAULTS.STATE_STORE_MAX_AGE_MS),
+      };
     }
-    throw new ConfigurationError(`Unknown network: ${network}`, 'network');
+
+    return this.stateStoreConfig;
   }
 
   /**
-   * Validate that required environment variables are present
+   * Get live updates configuration
    */
-  private validateRequiredEnvVars(): void {
-    // Add validation for required environment variables
-    const requiredVars: string[] = [];
-
-    // If any are missing, log warnings
-    const missingVars = requiredVars.filter(key => !this.env[key]);
-    if (missingVars.length > 0) {
-      this.logger.warn(`Missing required environment variables: ${missingVars.join(', ')}`);
+  getLiveUpdatesConfig(): LiveUpdatesConfig {
+    if (!this.liveUpdatesConfig) {
+      this.liveUpdatesConfig = {
+        enabled: this.isFeatureEnabled(FEATURE_FLAGS.ENABLE_WEBSOCKET_UPDATES, true),
+        updateIntervalMs: this.getNumber(ENV_VARS.DASHBOARD_UPDATE_INTERVAL_MS, DEFAULTS.DASHBOARD_UPDATE_INTERVAL_MS),
+        pingIntervalMs: this.getNumber(ENV_VARS.WEBSOCKET_PING_INTERVAL_MS, DEFAULTS.WEBSOCKET_PING_INTERVAL_MS),
+      };
     }
+
+    return this.liveUpdatesConfig;
   }
 
   /**
-   * Get the primary RPC URL for a specific chain ID
+   * Get API authentication and rate limiting configuration
    */
-  getPrimaryRpcUrl(chainId: number): string {
-    return PRIMARY_RPC_URLS[chainId] || PRIMARY_RPC_URLS[MAINNET_CHAIN_ID];
+  getApiAuthConfig(): ApiAuthConfig {
+    if (!this.apiAuthConfig) {
+      this.apiAuthConfig = {
+        enabled: this.isFeatureEnabled(FEATURE_FLAGS.ENABLE_API_AUTH, false),
+        apiKeys: this.getApiKeys(),
+        jwtSecret: this.get(ENV_VARS.JWT_SECRET, ''),
+        jwtIssuer: this.get(ENV_VARS.JWT_ISSUER, ''),
+        rateLimit: {
+          windowMs: this.getNumber(ENV_VARS.RATE_LIMIT_WINDOW_MS, HTTP.RATE_LIMIT.WINDOW_MS),
+          maxRequests: this.getNumber(ENV_VARS.RATE_LIMIT_MAX_REQUESTS, HTTP.RATE_LIMIT.MAX_REQUESTS),
+        },
+      };
+    }
+
+    return this.apiAuthConfig;
   }
 
   /**
-   * Get all RPC endpoints
+   * Get the periods of the alert reports sent on a schedule
    */
-  getRpcEndpoints(): RpcEndpoint[] {
-    return RPC_ENDPOINTS;
+  getReportSchedules(): ReportPeriod[] {
+    const schedules = this.getArray(ENV_VARS.REPORT_SCHEDULES, [...DEFAULTS.REPORT_SCHEDULES]);
+    const invalid = schedules.find(schedule => !(schedule in REPORTS.PERIODS_MS));
+    if (invalid) {
+      throw new ConfigurationError(
+        `Invalid report schedule "${invalid}", expected daily, weekly or monthly`,
+        ENV_VARS.REPORT_SCHEDULES,
+      );
+    }
+
+    return schedules as ReportPeriod[];
   }
 
   /**
-   * Get all WebSocket endpoints
+   * Get alert routing rules configuration
    */
-  getWsEndpoints(): RpcEndpoint[] {
-    return WS_ENDPOINTS;
+  getAlertRoutingConfig(): AlertRoutingConfig {
+    return {
+      rulesPath: this.get(ENV_VARS.ALERT_ROUTING_RULES_PATH, ''),
+      reloadIntervalMs: this.getNumber(
+        ENV_VARS.ALERT_ROUTING_RELOAD_INTERVAL_MS,
+        DEFAULTS.ALERT_ROUTING_RELOAD_INTERVAL_MS,
+      ),
+    };
   }
 
   /**
-   * Get block monitoring enabled status
+   * Get OpenTelemetry export configuration
    */
-  get enableBlockMonitoring(): boolean {
-    return this.getMonitoringConfig().enableBlocksMonitoring;
+  getTelemetryConfig(): TelemetryConfig {
+    const endpoint = this.get(ENV_VARS.OTEL_EXPORTER_OTLP_ENDPOINT, DEFAULTS.OTEL_EXPORTER_OTLP_ENDPOINT);
+
+    return {
+      metricsEnabled: this.isFeatureEnabled(FEATURE_FLAGS.ENABLE_OTEL_METRICS, false),
+      tracesEnabled: this.isFeatureEnabled(FEATURE_FLAGS.ENABLE_OTEL_TRACES, false),
+      endpoint: endpoint.replace(/\/+$/, ''),
+      headers: this.getOtlpHeaders(),
+      serviceName: this.get(ENV_VARS.OTEL_SERVICE_NAME, DEFAULTS.OTEL_SERVICE_NAME),
+      metricExportIntervalMs: this.getNumber(
+        ENV_VARS.OTEL_METRIC_EXPORT_INTERVAL,
+        DEFAULTS.OTEL_METRIC_EXPORT_INTERVAL,
+      ),
+      traceSampleRatio: this.getNumber(ENV_VARS.OTEL_TRACES_SAMPLE_RATIO, DEFAULTS.OTEL_TRACES_SAMPLE_RATIO),
+    };
   }
 
   /**
-   * Get transaction monitoring enabled status
+   * Parse OTLP headers in the OpenTelemetry SDK format: key1=value1,key2=value2
    */
-  get enableTransactionMonitoring(): boolean {
-    return this.getMonitoringConfig().enableTransactionsMonitoring;
+  private getOtlpHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    for (const pair of this.getArray(ENV_VARS.OTEL_EXPORTER_OTLP_HEADERS, [])) {
+      const separator = pair.indexOf('=');
+      if (separator <= 0) continue;
+
+      headers[pair.slice(0, separator).trim()] = decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+
+    return headers;
   }
 
   /**
-   * Get RPC monitoring enabled status
+   * Parse API keys in the format name:role:key,name:role:key
    */
-  get enableRpcMonitoring(): boolean {
-    return this.getMonitoringConfig().enableRpcMonitoring;
+  private getApiKeys(): ApiKeyConfig[] {
+    return this.getArray(ENV_VARS.API_KEYS, []).map(entry => {
+      const [name, role, ...rest] = entry.split(':');
+      const key = rest.join(':');
+      if (!name || !key) {
+        throw new ConfigurationError(`Invalid API key "${name}", expected name:role:key`, ENV_VARS.API_KEYS);
+      }
+      if (!(HTTP.AUTH.ROLES as readonly string[]).includes(role)) {
+        throw new ConfigurationError(
+          `Invalid role "${role}" for API key "${name}", expected ${HTTP.AUTH.ROLES.join(', ')}`,
+          ENV_VARS.API_KEYS,
+        );
+      }
+
+      return { name, role: role as ApiRole, key };
+    });
   }
 
   /**
-   * Get port monitoring enabled status
+   * Validate that required environment variables are present
    */
-  get enablePortMonitoring(): boolean {
-    return this.isFeatureEnabled('ENABLE_PORT_MONITORING', false);
+  private validateRequiredEnvVars(): void {
+    // Add validation for required environment variables
+    const requiredVars: string[] = [];
+
+    // If any are missing, log warnings
+    const missingVars = requiredVars.filter(key => !this.env[key]);
+    if (missingVars.length > 0) {
+      this.logger.warn(`Missing required environment variables: ${missingVars.join(', ')}`);
+    }
   }
 
   /**
-   * Get scan interval in milliseconds
+   * Get the path of the file holding endpoints added or removed through the API
    */
-  get scanInterval(): number {
-    return this.getMonitoringConfig().scanIntervalMs;
+  getEndpointRegistryPath(): string {
+    return this.get(ENV_VARS.ENDPOINT_REGISTRY_PATH, DEFAULTS.ENDPOINT_REGISTRY_PATH);
   }
 
   /**
-   * Get a test receiver address for transaction tests
-   * @param chainId The chain ID (50 for mainnet, 51 for testnet)
-   * @returns A valid receiver address for test transactions
+   * Get the path of the file defining extra chains or overriding the built-in ones, empty when not used
    */
-  getTestReceiverAddress(chainId: number): string {
-    // Default to a burn address if no specific test receiver is configured
-    const defaultAddress = '0x0000000000000000000000000000000000000000';
-
-    // For mainnet (chainId 50), return mainnet test receiver or default
-    if (chainId === 50) return this.get('TEST_MAINNET_RECEIVER_ADDRESS', defaultAddress);
-
-    // For testnet (chainId 51), return testnet test receiver or default
-    if (chainId === 51) return this.get('TEST_TESTNET_RECEIVER_ADDRESS', defaultAddress);
+  getChainsConfigPath(): string {
+    return this.get(ENV_VARS.CHAINS_CONFIG_PATH, DEFAULTS.CHAINS_CONFIG_PATH);
+  }
 
-    // For any other chainId, return default
-    return defaultAddress;
+  /**
+   * Get block monitoring enabled status
+   */
+  get enableBlockMonitoring(): boolean {
+    return this.getMonitoringConfig().enableBlocksMonitoring;
   }
 
   /**
-   * Get mainnet test private key
+   * Get transaction monitoring enabled status
    */
-  get mainnetTestPrivateKey(): string {
-    return this.get('MAINNET_TEST_PRIVATE_KEY', '');
+  get enableTransactionMonitoring(): boolean {
+    return this.getMonitoringConfig().enableTransactionsMonitoring;
   }
 
   /**
-   * Get testnet test private key
+   * Get RPC monitoring enabled status
    */
-  get testnetTestPrivateKey(): string {
-    return this.get('TESTNET_TEST_PRIVATE_KEY', '');
+  get enableRpcMonitoring(): boolean {
+    return this.getMonitoringConfig().enableRpcMonitoring;
   }
 
   /**
-   * Get explorer endpoints
+   * Get port monitoring enabled status
    */
-  get explorerEndpoints(): RpcEndpoint[] {
-    return EXPLORER_ENDPOINTS;
+  get enablePortMonitoring(): boolean {
+    return this.isFeatureEnabled('ENABLE_PORT_MONITORING', false);
   }
 
   /**
-   * Get faucet endpoints
+   * Get scan interval in milliseconds
    */
-  get faucetEndpoints(): RpcEndpoint[] {
-    return FAUCET_ENDPOINTS;
+  get scanInterval(): number {
+    return this.getMonitoringConfig().scanIntervalMs;
   }
 
   /**
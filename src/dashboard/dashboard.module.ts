@@ -0,0 +1,14 @@
+import { AlertModule } from '@alerts/alert.module';
+import { StatusPageController } from '@dashboard/status-page.controller';
+import { StatusPageService } from '@dashboard/status-page.service';
+import { HistoryModule } from '@history/history.module';
+import { MonitoringModule } from '@monitoring/monitoring.module';
+import { RpcSelectorModule } from '@monitoring/rpc/rpc-selector.module';
+import { Module } from '@nestjs/common';
+
+@Module({
+  imports: [MonitoringModule, RpcSelectorModule, AlertModule, HistoryModule],
+  controllers: [StatusPageController],
+  providers: [StatusPageService],
+})
+export class DashboardModule {}
@@ -0,0 +1,116 @@
+import { AlertIncidentDto } from '@alerts/dto/alert.dto';
+import { ConsensusViolationDto } from '@monitoring/dto/consensus.dto';
+import { RecentBlockDto } from '@monitoring/dto/block-monitoring.dto';
+import { ApiProperty } from '@nestjs/swagger';
+import { ChainType, EndpointKind, StatusLevel, StatusPageEndpoint, StatusPageNetwork, StatusPageSummary } from '@types';
+
+const STATUS_LEVELS = ['operational', 'degraded', 'outage'];
+
+export class StatusPageEndpointDto implements StatusPageEndpoint {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  url: string;
+
+  @ApiProperty({ enum: ['rpc', 'websocket', 'explorer', 'faucet'] })
+  kind: EndpointKind;
+
+  @ApiProperty({ enum: ['up', 'down', 'unknown'] })
+  status: 'up' | 'down' | 'unknown';
+
+  @ApiProperty({ type: Number, nullable: true, description: 'Last measured latency, RPC endpoints only' })
+  latency: number | null;
+
+  @ApiProperty({ type: Number, nullable: true, description: 'Null when the metrics backend has no data' })
+  uptimePercent: number | null;
+
+  @ApiProperty({
+    type: 'array',
+    items: { type: 'number', nullable: true },
+    description: 'Uptime per bar, oldest first, null for bars without samples',
+  })
+  uptimeBars: (number | null)[];
+}
+
+export class StatusPageNetworkDto implements StatusPageNetwork {
+  @ApiProperty()
+  chainId: number;
+
+  @ApiProperty()
+  key: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ enum: ['mainnet', 'testnet', 'devnet', 'subnet'] })
+  type: ChainType;
+
+  @ApiProperty({ enum: STATUS_LEVELS })
+  status: StatusLevel;
+
+  @ApiProperty()
+  primaryRpc: string;
+
+  @ApiProperty({ type: Number, nullable: true })
+  latestBlock: number | null;
+
+  @ApiProperty({ type: Number, nullable: true, description: 'Seconds' })
+  averageBlockTime: number | null;
+
+  @ApiProperty({ description: 'Seconds' })
+  targetBlockTime: number;
+
+  @ApiProperty({ type: [StatusPageEndpointDto] })
+  endpoints: StatusPageEndpointDto[];
+
+  @ApiProperty({ type: [RecentBlockDto] })
+  recentBlocks: RecentBlockDto[];
+
+  @ApiProperty({ type: [AlertIncidentDto] })
+  incidents: AlertIncidentDto[];
+
+  @ApiProperty({ type: [ConsensusViolationDto] })
+  consensusViolations: ConsensusViolationDto[];
+}
+
+export class UptimeWindowDto {
+  @ApiProperty({ format: 'date-time' })
+  start: string;
+
+  @ApiProperty({ format: 'date-time' })
+  end: string;
+
+  @ApiProperty()
+  intervalMs: number;
+}
+
+export class StatusPageSummaryDto implements StatusPageSummary {
+  @ApiProperty({ format: 'date-time' })
+  generatedAt: string;
+
+  @ApiProperty({ enum: STATUS_LEVELS })
+  status: StatusLevel;
+
+  @ApiProperty()
+  refreshIntervalMs: number;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'Null when live updates are disabled or need authentication',
+  })
+  liveUpdatesPath: string | null;
+
+  @ApiProperty({ type: UptimeWindowDto })
+  uptimeWindow: UptimeWindowDto;
+
+  @ApiProperty({ type: [StatusPageNetworkDto] })
+  networks: StatusPageNetworkDto[];
+
+  @ApiProperty({ type: [AlertIncidentDto], description: 'Open incidents not tied to a chain' })
+  incidents: AlertIncidentDto[];
+}
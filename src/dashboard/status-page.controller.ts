@@ -0,0 +1,41 @@
+import { Public } from '@auth/auth.decorators';
+import { FEATURE_FLAGS } from '@common/constants/config';
+import { ConfigService } from '@config/config.service';
+import { renderStatusPage } from '@dashboard/status-page.renderer';
+import { StatusPageService } from '@dashboard/status-page.service';
+import { StatusPageSummaryDto } from '@dashboard/dto/status-page.dto';
+import { ErrorResponseDto } from '@common/dto/common.dto';
+import { Controller, Get, Header, NotFoundException } from '@nestjs/common';
+import { ApiNotFoundResponse, ApiOkResponse, ApiProduces, ApiTags } from '@nestjs/swagger';
+
+/**
+ * Public status page and the summary it is rendered from
+ */
+@Controller('status')
+@Public()
+@ApiTags('Status Page')
+@ApiNotFoundResponse({ description: 'The status page is disabled', type: ErrorResponseDto })
+export class StatusPageController {
+  constructor(
+    private readonly statusPageService: StatusPageService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get()
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  @ApiProduces('text/html')
+  @ApiOkResponse({ description: 'Standalone HTML status page', schema: { type: 'string' } })
+  async getStatusPage(): Promise<string> {
+    return renderStatusPage(await this.getSummary());
+  }
+
+  @Get('summary')
+  @ApiOkResponse({ type: StatusPageSummaryDto })
+  async getSummary(): Promise<StatusPageSummaryDto> {
+    if (!this.configService.isFeatureEnabled(FEATURE_FLAGS.ENABLE_DASHBOARD, true)) {
+      throw new NotFoundException('The status page is disabled');
+    }
+
+    return this.statusPageService.getSummary();
+  }
+}
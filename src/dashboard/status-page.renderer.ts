@@ -0,0 +1,209 @@
+import { escapeHtml } from '@common/utils/html';
+import {
+  AlertIncident,
+  ConsensusViolation,
+  RecentBlock,
+  StatusPageEndpoint,
+  StatusPageNetwork,
+  StatusPageSummary,
+} from '@types';
+
+const STATUS_LABELS = { operational: 'Operational', degraded: 'Degraded', outage: 'Outage' };
+const KIND_LABELS = { rpc: 'RPC', websocket: 'WebSocket', explorer: 'Explorer', faucet: 'Faucet' };
+
+const STYLE = `
+body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",sans-serif;margin:0;background:#f5f6f8;color:#1d2330}
+header{background:#1d2330;color:#fff;padding:1.2em 2em}header h1{margin:0;font-size:1.4em}
+main{max-width:1100px;margin:0 auto;padding:1em 2em}
+section{background:#fff;border-radius:8px;padding:1em 1.5em;margin:1em 0;box-shadow:0 1px 3px rgba(0,0,0,.08)}
+h2{margin:0 0 .4em;font-size:1.2em}h3{margin:1em 0 .4em;font-size:1em}
+.badge{display:inline-block;padding:2px 10px;border-radius:12px;font-size:.85em;color:#fff}
+.operational,.up{background:#2e9e5b}.degraded{background:#e0a100}.outage,.down{background:#d64545}.unknown{background:#9aa0aa}
+.banner{font-size:1.1em;padding:.8em 1.5em;border-radius:8px;color:#fff}
+.facts{display:flex;flex-wrap:wrap;gap:1.5em;margin:.5em 0;font-size:.9em}.facts span{color:#5b6270}
+table{border-collapse:collapse;width:100%;font-size:.85em}th,td{text-align:left;padding:4px 6px;border-bottom:1px solid #eee}
+th{color:#5b6270;font-weight:600}.mono{font-family:monospace}.muted{color:#9aa0aa}
+.dot{display:inline-block;width:9px;height:9px;border-radius:50%;margin-right:6px}
+.scroll{max-height:320px;overflow-y:auto}.bars{display:flex;gap:2px}.bar{width:7px;height:18px;border-radius:2px}
+.bar.good{background:#2e9e5b}.bar.fair{background:#e0a100}.bar.poor{background:#d64545}.bar.none{background:#dde0e5}
+footer{text-align:center;color:#9aa0aa;font-size:.8em;padding:1em}
+`;
+
+/**
+ * Render the status page as a standalone HTML document
+ * The inline script swaps in a fresh copy of the page every refresh interval, and sooner
+ * when an endpoint, primary RPC, alert or consensus update arrives over the WebSocket.
+ * New blocks are left to the regular refresh, they arrive every few seconds.
+ */
+export function renderStatusPage(summary: StatusPageSummary): string {
+  let html = '<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n';
+  html += '<meta name="viewport" content="width=device-width, initial-scale=1">\n<title>XDC Network Status</title>\n';
+  html += `<style>${STYLE}</style>\n</head>\n<body>\n`;
+  html += '<header><h1>XDC Network Status</h1></header>\n';
+  html += `<main>\n${renderMain(summary)}</main>\n`;
+  html += '<footer>Served by XDC Monitor</footer>\n';
+  html += `<script>${renderScript(summary)}</script>\n`;
+  return html + '</body>\n</html>\n';
+}
+
+function renderMain(summary: StatusPageSummary): string {
+  let html = `<div class="banner ${summary.status}">${bannerText(summary)}</div>\n`;
+  html += `<p class="muted">Updated ${escapeHtml(formatTime(summary.generatedAt))}</p>\n`;
+
+  if (summary.incidents.length > 0) {
+    html += `<section>\n<h2>Open incidents</h2>\n${renderIncidents(summary.incidents)}</section>\n`;
+  }
+
+  return html + summary.networks.map(network => renderNetwork(network, summary)).join('');
+}
+
+function bannerText(summary: StatusPageSummary): string {
+  if (summary.status === 'operational') return 'All systems operational';
+
+  const affected = summary.networks.filter(network => network.status !== 'operational').map(network => network.name);
+  const prefix = summary.status === 'outage' ? 'Outage' : 'Degraded performance';
+  return escapeHtml(affected.length > 0 ? `${prefix}: ${affected.join(', ')}` : prefix);
+}
+
+function renderNetwork(network: StatusPageNetwork, summary: StatusPageSummary): string {
+  let html = `<section id="${escapeHtml(network.key)}">\n`;
+  html += `<h2>${escapeHtml(network.name)} <span class="badge ${network.status}">${STATUS_LABELS[network.status]}</span></h2>\n`;
+
+  const blockTime =
+    network.averageBlockTime !== null
+      ? `${network.averageBlockTime.toFixed(2)}s (target ${network.targetBlockTime}s)`
+      : '-';
+  html += '<div class="facts">';
+  html += `<div><span>Chain ID</span> ${network.chainId}</div>`;
+  html += `<div><span>Latest block</span> ${network.latestBlock !== null ? `#${network.latestBlock}` : '-'}</div>`;
+  html += `<div><span>Block time</span> ${blockTime}</div>`;
+  html += `<div><span>Primary RPC</span> <span class="mono">${escapeHtml(network.primaryRpc || '-')}</span></div>`;
+  html += '</div>\n';
+
+  if (network.incidents.length > 0) {
+    html += `<h3>Open incidents</h3>\n${renderIncidents(network.incidents)}`;
+  }
+
+  html += `<h3>Endpoints</h3>\n${renderEndpoints(network.endpoints, summary)}`;
+  html += `<h3>Latest blocks</h3>\n${renderBlocks(network.recentBlocks)}`;
+
+  if (network.consensusViolations.length > 0) {
+    html += `<h3>Recent consensus violations</h3>\n${renderViolations(network.consensusViolations)}`;
+  }
+
+  return html + '</section>\n';
+}
+
+function renderEndpoints(endpoints: StatusPageEndpoint[], summary: StatusPageSummary): string {
+  if (endpoints.length === 0) return '<p class="muted">No endpoints registered</p>\n';
+
+  const hours = Math.round((Date.parse(summary.uptimeWindow.end) - Date.parse(summary.uptimeWindow.start)) / 3600000);
+  let html = `<table>\n<tr><th>Endpoint</th><th>Type</th><th>Latency</th><th>Uptime (${hours}h)</th><th></th></tr>\n`;
+  html += endpoints
+    .map(endpoint => {
+      const uptime = endpoint.uptimePercent !== null ? `${endpoint.uptimePercent.toFixed(2)}%` : '-';
+      return (
+        `<tr><td><span class="dot ${endpoint.status}" title="${endpoint.status}"></span>${escapeHtml(endpoint.name)}` +
+        `<div class="mono muted">${escapeHtml(endpoint.url)}</div></td>` +
+        `<td>${KIND_LABELS[endpoint.kind]}</td><td>${endpoint.latency !== null ? `${endpoint.latency}ms` : '-'}</td>` +
+        `<td>${uptime}</td><td>${renderUptimeBars(endpoint.uptimeBars, summary)}</td></tr>\n`
+      );
+    })
+    .join('');
+  return html + '</table>\n';
+}
+
+function renderUptimeBars(bars: (number | null)[], summary: StatusPageSummary): string {
+  const end = Date.parse(summary.uptimeWindow.end);
+  const { intervalMs } = summary.uptimeWindow;
+
+  const cells = bars.map((value, index) => {
+    const start = new Date(end - (bars.length - index) * intervalMs).toISOString();
+    const level = value === null ? 'none' : value >= 99 ? 'good' : value >= 90 ? 'fair' : 'poor';
+    const title = `${formatTime(start)}: ${value === null ? 'no data' : `${value.toFixed(1)}% up`}`;
+    return `<div class="bar ${level}" title="${escapeHtml(title)}"></div>`;
+  });
+  return `<div class="bars">${cells.join('')}</div>`;
+}
+
+function renderBlocks(blocks: RecentBlock[]): string {
+  if (blocks.length === 0) return '<p class="muted">No blocks processed yet</p>\n';
+
+  let html =
+    '<div class="scroll"><table>\n<tr><th>Block</th><th>Time</th><th>Transactions</th><th>Failed</th><th>Miner</th></tr>\n';
+  html += blocks
+    .map(
+      block =>
+        `<tr><td>#${block.number}</td><td>${escapeHtml(formatTime(new Date(block.timestamp).toISOString()))}</td>` +
+        `<td>${block.transactionCount}</td><td>${block.failedCount}</td>` +
+        `<td class="mono">${escapeHtml(block.miner || '-')}</td></tr>\n`,
+    )
+    .join('');
+  return html + '</table></div>\n';
+}
+
+function renderIncidents(incidents: AlertIncident[]): string {
+  let html = '<table>\n<tr><th>Incident</th><th>Component</th><th>Since</th><th>Alerts</th></tr>\n';
+  html += incidents
+    .map(
+      incident =>
+        `<tr><td>${escapeHtml(incident.title)}</td><td>${escapeHtml(incident.component)}</td>` +
+        `<td>${escapeHtml(formatTime(new Date(incident.startedAt).toISOString()))}</td>` +
+        `<td>${incident.alertIds.length}</td></tr>\n`,
+    )
+    .join('');
+  return html + '</table>\n';
+}
+
+function renderViolations(violations: ConsensusViolation[]): string {
+  let html = '<table>\n<tr><th>Block</th><th>Round</th><th>Type</th><th>Expected miner</th><th>Time</th></tr>\n';
+  html += violations
+    .map(
+      violation =>
+        `<tr><td>#${violation.blockNumber}</td><td>${violation.round}</td>` +
+        `<td>${escapeHtml(violation.violationType)}</td><td class="mono">${escapeHtml(violation.expectedMiner || '-')}</td>` +
+        `<td>${escapeHtml(formatTime(new Date(violation.timestamp).toISOString()))}</td></tr>\n`,
+    )
+    .join('');
+  return html + '</table>\n';
+}
+
+function renderScript(summary: StatusPageSummary): string {
+  return `
+(function () {
+  var refreshMs = ${summary.refreshIntervalMs};
+  var livePath = ${JSON.stringify(summary.liveUpdatesPath)};
+  var pending = null;
+
+  function refresh() {
+    fetch(location.pathname, { cache: 'no-store' })
+      .then(function (response) { return response.text(); })
+      .then(function (html) {
+        var main = new DOMParser().parseFromString(html, 'text/html').querySelector('main');
+        if (main) document.querySelector('main').innerHTML = main.innerHTML;
+      })
+      .catch(function () {});
+  }
+
+  function refreshSoon() {
+    if (pending) return;
+    pending = setTimeout(function () { pending = null; refresh(); }, 1000);
+  }
+
+  function connect(delayMs) {
+    var url = (location.protocol === 'https:' ? 'wss://' : 'ws://') + location.host + livePath;
+    var socket = new WebSocket(url + '?topics=endpoints,rpc-selection,alerts,consensus');
+    socket.onmessage = function (message) { if (JSON.parse(message.data).topic) refreshSoon(); };
+    socket.onopen = function () { delayMs = 1000; };
+    socket.onclose = function () { setTimeout(function () { connect(Math.min(delayMs * 2, 60000)); }, delayMs); };
+  }
+
+  setInterval(refresh, refreshMs);
+  if (livePath && window.WebSocket) connect(1000);
+})();
+`;
+}
+
+function formatTime(iso: string): string {
+  return `${iso.substring(0, 19).replace('T', ' ')} UTC`;
+}
@@ -0,0 +1,219 @@
+import { AlertService } from '@alerts/alert.service';
+import { AuthService } from '@auth/auth.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { FEATURES, HISTORY, LIVE_UPDATES } from '@common/constants/config';
+import { EndpointRegistryService } from '@endpoints/endpoint-registry.service';
+import { HistoryService } from '@history/history.service';
+import { LiveUpdatesService } from '@live/live-updates.service';
+import { BlocksMonitorService } from '@monitoring/blocks/blocks.monitor';
+import { MinerMonitor } from '@monitoring/consensus/miner/miner.monitor';
+import { RpcMonitorService } from '@monitoring/rpc/rpc.monitor';
+import { RpcSelectorService } from '@monitoring/rpc/rpc-selector.service';
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  AlertIncident,
+  RegisteredEndpoint,
+  StatusLevel,
+  StatusPageEndpoint,
+  StatusPageNetwork,
+  StatusPageSummary,
+} from '@types';
+
+// Uptime bars per endpoint URL, keyed by `${chainId}:${kind}`
+interface UptimeCache {
+  start: Date;
+  end: Date;
+  fetchedAt: number;
+  bars: Map<string, Map<string, (number | null)[]>>;
+}
+
+const STATUS_SEVERITY: Record<StatusLevel, number> = { operational: 0, degraded: 1, outage: 2 };
+
+/**
+ * Builds the public status page from the data behind the monitoring endpoints
+ *
+ * Current endpoint states, blocks, incidents and violations come from the monitors,
+ * uptime bars from the history API. Uptime is cached since it changes slowly and
+ * costs one metrics query per chain and endpoint kind.
+ */
+@Injectable()
+export class StatusPageService {
+  private readonly logger = new Logger(StatusPageService.name);
+  private uptimeCache: UptimeCache | null = null;
+  private uptimeRefresh: Promise<UptimeCache> | null = null;
+
+  constructor(
+    private readonly chainRegistry: ChainRegistryService,
+    private readonly endpointRegistry: EndpointRegistryService,
+    private readonly rpcMonitorService: RpcMonitorService,
+    private readonly rpcSelectorService: RpcSelectorService,
+    private readonly blocksMonitorService: BlocksMonitorService,
+    private readonly minerMonitor: MinerMonitor,
+    private readonly alertService: AlertService,
+    private readonly historyService: HistoryService,
+    private readonly liveUpdates: LiveUpdatesService,
+    private readonly authService: AuthService,
+  ) {}
+
+  async getSummary(): Promise<StatusPageSummary> {
+    const uptime = await this.getUptime();
+    const blockInfo = this.blocksMonitorService.getBlockMonitoringInfo();
+    const incidents = this.alertService.getOpenIncidents();
+
+    const networks = this.chainRegistry.getChains().map(chain => {
+      const recentBlocks = blockInfo.recentBlocks[chain.key] || [];
+      const blockTimeStats = blockInfo.blockTimeStats[chain.key];
+      const endpoints = this.getEndpoints(chain.chainId, uptime);
+      const chainIncidents = incidents.filter(incident => incident.chainId === chain.chainId);
+
+      const network: StatusPageNetwork = {
+        chainId: chain.chainId,
+        key: chain.key,
+        name: chain.name,
+        type: chain.type,
+        status: this.getNetworkStatus(endpoints, chainIncidents),
+        primaryRpc: this.rpcSelectorService.getPrimaryRpcUrl(chain.chainId),
+        latestBlock: recentBlocks[0]?.number ?? null,
+        averageBlockTime: blockTimeStats?.count ? blockTimeStats.average : null,
+        targetBlockTime: chain.blockTimeSeconds,
+        endpoints,
+        recentBlocks,
+        incidents: chainIncidents,
+        consensusViolations: this.minerMonitor.getRecentViolations(chain.chainId),
+      };
+      return network;
+    });
+
+    const globalIncidents = incidents.filter(
+      incident => incident.chainId === undefined || !this.chainRegistry.isSupported(incident.chainId),
+    );
+    const status = networks.reduce<StatusLevel>(
+      (worst, network) => (STATUS_SEVERITY[network.status] > STATUS_SEVERITY[worst] ? network.status : worst),
+      globalIncidents.length > 0 ? 'degraded' : 'operational',
+    );
+
+    return {
+      generatedAt: new Date().toISOString(),
+      status,
+      refreshIntervalMs: FEATURES.DASHBOARD.REFRESH_INTERVAL_MS,
+      // The page is public and holds no credential, so it cannot open the WebSocket once authentication is on
+      liveUpdatesPath:
+        this.liveUpdates.isEnabled() && !this.authService.isEnabled() ? LIVE_UPDATES.WEBSOCKET_PATH : null,
+      uptimeWindow: {
+        start: uptime.start.toISOString(),
+        end: uptime.end.toISOString(),
+        intervalMs: FEATURES.DASHBOARD.UPTIME_BAR_INTERVAL_MS,
+      },
+      networks,
+      incidents: globalIncidents,
+    };
+  }
+
+  /**
+   * Every registered endpoint of a chain with its current status and uptime bars
+   */
+  private getEndpoints(chainId: number, uptime: UptimeCache): StatusPageEndpoint[] {
+    const rpcStatuses = new Map(this.rpcMonitorService.getAllRpcStatuses().map(status => [status.url, status]));
+    const wsStatuses = new Map(this.rpcMonitorService.getAllWsStatuses().map(status => [status.url, status.status]));
+    const serviceStatuses: Record<string, string> = {
+      ...this.rpcMonitorService.getAllExplorerStatuses(),
+      ...this.rpcMonitorService.getAllFaucetStatuses(),
+    };
+
+    return this.endpointRegistry.getEndpoints({ chainId }).map(endpoint => {
+      const rpcStatus = endpoint.kind === 'rpc' ? rpcStatuses.get(endpoint.url) : undefined;
+      const status =
+        endpoint.kind === 'rpc'
+          ? rpcStatus?.status
+          : endpoint.kind === 'websocket'
+            ? wsStatuses.get(endpoint.url)
+            : serviceStatuses[endpoint.url];
+      const uptimeBars = this.getUptimeBars(uptime, endpoint);
+      const measured = uptimeBars.filter(value => value !== null);
+
+      return {
+        id: endpoint.id,
+        name: endpoint.name,
+        url: endpoint.url,
+        kind: endpoint.kind,
+        status: status === 'up' || status === 'down' ? status : 'unknown',
+        latency: rpcStatus && rpcStatus.status === 'up' ? rpcStatus.latency : null,
+        uptimePercent:
+          measured.length > 0
+            ? Math.round((measured.reduce((total, value) => total + value, 0) / measured.length) * 100) / 100
+            : null,
+        uptimeBars,
+      };
+    });
+  }
+
+  /**
+   * A chain has an outage when all of its RPC endpoints are down, and is degraded when
+   * any endpoint is down or an incident is open
+   */
+  private getNetworkStatus(endpoints: StatusPageEndpoint[], incidents: AlertIncident[]): StatusLevel {
+    const rpcEndpoints = endpoints.filter(endpoint => endpoint.kind === 'rpc');
+    if (rpcEndpoints.length > 0 && rpcEndpoints.every(endpoint => endpoint.status === 'down')) {
+      return 'outage';
+    }
+
+    if (incidents.length > 0 || endpoints.some(endpoint => endpoint.status === 'down')) {
+      return 'degraded';
+    }
+
+    return 'operational';
+  }
+
+  private getUptimeBars(uptime: UptimeCache, endpoint: RegisteredEndpoint): (number | null)[] {
+    const bars = uptime.bars.get(`${endpoint.chainId}:${endpoint.kind}`)?.get(endpoint.url);
+    const barCount = Math.ceil(FEATURES.DASHBOARD.UPTIME_WINDOW_MS / FEATURES.DASHBOARD.UPTIME_BAR_INTERVAL_MS);
+
+    return bars ? bars.slice(-barCount) : Array.from({ length: barCount }, () => null);
+  }
+
+  /**
+   * Cached uptime bars, concurrent requests share a single refresh
+   */
+  private async getUptime(): Promise<UptimeCache> {
+    if (this.uptimeCache && Date.now() - this.uptimeCache.fetchedAt < FEATURES.DASHBOARD.UPTIME_CACHE_MS) {
+      return this.uptimeCache;
+    }
+
+    if (!this.uptimeRefresh) {
+      this.uptimeRefresh = this.fetchUptime().finally(() => (this.uptimeRefresh = null));
+    }
+
+    this.uptimeCache = await this.uptimeRefresh;
+    return this.uptimeCache;
+  }
+
+  private async fetchUptime(): Promise<UptimeCache> {
+    const end = new Date();
+    const start = new Date(end.getTime() - FEATURES.DASHBOARD.UPTIME_WINDOW_MS);
+    const bars = new Map<string, Map<string, (number | null)[]>>();
+
+    const queries = this.chainRegistry.getChains().flatMap(chain =>
+      HISTORY.UPTIME_ENDPOINT_TYPES.map(async kind => {
+        try {
+          const result = await this.historyService.getHistory('uptime', {
+            chainId: chain.chainId,
+            start,
+            end,
+            intervalMs: FEATURES.DASHBOARD.UPTIME_BAR_INTERVAL_MS,
+            endpointType: kind,
+          });
+
+          bars.set(
+            `${chain.chainId}:${kind}`,
+            new Map(result.series.map(series => [series.labels.endpoint, series.points.map(point => point.value)])),
+          );
+        } catch (error) {
+          this.logger.debug(`Uptime for ${kind} endpoints of chain ${chain.chainId} is unavailable: ${error.message}`);
+        }
+      }),
+    );
+    await Promise.all(queries);
+
+    return { start, end, fetchedAt: Date.now(), bars };
+  }
+}
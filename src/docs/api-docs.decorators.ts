@@ -0,0 +1,32 @@
+import { HTTP } from '@common/constants/config';
+import { ErrorResponseDto } from '@common/dto/common.dto';
+import { applyDecorators } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiQuery,
+  ApiSecurity,
+  ApiTooManyRequestsResponse,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+
+/**
+ * Document the credentials and auth errors of a controller or route behind the API auth guard
+ * The responses only occur when API authentication is enabled
+ */
+export function ApiAuth(): ClassDecorator & MethodDecorator {
+  return applyDecorators(
+    ApiBearerAuth(HTTP.DOCS.BEARER_SECURITY),
+    ApiSecurity(HTTP.DOCS.API_KEY_SECURITY),
+    ApiUnauthorizedResponse({ description: 'Missing or invalid credential', type: ErrorResponseDto }),
+    ApiForbiddenResponse({ description: 'The role of the caller is too low', type: ErrorResponseDto }),
+    ApiTooManyRequestsResponse({ description: 'Rate limit of the caller exceeded', type: ErrorResponseDto }),
+  );
+}
+
+/**
+ * Document an optional chainId query parameter
+ */
+export function ApiChainIdQuery(description = 'Chain ID, e.g. 50 for mainnet or 51 for testnet'): MethodDecorator {
+  return ApiQuery({ name: 'chainId', required: false, type: Number, description });
+}
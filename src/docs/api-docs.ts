@@ -0,0 +1,47 @@
+import { FEATURE_FLAGS, HTTP } from '@common/constants/config';
+import { getRecordValueModels } from '@common/dto/api-record-property';
+import { ErrorResponseDto } from '@common/dto/common.dto';
+import { ConfigService } from '@config/config.service';
+import { INestApplication, Logger } from '@nestjs/common';
+import { DocumentBuilder, OpenAPIObject, SwaggerModule } from '@nestjs/swagger';
+
+/**
+ * Build the OpenAPI 3 document from the controller and DTO decorators
+ */
+export function createApiDocument(app: INestApplication): OpenAPIObject {
+  const config = new DocumentBuilder()
+    .setTitle(HTTP.DOCS.TITLE)
+    .setDescription(
+      'Monitoring API for XDC Network RPC endpoints, blocks, consensus, alerts and reports. ' +
+        'Credentials are only required when API authentication is enabled.',
+    )
+    .setVersion(HTTP.DOCS.VERSION)
+    .addBearerAuth({ type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }, HTTP.DOCS.BEARER_SECURITY)
+    .addApiKey({ type: 'apiKey', in: 'header', name: HTTP.AUTH.API_KEY_HEADER }, HTTP.DOCS.API_KEY_SECURITY)
+    .build();
+
+  return SwaggerModule.createDocument(app, config, {
+    extraModels: [ErrorResponseDto, ...getRecordValueModels()],
+    operationIdFactory: (controllerKey, methodKey) => `${controllerKey.replace(/Controller$/, '')}_${methodKey}`,
+  });
+}
+
+/**
+ * Serve Swagger UI and the OpenAPI document as JSON and YAML, called after the global prefix is set
+ * The document is built once at startup and served without authentication so clients can be generated from it.
+ */
+export function setupApiDocs(app: INestApplication): void {
+  const logger = new Logger('ApiDocs');
+
+  if (!app.get(ConfigService).isFeatureEnabled(FEATURE_FLAGS.ENABLE_API_DOCS, true)) {
+    logger.log('API documentation is disabled');
+    return;
+  }
+
+  SwaggerModule.setup(HTTP.DOCS.PATH, app, createApiDocument(app), {
+    jsonDocumentUrl: HTTP.DOCS.JSON_PATH,
+    yamlDocumentUrl: HTTP.DOCS.YAML_PATH,
+    customSiteTitle: HTTP.DOCS.TITLE,
+  });
+  logger.log(`API documentation available at /${HTTP.DOCS.PATH}, OpenAPI spec at /${HTTP.DOCS.JSON_PATH}`);
+}
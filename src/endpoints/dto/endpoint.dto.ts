@@ -0,0 +1,85 @@
+import { ENDPOINT_URL_PROTOCOLS } from '@common/constants/endpoints';
+import { ActionResultDto } from '@common/dto/common.dto';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { EndpointKind, RegisteredEndpoint } from '@types';
+
+const ENDPOINT_KINDS = Object.keys(ENDPOINT_URL_PROTOCOLS);
+
+export class RegisteredEndpointDto implements RegisteredEndpoint {
+  @ApiProperty({ description: 'Stable identifier derived from the URL' })
+  id: string;
+
+  @ApiProperty()
+  url: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ enum: ENDPOINT_KINDS })
+  kind: EndpointKind;
+
+  @ApiProperty({ enum: ['rpc', 'erpc', 'websocket'] })
+  type: 'rpc' | 'erpc' | 'websocket';
+
+  @ApiProperty()
+  chainId: number;
+
+  @ApiProperty({ enum: ['builtin', 'api'] })
+  source: 'builtin' | 'api';
+
+  @ApiPropertyOptional({ enum: ['up', 'down', 'active'] })
+  status?: 'up' | 'down' | 'active';
+
+  @ApiPropertyOptional()
+  latency?: number;
+
+  @ApiPropertyOptional()
+  conditional?: boolean;
+}
+
+export class EndpointResultDto {
+  @ApiProperty()
+  success: boolean;
+
+  @ApiProperty({ type: RegisteredEndpointDto })
+  endpoint: RegisteredEndpointDto;
+}
+
+export class RemoveEndpointResultDto extends ActionResultDto {
+  @ApiProperty({ type: RegisteredEndpointDto })
+  endpoint: RegisteredEndpointDto;
+}
+
+/**
+ * Body of POST /api/endpoints
+ */
+export class CreateEndpointPayloadDto {
+  @ApiProperty({ example: 'https://rpc.xinfin.network' })
+  url: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ enum: ENDPOINT_KINDS })
+  kind: string;
+
+  @ApiProperty({ oneOf: [{ type: 'integer' }, { type: 'string' }], example: 50 })
+  chainId: number | string;
+
+  @ApiPropertyOptional({ enum: ['rpc', 'erpc'], description: 'RPC endpoints only, defaults to rpc' })
+  type?: string;
+}
+
+/**
+ * Body of PATCH /api/endpoints/:id, the URL identifies the endpoint and cannot change
+ */
+export class UpdateEndpointPayloadDto {
+  @ApiPropertyOptional()
+  name?: string;
+
+  @ApiPropertyOptional({ oneOf: [{ type: 'integer' }, { type: 'string' }] })
+  chainId?: number | string;
+
+  @ApiPropertyOptional({ enum: ['rpc', 'erpc'] })
+  type?: string;
+}
@@ -0,0 +1,89 @@
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { ConfigurationError } from '@common/utils/error-handler';
+import { ConfigService } from '@config/config.service';
+import { EndpointRegistryService } from '@endpoints/endpoint-registry.service';
+import { ConflictException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { EndpointRegistryFile } from '@types';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const rpc = (url: string, chainId = 50) => ({ url, name: url, kind: 'rpc' as const, type: 'rpc' as const, chainId });
+
+describe('EndpointRegistryService', () => {
+  let dir: string;
+  let registryPath: string;
+
+  const createRegistry = async (file: Partial<EndpointRegistryFile>): Promise<EndpointRegistryService> => {
+    await fs.writeFile(registryPath, JSON.stringify({ version: 1, removed: [], ...file }), 'utf8');
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        EndpointRegistryService,
+        { provide: ConfigService, useValue: { getEndpointRegistryPath: () => registryPath } },
+        {
+          provide: ChainRegistryService,
+          useValue: {
+            getChains: () => [{ chainId: 50, endpoints: [rpc('https://builtin.example.org')] }],
+            getChain: () => ({ chainId: 50, primaryRpcUrl: 'https://builtin.example.org' }),
+            getChainIds: () => [50],
+            isSupported: (chainId: number) => chainId === 50,
+          },
+        },
+      ],
+    }).compile();
+
+    moduleRef.useLogger(false);
+    return moduleRef.get(EndpointRegistryService);
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'endpoint-registry-'));
+    registryPath = join(dir, 'endpoints.json');
+  });
+
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('normalizes stored URLs like the API and skips the duplicates they reveal', async () => {
+    const registry = await createRegistry({
+      endpoints: [
+        rpc(' https://rpc.example.org/ '),
+        rpc('https://rpc.example.org'),
+        rpc('https://builtin.example.org//'),
+        rpc('https://other.example.org/rpc/'),
+      ],
+    });
+
+    expect(registry.getRpcEndpoints().map(endpoint => [endpoint.url, endpoint.source])).toEqual([
+      ['https://builtin.example.org', 'builtin'],
+      ['https://rpc.example.org', 'api'],
+      ['https://other.example.org/rpc', 'api'],
+    ]);
+  });
+
+  it('rejects adding a URL the stored file already registered with a trailing slash', async () => {
+    const registry = await createRegistry({ endpoints: [rpc('https://rpc.example.org/')] });
+
+    await expect(
+      registry.addEndpoint({ url: 'https://rpc.example.org', name: 'Again', kind: 'rpc', chainId: 50 }),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('skips duplicates among endpoints of unmonitored chains', async () => {
+    const registry = await createRegistry({
+      endpoints: [rpc('https://apothem.example.org/', 51), rpc('https://apothem.example.org', 51)],
+    });
+    await registry.addEndpoint({ url: 'https://rpc.example.org', name: 'New', kind: 'rpc', chainId: 50 });
+
+    const saved: EndpointRegistryFile = JSON.parse(await fs.readFile(registryPath, 'utf8'));
+    expect(saved.endpoints.map(endpoint => endpoint.url)).toEqual([
+      'https://rpc.example.org',
+      'https://apothem.example.org',
+    ]);
+  });
+
+  it('fails startup on a stored URL the API would reject', async () => {
+    await expect(createRegistry({ endpoints: [rpc('wss://rpc.example.org')] })).rejects.toThrow(ConfigurationError);
+  });
+});
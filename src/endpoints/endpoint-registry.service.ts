@@ -0,0 +1,349 @@
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { ENV_VARS } from '@common/constants/config';
+import { ENDPOINT_URL_PROTOCOLS } from '@common/constants/endpoints';
+import { ConfigurationError } from '@common/utils/error-handler';
+import { ConfigService } from '@config/config.service';
+import { BadRequestException, ConflictException, Injectable, Logger } from '@nestjs/common';
+import {
+  EndpointChange,
+  EndpointInput,
+  EndpointKind,
+  EndpointRegistryFile,
+  EndpointUpdate,
+  RegisteredEndpoint,
+} from '@types';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import { dirname, isAbsolute, join } from 'path';
+
+type EndpointChangeListener = (change: EndpointChange) => void | Promise<void>;
+
+const REGISTRY_FILE_VERSION = 1;
+
+/**
+ * Registry of the monitored RPC, WebSocket, explorer and faucet endpoints
+ *
+ * Starts from the endpoints of the registered chains and applies the additions, edits and removals made through
+ * the API, which are kept in a JSON file so they survive restarts. Services read their endpoints from
+ * the registry and subscribe to changes to pick up an endpoint, or let go of it, without a restart.
+ */
+@Injectable()
+export class EndpointRegistryService {
+  private readonly logger = new Logger(EndpointRegistryService.name);
+  private readonly filePath: string;
+
+  private endpoints: RegisteredEndpoint[] = [];
+  private builtinUrls = new Set<string>();
+  // Endpoints of chains that are no longer monitored, kept in the file in case the chain comes back
+  private inactiveEndpoints: EndpointRegistryFile['endpoints'] = [];
+  private removedBuiltins = new Set<string>();
+  private listeners: { listener: EndpointChangeListener; pending: Promise<void> }[] = [];
+  // Changes are applied one at a time so concurrent requests never interleave file writes
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly chainRegistry: ChainRegistryService,
+  ) {
+    const path = this.configService.getEndpointRegistryPath();
+    this.filePath = isAbsolute(path) ? path : join(process.cwd(), path);
+
+    // Loaded before any monitor starts so they all see the same endpoints from the first cycle
+    this.load();
+  }
+
+  /**
+   * Subscribe to endpoint changes
+   * Each listener receives changes one at a time and in order, even when it handles them asynchronously.
+   */
+  onChange(listener: EndpointChangeListener): void {
+    this.listeners.push({ listener, pending: Promise.resolve() });
+  }
+
+  getEndpoints(filter: { kind?: EndpointKind; chainId?: number } = {}): RegisteredEndpoint[] {
+    return this.endpoints.filter(
+      endpoint =>
+        (!filter.kind || endpoint.kind === filter.kind) &&
+        (filter.chainId === undefined || endpoint.chainId === filter.chainId),
+    );
+  }
+
+  getRpcEndpoints(): RegisteredEndpoint[] {
+    return this.getEndpoints({ kind: 'rpc' });
+  }
+
+  getWsEndpoints(): RegisteredEndpoint[] {
+    return this.getEndpoints({ kind: 'websocket' });
+  }
+
+  getExplorerEndpoints(): RegisteredEndpoint[] {
+    return this.getEndpoints({ kind: 'explorer' });
+  }
+
+  getFaucetEndpoints(): RegisteredEndpoint[] {
+    return this.getEndpoints({ kind: 'faucet' });
+  }
+
+  getEndpoint(id: string): RegisteredEndpoint | null {
+    return this.endpoints.find(endpoint => endpoint.id === id) ?? null;
+  }
+
+  findByUrl(url: string): RegisteredEndpoint | null {
+    return this.endpoints.find(endpoint => endpoint.url === url) ?? null;
+  }
+
+  /**
+   * Configured primary RPC URL for a chain, or its first registered RPC endpoint once the primary is removed
+   */
+  getPrimaryRpcUrl(chainId: number): string {
+    const configured = this.chainRegistry.getChain(chainId)?.primaryRpcUrl;
+    const endpoints = this.getEndpoints({ kind: 'rpc', chainId });
+    if (endpoints.length === 0 || endpoints.some(endpoint => endpoint.url === configured)) {
+      return configured;
+    }
+
+    return (endpoints.find(endpoint => endpoint.type === 'rpc') ?? endpoints[0]).url;
+  }
+
+  addEndpoint(input: EndpointInput): Promise<RegisteredEndpoint> {
+    return this.exclusive(async () => {
+      const url = this.normalizeUrl(input.url, input.kind);
+      if (this.findByUrl(url)) {
+        throw new ConflictException(`Endpoint ${url} is already registered`);
+      }
+      this.validateChainId(input.chainId);
+
+      const endpoint = this.toRegisteredEndpoint(
+        {
+          url,
+          name: input.name,
+          kind: input.kind,
+          chainId: input.chainId,
+          type: input.kind === 'rpc' ? (input.type ?? 'rpc') : input.kind === 'websocket' ? 'websocket' : 'rpc',
+        },
+        'api',
+      );
+
+      await this.commit([...this.endpoints, endpoint], this.removedBuiltins);
+      this.logger.log(
+        `Added ${endpoint.kind} endpoint ${endpoint.name} (${endpoint.url}) for chain ${endpoint.chainId}`,
+      );
+      this.notify({ type: 'added', endpoint });
+
+      return endpoint;
+    });
+  }
+
+  /**
+   * Change the name, chain or RPC type of an endpoint
+   * Edited built-in endpoints are stored with the API endpoints from then on.
+   *
+   * @returns The updated endpoint, or null if no endpoint has this id
+   */
+  updateEndpoint(id: string, update: EndpointUpdate): Promise<RegisteredEndpoint | null> {
+    return this.exclusive(async () => {
+      const current = this.getEndpoint(id);
+      if (!current) return null;
+
+      if (update.chainId !== undefined) {
+        this.validateChainId(update.chainId);
+      }
+      if (update.type !== undefined && current.kind !== 'rpc') {
+        throw new BadRequestException('type can only be changed on rpc endpoints');
+      }
+
+      const endpoint: RegisteredEndpoint = {
+        ...current,
+        name: update.name ?? current.name,
+        chainId: update.chainId ?? current.chainId,
+        type: update.type ?? current.type,
+        source: 'api',
+      };
+
+      await this.commit(
+        this.endpoints.map(existing => (existing.id === id ? endpoint : existing)),
+        this.withRemovedBuiltin(current),
+      );
+      this.logger.log(`Updated ${endpoint.kind} endpoint ${endpoint.name} (${endpoint.url})`);
+
+      if (endpoint.chainId !== current.chainId) {
+        this.notify({ type: 'removed', endpoint: current });
+        this.notify({ type: 'added', endpoint });
+      } else {
+        this.notify({ type: 'updated', endpoint, previous: current });
+      }
+
+      return endpoint;
+    });
+  }
+
+  /**
+   * Stop monitoring an endpoint, removed built-in endpoints stay removed across restarts
+   *
+   * @returns The removed endpoint, or null if no endpoint has this id
+   */
+  removeEndpoint(id: string): Promise<RegisteredEndpoint | null> {
+    return this.exclusive(async () => {
+      const endpoint = this.getEndpoint(id);
+      if (!endpoint) return null;
+
+      await this.commit(
+        this.endpoints.filter(existing => existing.id !== id),
+        this.withRemovedBuiltin(endpoint),
+      );
+      this.logger.log(`Removed ${endpoint.kind} endpoint ${endpoint.name} (${endpoint.url})`);
+      this.notify({ type: 'removed', endpoint });
+
+      return endpoint;
+    });
+  }
+
+  /**
+   * Read the registry file and apply it to the built-in endpoints
+   */
+  private load(): void {
+    let stored: Partial<EndpointRegistryFile> = {};
+    try {
+      stored = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw new ConfigurationError(
+          `Failed to read endpoint registry ${this.filePath}: ${error.message}`,
+          ENV_VARS.ENDPOINT_REGISTRY_PATH,
+        );
+      }
+    }
+
+    this.removedBuiltins = new Set(stored.removed ?? []);
+    const builtins = this.chainRegistry
+      .getChains()
+      .flatMap(({ chainId, endpoints }) => endpoints.map(endpoint => ({ ...endpoint, chainId })));
+    this.builtinUrls = new Set(builtins.map(({ url }) => url));
+    this.endpoints = builtins
+      .filter((endpoint, index) => builtins.findIndex(({ url }) => url === endpoint.url) === index)
+      .filter(endpoint => !this.removedBuiltins.has(endpoint.url))
+      .map(endpoint => this.toRegisteredEndpoint(endpoint, 'builtin'));
+
+    for (const storedEndpoint of stored.endpoints ?? []) {
+      if (!ENDPOINT_URL_PROTOCOLS[storedEndpoint.kind] || typeof storedEndpoint.url !== 'string') {
+        throw new ConfigurationError(
+          `Invalid endpoint in registry ${this.filePath}: ${JSON.stringify(storedEndpoint)}`,
+          ENV_VARS.ENDPOINT_REGISTRY_PATH,
+        );
+      }
+
+      // Hand-edited files get the same URL normalization as the API so duplicates are still caught
+      let url: string;
+      try {
+        url = this.normalizeUrl(storedEndpoint.url, storedEndpoint.kind);
+      } catch (error) {
+        throw new ConfigurationError(
+          `Invalid endpoint in registry ${this.filePath}: ${error.message}`,
+          ENV_VARS.ENDPOINT_REGISTRY_PATH,
+        );
+      }
+
+      const endpoint = { ...storedEndpoint, url };
+      if (this.findByUrl(url) || this.inactiveEndpoints.some(inactive => inactive.url === url)) {
+        this.logger.warn(`Skipping duplicate endpoint ${url} in registry ${this.filePath}`);
+        continue;
+      }
+      if (!this.chainRegistry.isSupported(endpoint.chainId)) {
+        this.logger.warn(`Keeping endpoint ${endpoint.url} of unmonitored chain ${endpoint.chainId} inactive`);
+        this.inactiveEndpoints.push(endpoint);
+        continue;
+      }
+
+      this.endpoints.push(this.toRegisteredEndpoint(endpoint, 'api'));
+    }
+
+    const added = this.endpoints.filter(endpoint => endpoint.source === 'api').length;
+    this.logger.log(
+      `Loaded ${this.endpoints.length} endpoints (${added} added through the API, ${this.removedBuiltins.size} built-in removed)`,
+    );
+  }
+
+  /**
+   * Write the registry file, the new endpoints only take effect once it is saved
+   * Writes go to a temporary file first and are renamed into place so a crash never leaves a truncated file.
+   */
+  private async commit(endpoints: RegisteredEndpoint[], removedBuiltins: Set<string>): Promise<void> {
+    const file: EndpointRegistryFile = {
+      version: REGISTRY_FILE_VERSION,
+      endpoints: endpoints
+        .filter(endpoint => endpoint.source === 'api')
+        .map(({ url, name, kind, type, chainId }) => ({ url, name, kind, type, chainId }))
+        .concat(this.inactiveEndpoints),
+      removed: Array.from(removedBuiltins),
+    };
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.mkdir(dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify(file, null, 2), 'utf8');
+    await fs.promises.rename(tempPath, this.filePath);
+
+    this.endpoints = endpoints;
+    this.removedBuiltins = removedBuiltins;
+  }
+
+  private notify(change: EndpointChange): void {
+    for (const subscription of this.listeners) {
+      subscription.pending = subscription.pending
+        .then(() => subscription.listener(change))
+        .catch(error =>
+          this.logger.error(`Failed to apply ${change.type} endpoint ${change.endpoint.url}: ${error.message}`),
+        );
+    }
+  }
+
+  private withRemovedBuiltin(endpoint: RegisteredEndpoint): Set<string> {
+    return this.builtinUrls.has(endpoint.url) ? new Set([...this.removedBuiltins, endpoint.url]) : this.removedBuiltins;
+  }
+
+  private normalizeUrl(value: string, kind: EndpointKind): string {
+    let url: URL;
+    try {
+      url = new URL(value.trim());
+    } catch {
+      throw new BadRequestException(`Invalid URL: ${value}`);
+    }
+
+    const protocols = ENDPOINT_URL_PROTOCOLS[kind];
+    if (!protocols.includes(url.protocol)) {
+      throw new BadRequestException(
+        `${kind} endpoints must use ${protocols.map(protocol => protocol.replace(':', '')).join(' or ')} URLs`,
+      );
+    }
+
+    return value.trim().replace(/\/+$/, '');
+  }
+
+  private validateChainId(chainId: number): void {
+    if (!this.chainRegistry.isSupported(chainId)) {
+      throw new BadRequestException(
+        `Unsupported chainId ${chainId}. Available: ${this.chainRegistry.getChainIds().join(', ')}`,
+      );
+    }
+  }
+
+  private toRegisteredEndpoint(
+    endpoint: Omit<RegisteredEndpoint, 'id' | 'source'>,
+    source: RegisteredEndpoint['source'],
+  ): RegisteredEndpoint {
+    return {
+      id: createHash('sha1').update(endpoint.url).digest('hex').substring(0, 12),
+      url: endpoint.url,
+      name: endpoint.name,
+      kind: endpoint.kind,
+      type: endpoint.type,
+      chainId: endpoint.chainId,
+      source,
+    };
+  }
+
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(operation);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+}
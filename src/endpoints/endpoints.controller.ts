@@ -0,0 +1,156 @@
+import { ENDPOINT_URL_PROTOCOLS } from '@common/constants/endpoints';
+import { EndpointRegistryService } from '@endpoints/endpoint-registry.service';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ErrorResponseDto } from '@common/dto/common.dto';
+import { parseOptionalInt } from '@common/utils/query-params';
+import { ApiAuth, ApiChainIdQuery } from '@docs/api-docs.decorators';
+import {
+  CreateEndpointPayloadDto,
+  EndpointResultDto,
+  RegisteredEndpointDto,
+  RemoveEndpointResultDto,
+  UpdateEndpointPayloadDto,
+} from '@endpoints/dto/endpoint.dto';
+import {
+  ApiBadRequestResponse,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
+import { EndpointKind, EndpointUpdate } from '@types';
+
+const ENDPOINT_KINDS = Object.keys(ENDPOINT_URL_PROTOCOLS);
+const RPC_TYPES = ['rpc', 'erpc'];
+
+/**
+ * Endpoint registry API, changes are picked up by the monitors without a restart
+ */
+@Controller('endpoints')
+@ApiTags('Endpoints')
+@ApiAuth()
+export class EndpointsController {
+  constructor(private readonly endpointRegistry: EndpointRegistryService) {}
+
+  /**
+   * GET /api/endpoints?kind=rpc&chainId=50
+   */
+  @Get()
+  @ApiQuery({ name: 'kind', required: false, enum: ENDPOINT_KINDS })
+  @ApiChainIdQuery()
+  @ApiOkResponse({ type: [RegisteredEndpointDto] })
+  @ApiBadRequestResponse({ type: ErrorResponseDto })
+  getEndpoints(@Query('kind') kind?: string, @Query('chainId') chainIdStr?: string): RegisteredEndpointDto[] {
+    return this.endpointRegistry.getEndpoints({
+      kind: kind ? this.parseKind(kind) : undefined,
+      chainId: parseOptionalInt(chainIdStr, 'chainId'),
+    });
+  }
+
+  @Get(':id')
+  @ApiOkResponse({ type: RegisteredEndpointDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  getEndpoint(@Param('id') id: string): RegisteredEndpointDto {
+    const endpoint = this.endpointRegistry.getEndpoint(id);
+    if (!endpoint) {
+      throw new NotFoundException(`Endpoint ${id} not found`);
+    }
+
+    return endpoint;
+  }
+
+  @Post()
+  @ApiCreatedResponse({ type: EndpointResultDto })
+  @ApiBadRequestResponse({ description: 'Invalid endpoint', type: ErrorResponseDto })
+  @ApiConflictResponse({ description: 'The URL is already registered', type: ErrorResponseDto })
+  async addEndpoint(@Body() payload: CreateEndpointPayloadDto): Promise<EndpointResultDto> {
+    if (typeof payload?.url !== 'string' || !payload.url.trim()) {
+      throw new BadRequestException('url is required');
+    }
+
+    const chainId = parseOptionalInt(payload.chainId?.toString(), 'chainId');
+    if (chainId === undefined) {
+      throw new BadRequestException('chainId is required');
+    }
+
+    const endpoint = await this.endpointRegistry.addEndpoint({
+      url: payload.url,
+      name: this.parseName(payload.name),
+      kind: this.parseKind(payload.kind),
+      chainId,
+      type: this.parseType(payload.type),
+    });
+
+    return { success: true, endpoint };
+  }
+
+  @Patch(':id')
+  @ApiOkResponse({ type: EndpointResultDto })
+  @ApiBadRequestResponse({ type: ErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  async updateEndpoint(
+    @Param('id') id: string,
+    @Body() payload: UpdateEndpointPayloadDto = {},
+  ): Promise<EndpointResultDto> {
+    const update: EndpointUpdate = {
+      name: payload?.name !== undefined ? this.parseName(payload.name) : undefined,
+      chainId: parseOptionalInt(payload?.chainId?.toString(), 'chainId'),
+      type: this.parseType(payload?.type),
+    };
+
+    const endpoint = await this.endpointRegistry.updateEndpoint(id, update);
+    if (!endpoint) {
+      throw new NotFoundException(`Endpoint ${id} not found`);
+    }
+
+    return { success: true, endpoint };
+  }
+
+  @Delete(':id')
+  @ApiOkResponse({ type: RemoveEndpointResultDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  async removeEndpoint(@Param('id') id: string): Promise<RemoveEndpointResultDto> {
+    const endpoint = await this.endpointRegistry.removeEndpoint(id);
+    if (!endpoint) {
+      throw new NotFoundException(`Endpoint ${id} not found`);
+    }
+
+    return { success: true, message: `Endpoint ${endpoint.url} removed`, endpoint };
+  }
+
+  private parseKind(kind: string): EndpointKind {
+    if (!ENDPOINT_KINDS.includes(kind)) {
+      throw new BadRequestException(`Invalid kind. Available: ${ENDPOINT_KINDS.join(', ')}`);
+    }
+    return kind as EndpointKind;
+  }
+
+  private parseName(name: string): string {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new BadRequestException('name must be a non-empty string');
+    }
+    return name.trim();
+  }
+
+  private parseType(type?: string): 'rpc' | 'erpc' | undefined {
+    if (type === undefined) return undefined;
+
+    if (!RPC_TYPES.includes(type)) {
+      throw new BadRequestException(`Invalid type. Available: ${RPC_TYPES.join(', ')}`);
+    }
+    return type as 'rpc' | 'erpc';
+  }
+}
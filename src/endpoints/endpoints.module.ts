@@ -0,0 +1,16 @@
+import { ConfigModule } from '@config/config.module';
+import { EndpointRegistryService } from '@endpoints/endpoint-registry.service';
+import { EndpointsController } from '@endpoints/endpoints.controller';
+import { Global, Module } from '@nestjs/common';
+
+/**
+ * Global module providing the endpoint registry
+ */
+@Global()
+@Module({
+  imports: [ConfigModule],
+  controllers: [EndpointsController],
+  providers: [EndpointRegistryService],
+  exports: [EndpointRegistryService],
+})
+export class EndpointsModule {}
@@ -0,0 +1,31 @@
+import { AlertModule } from '@alerts/alert.module';
+import { GraphqlOptionsService } from '@graphql/graphql-options.service';
+import { AlertsResolver } from '@graphql/resolvers/alerts.resolver';
+import { ChainsResolver } from '@graphql/resolvers/chains.resolver';
+import { EndpointsResolver } from '@graphql/resolvers/endpoints.resolver';
+import { HistoryModule } from '@history/history.module';
+import { MonitoringModule } from '@monitoring/monitoring.module';
+import { RpcSelectorModule } from '@monitoring/rpc/rpc-selector.module';
+import { RpcModule } from '@monitoring/rpc/rpc.module';
+import { ApolloDriver, ApolloDriverConfig } from '@nestjs/apollo';
+import { Module } from '@nestjs/common';
+import { GraphQLModule } from '@nestjs/graphql';
+
+/**
+ * GraphQL API over the monitoring data, served next to the REST controllers
+ */
+@Module({
+  imports: [
+    GraphQLModule.forRootAsync<ApolloDriverConfig>({
+      driver: ApolloDriver,
+      useClass: GraphqlOptionsService,
+    }),
+    MonitoringModule,
+    RpcModule,
+    RpcSelectorModule,
+    AlertModule,
+    HistoryModule,
+  ],
+  providers: [ChainsResolver, EndpointsResolver, AlertsResolver],
+})
+export class GraphqlApiModule {}
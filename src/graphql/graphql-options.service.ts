@@ -0,0 +1,81 @@
+import { AuthService } from '@auth/auth.service';
+import { RateLimitService } from '@auth/rate-limit.service';
+import { FEATURE_FLAGS, HTTP } from '@common/constants/config';
+import { ConfigService } from '@config/config.service';
+import { ApolloDriverConfig } from '@nestjs/apollo';
+import { Injectable, Logger } from '@nestjs/common';
+import { GqlOptionsFactory } from '@nestjs/graphql';
+import { ApiPrincipal } from '@types';
+import { IncomingHttpHeaders, IncomingMessage } from 'http';
+
+/**
+ * Options of the GraphQL API
+ *
+ * The schema is generated from the resolvers at startup. Queries are served over HTTP and
+ * subscriptions over WebSocket with the graphql-transport-ws protocol on the same path. The
+ * playground and introspection follow the API documentation flag.
+ */
+@Injectable()
+export class GraphqlOptionsService implements GqlOptionsFactory<ApolloDriverConfig> {
+  private readonly logger = new Logger(GraphqlOptionsService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly authService: AuthService,
+    private readonly rateLimitService: RateLimitService,
+  ) {}
+
+  createGqlOptions(): ApolloDriverConfig {
+    const docsEnabled = this.configService.isFeatureEnabled(FEATURE_FLAGS.ENABLE_API_DOCS, true);
+
+    return {
+      path: HTTP.GRAPHQL.PATH,
+      autoSchemaFile: true,
+      sortSchema: true,
+      playground: docsEnabled,
+      introspection: docsEnabled,
+      // WebSocket operations get the upgrade request, which carries the principal authenticated on connect
+      context: ({ req, res, extra }) => ({ req: req || extra?.request, res }),
+      subscriptions: {
+        'graphql-ws': {
+          onConnect: ({ connectionParams, extra }) =>
+            this.authorizeConnection((extra as { request: IncomingMessage }).request, connectionParams),
+        },
+      },
+    };
+  }
+
+  /**
+   * Authenticate and rate limit a subscription connection like the guard does for HTTP requests
+   * Browsers cannot set WebSocket headers, so the credential may also come in the connection
+   * parameters as apiKey, x-api-key or Authorization.
+   */
+  private authorizeConnection(
+    request: IncomingMessage & { principal?: ApiPrincipal },
+    connectionParams: Record<string, unknown> = {},
+  ): boolean {
+    if (!this.authService.isEnabled()) return true;
+
+    try {
+      const params: IncomingHttpHeaders = Object.fromEntries(
+        Object.entries(connectionParams).map(([key, value]) => [key.toLowerCase(), String(value)]),
+      );
+      const { searchParams } = new URL(request.url, 'http://localhost');
+      const credential =
+        this.authService.getCredential(params, connectionParams) ||
+        this.authService.getCredential(request.headers, Object.fromEntries(searchParams));
+
+      const principal = this.authService.authenticate(credential);
+      if (!this.rateLimitService.consume(principal.id).allowed) {
+        this.logger.debug(`GraphQL subscription connection of ${principal.name} rejected: rate limit exceeded`);
+        return false;
+      }
+
+      request.principal = principal;
+      return true;
+    } catch (error) {
+      this.logger.debug(`GraphQL subscription connection rejected: ${error.message}`);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { HTTP } from '@common/constants/config';
+import { LiveUpdatesService } from '@live/live-updates.service';
+import { LiveEvent } from '@types';
+
+/**
+ * Async iterator feeding a GraphQL subscription from the live updates hub
+ *
+ * Every published event is passed to select, events it maps to null are skipped. The
+ * listener is only registered while the subscription is open so publishing stays a
+ * no-op without subscribers, and a slow client loses its oldest queued events.
+ */
+export function createLiveEventIterator<T>(
+  liveUpdates: LiveUpdatesService,
+  select: (event: LiveEvent) => T | null,
+): AsyncIterableIterator<T> {
+  const queue: T[] = [];
+  let pending: ((result: IteratorResult<T>) => void) | null = null;
+  let closed = false;
+
+  const unsubscribe = liveUpdates.subscribe(event => {
+    const value = select(event);
+    if (value === null) return;
+
+    if (pending) {
+      const resolve = pending;
+      pending = null;
+      resolve({ value, done: false });
+      return;
+    }
+
+    queue.push(value);
+    if (queue.length > HTTP.GRAPHQL.MAX_BUFFERED_EVENTS) queue.shift();
+  });
+
+  const close = (): Promise<IteratorResult<T>> => {
+    if (!closed) {
+      closed = true;
+      unsubscribe();
+      queue.length = 0;
+      pending?.({ value: undefined, done: true });
+      pending = null;
+    }
+    return Promise.resolve({ value: undefined, done: true });
+  };
+
+  return {
+    next: () => {
+      if (queue.length > 0) return Promise.resolve({ value: queue.shift(), done: false });
+      if (closed) return Promise.resolve({ value: undefined, done: true });
+      return new Promise(resolve => (pending = resolve));
+    },
+    return: close,
+    throw: error => close().then(() => Promise.reject(error)),
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
@@ -0,0 +1,148 @@
+import { Alert, AlertCategory, AlertSeverity } from '@common/utils/alert-manager';
+import { Field, Float, InputType, Int, ObjectType, registerEnumType } from '@nestjs/graphql';
+import { AlertIncident, AlertPage } from '@types';
+
+/**
+ * Lifecycle state alerts are filtered by, like the status parameter of GET /api/alerts
+ */
+export enum AlertStatus {
+  ACTIVE = 'active',
+  ACKNOWLEDGED = 'acknowledged',
+  RESOLVED = 'resolved',
+}
+
+registerEnumType(AlertSeverity, { name: 'AlertSeverity' });
+registerEnumType(AlertCategory, { name: 'AlertCategory' });
+registerEnumType(AlertStatus, { name: 'AlertStatus' });
+
+@ObjectType('Alert')
+export class AlertModel implements Omit<Alert, 'metadata'> {
+  @Field()
+  id: string;
+
+  @Field(() => AlertSeverity)
+  severity: AlertSeverity;
+
+  @Field(() => AlertCategory)
+  category: AlertCategory;
+
+  @Field()
+  component: string;
+
+  @Field({ nullable: true })
+  alertType?: string;
+
+  @Field()
+  title: string;
+
+  @Field()
+  message: string;
+
+  @Field(() => Float, { description: 'Epoch milliseconds' })
+  timestamp: number;
+
+  @Field(() => Int, { nullable: true })
+  chainId?: number;
+
+  @Field({ nullable: true })
+  shouldNotify?: boolean;
+
+  @Field(() => [String], { nullable: true })
+  notificationChannels?: string[];
+
+  @Field()
+  acknowledged: boolean;
+
+  @Field(() => Float, { nullable: true, description: 'Epoch milliseconds' })
+  acknowledgedAt?: number;
+
+  @Field({ nullable: true })
+  acknowledgedBy?: string;
+
+  @Field(() => Float, { nullable: true, description: 'Epoch milliseconds' })
+  resolvedAt?: number;
+
+  @Field({ nullable: true })
+  resolvedBy?: string;
+}
+
+@ObjectType('AlertPage')
+export class AlertPageModel implements AlertPage<AlertModel> {
+  @Field(() => [AlertModel])
+  items: AlertModel[];
+
+  @Field(() => Int)
+  total: number;
+
+  @Field(() => Int)
+  page: number;
+
+  @Field(() => Int)
+  pageSize: number;
+
+  @Field(() => Int)
+  totalPages: number;
+}
+
+@ObjectType('AlertIncident', { description: 'Open incident of a stateful alert condition' })
+export class AlertIncidentModel implements AlertIncident {
+  @Field()
+  key: string;
+
+  @Field({ nullable: true })
+  alertType?: string;
+
+  @Field()
+  component: string;
+
+  @Field(() => Int, { nullable: true })
+  chainId?: number;
+
+  @Field()
+  title: string;
+
+  @Field({ description: 'Whether any alert in the incident was sent as a notification' })
+  notified: boolean;
+
+  @Field({ nullable: true, description: 'Whether a critical alert was sent to the escalation channels' })
+  escalated?: boolean;
+
+  @Field(() => [String])
+  alertIds: string[];
+
+  @Field(() => Float, { description: 'Epoch milliseconds' })
+  startedAt: number;
+
+  @Field(() => Float, { description: 'Epoch milliseconds' })
+  lastAlertAt: number;
+}
+
+@InputType('AlertFilter', { description: 'Every field is optional, omitted fields match all alerts' })
+export class AlertFilterInput {
+  @Field(() => AlertSeverity, { nullable: true })
+  severity?: AlertSeverity;
+
+  @Field(() => AlertCategory, { nullable: true })
+  category?: AlertCategory;
+
+  @Field({ nullable: true })
+  component?: string;
+
+  @Field({ nullable: true, description: 'Alert type, e.g. rpc_endpoint_down' })
+  alertType?: string;
+
+  @Field(() => Int, { nullable: true })
+  chainId?: number;
+
+  @Field(() => AlertStatus, { nullable: true })
+  status?: AlertStatus;
+
+  @Field({ nullable: true, description: 'Text the title or message contains, e.g. an endpoint URL' })
+  text?: string;
+
+  @Field(() => Float, { nullable: true, description: 'Epoch milliseconds' })
+  since?: number;
+
+  @Field(() => Float, { nullable: true, description: 'Epoch milliseconds' })
+  until?: number;
+}
@@ -0,0 +1,119 @@
+import { Field, Float, Int, ObjectType } from '@nestjs/graphql';
+import { BackfillStatus, BlockTimeStats, RecentBlock } from '@types';
+
+@ObjectType('Block', { description: 'Summary of a processed block' })
+export class BlockModel implements RecentBlock {
+  @Field(() => Float)
+  number: number;
+
+  @Field()
+  hash: string;
+
+  @Field()
+  parentHash: string;
+
+  @Field(() => Float, { description: 'Epoch milliseconds' })
+  timestamp: number;
+
+  @Field()
+  miner: string;
+
+  @Field(() => Int)
+  transactionCount: number;
+
+  @Field(() => Int)
+  confirmedCount: number;
+
+  @Field(() => Int)
+  failedCount: number;
+}
+
+@ObjectType('BlockTimeStats', { description: 'Block times observed on a chain, in seconds' })
+export class BlockTimeStatsModel implements BlockTimeStats {
+  @Field(() => Float, { description: 'Target block time of the chain' })
+  target: number;
+
+  @Field(() => Int)
+  count: number;
+
+  @Field(() => Float)
+  average: number;
+
+  @Field(() => Float, { nullable: true })
+  min?: number;
+
+  @Field(() => Float, { nullable: true })
+  max?: number;
+
+  @Field(() => Float, { nullable: true })
+  latest?: number;
+}
+
+@ObjectType('BackfillStatus', { description: 'Progress of the block gap backfill' })
+export class BackfillStatusModel implements Omit<BackfillStatus, 'recentGaps'> {
+  @Field(() => Float, { nullable: true, description: 'Every block up to this height has been processed' })
+  lastProcessedHeight: number | null;
+
+  @Field(() => Float, { nullable: true })
+  latestHeight: number | null;
+
+  @Field(() => Int)
+  pending: number;
+
+  @Field(() => Int)
+  completed: number;
+
+  @Field(() => Int)
+  failed: number;
+
+  @Field(() => Int)
+  skipped: number;
+}
+
+@ObjectType('EndpointBlockHeight', { description: 'Latest block an RPC endpoint reported' })
+export class EndpointBlockHeightModel {
+  @Field()
+  url: string;
+
+  @Field(() => Float)
+  blockNumber: number;
+}
+
+@ObjectType('BlockMonitoring', { description: 'Block monitoring state of a chain' })
+export class BlockMonitoringModel {
+  @Field()
+  enabled: boolean;
+
+  @Field({ nullable: true })
+  primaryEndpoint?: string;
+
+  @Field(() => Float, { nullable: true, description: 'Highest block number across the RPC endpoints' })
+  latestBlock: number | null;
+
+  @Field(() => Float, { nullable: true, description: 'Spread between the highest and lowest endpoint heights' })
+  blockHeightVariance: number | null;
+
+  @Field(() => BlockTimeStatsModel, { nullable: true })
+  blockTimeStats?: BlockTimeStatsModel;
+
+  @Field(() => BackfillStatusModel, { nullable: true })
+  backfill?: BackfillStatusModel;
+
+  @Field(() => [EndpointBlockHeightModel])
+  endpointHeights: EndpointBlockHeightModel[];
+
+  @Field(() => [BlockModel], { description: 'Newest first' })
+  recentBlocks: BlockModel[];
+}
+
+@ObjectType('NewBlock', { description: 'Block streamed to subscribers as the monitor processes it' })
+export class NewBlockModel {
+  @Field(() => Int)
+  chainId: number;
+
+  @Field({ description: 'Whether the block was filled in by the gap backfill, these are coalesced' })
+  backfilled: boolean;
+
+  @Field(() => BlockModel)
+  block: BlockModel;
+}
@@ -0,0 +1,26 @@
+import { Field, Float, Int, ObjectType } from '@nestjs/graphql';
+import { ChainType } from '@types';
+
+@ObjectType('Chain', { description: 'Network from the chain registry' })
+export class ChainModel {
+  @Field(() => Int)
+  chainId: number;
+
+  @Field({ description: 'Identifier used as key in status payloads, e.g. mainnet' })
+  key: string;
+
+  @Field()
+  name: string;
+
+  @Field(() => String, { description: 'mainnet, testnet, devnet or subnet' })
+  type: ChainType;
+
+  @Field(() => Int, { description: 'Blocks per epoch' })
+  epochLength: number;
+
+  @Field(() => Float, { description: 'Target time between blocks in seconds' })
+  blockTimeSeconds: number;
+
+  @Field(() => Int, { nullable: true, description: 'Subnets only: chain the subnet checkpoints to' })
+  parentChainId?: number;
+}
@@ -0,0 +1,74 @@
+import { Field, Float, GraphQLISODateTime, Int, ObjectType } from '@nestjs/graphql';
+import { ConsensusViolation, MinerPerformance } from '@types';
+
+@ObjectType('MinerPerformance', { description: 'Blocks mined and missed by a masternode' })
+export class MinerPerformanceModel implements MinerPerformance {
+  @Field()
+  address: string;
+
+  @Field(() => Int)
+  totalBlocksMined: number;
+
+  @Field(() => Int)
+  missedBlocks: number;
+
+  @Field(() => Float, { nullable: true })
+  lastActiveBlock?: number;
+
+  @Field(() => GraphQLISODateTime, { nullable: true })
+  lastActive?: Date;
+}
+
+@ObjectType('ConsensusViolation', { description: 'Round where the expected miner did not produce the block' })
+export class ConsensusViolationModel implements ConsensusViolation {
+  @Field(() => Float)
+  blockNumber: number;
+
+  @Field(() => Float)
+  round: number;
+
+  @Field()
+  expectedMiner: string;
+
+  @Field()
+  actualMiner: string;
+
+  @Field(() => String, { description: 'wrong_miner or timeout' })
+  violationType: 'wrong_miner' | 'timeout';
+
+  @Field(() => GraphQLISODateTime)
+  timestamp: Date;
+
+  @Field(() => Float, { nullable: true, description: 'Seconds, timeout violations only' })
+  timeDifference?: number;
+
+  @Field(() => Int, { nullable: true, description: 'Estimated number of consecutive miners that missed their turn' })
+  estimatedMissedMiners?: number;
+}
+
+@ObjectType('Consensus', { description: 'Consensus monitoring state of a chain' })
+export class ConsensusModel {
+  @Field(() => Float)
+  lastCheckedBlock: number;
+
+  @Field(() => Float)
+  currentEpoch: number;
+
+  @Field(() => Float, { nullable: true, description: 'Block where the current epoch started' })
+  currentEpochBlock?: number;
+
+  @Field(() => Int)
+  masternodeCount: number;
+
+  @Field(() => Int)
+  standbyNodeCount: number;
+
+  @Field(() => Int)
+  penaltyNodeCount: number;
+
+  @Field(() => [ConsensusViolationModel])
+  recentViolations: ConsensusViolationModel[];
+
+  @Field(() => [MinerPerformanceModel])
+  miners: MinerPerformanceModel[];
+}
@@ -0,0 +1,84 @@
+import { ENDPOINT_URL_PROTOCOLS } from '@common/constants/endpoints';
+import { Field, Float, Int, ObjectType, registerEnumType } from '@nestjs/graphql';
+import { EndpointKind, PeerCountBaseline } from '@types';
+
+// Endpoint kinds as a GraphQL enum, e.g. RPC for rpc
+export const EndpointKindEnum = Object.fromEntries(
+  Object.keys(ENDPOINT_URL_PROTOCOLS).map(kind => [kind.toUpperCase(), kind]),
+) as Record<string, EndpointKind>;
+
+registerEnumType(EndpointKindEnum, { name: 'EndpointKind' });
+
+@ObjectType('Endpoint', { description: 'Endpoint from the endpoint registry' })
+export class EndpointModel {
+  @Field({ description: 'Stable identifier derived from the URL' })
+  id: string;
+
+  @Field(() => Int)
+  chainId: number;
+
+  @Field()
+  name: string;
+
+  @Field()
+  url: string;
+
+  @Field(() => EndpointKindEnum)
+  kind: EndpointKind;
+
+  @Field(() => String, { description: 'rpc, erpc or websocket' })
+  type: 'rpc' | 'erpc' | 'websocket';
+
+  @Field(() => String, { description: 'builtin or api' })
+  source: 'builtin' | 'api';
+}
+
+@ObjectType('EndpointHealth', { description: 'RPC selection health of an RPC endpoint' })
+export class EndpointHealthModel {
+  @Field()
+  isUp: boolean;
+
+  @Field(() => Float, { description: 'Milliseconds' })
+  latency: number;
+
+  @Field(() => Float, { description: 'Epoch milliseconds' })
+  lastChecked: number;
+
+  @Field(() => Float, { description: 'Decaying share of successful checks, 0 to 1' })
+  successRate: number;
+
+  @Field(() => Int)
+  failureCount: number;
+
+  @Field(() => Int, { description: 'Quality tier, 3 is best and 0 not evaluated yet' })
+  tier: number;
+
+  @Field()
+  syncedWithNetwork: boolean;
+
+  @Field(() => Int, { description: 'Sync lag behind the highest block seen on the chain' })
+  blocksBehind: number;
+
+  @Field({ description: 'Whether the endpoint is the primary RPC of its chain' })
+  isPrimary: boolean;
+}
+
+@ObjectType('PeerCount', { description: 'Peer count of an endpoint and its adaptive baseline' })
+export class PeerCountModel
+  implements Pick<PeerCountBaseline, 'baselinePeerCount' | 'highestPeerCount' | 'sampleCount' | 'lastUpdated'>
+{
+  @Field(() => Int, { description: 'Latest peer count reading' })
+  current: number;
+
+  @Field(() => Float)
+  baselinePeerCount: number;
+
+  @Field(() => Int)
+  highestPeerCount: number;
+
+  @Field(() => Int)
+  sampleCount: number;
+
+  @Field(() => Float, { description: 'Epoch milliseconds of the latest reading' })
+  lastUpdated: number;
+}
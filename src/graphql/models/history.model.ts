@@ -0,0 +1,14 @@
+import { Field, Float, Int, ObjectType } from '@nestjs/graphql';
+import { HistoryPoint } from '@types';
+
+@ObjectType('HistoryPoint', { description: 'Time bucket of a history series' })
+export class HistoryPointModel implements HistoryPoint {
+  @Field({ description: 'Bucket start as an ISO date' })
+  time: string;
+
+  @Field(() => Float, { nullable: true, description: 'Null when the bucket has no samples' })
+  value: number | null;
+
+  @Field(() => Int)
+  samples: number;
+}
@@ -0,0 +1,38 @@
+import { Field, Float, Int, ObjectType } from '@nestjs/graphql';
+import { TransactionTestResult } from '@types';
+
+@ObjectType('TransactionTestResult', { description: 'Outcome of one kind of transaction test across RPC endpoints' })
+export class TransactionTestResultModel implements TransactionTestResult {
+  @Field(() => Int)
+  success: number;
+
+  @Field(() => Int)
+  failure: number;
+
+  @Field(() => Int)
+  total: number;
+
+  @Field(() => [String])
+  failedEndpoints: string[];
+}
+
+@ObjectType('TransactionTests', { description: 'Test wallet and latest transaction test run of a chain' })
+export class TransactionTestsModel {
+  @Field({ nullable: true })
+  walletAddress?: string;
+
+  @Field()
+  walletHasBalance: boolean;
+
+  @Field(() => Float, { nullable: true, description: 'Epoch milliseconds of the latest run, null before the first' })
+  testedAt: number | null;
+
+  @Field(() => TransactionTestResultModel, { nullable: true })
+  normalTransaction: TransactionTestResultModel | null;
+
+  @Field(() => TransactionTestResultModel, { nullable: true })
+  contractDeployment: TransactionTestResultModel | null;
+
+  @Field(() => [String], { description: 'Endpoints excluded from transaction testing' })
+  disabledEndpoints: string[];
+}
@@ -0,0 +1,86 @@
+import { AlertService } from '@alerts/alert.service';
+import { ALERTS } from '@common/constants/config';
+import { Alert, AlertSeverity } from '@common/utils/alert-manager';
+import { createLiveEventIterator } from '@graphql/live-event-iterator';
+import {
+  AlertFilterInput,
+  AlertIncidentModel,
+  AlertModel,
+  AlertPageModel,
+  AlertStatus,
+} from '@graphql/models/alert.model';
+import { LiveUpdatesService } from '@live/live-updates.service';
+import { BadRequestException } from '@nestjs/common';
+import { Args, Int, Parent, Query, ResolveField, Resolver, Subscription } from '@nestjs/graphql';
+import { AlertFilterOptions, AlertIncident, AlertPage } from '@types';
+
+/**
+ * GraphQL queries over alerts and open incidents, and a subscription to new alerts
+ */
+@Resolver(() => AlertModel)
+export class AlertsResolver {
+  constructor(
+    private readonly alertService: AlertService,
+    private readonly liveUpdates: LiveUpdatesService,
+  ) {}
+
+  @Query(() => AlertPageModel, { description: 'Alerts newest first, like GET /api/alerts' })
+  alerts(
+    @Args('filter', { type: () => AlertFilterInput, nullable: true }) filter?: AlertFilterInput,
+    @Args('page', { type: () => Int, defaultValue: 1 }) page?: number,
+    @Args('pageSize', { type: () => Int, defaultValue: ALERTS.LIFECYCLE.DEFAULT_PAGE_SIZE }) pageSize?: number,
+  ): AlertPage<Alert> {
+    const { status, ...options } = filter || {};
+    return this.alertService.listAlerts({ ...options, ...this.getStatusFilter(status) }, page, pageSize);
+  }
+
+  @Query(() => AlertModel, { nullable: true })
+  alert(@Args('id') id: string): Alert | null {
+    return this.alertService.getAlert(id) || null;
+  }
+
+  @Query(() => [AlertIncidentModel], { description: 'Open incidents, every chain when omitted' })
+  incidents(@Args('chainId', { type: () => Int, nullable: true }) chainId?: number): AlertIncident[] {
+    const incidents = this.alertService.getOpenIncidents();
+    return typeof chainId === 'number' ? incidents.filter(incident => incident.chainId === chainId) : incidents;
+  }
+
+  @ResolveField(() => String, { nullable: true, description: 'Alert metadata as a JSON string' })
+  metadata(@Parent() alert: Alert): string | null {
+    return alert.metadata ? JSON.stringify(alert.metadata) : null;
+  }
+
+  @Subscription(() => AlertModel, {
+    description: 'Alerts as they are raised, needs live updates to be enabled',
+    resolve: (alert: Alert) => alert,
+  })
+  alertCreated(
+    @Args('chainId', { type: () => Int, nullable: true }) chainId?: number,
+    @Args('severity', { type: () => AlertSeverity, nullable: true }) severity?: AlertSeverity,
+  ): AsyncIterableIterator<Alert> {
+    if (!this.liveUpdates.isEnabled()) {
+      throw new BadRequestException('Live updates are disabled');
+    }
+
+    return createLiveEventIterator(this.liveUpdates, event => {
+      if (event.topic !== 'alerts' || event.type !== 'created') return null;
+      if (typeof chainId === 'number' && event.chainId !== chainId) return null;
+
+      const alert = this.alertService.getAlert(String(event.data.id));
+      return alert && (!severity || alert.severity === severity) ? alert : null;
+    });
+  }
+
+  private getStatusFilter(status?: AlertStatus): Partial<AlertFilterOptions> {
+    switch (status) {
+      case AlertStatus.ACTIVE:
+        return { unacknowledgedOnly: true, unresolvedOnly: true };
+      case AlertStatus.ACKNOWLEDGED:
+        return { acknowledgedOnly: true, unresolvedOnly: true };
+      case AlertStatus.RESOLVED:
+        return { resolvedOnly: true };
+      default:
+        return {};
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { AlertService } from '@alerts/alert.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { HTTP } from '@common/constants/config';
+import { Alert } from '@common/utils/alert-manager';
+import { EndpointRegistryService } from '@endpoints/endpoint-registry.service';
+import { createLiveEventIterator } from '@graphql/live-event-iterator';
+import { AlertIncidentModel, AlertModel } from '@graphql/models/alert.model';
+import { BlockMonitoringModel, NewBlockModel } from '@graphql/models/block.model';
+import { ChainModel } from '@graphql/models/chain.model';
+import { ConsensusModel } from '@graphql/models/consensus.model';
+import { EndpointKindEnum, EndpointModel } from '@graphql/models/endpoint.model';
+import { TransactionTestsModel } from '@graphql/models/transaction.model';
+import { LiveUpdatesService } from '@live/live-updates.service';
+import { BlocksMonitorService } from '@monitoring/blocks/blocks.monitor';
+import { MinerMonitor } from '@monitoring/consensus/miner/miner.monitor';
+import { RpcSelectorService } from '@monitoring/rpc/rpc-selector.service';
+import { TransactionMonitorService } from '@monitoring/transaction/transaction.monitor';
+import { BadRequestException } from '@nestjs/common';
+import { Args, Int, Parent, Query, ResolveField, Resolver, Subscription } from '@nestjs/graphql';
+import {
+  AlertIncident,
+  ChainDefinition,
+  ConsensusMonitoringInfo,
+  EndpointKind,
+  RecentBlock,
+  RegisteredEndpoint,
+} from '@types';
+
+/**
+ * GraphQL queries over the monitored chains and a subscription to new blocks
+ *
+ * Block monitoring, consensus, transaction tests and alerts of a chain are resolved from
+ * the same services as the REST monitoring routes, only when the query selects them.
+ */
+@Resolver(() => ChainModel)
+export class ChainsResolver {
+  constructor(
+    private readonly chainRegistry: ChainRegistryService,
+    private readonly endpointRegistry: EndpointRegistryService,
+    private readonly rpcSelectorService: RpcSelectorService,
+    private readonly blocksMonitorService: BlocksMonitorService,
+    private readonly minerMonitor: MinerMonitor,
+    private readonly transactionMonitorService: TransactionMonitorService,
+    private readonly alertService: AlertService,
+    private readonly liveUpdates: LiveUpdatesService,
+  ) {}
+
+  @Query(() => [ChainModel])
+  chains(): ChainDefinition[] {
+    return this.chainRegistry.getChains();
+  }
+
+  @Query(() => ChainModel, { nullable: true })
+  chain(@Args('chainId', { type: () => Int }) chainId: number): ChainDefinition | null {
+    return this.chainRegistry.getChain(chainId);
+  }
+
+  @ResolveField(() => String, { nullable: true, description: 'RPC endpoint currently selected as primary' })
+  primaryRpc(@Parent() chain: ChainDefinition): string | null {
+    return this.rpcSelectorService.getPrimaryRpcUrl(chain.chainId) || null;
+  }
+
+  @ResolveField(() => [EndpointModel])
+  endpoints(
+    @Parent() chain: ChainDefinition,
+    @Args('kind', { type: () => EndpointKindEnum, nullable: true }) kind?: EndpointKind,
+  ): RegisteredEndpoint[] {
+    return this.endpointRegistry.getEndpoints({ chainId: chain.chainId, kind: kind ?? undefined });
+  }
+
+  @ResolveField(() => BlockMonitoringModel)
+  blocks(@Parent() chain: ChainDefinition): BlockMonitoringModel {
+    const info = this.blocksMonitorService.getBlockMonitoringInfo();
+    const rpcBlocks = info.monitoredEndpoints[chain.key]?.rpcBlocks || {};
+    const heights = Object.values(rpcBlocks);
+
+    return {
+      enabled: info.enabled,
+      primaryEndpoint: info.primaryEndpoint[chain.key],
+      latestBlock: heights.length > 0 ? Math.max(...heights) : null,
+      blockHeightVariance: info.blockHeightVariance[chain.key] ?? null,
+      blockTimeStats: info.blockTimeStats[chain.key],
+      backfill: info.backfill[chain.key],
+      endpointHeights: Object.entries(rpcBlocks).map(([url, blockNumber]) => ({ url, blockNumber })),
+      recentBlocks: info.recentBlocks[chain.key] || [],
+    };
+  }
+
+  @ResolveField(() => ConsensusModel, { nullable: true, description: 'Null when consensus monitoring skips the chain' })
+  consensus(@Parent() chain: ChainDefinition): ConsensusModel | null {
+    const info = (this.minerMonitor.getMinerMonitoringInfo() as Record<number, ConsensusMonitoringInfo>)[chain.chainId];
+    if (!info) return null;
+
+    const { minerPerformance, ...consensus } = info;
+    return { ...consensus, miners: Object.values(minerPerformance) };
+  }
+
+  @ResolveField(() => TransactionTestsModel)
+  transactions(@Parent() chain: ChainDefinition): TransactionTestsModel {
+    const wallet = this.transactionMonitorService.getTestWalletStatus()[chain.key];
+    const results = this.transactionMonitorService.getLatestTestResults(chain.chainId);
+
+    return {
+      walletAddress: wallet?.address,
+      walletHasBalance: wallet?.hasBalance || false,
+      testedAt: results?.testedAt ?? null,
+      normalTransaction: results?.normalTransaction ?? null,
+      contractDeployment: results?.contractDeployment ?? null,
+      disabledEndpoints: this.transactionMonitorService.getDisabledEndpoints(),
+    };
+  }
+
+  @ResolveField(() => [AlertModel], { description: 'Newest alerts of the chain' })
+  alerts(
+    @Parent() chain: ChainDefinition,
+    @Args('limit', { type: () => Int, defaultValue: HTTP.GRAPHQL.DEFAULT_ALERT_LIMIT }) limit: number,
+  ): Alert[] {
+    return this.alertService.listAlerts({ chainId: chain.chainId }, 1, limit).items;
+  }
+
+  @ResolveField(() => [AlertIncidentModel], { description: 'Open incidents of the chain' })
+  incidents(@Parent() chain: ChainDefinition): AlertIncident[] {
+    return this.alertService.getOpenIncidents().filter(incident => incident.chainId === chain.chainId);
+  }
+
+  @Subscription(() => NewBlockModel, {
+    description: 'Blocks as the monitor processes them, needs live updates to be enabled',
+    resolve: (block: NewBlockModel) => block,
+  })
+  newBlock(
+    @Args('chainId', { type: () => Int, nullable: true }) chainId?: number,
+  ): AsyncIterableIterator<NewBlockModel> {
+    if (!this.liveUpdates.isEnabled()) {
+      throw new BadRequestException('Live updates are disabled');
+    }
+
+    return createLiveEventIterator(this.liveUpdates, event => {
+      if (event.topic !== 'blocks' || event.type !== 'new-block') return null;
+      if (typeof chainId === 'number' && event.chainId !== chainId) return null;
+
+      const { backfilled, ...block } = event.data as unknown as RecentBlock & { backfilled: boolean };
+      return { chainId: event.chainId, backfilled, block };
+    });
+  }
+}
@@ -0,0 +1,166 @@
+import { AlertService } from '@alerts/alert.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { HISTORY, HTTP } from '@common/constants/config';
+import { EndpointRegistryService } from '@endpoints/endpoint-registry.service';
+import { AlertModel } from '@graphql/models/alert.model';
+import { ChainModel } from '@graphql/models/chain.model';
+import { EndpointHealthModel, EndpointKindEnum, EndpointModel, PeerCountModel } from '@graphql/models/endpoint.model';
+import { HistoryPointModel } from '@graphql/models/history.model';
+import { HistoryService } from '@history/history.service';
+import { PeerCountMonitor } from '@monitoring/rpc/peer-count.monitor';
+import { RpcMonitorService } from '@monitoring/rpc/rpc.monitor';
+import { RpcSelectorService } from '@monitoring/rpc/rpc-selector.service';
+import { BadRequestException } from '@nestjs/common';
+import { Args, Float, Int, Parent, Query, ResolveField, Resolver } from '@nestjs/graphql';
+import { ChainDefinition, EndpointKind, HistoryMetric, HistoryPoint, RegisteredEndpoint } from '@types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * GraphQL queries over the endpoint registry
+ *
+ * Health, peer count, history and related alerts of an endpoint are only looked up
+ * when the query selects them, history fields cost one metrics query each.
+ */
+@Resolver(() => EndpointModel)
+export class EndpointsResolver {
+  constructor(
+    private readonly endpointRegistry: EndpointRegistryService,
+    private readonly chainRegistry: ChainRegistryService,
+    private readonly rpcMonitorService: RpcMonitorService,
+    private readonly rpcSelectorService: RpcSelectorService,
+    private readonly peerCountMonitor: PeerCountMonitor,
+    private readonly historyService: HistoryService,
+    private readonly alertService: AlertService,
+  ) {}
+
+  @Query(() => [EndpointModel], { description: 'Registered endpoints, every chain and kind when omitted' })
+  endpoints(
+    @Args('chainId', { type: () => Int, nullable: true }) chainId?: number,
+    @Args('kind', { type: () => EndpointKindEnum, nullable: true }) kind?: EndpointKind,
+  ): RegisteredEndpoint[] {
+    return this.endpointRegistry.getEndpoints({ chainId: chainId ?? undefined, kind: kind ?? undefined });
+  }
+
+  @Query(() => EndpointModel, { nullable: true })
+  endpoint(@Args('id') id: string): RegisteredEndpoint | null {
+    return this.endpointRegistry.getEndpoint(id);
+  }
+
+  @ResolveField(() => ChainModel, { nullable: true })
+  chain(@Parent() endpoint: RegisteredEndpoint): ChainDefinition | null {
+    return this.chainRegistry.getChain(endpoint.chainId);
+  }
+
+  @ResolveField(() => String, { description: 'up, down or unknown' })
+  status(@Parent() endpoint: RegisteredEndpoint): string {
+    const status =
+      endpoint.kind === 'rpc'
+        ? this.getRpcStatus(endpoint)?.status
+        : endpoint.kind === 'websocket'
+          ? this.rpcMonitorService.getAllWsStatuses().find(ws => ws.url === endpoint.url)?.status
+          : {
+              ...this.rpcMonitorService.getAllExplorerStatuses(),
+              ...this.rpcMonitorService.getAllFaucetStatuses(),
+            }[endpoint.url];
+
+    return status === 'up' || status === 'down' ? status : 'unknown';
+  }
+
+  @ResolveField(() => Float, { nullable: true, description: 'Last measured latency in milliseconds, RPC only' })
+  latency(@Parent() endpoint: RegisteredEndpoint): number | null {
+    const rpcStatus = this.getRpcStatus(endpoint);
+    return rpcStatus?.status === 'up' ? rpcStatus.latency : null;
+  }
+
+  @ResolveField(() => EndpointHealthModel, { nullable: true, description: 'RPC only, includes the sync lag' })
+  health(@Parent() endpoint: RegisteredEndpoint): EndpointHealthModel | null {
+    if (endpoint.kind !== 'rpc') return null;
+
+    const health = this.rpcSelectorService
+      .getEndpointHealthForChain(endpoint.chainId)
+      .find(candidate => candidate.url === endpoint.url);
+
+    return health
+      ? { ...health, isPrimary: this.rpcSelectorService.getPrimaryRpcUrl(endpoint.chainId) === endpoint.url }
+      : null;
+  }
+
+  @ResolveField(() => PeerCountModel, { nullable: true, description: 'Null until the peer count has been sampled' })
+  peerCount(@Parent() endpoint: RegisteredEndpoint): PeerCountModel | null {
+    const baseline = this.peerCountMonitor.getBaseline(endpoint.url);
+    if (!baseline) return null;
+
+    return {
+      current: baseline.previousPeerCount,
+      baselinePeerCount: baseline.baselinePeerCount,
+      highestPeerCount: baseline.highestPeerCount,
+      sampleCount: baseline.sampleCount,
+      lastUpdated: baseline.lastUpdated,
+    };
+  }
+
+  @ResolveField(() => [HistoryPointModel], { description: 'Latency in milliseconds, RPC only' })
+  latencyHistory(
+    @Parent() endpoint: RegisteredEndpoint,
+    @Args('hours', { type: () => Int, defaultValue: HTTP.GRAPHQL.DEFAULT_HISTORY_HOURS }) hours: number,
+  ): Promise<HistoryPoint[]> {
+    return this.getHistory('latency', endpoint, hours);
+  }
+
+  @ResolveField(() => [HistoryPointModel], { description: 'Uptime percentage' })
+  uptimeHistory(
+    @Parent() endpoint: RegisteredEndpoint,
+    @Args('hours', { type: () => Int, defaultValue: HTTP.GRAPHQL.DEFAULT_HISTORY_HOURS }) hours: number,
+  ): Promise<HistoryPoint[]> {
+    return this.getHistory('uptime', endpoint, hours, endpoint.kind);
+  }
+
+  @ResolveField(() => [HistoryPointModel], { description: 'Peer count, RPC and WebSocket only' })
+  peerCountHistory(
+    @Parent() endpoint: RegisteredEndpoint,
+    @Args('hours', { type: () => Int, defaultValue: HTTP.GRAPHQL.DEFAULT_HISTORY_HOURS }) hours: number,
+  ): Promise<HistoryPoint[]> {
+    return this.getHistory('peer-count', endpoint, hours, endpoint.kind);
+  }
+
+  @ResolveField(() => [AlertModel], { description: 'Newest alerts of the chain that mention the endpoint URL' })
+  alerts(
+    @Parent() endpoint: RegisteredEndpoint,
+    @Args('limit', { type: () => Int, defaultValue: HTTP.GRAPHQL.DEFAULT_ALERT_LIMIT }) limit: number,
+  ): AlertModel[] {
+    return this.alertService.listAlerts({ chainId: endpoint.chainId, text: endpoint.url }, 1, limit).items;
+  }
+
+  private getRpcStatus(endpoint: RegisteredEndpoint) {
+    if (endpoint.kind !== 'rpc') return undefined;
+    return this.rpcMonitorService.getAllRpcStatuses().find(rpc => rpc.url === endpoint.url);
+  }
+
+  /**
+   * Series of one endpoint over the last hours, bucketed like the history API does by default
+   */
+  private async getHistory(
+    metric: HistoryMetric,
+    endpoint: RegisteredEndpoint,
+    hours: number,
+    endpointType?: string,
+  ): Promise<HistoryPoint[]> {
+    const rangeMs = hours * HOUR_MS;
+    if (hours < 1 || rangeMs > HISTORY.MAX_RANGE_MS) {
+      throw new BadRequestException(`hours must be between 1 and ${HISTORY.MAX_RANGE_MS / HOUR_MS}`);
+    }
+
+    const end = new Date();
+    const result = await this.historyService.getHistory(metric, {
+      chainId: endpoint.chainId,
+      start: new Date(end.getTime() - rangeMs),
+      end,
+      intervalMs: this.historyService.getDefaultInterval(rangeMs),
+      endpoint: endpoint.url,
+      endpointType,
+    });
+
+    return result.series.find(series => series.labels.endpoint === endpoint.url)?.points || [];
+  }
+}
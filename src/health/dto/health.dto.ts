@@ -0,0 +1,28 @@
+import { ApiRecordProperty } from '@common/dto/api-record-property';
+import { HealthStatus } from '@health/health.service';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ServiceHealthDto {
+  @ApiProperty({ enum: ['ok', 'error', 'warning'] })
+  status: 'ok' | 'error' | 'warning';
+
+  @ApiPropertyOptional({ type: 'object', additionalProperties: true })
+  details?: any;
+}
+
+export class HealthStatusDto implements HealthStatus {
+  @ApiProperty({ enum: ['ok', 'error'] })
+  status: 'ok' | 'error';
+
+  @ApiProperty({ description: 'Seconds since application start' })
+  uptime: number;
+
+  @ApiProperty({ format: 'date-time' })
+  timestamp: string;
+
+  @ApiProperty({ example: 'production' })
+  environment: string;
+
+  @ApiRecordProperty(ServiceHealthDto, { required: false })
+  services?: Record<string, ServiceHealthDto>;
+}
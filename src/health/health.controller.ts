@@ -1,7 +1,12 @@
+import { Public } from '@auth/auth.decorators';
 import { Controller, Get } from '@nestjs/common';
+import { ApiOkResponse, ApiTags } from '@nestjs/swagger';
+import { HealthStatusDto } from '@health/dto/health.dto';
 import { HealthService, HealthStatus } from '@health/health.service';
 
 @Controller('health')
+@Public()
+@ApiTags('Health')
 export class HealthController {
   constructor(private readonly healthService: HealthService) {}
 
@@ -18,6 +23,7 @@ export class HealthController {
    * - environment: current NODE_ENV
    */
   @Get()
+  @ApiOkResponse({ type: HealthStatusDto })
   getHealth(): HealthStatus {
     return this.healthService.getHealth();
   }
@@ -0,0 +1,63 @@
+import { ApiRecordProperty } from '@common/dto/api-record-property';
+import { HISTORY } from '@common/constants/config';
+import { ApiProperty } from '@nestjs/swagger';
+import { HistoryAggregation, HistoryMetric, HistoryPoint, HistoryResult, HistorySeries } from '@types';
+
+export class HistoryPointDto implements HistoryPoint {
+  @ApiProperty({ format: 'date-time', description: 'Bucket start' })
+  time: string;
+
+  @ApiProperty({ type: Number, nullable: true, description: 'Null when the bucket has no samples' })
+  value: number | null;
+
+  @ApiProperty()
+  samples: number;
+}
+
+export class HistorySeriesDto implements HistorySeries {
+  @ApiRecordProperty('string', { description: 'Series labels, e.g. the endpoint URL' })
+  labels: Record<string, string>;
+
+  @ApiProperty({ type: [HistoryPointDto] })
+  points: HistoryPointDto[];
+}
+
+export class HistoryResultDto implements HistoryResult {
+  @ApiProperty({ enum: HISTORY.METRICS })
+  metric: HistoryMetric;
+
+  @ApiProperty()
+  chainId: number;
+
+  @ApiProperty({ example: 's' })
+  unit: string;
+
+  @ApiProperty({ enum: HISTORY.AGGREGATIONS })
+  aggregation: HistoryAggregation;
+
+  @ApiProperty({ format: 'date-time' })
+  start: string;
+
+  @ApiProperty({ format: 'date-time' })
+  end: string;
+
+  @ApiProperty()
+  intervalMs: number;
+
+  @ApiProperty({ type: [HistorySeriesDto] })
+  series: HistorySeriesDto[];
+}
+
+export class HistoryMetricsDto {
+  @ApiProperty({ type: [String] })
+  metrics: string[];
+
+  @ApiProperty({ type: [String] })
+  aggregations: string[];
+
+  @ApiProperty()
+  maxRangeMs: number;
+
+  @ApiProperty()
+  maxBuckets: number;
+}
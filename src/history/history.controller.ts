@@ -0,0 +1,165 @@
+import { HISTORY } from '@common/constants/config';
+import { MAINNET_CHAIN_ID } from '@common/constants/endpoints';
+import { ErrorResponseDto } from '@common/dto/common.dto';
+import { parseOptionalInt, parseTimestamp } from '@common/utils/query-params';
+import { ApiAuth } from '@docs/api-docs.decorators';
+import { HistoryMetricsDto, HistoryResultDto } from '@history/dto/history.dto';
+import { HistoryService } from '@history/history.service';
+import { BadRequestException, Controller, Get, NotFoundException, Param, Query, Res } from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiExtraModels,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiParam,
+  ApiQuery,
+  ApiTags,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import { HistoryAggregation, HistoryMetric, HistoryQueryOptions, HistoryResult } from '@types';
+import { Response } from 'express';
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Historical query API: time-bucketed series read from the metrics backend, as JSON or CSV
+ */
+@Controller('history')
+@ApiTags('History')
+@ApiAuth()
+@ApiExtraModels(HistoryResultDto)
+export class HistoryController {
+  constructor(private readonly historyService: HistoryService) {}
+
+  @Get()
+  @ApiOkResponse({ type: HistoryMetricsDto })
+  listMetrics(): HistoryMetricsDto {
+    return {
+      metrics: HISTORY.METRICS,
+      aggregations: HISTORY.AGGREGATIONS,
+      maxRangeMs: HISTORY.MAX_RANGE_MS,
+      maxBuckets: HISTORY.MAX_BUCKETS,
+    };
+  }
+
+  /**
+   * GET /api/history/:metric?chainId=50&range=7d&interval=1h&aggregation=mean&format=csv
+   */
+  @Get(':metric')
+  @ApiParam({ name: 'metric', enum: HISTORY.METRICS })
+  @ApiQuery({ name: 'chainId', required: false, type: Number, description: 'Defaults to mainnet (50)' })
+  @ApiQuery({ name: 'from', required: false, description: 'Epoch milliseconds or an ISO date' })
+  @ApiQuery({ name: 'to', required: false, description: 'Epoch milliseconds or an ISO date, defaults to now' })
+  @ApiQuery({ name: 'range', required: false, description: 'Duration before to when from is not set, e.g. 7d' })
+  @ApiQuery({ name: 'interval', required: false, description: 'Bucket size, e.g. 15m or 1h' })
+  @ApiQuery({ name: 'aggregation', required: false, enum: HISTORY.AGGREGATIONS })
+  @ApiQuery({ name: 'endpoint', required: false, description: 'Endpoint URL, per-endpoint metrics only' })
+  @ApiQuery({ name: 'type', required: false, enum: HISTORY.UPTIME_ENDPOINT_TYPES, description: 'Endpoint type' })
+  @ApiQuery({ name: 'format', required: false, enum: ['json', 'csv'] })
+  @ApiOkResponse({
+    content: {
+      'application/json': { schema: { $ref: getSchemaPath(HistoryResultDto) } },
+      'text/csv': { schema: { type: 'string' } },
+    },
+  })
+  @ApiBadRequestResponse({ type: ErrorResponseDto })
+  @ApiNotFoundResponse({ description: 'Unknown metric', type: ErrorResponseDto })
+  async getHistory(
+    @Res({ passthrough: true }) res: Response,
+    @Param('metric') metric: string,
+    @Query('chainId') chainIdStr?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('range') range?: string,
+    @Query('interval') interval?: string,
+    @Query('aggregation') aggregation?: string,
+    @Query('endpoint') endpoint?: string,
+    @Query('type') endpointType?: string,
+    @Query('format') format: string = 'json',
+  ): Promise<HistoryResult | string> {
+    if (!HISTORY.METRICS.includes(metric)) {
+      throw new NotFoundException(`Unknown history metric. Available: ${HISTORY.METRICS.join(', ')}`);
+    }
+    if (aggregation && !HISTORY.AGGREGATIONS.includes(aggregation)) {
+      throw new BadRequestException(`Invalid aggregation. Available: ${HISTORY.AGGREGATIONS.join(', ')}`);
+    }
+    if (format !== 'json' && format !== 'csv') {
+      throw new BadRequestException('Invalid format. Available: json, csv');
+    }
+    this.validateEndpointType(metric, endpointType);
+
+    const chainId = parseOptionalInt(chainIdStr, 'chainId') ?? MAINNET_CHAIN_ID;
+
+    const end = parseTimestamp(to, 'to') ?? Date.now();
+    const start =
+      parseTimestamp(from, 'from') ?? end - (range ? this.parseDuration(range, 'range') : HISTORY.DEFAULT_RANGE_MS);
+    if (start >= end) {
+      throw new BadRequestException('from must be before to');
+    }
+    if (end - start > HISTORY.MAX_RANGE_MS) {
+      throw new BadRequestException(`Range is limited to ${HISTORY.MAX_RANGE_MS / DURATION_UNITS_MS.d} days`);
+    }
+
+    const intervalMs = interval
+      ? this.parseDuration(interval, 'interval')
+      : this.historyService.getDefaultInterval(end - start);
+    if ((end - start) / intervalMs > HISTORY.MAX_BUCKETS) {
+      throw new BadRequestException(
+        `interval is too small, a request may return at most ${HISTORY.MAX_BUCKETS} buckets`,
+      );
+    }
+
+    const options: HistoryQueryOptions = {
+      chainId,
+      start: new Date(start),
+      end: new Date(end),
+      intervalMs,
+      aggregation: aggregation as HistoryAggregation,
+      endpoint,
+      endpointType,
+    };
+    const result = await this.historyService.getHistory(metric as HistoryMetric, options);
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${metric}-${chainId}.csv"`);
+      return this.historyService.toCsv(result);
+    }
+    return result;
+  }
+
+  private validateEndpointType(metric: string, endpointType?: string) {
+    if (!endpointType) return;
+
+    const allowed =
+      metric === 'uptime'
+        ? HISTORY.UPTIME_ENDPOINT_TYPES
+        : metric === 'peer-count'
+          ? HISTORY.PEER_COUNT_ENDPOINT_TYPES
+          : [];
+    if (!allowed.includes(endpointType)) {
+      throw new BadRequestException(
+        allowed.length > 0
+          ? `Invalid type for ${metric}. Available: ${allowed.join(', ')}`
+          : `type is not supported for ${metric}`,
+      );
+    }
+  }
+
+  /**
+   * Accepts a duration such as 30s, 15m, 6h or 7d, or plain milliseconds
+   */
+  private parseDuration(value: string, name: string): number {
+    const match = /^(\d+)(s|m|h|d)?$/.exec(value);
+    const durationMs = match ? Number(match[1]) * (match[2] ? DURATION_UNITS_MS[match[2]] : 1) : NaN;
+    if (!durationMs) {
+      throw new BadRequestException(`${name} must be a duration such as 15m, 6h or 7d`);
+    }
+    return durationMs;
+  }
+}
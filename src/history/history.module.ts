@@ -0,0 +1,12 @@
+import { HistoryController } from '@history/history.controller';
+import { HistoryService } from '@history/history.service';
+import { MetricsModule } from '@metrics/metrics.module';
+import { Module } from '@nestjs/common';
+
+@Module({
+  imports: [MetricsModule],
+  controllers: [HistoryController],
+  providers: [HistoryService],
+  exports: [HistoryService],
+})
+export class HistoryModule {}
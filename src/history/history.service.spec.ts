@@ -0,0 +1,173 @@
+import { PERFORMANCE } from '@common/constants/config';
+import { HistoryService } from '@history/history.service';
+import { MemoryTimeSeriesBackend } from '@metrics/backends/memory.backend';
+import { MetricPoint } from '@metrics/metric-point';
+import { MetricsService } from '@metrics/metrics.service';
+import { ServiceUnavailableException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { MetricQuery } from '@types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const CHUNK_MS = PERFORMANCE.METRICS_QUERY.CHUNK_MS;
+const START = new Date('2024-01-01T00:00:00Z');
+
+const at = (offsetMs: number) => new Date(START.getTime() + offsetMs);
+
+const latency = (endpoint: string, value: number, offsetMs: number) =>
+  new MetricPoint('rpc_latency')
+    .tag('chainId', '50')
+    .tag('endpoint', endpoint)
+    .tag('endpoint_status', 'active')
+    .intField('value', value)
+    .timestamp(at(offsetMs));
+
+describe('HistoryService', () => {
+  let backend: MemoryTimeSeriesBackend;
+  let queries: MetricQuery[];
+  let connected: boolean;
+  let historyService: HistoryService;
+
+  beforeEach(async () => {
+    backend = new MemoryTimeSeriesBackend(100000);
+    queries = [];
+    connected = true;
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        HistoryService,
+        {
+          provide: MetricsService,
+          useValue: {
+            queryMetrics: async (query: MetricQuery) => {
+              queries.push(query);
+              return connected ? backend.query(query) : null;
+            },
+            queryMetricsInChunks: MetricsService.prototype.queryMetricsInChunks,
+          },
+        },
+      ],
+    }).compile();
+
+    historyService = moduleRef.get(HistoryService);
+  });
+
+  it('reads long ranges one chunk at a time and counts boundary points once', async () => {
+    await backend.write([
+      latency('https://rpc1.example.org', 100, 0),
+      latency('https://rpc1.example.org', 200, CHUNK_MS),
+      latency('https://rpc1.example.org', 300, 2 * CHUNK_MS + HOUR_MS),
+    ]);
+
+    const result = await historyService.getHistory('latency', {
+      chainId: 50,
+      start: START,
+      end: at(3 * CHUNK_MS),
+      intervalMs: CHUNK_MS,
+    });
+
+    expect(queries.map(query => [query.start, query.end])).toEqual([
+      [at(0), at(CHUNK_MS)],
+      [at(CHUNK_MS), at(2 * CHUNK_MS)],
+      [at(2 * CHUNK_MS), at(3 * CHUNK_MS)],
+    ]);
+    expect(result.series).toEqual([
+      {
+        labels: { endpoint: 'https://rpc1.example.org' },
+        points: [
+          { time: at(0).toISOString(), value: 100, samples: 1 },
+          { time: at(CHUNK_MS).toISOString(), value: 200, samples: 1 },
+          { time: at(2 * CHUNK_MS).toISOString(), value: 300, samples: 1 },
+        ],
+      },
+    ]);
+  });
+
+  it.each([
+    ['mean', 32.5],
+    ['min', 10],
+    ['max', 80],
+    ['sum', 130],
+    ['count', 4],
+    ['last', 30],
+    ['p95', 80],
+  ] as const)('aggregates bucket samples with %s', async (aggregation, expected) => {
+    await backend.write([
+      latency('https://rpc1.example.org', 10, 0),
+      latency('https://rpc1.example.org', 80, 1000),
+      latency('https://rpc1.example.org', 10, 2000),
+      latency('https://rpc1.example.org', 30, 3000),
+    ]);
+
+    const result = await historyService.getHistory('latency', {
+      chainId: 50,
+      start: START,
+      end: at(HOUR_MS),
+      intervalMs: HOUR_MS,
+      aggregation,
+    });
+
+    expect(result.series[0].points).toEqual([{ time: START.toISOString(), value: expected, samples: 4 }]);
+  });
+
+  it('splits per-endpoint metrics into one series per endpoint and leaves empty buckets null', async () => {
+    await backend.write(
+      [
+        new MetricPoint('rpc_status')
+          .tag('chainId', '50')
+          .tag('endpoint', 'https://b.example.org')
+          .intField('value', 1),
+        new MetricPoint('rpc_status')
+          .tag('chainId', '50')
+          .tag('endpoint', 'https://a.example.org')
+          .intField('value', 1),
+        new MetricPoint('rpc_status')
+          .tag('chainId', '50')
+          .tag('endpoint', 'https://a.example.org')
+          .tag('endpoint_status', 'failed')
+          .intField('value', 1),
+      ].map(point => point.timestamp(at(1000))),
+    );
+
+    const result = await historyService.getHistory('uptime', {
+      chainId: 50,
+      start: START,
+      end: at(2 * HOUR_MS),
+      intervalMs: HOUR_MS,
+    });
+
+    expect(result.series.map(series => [series.labels.endpoint, series.points.map(point => point.value)])).toEqual([
+      ['https://a.example.org', [50, null]],
+      ['https://b.example.org', [100, null]],
+    ]);
+  });
+
+  it('counts every missed miner of a missed round point', async () => {
+    const missedRound = (missedMiners: number, offsetMs: number) =>
+      new MetricPoint('consensus_missed_rounds')
+        .tag('chainId', '50')
+        .intField('round', 1000)
+        .intField('missed_miners_count', missedMiners)
+        .timestamp(at(offsetMs));
+    await backend.write([missedRound(3, 1000), missedRound(1, 2000), missedRound(2, HOUR_MS + 1000)]);
+
+    const result = await historyService.getHistory('missed-rounds', {
+      chainId: 50,
+      start: START,
+      end: at(2 * HOUR_MS),
+      intervalMs: HOUR_MS,
+    });
+
+    expect(result.series[0].points.map(point => [point.value, point.samples])).toEqual([
+      [4, 2],
+      [2, 1],
+    ]);
+  });
+
+  it('fails when the metrics backend cannot be queried', async () => {
+    connected = false;
+
+    await expect(
+      historyService.getHistory('block-time', { chainId: 50, start: START, end: at(HOUR_MS), intervalMs: HOUR_MS }),
+    ).rejects.toThrow(ServiceUnavailableException);
+  });
+});
@@ -0,0 +1,253 @@
+import { HISTORY } from '@common/constants/config';
+import { toCsv } from '@common/utils/csv';
+import { MetricsService } from '@metrics/metrics.service';
+import { Injectable, ServiceUnavailableException } from '@nestjs/common';
+import {
+  HistoryAggregation,
+  HistoryMetric,
+  HistoryQueryOptions,
+  HistoryResult,
+  HistorySeries,
+  MetricQuery,
+  MetricRecord,
+} from '@types';
+
+interface HistoryMetricDefinition {
+  unit: string;
+  aggregation: HistoryAggregation;
+  // Tags that split the metric into one series each
+  groupBy: string[];
+  query: (options: HistoryQueryOptions) => Pick<MetricQuery, 'measurement' | 'tags'>;
+  // Sample value of a stored point, null skips the point
+  value: (record: MetricRecord) => number | null;
+}
+
+/**
+ * Running aggregate of one bucket, samples are only kept for percentiles
+ */
+interface HistoryBucket {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  last: number | null;
+  samples: number[] | null;
+}
+
+const fieldValue = (record: MetricRecord, field = 'value') => Number(record.fields[field]);
+
+/**
+ * Stored measurements behind each history metric
+ * Failed endpoint points carry sentinel values and are left out of latency and peer count.
+ */
+const HISTORY_METRICS: Record<HistoryMetric, HistoryMetricDefinition> = {
+  'block-time': {
+    unit: 'seconds',
+    aggregation: 'mean',
+    groupBy: [],
+    query: ({ chainId }) => ({ measurement: 'block_time', tags: { chainId: `${chainId}` } }),
+    value: record => fieldValue(record),
+  },
+  latency: {
+    unit: 'ms',
+    aggregation: 'mean',
+    groupBy: ['endpoint'],
+    query: ({ chainId, endpoint }) => ({
+      measurement: 'rpc_latency',
+      tags: compactTags({ chainId: `${chainId}`, endpoint_status: 'active', endpoint }),
+    }),
+    value: record => fieldValue(record),
+  },
+  uptime: {
+    unit: 'percent',
+    aggregation: 'mean',
+    groupBy: ['endpoint'],
+    query: ({ chainId, endpoint, endpointType }) => ({
+      measurement: `${endpointType || 'rpc'}_status`,
+      tags: compactTags({ chainId: `${chainId}`, endpoint }),
+    }),
+    value: record => (record.tags.endpoint_status !== 'failed' && fieldValue(record) === 1 ? 100 : 0),
+  },
+  'peer-count': {
+    unit: 'peers',
+    aggregation: 'mean',
+    groupBy: ['endpoint', 'type'],
+    query: ({ chainId, endpoint, endpointType }) => ({
+      measurement: 'peer_count',
+      tags: compactTags({ chainId: `${chainId}`, endpoint_status: 'active', endpoint, type: endpointType }),
+    }),
+    value: record => fieldValue(record),
+  },
+  tps: {
+    unit: 'tx/s',
+    aggregation: 'mean',
+    groupBy: [],
+    query: ({ chainId }) => ({ measurement: 'transactions_per_minute', tags: { chainId: `${chainId}` } }),
+    value: record => fieldValue(record) / 60,
+  },
+  'missed-rounds': {
+    unit: 'rounds',
+    aggregation: 'sum',
+    groupBy: [],
+    query: ({ chainId }) => ({ measurement: 'consensus_missed_rounds', tags: { chainId: `${chainId}` } }),
+    // One point per missed turn, covering every consecutive miner that missed it like the Prometheus counter
+    value: record => fieldValue(record, 'missed_miners_count'),
+  },
+};
+
+/**
+ * Time-bucketed series read back from the metrics backend
+ */
+@Injectable()
+export class HistoryService {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  async getHistory(metric: HistoryMetric, options: HistoryQueryOptions): Promise<HistoryResult> {
+    const definition = HISTORY_METRICS[metric];
+    const aggregation = options.aggregation ?? definition.aggregation;
+    const query = definition.query(options);
+
+    // Buckets are aligned to the interval so repeated requests line up
+    const firstBucket = Math.floor(options.start.getTime() / options.intervalMs) * options.intervalMs;
+    const bucketCount = Math.max(1, Math.ceil((options.end.getTime() - firstBucket) / options.intervalMs));
+    const keepSamples = aggregation === 'p95';
+
+    const bucketsBySeries = new Map<string, { labels: Record<string, string>; buckets: HistoryBucket[] }>();
+    if (definition.groupBy.length === 0) {
+      bucketsBySeries.set('{}', { labels: {}, buckets: emptyBuckets(bucketCount, keepSamples) });
+    }
+
+    // Chunks are read in time order so the last sample of a bucket is its latest
+    const queried = await this.metricsService.queryMetricsInChunks(
+      { ...query, start: options.start, end: options.end },
+      records => {
+        for (const record of records) {
+          const value = definition.value(record);
+          if (value === null || !Number.isFinite(value)) continue;
+
+          const bucket = Math.floor((record.timestamp.getTime() - firstBucket) / options.intervalMs);
+          if (bucket < 0 || bucket >= bucketCount) continue;
+
+          const labels = Object.fromEntries(definition.groupBy.map(tag => [tag, record.tags[tag] ?? '']));
+          const key = JSON.stringify(labels);
+          if (!bucketsBySeries.has(key)) {
+            bucketsBySeries.set(key, { labels, buckets: emptyBuckets(bucketCount, keepSamples) });
+          }
+          addSample(bucketsBySeries.get(key).buckets[bucket], value);
+        }
+      },
+    );
+    if (!queried) {
+      throw new ServiceUnavailableException(
+        'Historical data is unavailable: the metrics backend is not connected or does not support queries',
+      );
+    }
+
+    const series: HistorySeries[] = Array.from(bucketsBySeries.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, { labels, buckets }]) => ({
+        labels,
+        points: buckets.map((bucket, index) => ({
+          time: new Date(firstBucket + index * options.intervalMs).toISOString(),
+          value: aggregate(bucket, aggregation),
+          samples: bucket.count,
+        })),
+      }));
+
+    return {
+      metric,
+      chainId: options.chainId,
+      unit: definition.unit,
+      aggregation,
+      start: options.start.toISOString(),
+      end: options.end.toISOString(),
+      intervalMs: options.intervalMs,
+      series,
+    };
+  }
+
+  /**
+   * Smallest standard interval that keeps the series around the target bucket count
+   */
+  getDefaultInterval(rangeMs: number): number {
+    return (
+      HISTORY.INTERVALS_MS.find(intervalMs => rangeMs / intervalMs <= HISTORY.TARGET_BUCKETS) ??
+      HISTORY.INTERVALS_MS[HISTORY.INTERVALS_MS.length - 1]
+    );
+  }
+
+  /**
+   * Flatten a history result to CSV, one row per series and bucket
+   */
+  toCsv(result: HistoryResult): string {
+    const labelColumns = Array.from(new Set(result.series.flatMap(series => Object.keys(series.labels))));
+    const rows: (string | number | null)[][] = [['time', ...labelColumns, 'value', 'samples']];
+
+    for (const series of result.series) {
+      for (const point of series.points) {
+        rows.push([point.time, ...labelColumns.map(column => series.labels[column]), point.value, point.samples]);
+      }
+    }
+
+    return toCsv(rows);
+  }
+}
+
+function compactTags(tags: Record<string, string | undefined>): Record<string, string> {
+  return Object.fromEntries(Object.entries(tags).filter(([, value]) => value !== undefined && value !== ''));
+}
+
+function emptyBuckets(count: number, keepSamples: boolean): HistoryBucket[] {
+  return Array.from({ length: count }, () => ({
+    count: 0,
+    sum: 0,
+    min: Infinity,
+    max: -Infinity,
+    last: null,
+    samples: keepSamples ? [] : null,
+  }));
+}
+
+function addSample(bucket: HistoryBucket, value: number) {
+  bucket.count++;
+  bucket.sum += value;
+  bucket.min = Math.min(bucket.min, value);
+  bucket.max = Math.max(bucket.max, value);
+  bucket.last = value;
+  bucket.samples?.push(value);
+}
+
+function aggregate(bucket: HistoryBucket, aggregation: HistoryAggregation): number | null {
+  // Empty buckets count as zero for totals and as missing data for everything else
+  if (bucket.count === 0) {
+    return aggregation === 'sum' || aggregation === 'count' ? 0 : null;
+  }
+
+  let value: number;
+  switch (aggregation) {
+    case 'min':
+      value = bucket.min;
+      break;
+    case 'max':
+      value = bucket.max;
+      break;
+    case 'sum':
+      value = bucket.sum;
+      break;
+    case 'count':
+      value = bucket.count;
+      break;
+    case 'last':
+      value = bucket.last;
+      break;
+    case 'p95': {
+      const sorted = [...bucket.samples].sort((a, b) => a - b);
+      value = sorted[Math.ceil(sorted.length * 0.95) - 1];
+      break;
+    }
+    default:
+      value = bucket.sum / bucket.count;
+  }
+
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,49 @@
+import { LIVE_UPDATES } from '@common/constants/config';
+import { ApiProperty } from '@nestjs/swagger';
+import { LiveEvent, LiveTopic } from '@types';
+
+export class LiveStatusDto {
+  @ApiProperty()
+  enabled: boolean;
+
+  @ApiProperty({ enum: LIVE_UPDATES.TOPICS, isArray: true })
+  topics: readonly LiveTopic[];
+
+  @ApiProperty({ example: LIVE_UPDATES.WEBSOCKET_PATH })
+  websocketPath: string;
+
+  @ApiProperty({ example: '/api/live/events' })
+  ssePath: string;
+
+  @ApiProperty()
+  websocketClients: number;
+
+  @ApiProperty()
+  listeners: number;
+
+  @ApiProperty()
+  updateIntervalMs: number;
+
+  @ApiProperty()
+  pingIntervalMs: number;
+}
+
+/**
+ * Payload of a live event, sent as SSE data and as WebSocket message
+ */
+export class LiveEventDto implements LiveEvent {
+  @ApiProperty({ enum: LIVE_UPDATES.TOPICS })
+  topic: LiveTopic;
+
+  @ApiProperty({ example: 'new-block', description: 'What happened within the topic' })
+  type: string;
+
+  @ApiProperty({ type: Number, nullable: true, description: 'Null for events not tied to a chain' })
+  chainId: number | null;
+
+  @ApiProperty({ format: 'date-time' })
+  timestamp: string;
+
+  @ApiProperty({ type: 'object', additionalProperties: true })
+  data: Record<string, unknown>;
+}
@@ -0,0 +1,174 @@
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { LIVE_UPDATES } from '@common/constants/config';
+import { ConfigService } from '@config/config.service';
+import { BadRequestException, Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { LiveEvent, LiveEventListener, LiveSubscriptionRequest, LiveTopic, LiveUpdatesConfig } from '@types';
+
+// Subscription key matching every chain of a topic
+const ALL_CHAINS = '*';
+
+/**
+ * Publish/subscribe hub for live monitoring updates
+ *
+ * Monitors publish events under a topic and chain, the WebSocket gateway and the SSE
+ * endpoint subscribe and forward the events their clients asked for. Publishing is a
+ * no-op when live updates are disabled or nobody is listening.
+ */
+@Injectable()
+export class LiveUpdatesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(LiveUpdatesService.name);
+  private readonly config: LiveUpdatesConfig;
+
+  private listeners = new Set<LiveEventListener>();
+  // Latest unsent event per coalesce key, flushed every update interval
+  private pendingEvents = new Map<string, LiveEvent>();
+  private flushInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly chainRegistry: ChainRegistryService,
+  ) {
+    this.config = this.configService.getLiveUpdatesConfig();
+  }
+
+  onModuleInit() {
+    if (!this.config.enabled) {
+      this.logger.log('Live updates are disabled');
+      return;
+    }
+
+    this.flushInterval = setInterval(() => this.flush(), this.config.updateIntervalMs);
+    this.logger.log(`Live updates enabled (coalesced events flushed every ${this.config.updateIntervalMs}ms)`);
+  }
+
+  onModuleDestroy() {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+
+    this.pendingEvents.clear();
+    this.listeners.clear();
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getConfig(): LiveUpdatesConfig {
+    return this.config;
+  }
+
+  /**
+   * Publish an event to every listener right away
+   */
+  publish(topic: LiveTopic, chainId: number | undefined, type: string, data: object): void {
+    if (!this.config.enabled || this.listeners.size === 0) return;
+
+    this.notify(this.createEvent(topic, chainId, type, data));
+  }
+
+  /**
+   * Publish an event that later events with the same key supersede
+   * Only the latest event per key is sent on the next flush, which keeps bursts
+   * such as a block backfill from flooding clients.
+   */
+  publishLatest(key: string, topic: LiveTopic, chainId: number, type: string, data: object): void {
+    if (!this.config.enabled || this.listeners.size === 0) return;
+
+    this.pendingEvents.set(key, this.createEvent(topic, chainId, type, data));
+  }
+
+  /**
+   * Listen to every published event
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: LiveEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Validate a subscription request and expand it into topic/chain keys
+   * Omitted topics or chains mean all of them.
+   */
+  parseSubscription({ topics, chainIds }: LiveSubscriptionRequest): string[] {
+    const invalidTopic = (topics || []).find(topic => !(LIVE_UPDATES.TOPICS as readonly string[]).includes(topic));
+    if (invalidTopic !== undefined) {
+      throw new BadRequestException(`Unknown topic ${invalidTopic}. Available: ${LIVE_UPDATES.TOPICS.join(', ')}`);
+    }
+
+    const invalidChain = (chainIds || []).find(chainId => !this.chainRegistry.isSupported(chainId));
+    if (invalidChain !== undefined) {
+      throw new BadRequestException(
+        `Unknown chainId ${invalidChain}. Available: ${this.chainRegistry.getChainIds().join(', ')}`,
+      );
+    }
+
+    const selectedTopics = topics?.length ? topics : [...LIVE_UPDATES.TOPICS];
+    const selectedChains = chainIds?.length ? chainIds.map(String) : [ALL_CHAINS];
+
+    return selectedTopics.flatMap(topic => selectedChains.map(chainId => `${topic}:${chainId}`));
+  }
+
+  /**
+   * Parse comma separated topics and chain IDs from a query string into subscription keys
+   */
+  parseSubscriptionQuery(topics?: string, chainIds?: string): string[] {
+    const chainIdList = this.splitList(chainIds).map(Number);
+    if (chainIdList.some(chainId => !Number.isInteger(chainId))) {
+      throw new BadRequestException('chainIds must be a comma separated list of numbers');
+    }
+
+    return this.parseSubscription({ topics: this.splitList(topics), chainIds: chainIdList });
+  }
+
+  /**
+   * Whether an event matches a set of subscription keys from parseSubscription
+   */
+  matches(subscriptions: Set<string>, event: LiveEvent): boolean {
+    return subscriptions.has(`${event.topic}:${event.chainId}`) || subscriptions.has(`${event.topic}:${ALL_CHAINS}`);
+  }
+
+  getListenerCount(): number {
+    return this.listeners.size;
+  }
+
+  private splitList(value?: string): string[] {
+    return (value || '')
+      .split(',')
+      .map(item => item.trim())
+      .filter(Boolean);
+  }
+
+  private createEvent(topic: LiveTopic, chainId: number | undefined, type: string, data: object): LiveEvent {
+    return {
+      topic,
+      type,
+      chainId: chainId ?? null,
+      timestamp: new Date().toISOString(),
+      data: data as Record<string, unknown>,
+    };
+  }
+
+  private flush(): void {
+    if (this.pendingEvents.size === 0) return;
+
+    const events = Array.from(this.pendingEvents.values());
+    this.pendingEvents.clear();
+    events.forEach(event => this.notify(event));
+  }
+
+  private notify(event: LiveEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.error(`Failed to deliver ${event.topic} ${event.type} event: ${error.message}`);
+      }
+    }
+  }
+}
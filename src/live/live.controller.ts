@@ -0,0 +1,80 @@
+import { LIVE_UPDATES } from '@common/constants/config';
+import { ErrorResponseDto } from '@common/dto/common.dto';
+import { ApiAuth } from '@docs/api-docs.decorators';
+import { LiveEventDto, LiveStatusDto } from '@live/dto/live.dto';
+import { LiveUpdatesService } from '@live/live-updates.service';
+import { LiveGateway } from '@live/live.gateway';
+import { Controller, Get, MessageEvent, NotFoundException, Query, Sse } from '@nestjs/common';
+import {
+  ApiExtraModels,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiProduces,
+  ApiQuery,
+  ApiTags,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import { interval, map, merge, Observable } from 'rxjs';
+
+/**
+ * Live updates API: connection details and a Server-Sent Events stream for clients that cannot use WebSockets
+ */
+@Controller('live')
+@ApiTags('Live Updates')
+@ApiAuth()
+@ApiExtraModels(LiveEventDto)
+export class LiveController {
+  constructor(
+    private readonly liveUpdates: LiveUpdatesService,
+    private readonly liveGateway: LiveGateway,
+  ) {}
+
+  @Get()
+  @ApiOkResponse({ type: LiveStatusDto })
+  getStatus(): LiveStatusDto {
+    const { enabled, updateIntervalMs, pingIntervalMs } = this.liveUpdates.getConfig();
+
+    return {
+      enabled,
+      topics: LIVE_UPDATES.TOPICS,
+      websocketPath: LIVE_UPDATES.WEBSOCKET_PATH,
+      ssePath: '/api/live/events',
+      websocketClients: this.liveGateway.getClientCount(),
+      listeners: this.liveUpdates.getListenerCount(),
+      updateIntervalMs,
+      pingIntervalMs,
+    };
+  }
+
+  /**
+   * GET /api/live/events?topics=blocks,alerts&chainIds=50
+   * Events are named after their topic, a ping event is sent as keepalive
+   */
+  @Sse('events')
+  @ApiQuery({ name: 'topics', required: false, description: `Comma-separated: ${LIVE_UPDATES.TOPICS.join(', ')}` })
+  @ApiQuery({ name: 'chainIds', required: false, description: 'Comma-separated chain IDs, every chain when omitted' })
+  @ApiProduces('text/event-stream')
+  @ApiOkResponse({
+    description: 'Server-Sent Events named after their topic, each data field holds a live event',
+    content: { 'text/event-stream': { schema: { $ref: getSchemaPath(LiveEventDto) } } },
+  })
+  @ApiNotFoundResponse({ description: 'Live updates are disabled', type: ErrorResponseDto })
+  stream(@Query('topics') topics?: string, @Query('chainIds') chainIds?: string): Observable<MessageEvent> {
+    if (!this.liveUpdates.isEnabled()) {
+      throw new NotFoundException('Live updates are disabled');
+    }
+
+    const subscriptions = new Set(this.liveUpdates.parseSubscriptionQuery(topics, chainIds));
+
+    const events = new Observable<MessageEvent>(subscriber =>
+      this.liveUpdates.subscribe(event => {
+        if (this.liveUpdates.matches(subscriptions, event)) subscriber.next({ type: event.topic, data: event });
+      }),
+    );
+    const keepalive = interval(this.liveUpdates.getConfig().pingIntervalMs).pipe(
+      map(() => ({ type: 'ping', data: { timestamp: new Date().toISOString() } })),
+    );
+
+    return merge(events, keepalive);
+  }
+}
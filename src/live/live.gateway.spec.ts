@@ -0,0 +1,88 @@
+import { AuthService } from '@auth/auth.service';
+import { RateLimitService } from '@auth/rate-limit.service';
+import { HTTP, LIVE_UPDATES } from '@common/constants/config';
+import { LiveGateway } from '@live/live.gateway';
+import { LiveUpdatesService } from '@live/live-updates.service';
+import { HttpAdapterHost } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Duplex } from 'stream';
+import WebSocket from 'ws';
+
+/**
+ * Open a WebSocket and report how the upgrade ended
+ */
+const connect = (url: string): Promise<string> =>
+  new Promise(resolve => {
+    const socket = new WebSocket(url);
+    socket.on('message', data => {
+      resolve(`message ${JSON.parse(data.toString()).type}`);
+      socket.close();
+    });
+    socket.on('unexpected-response', (_, response) => {
+      resolve(`response ${response.statusCode}`);
+      socket.terminate();
+    });
+    socket.on('error', error => resolve(`error ${error.message}`));
+  });
+
+describe('LiveGateway', () => {
+  let httpServer: Server;
+  let gateway: LiveGateway;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    httpServer = createServer();
+    // Stands in for the GraphQL subscriptions server sharing the HTTP server, which matches its path by prefix
+    httpServer.on('upgrade', (request: IncomingMessage, socket: Duplex) => {
+      if (!new URL(request.url, 'http://localhost').pathname.startsWith(HTTP.GRAPHQL.PATH)) return;
+      socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+    });
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    baseUrl = `ws://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        LiveGateway,
+        { provide: HttpAdapterHost, useValue: { httpAdapter: { getHttpServer: () => httpServer } } },
+        {
+          provide: LiveUpdatesService,
+          useValue: {
+            isEnabled: () => true,
+            getConfig: () => ({ pingIntervalMs: 60000 }),
+            parseSubscriptionQuery: () => [],
+            subscribe: () => () => undefined,
+          },
+        },
+        { provide: AuthService, useValue: { isEnabled: () => false } },
+        { provide: RateLimitService, useValue: {} },
+      ],
+    }).compile();
+
+    moduleRef.useLogger(false);
+    gateway = moduleRef.get(LiveGateway);
+    gateway.onApplicationBootstrap();
+  });
+
+  afterEach(async () => {
+    gateway.onModuleDestroy();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('accepts live update connections on its path', async () => {
+    expect(await connect(`${baseUrl}${LIVE_UPDATES.WEBSOCKET_PATH}`)).toBe('message subscriptions');
+  });
+
+  it('leaves GraphQL subscription upgrades to the GraphQL server', async () => {
+    expect(await connect(`${baseUrl}${HTTP.GRAPHQL.PATH}`)).toBe('response 400');
+  });
+
+  it('leaves GraphQL subscription upgrades with a trailing slash to the GraphQL server', async () => {
+    expect(await connect(`${baseUrl}${HTTP.GRAPHQL.PATH}/`)).toBe('response 400');
+  });
+
+  it('destroys upgrades on unknown paths even when other upgrade listeners are registered', async () => {
+    expect(await connect(`${baseUrl}/api/unknown`)).toBe('error socket hang up');
+  });
+});
@@ -0,0 +1,225 @@
+import { AuthService } from '@auth/auth.service';
+import { RateLimitService } from '@auth/rate-limit.service';
+import { HTTP, LIVE_UPDATES } from '@common/constants/config';
+import { LiveUpdatesService } from '@live/live-updates.service';
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { HttpAdapterHost } from '@nestjs/core';
+import { LiveClientMessage, LiveEvent } from '@types';
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import WebSocket, { WebSocketServer } from 'ws';
+
+// Connected WebSocket client and the topic/chain keys it subscribed to
+interface LiveClient {
+  socket: WebSocket;
+  subscriptions: Set<string>;
+  isAlive: boolean;
+  unsubscribe: () => void;
+}
+
+/**
+ * WebSocket gateway streaming live updates on the application's HTTP server
+ *
+ * Clients pick their initial topics and chains with the `topics` and `chainIds` query
+ * parameters and change them later with subscribe/unsubscribe messages. Clients that
+ * miss a ping are disconnected. With API authentication enabled the upgrade request needs
+ * a credential, browsers pass it in the apiKey query parameter.
+ */
+@Injectable()
+export class LiveGateway implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(LiveGateway.name);
+
+  private server: WebSocketServer | null = null;
+  private httpServer: Server | null = null;
+  private clients = new Set<LiveClient>();
+  private pingInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly adapterHost: HttpAdapterHost,
+    private readonly liveUpdates: LiveUpdatesService,
+    private readonly authService: AuthService,
+    private readonly rateLimitService: RateLimitService,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (!this.liveUpdates.isEnabled()) return;
+
+    this.httpServer = this.adapterHost.httpAdapter?.getHttpServer();
+    if (!this.httpServer) {
+      this.logger.warn('No HTTP server available, live updates are only served over SSE');
+      return;
+    }
+
+    this.server = new WebSocketServer({ noServer: true });
+    this.server.on('connection', (socket: WebSocket, request: IncomingMessage) =>
+      this.handleConnection(socket, request),
+    );
+    this.httpServer.on('upgrade', this.handleUpgrade);
+
+    this.pingInterval = setInterval(() => this.pingClients(), this.liveUpdates.getConfig().pingIntervalMs);
+    this.logger.log(`Live updates WebSocket listening on ${LIVE_UPDATES.WEBSOCKET_PATH}`);
+  }
+
+  onModuleDestroy() {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+
+    this.httpServer?.off('upgrade', this.handleUpgrade);
+    this.clients.forEach(client => client.socket.terminate());
+    this.clients.clear();
+    this.server?.close();
+    this.server = null;
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  private handleUpgrade = (request: IncomingMessage, socket: Duplex, head: Buffer): void => {
+    const { pathname, searchParams } = new URL(request.url, 'http://localhost');
+    if (pathname !== LIVE_UPDATES.WEBSOCKET_PATH) {
+      // GraphQL subscriptions upgrade on their own path, matched by prefix like Nest does,
+      // any other upgrade would otherwise hang
+      if (!pathname.startsWith(HTTP.GRAPHQL.PATH)) socket.destroy();
+      return;
+    }
+
+    const rejection = this.authorizeUpgrade(request, Object.fromEntries(searchParams));
+    if (rejection) {
+      socket.end(`HTTP/1.1 ${rejection}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+      return;
+    }
+
+    this.server.handleUpgrade(request, socket, head, ws => this.server.emit('connection', ws, request));
+  };
+
+  /**
+   * Authenticate and rate limit an upgrade request like the guard does for HTTP routes
+   * Returns the HTTP status line to reject the request with, null when it may connect
+   */
+  private authorizeUpgrade(request: IncomingMessage, query: Record<string, string>): string | null {
+    if (!this.authService.isEnabled()) return null;
+
+    try {
+      const principal = this.authService.authenticate(this.authService.getCredential(request.headers, query));
+      return this.rateLimitService.consume(principal.id).allowed ? null : '429 Too Many Requests';
+    } catch (error) {
+      this.logger.debug(`Live updates connection rejected: ${error.message}`);
+      return '401 Unauthorized';
+    }
+  }
+
+  private handleConnection(socket: WebSocket, request: IncomingMessage): void {
+    const { searchParams } = new URL(request.url, 'http://localhost');
+
+    let subscriptions: string[];
+    try {
+      subscriptions = this.liveUpdates.parseSubscriptionQuery(searchParams.get('topics'), searchParams.get('chainIds'));
+    } catch (error) {
+      socket.send(JSON.stringify({ type: 'error', message: error.message }));
+      socket.close(1008, 'Invalid subscription');
+      return;
+    }
+
+    const client: LiveClient = { socket, subscriptions: new Set(subscriptions), isAlive: true, unsubscribe: null };
+    client.unsubscribe = this.liveUpdates.subscribe(event => this.forward(client, event));
+    this.clients.add(client);
+
+    socket.on('pong', () => (client.isAlive = true));
+    socket.on('message', data => this.handleMessage(client, data.toString()));
+    socket.on('close', () => this.removeClient(client));
+    socket.on('error', error => this.logger.debug(`Live updates client error: ${error.message}`));
+
+    this.logger.debug(`Live updates client connected (${this.clients.size} connected)`);
+    this.sendSubscriptions(client);
+  }
+
+  /**
+   * Apply a subscribe or unsubscribe message
+   * Unsubscribing removes the given topics on the given chains, or on every chain when chainIds is omitted
+   */
+  private handleMessage(client: LiveClient, raw: string): void {
+    try {
+      const message = this.parseMessage(raw);
+      const keys = this.liveUpdates.parseSubscription(message);
+
+      if (message.action === 'subscribe') {
+        keys.forEach(key => client.subscriptions.add(key));
+      } else {
+        const topics = new Set(keys.map(key => key.split(':')[0]));
+        const chainIds = message.chainIds?.length ? new Set(message.chainIds.map(String)) : null;
+
+        client.subscriptions.forEach(key => {
+          const [topic, chainId] = key.split(':');
+          if (topics.has(topic) && (!chainIds || chainIds.has(chainId))) client.subscriptions.delete(key);
+        });
+      }
+
+      this.sendSubscriptions(client);
+    } catch (error) {
+      this.send(client, { type: 'error', message: error.message });
+    }
+  }
+
+  private parseMessage(raw: string): LiveClientMessage {
+    let message: LiveClientMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      throw new Error('Messages must be JSON');
+    }
+
+    if (message?.action !== 'subscribe' && message?.action !== 'unsubscribe') {
+      throw new Error('action must be subscribe or unsubscribe');
+    }
+    if (message.topics !== undefined && !Array.isArray(message.topics)) {
+      throw new Error('topics must be an array');
+    }
+    if (message.chainIds !== undefined && !Array.isArray(message.chainIds)) {
+      throw new Error('chainIds must be an array');
+    }
+
+    return message;
+  }
+
+  private forward(client: LiveClient, event: LiveEvent): void {
+    if (this.liveUpdates.matches(client.subscriptions, event)) this.send(client, event);
+  }
+
+  private sendSubscriptions(client: LiveClient): void {
+    this.send(client, { type: 'subscriptions', subscriptions: Array.from(client.subscriptions) });
+  }
+
+  private send(client: LiveClient, payload: object): void {
+    const { socket } = client;
+    if (socket.readyState !== WebSocket.OPEN) return;
+
+    // Drop updates for clients that cannot keep up instead of buffering without bound
+    if (socket.bufferedAmount > LIVE_UPDATES.MAX_BUFFERED_BYTES) return;
+
+    socket.send(JSON.stringify(payload));
+  }
+
+  private pingClients(): void {
+    this.clients.forEach(client => {
+      if (!client.isAlive) {
+        this.logger.debug('Live updates client missed a ping, disconnecting');
+        client.socket.terminate();
+        this.removeClient(client);
+        return;
+      }
+
+      client.isAlive = false;
+      client.socket.ping();
+    });
+  }
+
+  private removeClient(client: LiveClient): void {
+    if (!this.clients.delete(client)) return;
+
+    client.unsubscribe();
+    this.logger.debug(`Live updates client disconnected (${this.clients.size} connected)`);
+  }
+}
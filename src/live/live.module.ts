@@ -0,0 +1,17 @@
+import { ConfigModule } from '@config/config.module';
+import { LiveUpdatesService } from '@live/live-updates.service';
+import { LiveController } from '@live/live.controller';
+import { LiveGateway } from '@live/live.gateway';
+import { Global, Module } from '@nestjs/common';
+
+/**
+ * Global module streaming live monitoring updates over WebSocket and SSE
+ */
+@Global()
+@Module({
+  imports: [ConfigModule],
+  controllers: [LiveController],
+  providers: [LiveUpdatesService, LiveGateway],
+  exports: [LiveUpdatesService],
+})
+export class LiveModule {}
@@ -1,4 +1,5 @@
 import { AppModule } from '@/app.module';
+import { setupApiDocs } from '@docs/api-docs';
 import { CustomLoggerService } from '@logging/logger.service';
 import { NestFactory } from '@nestjs/core';
 
@@ -31,6 +32,9 @@ async function bootstrap() {
   // Set global prefix
   app.setGlobalPrefix('api');
 
+  // Serve the OpenAPI spec and Swagger UI
+  setupApiDocs(app);
+
   // Get configuration
   const port = process.env.PORT || 3000;
   const environment = process.env.NODE_ENV || 'development';
@@ -42,7 +46,7 @@ async function bootstrap() {
   customLogger.logStartupInfo(Number(port), environment);
 
   // Log additional info
-  customLogger.log(`Prometheus metrics available at /metrics`, 'Bootstrap');
+  customLogger.log(`Prometheus metrics available at /api/metrics`, 'Bootstrap');
   customLogger.log(`Monitoring RPC: ${process.env.MAINNET_RPC_URL || 'https://rpc.xinfin.network'}`, 'Bootstrap');
   customLogger.log(`Chain ID: ${process.env.CHAIN_ID || '50'}`, 'Bootstrap');
 
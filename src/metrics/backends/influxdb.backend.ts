@@ -0,0 +1,132 @@
+import { InfluxDB, Point, QueryApi, WriteApi } from '@influxdata/influxdb-client';
+import { MetricPoint } from '@metrics/metric-point';
+import { InfluxDbConfig, MetricQuery, MetricRecord, TimeSeriesBackend } from '@types';
+
+// Columns added by Flux that are neither tags nor fields
+const FLUX_META_COLUMNS = new Set(['result', 'table']);
+
+/**
+ * Time-series backend writing to InfluxDB 2.x and reading back with Flux
+ */
+export class InfluxDbTimeSeriesBackend implements TimeSeriesBackend {
+  readonly name = 'influxdb';
+  private client: InfluxDB | null = null;
+  private writeApi: WriteApi | null = null;
+  private queryApi: QueryApi | null = null;
+
+  constructor(private readonly config: InfluxDbConfig) {}
+
+  async connect(): Promise<void> {
+    this.client = new InfluxDB({
+      url: this.config.url,
+      token: this.config.token,
+      timeout: 30000, // 30 seconds timeout
+    });
+
+    // MetricsService batches points, the write API only retries failed writes
+    this.writeApi = this.client.getWriteApi(this.config.org, this.config.bucket, 'ns', {
+      flushInterval: 0,
+      maxRetries: 5,
+      maxRetryDelay: 15000,
+      minRetryDelay: 1000,
+      retryJitter: 1000,
+      defaultTags: {},
+    });
+    this.queryApi = this.client.getQueryApi(this.config.org);
+  }
+
+  async write(points: MetricPoint[]): Promise<void> {
+    this.writeApi.writePoints(points.map(point => this.toInfluxPoint(point)));
+    await this.writeApi.flush();
+  }
+
+  async query(query: MetricQuery): Promise<MetricRecord[]> {
+    const rows = await this.queryApi.collectRows<Record<string, unknown>>(this.buildFluxQuery(query));
+
+    // Rows hold one field each, fields of the same point share its time and tags
+    const records = new Map<string, MetricRecord>();
+    for (const row of rows) {
+      const tags: Record<string, string> = {};
+      for (const [column, value] of Object.entries(row)) {
+        if (!column.startsWith('_') && !FLUX_META_COLUMNS.has(column) && typeof value === 'string') {
+          tags[column] = value;
+        }
+      }
+
+      const key = `${row._time}|${JSON.stringify(tags)}`;
+      if (!records.has(key)) {
+        records.set(key, {
+          measurement: query.measurement,
+          timestamp: new Date(String(row._time)),
+          tags,
+          fields: {},
+        });
+      }
+      records.get(key).fields[String(row._field)] = row._value as number | string | boolean;
+    }
+
+    return Array.from(records.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async close(): Promise<void> {
+    await this.writeApi?.close();
+  }
+
+  private toInfluxPoint(metricPoint: MetricPoint): Point {
+    const point = new Point(metricPoint.measurement).timestamp(metricPoint.time);
+
+    for (const [name, value] of Object.entries(metricPoint.tags)) {
+      point.tag(name, value);
+    }
+
+    for (const [name, field] of Object.entries(metricPoint.fields)) {
+      switch (field.type) {
+        case 'int':
+          point.intField(name, field.value);
+          break;
+        case 'float':
+          point.floatField(name, field.value);
+          break;
+        case 'boolean':
+          point.booleanField(name, field.value as boolean);
+          break;
+        default:
+          point.stringField(name, field.value);
+      }
+    }
+
+    return point;
+  }
+
+  private buildFluxQuery(query: MetricQuery): string {
+    const end = query.end ?? new Date();
+    const lines = [
+      `from(bucket: ${this.fluxString(this.config.bucket)})`,
+      `|> range(start: ${query.start.toISOString()}, stop: ${end.toISOString()})`,
+      `|> filter(fn: (r) => r._measurement == ${this.fluxString(query.measurement)})`,
+    ];
+
+    for (const [tag, value] of Object.entries(query.tags ?? {})) {
+      const column = `r[${this.fluxString(tag)}]`;
+      lines.push(
+        Array.isArray(value)
+          ? `|> filter(fn: (r) => contains(value: ${column}, set: [${value.map(v => this.fluxString(v)).join(', ')}]))`
+          : `|> filter(fn: (r) => ${column} == ${this.fluxString(value)})`,
+      );
+    }
+
+    if (query.latestBy) {
+      const columns = [...query.latestBy, '_field'].map(column => this.fluxString(column)).join(', ');
+      lines.push(`|> group(columns: [${columns}])`, '|> sort(columns: ["_time"])', '|> last()');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Quote a value as a Flux string literal
+   */
+  private fluxString(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\$\{/g, '\\${')}"`;
+  }
+}
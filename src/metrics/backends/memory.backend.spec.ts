@@ -0,0 +1,105 @@
+import { MemoryTimeSeriesBackend } from '@metrics/backends/memory.backend';
+import { MetricPoint } from '@metrics/metric-point';
+
+const point = (endpoint: string, latency: number, time: string) =>
+  new MetricPoint('rpc_latency')
+    .tag('endpoint', endpoint)
+    .tag('chainId', '50')
+    .intField('latency', latency)
+    .timestamp(new Date(time));
+
+describe('MemoryTimeSeriesBackend', () => {
+  let backend: MemoryTimeSeriesBackend;
+
+  beforeEach(async () => {
+    backend = new MemoryTimeSeriesBackend(100);
+    await backend.connect();
+  });
+
+  it('returns the points of a measurement in the time range, oldest first', async () => {
+    await backend.write([
+      point('rpc1', 120, '2024-01-01T00:02:00Z'),
+      point('rpc1', 100, '2024-01-01T00:00:00Z'),
+      new MetricPoint('peer_count').intField('count', 12).timestamp(new Date('2024-01-01T00:01:00Z')),
+      point('rpc1', 300, '2024-01-01T01:00:00Z'),
+    ]);
+
+    const records = await backend.query({
+      measurement: 'rpc_latency',
+      start: new Date('2024-01-01T00:00:00Z'),
+      end: new Date('2024-01-01T00:30:00Z'),
+    });
+
+    expect(records).toEqual([
+      {
+        measurement: 'rpc_latency',
+        timestamp: new Date('2024-01-01T00:00:00Z'),
+        tags: { endpoint: 'rpc1', chainId: '50' },
+        fields: { latency: 100 },
+      },
+      {
+        measurement: 'rpc_latency',
+        timestamp: new Date('2024-01-01T00:02:00Z'),
+        tags: { endpoint: 'rpc1', chainId: '50' },
+        fields: { latency: 120 },
+      },
+    ]);
+  });
+
+  it('filters on single tag values and lists of values', async () => {
+    await backend.write([
+      point('rpc1', 100, '2024-01-01T00:00:00Z'),
+      point('rpc2', 200, '2024-01-01T00:00:00Z'),
+      point('rpc3', 300, '2024-01-01T00:00:00Z'),
+    ]);
+    const start = new Date('2024-01-01T00:00:00Z');
+
+    const single = await backend.query({ measurement: 'rpc_latency', start, tags: { endpoint: 'rpc2' } });
+    const list = await backend.query({ measurement: 'rpc_latency', start, tags: { endpoint: ['rpc1', 'rpc3'] } });
+
+    expect(single.map(record => record.fields.latency)).toEqual([200]);
+    expect(list.map(record => record.fields.latency)).toEqual([100, 300]);
+  });
+
+  it('keeps the latest point of each group for latestBy queries', async () => {
+    await backend.write([
+      point('rpc1', 100, '2024-01-01T00:00:00Z'),
+      point('rpc2', 200, '2024-01-01T00:01:00Z'),
+      point('rpc1', 150, '2024-01-01T00:02:00Z'),
+    ]);
+
+    const records = await backend.query({
+      measurement: 'rpc_latency',
+      start: new Date('2024-01-01T00:00:00Z'),
+      latestBy: ['endpoint'],
+    });
+
+    expect(records.map(record => [record.tags.endpoint, record.fields.latency])).toEqual([
+      ['rpc1', 150],
+      ['rpc2', 200],
+    ]);
+  });
+
+  it('only keeps the most recent points once the limit is reached', async () => {
+    backend = new MemoryTimeSeriesBackend(2);
+    await backend.write([
+      point('rpc1', 100, '2024-01-01T00:00:00Z'),
+      point('rpc1', 110, '2024-01-01T00:01:00Z'),
+      point('rpc1', 120, '2024-01-01T00:02:00Z'),
+    ]);
+
+    const records = await backend.query({ measurement: 'rpc_latency', start: new Date('2024-01-01T00:00:00Z') });
+
+    expect(records.map(record => record.fields.latency)).toEqual([110, 120]);
+  });
+
+  it('copies tags so later changes to a point do not alter stored records', async () => {
+    const written = point('rpc1', 100, '2024-01-01T00:00:00Z');
+    await backend.write([written]);
+    written.tag('endpoint', 'changed');
+
+    const [record] = await backend.query({ measurement: 'rpc_latency', start: new Date('2024-01-01T00:00:00Z') });
+
+    expect(record.tags.endpoint).toBe('rpc1');
+  });
+});
@@ -0,0 +1,58 @@
+import { MetricPoint } from '@metrics/metric-point';
+import { MetricQuery, MetricRecord, TimeSeriesBackend } from '@types';
+
+/**
+ * Time-series backend that only keeps the most recent points in process memory
+ * Useful for development and tests where no database should be needed
+ */
+export class MemoryTimeSeriesBackend implements TimeSeriesBackend {
+  readonly name = 'memory';
+  private records: MetricRecord[] = [];
+
+  constructor(private readonly maxPoints: number) {}
+
+  async connect(): Promise<void> {}
+
+  async write(points: MetricPoint[]): Promise<void> {
+    for (const point of points) {
+      this.records.push({
+        measurement: point.measurement,
+        timestamp: point.time,
+        tags: { ...point.tags },
+        fields: point.getFieldValues(),
+      });
+    }
+
+    if (this.records.length > this.maxPoints) {
+      this.records = this.records.slice(-this.maxPoints);
+    }
+  }
+
+  async query(query: MetricQuery): Promise<MetricRecord[]> {
+    const start = query.start.getTime();
+    const end = (query.end ?? new Date()).getTime();
+
+    const matches = this.records
+      .filter(
+        record =>
+          record.measurement === query.measurement &&
+          record.timestamp.getTime() >= start &&
+          record.timestamp.getTime() <= end &&
+          Object.entries(query.tags ?? {}).every(([tag, value]) =>
+            Array.isArray(value) ? value.includes(record.tags[tag]) : record.tags[tag] === value,
+          ),
+      )
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    if (!query.latestBy) return matches;
+
+    // Keep the last point of each group, matches are sorted oldest first
+    const latest = new Map<string, MetricRecord>();
+    for (const record of matches) {
+      latest.set(JSON.stringify(query.latestBy.map(tag => record.tags[tag])), record);
+    }
+    return Array.from(latest.values());
+  }
+
+  async close(): Promise<void> {}
+}
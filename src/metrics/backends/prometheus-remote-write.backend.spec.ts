@@ -0,0 +1,199 @@
+import { ConfigurationError } from '@common/utils/error-handler';
+import { PrometheusRemoteWriteBackend } from '@metrics/backends/prometheus-remote-write.backend';
+import { MetricPoint } from '@metrics/metric-point';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { uncompress } from 'snappyjs';
+
+interface DecodedSeries {
+  labels: Record<string, string>;
+  samples: { value: number; timestamp: number }[];
+}
+
+/**
+ * Read the fields of a protobuf message as [field number, raw value] pairs
+ */
+function readFields(buffer: Buffer): [number, Buffer | number][] {
+  const fields: [number, Buffer | number][] = [];
+  let offset = 0;
+
+  const readVarint = () => {
+    let value = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      byte = buffer[offset++];
+      value += (byte & 0x7f) * multiplier;
+      multiplier *= 0x80;
+    } while (byte & 0x80);
+    return value;
+  };
+
+  while (offset < buffer.length) {
+    const key = readVarint();
+    const wireType = key & 0x07;
+    if (wireType === 0) {
+      fields.push([key >> 3, readVarint()]);
+    } else if (wireType === 1) {
+      fields.push([key >> 3, buffer.subarray(offset, offset + 8)]);
+      offset += 8;
+    } else {
+      const length = readVarint();
+      fields.push([key >> 3, buffer.subarray(offset, offset + length)]);
+      offset += length;
+    }
+  }
+
+  return fields;
+}
+
+function decodeWriteRequest(body: Buffer): DecodedSeries[] {
+  return readFields(body).map(([, series]) => {
+    const decoded: DecodedSeries = { labels: {}, samples: [] };
+    for (const [field, value] of readFields(series as Buffer)) {
+      const parts = new Map(readFields(value as Buffer));
+      if (field === 1) {
+        decoded.labels[String(parts.get(1))] = String(parts.get(2));
+      } else {
+        decoded.samples.push({ value: (parts.get(1) as Buffer).readDoubleLE(), timestamp: parts.get(2) as number });
+      }
+    }
+    return decoded;
+  });
+}
+
+/**
+ * Local remote-write receiver that decodes every request posted to it
+ */
+class RemoteWriteReceiver {
+  requests: { headers: IncomingHttpHeaders; series: DecodedSeries[] }[] = [];
+  status = 204;
+
+  private server: Server;
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const body = Buffer.from(uncompress(Buffer.concat(chunks)));
+        this.requests.push({ headers: req.headers, series: decodeWriteRequest(body) });
+        res.statusCode = this.status;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/api/v1/write`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+describe('PrometheusRemoteWriteBackend', () => {
+  let receiver: RemoteWriteReceiver;
+  let url: string;
+
+  beforeEach(async () => {
+    receiver = new RemoteWriteReceiver();
+    url = await receiver.start();
+  });
+
+  afterEach(() => receiver.stop());
+
+  it('requires a remote-write URL', () => {
+    expect(() => new PrometheusRemoteWriteBackend({ url: '' })).toThrow(ConfigurationError);
+  });
+
+  it('posts a snappy-compressed WriteRequest with one series per numeric or boolean field', async () => {
+    const backend = new PrometheusRemoteWriteBackend({ url });
+
+    await backend.write([
+      new MetricPoint('rpc_latency')
+        .tag('endpoint', 'https://rpc.example.org')
+        .tag('chainId', '50')
+        .floatField('latency', 12.5)
+        .booleanField('up', true)
+        .stringField('error', 'none')
+        .timestamp(new Date(1_700_000_000_000)),
+    ]);
+
+    expect(receiver.requests).toHaveLength(1);
+    expect(receiver.requests[0].headers).toMatchObject({
+      'content-type': 'application/x-protobuf',
+      'content-encoding': 'snappy',
+      'x-prometheus-remote-write-version': '0.1.0',
+    });
+    expect(receiver.requests[0].series).toEqual([
+      {
+        labels: { __name__: 'rpc_latency_latency', chainId: '50', endpoint: 'https://rpc.example.org' },
+        samples: [{ value: 12.5, timestamp: 1_700_000_000_000 }],
+      },
+      {
+        labels: { __name__: 'rpc_latency_up', chainId: '50', endpoint: 'https://rpc.example.org' },
+        samples: [{ value: 1, timestamp: 1_700_000_000_000 }],
+      },
+    ]);
+  });
+
+  it('sorts the samples of a series, a later point in the same millisecond wins', async () => {
+    const backend = new PrometheusRemoteWriteBackend({ url });
+    const at = (time: number, value: number) =>
+      new MetricPoint('block_height').intField('height', value).timestamp(new Date(time));
+
+    await backend.write([at(3000, 30), at(1000, 10), at(1000, 11)]);
+
+    expect(receiver.requests[0].series[0].samples).toEqual([
+      { value: 11, timestamp: 1000 },
+      { value: 30, timestamp: 3000 },
+    ]);
+  });
+
+  it('sanitizes metric and label names', async () => {
+    const backend = new PrometheusRemoteWriteBackend({ url });
+
+    await backend.write([new MetricPoint('subnet-checkpoint').tag('9chain.id', '1').intField('lag.blocks', 2)]);
+
+    expect(receiver.requests[0].series[0].labels).toEqual({
+      __name__: 'subnet_checkpoint_lag_blocks',
+      _9chain_id: '1',
+    });
+  });
+
+  it('sends bearer token or basic credentials', async () => {
+    await new PrometheusRemoteWriteBackend({ url, bearerToken: 'secret' }).write([
+      new MetricPoint('m').intField('v', 1),
+    ]);
+    await new PrometheusRemoteWriteBackend({ url, username: 'user', password: 'pass' }).write([
+      new MetricPoint('m').intField('v', 1),
+    ]);
+
+    expect(receiver.requests.map(request => request.headers.authorization)).toEqual([
+      'Bearer secret',
+      `Basic ${Buffer.from('user:pass').toString('base64')}`,
+    ]);
+  });
+
+  it('does not post points without numeric fields', async () => {
+    const backend = new PrometheusRemoteWriteBackend({ url });
+
+    await backend.write([new MetricPoint('alerts').stringField('message', 'text only')]);
+
+    expect(receiver.requests).toHaveLength(0);
+  });
+
+  it('fails with the receiver status so the caller can tell outages from rejections', async () => {
+    const backend = new PrometheusRemoteWriteBackend({ url });
+
+    receiver.status = 503;
+    await expect(backend.write([new MetricPoint('m').intField('v', 1)])).rejects.toMatchObject({
+      response: { status: 503 },
+    });
+
+    receiver.status = 400;
+    await expect(backend.write([new MetricPoint('m').intField('v', 1)])).rejects.toMatchObject({
+      response: { status: 400 },
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { ConfigurationError } from '@common/utils/error-handler';
+import { MetricPoint } from '@metrics/metric-point';
+import { PrometheusRemoteWriteConfig, TimeSeriesBackend } from '@types';
+import axios from 'axios';
+import { compress } from 'snappyjs';
+
+interface RemoteWriteSeries {
+  labels: [string, string][];
+  samples: { value: number; timestamp: number }[];
+}
+
+/**
+ * Time-series backend pushing points to a Prometheus remote-write endpoint
+ * (Prometheus, Mimir, Cortex, Thanos receive, VictoriaMetrics...)
+ *
+ * Every numeric or boolean field becomes a series named <measurement>_<field> labelled with the point tags.
+ * String fields are not representable and are skipped. The backend is write-only, history queries fall
+ * back to in-memory data.
+ */
+export class PrometheusRemoteWriteBackend implements TimeSeriesBackend {
+  readonly name = 'prometheus-remote-write';
+  private readonly headers: Record<string, string>;
+
+  constructor(private readonly config: PrometheusRemoteWriteConfig) {
+    if (!config.url) {
+      throw new ConfigurationError(
+        'PROMETHEUS_REMOTE_WRITE_URL is required for the prometheus-remote-write metrics backend',
+      );
+    }
+
+    this.headers = {
+      'Content-Type': 'application/x-protobuf',
+      'Content-Encoding': 'snappy',
+      'X-Prometheus-Remote-Write-Version': '0.1.0',
+    };
+    if (config.bearerToken) {
+      this.headers.Authorization = `Bearer ${config.bearerToken}`;
+    } else if (config.username) {
+      this.headers.Authorization = `Basic ${Buffer.from(`${config.username}:${config.password ?? ''}`).toString('base64')}`;
+    }
+  }
+
+  async connect(): Promise<void> {}
+
+  async write(points: MetricPoint[]): Promise<void> {
+    const series = this.toSeries(points);
+    if (series.length === 0) return;
+
+    const body = compress(encodeWriteRequest(series));
+    await axios.post(this.config.url, Buffer.from(body), { headers: this.headers, timeout: 30000 });
+  }
+
+  async close(): Promise<void> {}
+
+  /**
+   * Group point fields into series, samples of a series must be in time order with unique timestamps
+   */
+  private toSeries(points: MetricPoint[]): RemoteWriteSeries[] {
+    const seriesByKey = new Map<string, { labels: [string, string][]; samples: Map<number, number> }>();
+
+    for (const point of points) {
+      const tags = Object.entries(point.tags).map(([name, value]): [string, string] => [sanitizeName(name), value]);
+
+      for (const [fieldName, field] of Object.entries(point.fields)) {
+        if (field.type === 'string') continue;
+
+        const labels: [string, string][] = [['__name__', sanitizeName(`${point.measurement}_${fieldName}`)], ...tags];
+        labels.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+        const key = JSON.stringify(labels);
+        if (!seriesByKey.has(key)) {
+          seriesByKey.set(key, { labels, samples: new Map() });
+        }
+        // Later points recorded in the same millisecond replace earlier ones
+        seriesByKey
+          .get(key)
+          .samples.set(point.time.getTime(), field.type === 'boolean' ? (field.value ? 1 : 0) : Number(field.value));
+      }
+    }
+
+    return Array.from(seriesByKey.values()).map(({ labels, samples }) => ({
+      labels,
+      samples: Array.from(samples.entries())
+        .map(([timestamp, value]) => ({ value, timestamp }))
+        .sort((a, b) => a.timestamp - b.timestamp),
+    }));
+  }
+}
+
+/**
+ * Replace characters that are not valid in Prometheus metric and label names
+ */
+function sanitizeName(name: string): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_]/g, '_');
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+//
+// Minimal protobuf encoding of the remote-write WriteRequest message:
+//   WriteRequest { repeated TimeSeries timeseries = 1; }
+//   TimeSeries   { repeated Label labels = 1; repeated Sample samples = 2; }
+//   Label        { string name = 1; string value = 2; }
+//   Sample       { double value = 1; int64 timestamp = 2; }
+//
+
+function encodeWriteRequest(series: RemoteWriteSeries[]): Buffer {
+  return Buffer.concat(
+    series.map(({ labels, samples }) =>
+      lengthDelimited(
+        1,
+        Buffer.concat([
+          ...labels.map(([name, value]) =>
+            lengthDelimited(1, Buffer.concat([lengthDelimited(1, name), lengthDelimited(2, value)])),
+          ),
+          ...samples.map(sample => lengthDelimited(2, encodeSample(sample.value, sample.timestamp))),
+        ]),
+      ),
+    ),
+  );
+}
+
+function encodeSample(value: number, timestamp: number): Buffer {
+  const double = Buffer.alloc(8);
+  double.writeDoubleLE(value);
+  return Buffer.concat([varint(fieldKey(1, 1)), double, varint(fieldKey(2, 0)), varint(timestamp)]);
+}
+
+function lengthDelimited(fieldNumber: number, content: Buffer | string): Buffer {
+  const bytes = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+  return Buffer.concat([varint(fieldKey(fieldNumber, 2)), varint(bytes.length), bytes]);
+}
+
+function fieldKey(fieldNumber: number, wireType: number): number {
+  return fieldNumber * 8 + wireType;
+}
+
+/**
+ * Encode a non-negative integer as a protobuf varint (safe up to 2^53, enough for ms timestamps)
+ */
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value;
+
+  while (remaining >= 0x80) {
+    bytes.push(remaining % 0x80 | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+
+  return Buffer.from(bytes);
+}
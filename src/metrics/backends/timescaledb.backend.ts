@@ -0,0 +1,110 @@
+import { ConfigurationError } from '@common/utils/error-handler';
+import { MetricPoint } from '@metrics/metric-point';
+import { Logger } from '@nestjs/common';
+import { MetricQuery, MetricRecord, TimescaleDbConfig, TimeSeriesBackend } from '@types';
+import { Pool } from 'pg';
+
+/**
+ * Time-series backend storing points in a TimescaleDB hypertable
+ *
+ * Tags and fields are kept as JSONB columns so new measurements need no migration. The table is
+ * created on connect and turned into a hypertable when the timescaledb extension is installed,
+ * otherwise it works as a plain PostgreSQL table.
+ */
+export class TimescaleDbTimeSeriesBackend implements TimeSeriesBackend {
+  readonly name = 'timescaledb';
+  private readonly logger = new Logger(TimescaleDbTimeSeriesBackend.name);
+  private pool: Pool | null = null;
+
+  constructor(private readonly config: TimescaleDbConfig) {
+    if (!config.connectionString) {
+      throw new ConfigurationError('TIMESCALEDB_URL is required for the timescaledb metrics backend');
+    }
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(config.table)) {
+      throw new ConfigurationError(`Invalid TimescaleDB table name: ${config.table}`, 'TIMESCALEDB_TABLE');
+    }
+  }
+
+  async connect(): Promise<void> {
+    await this.pool?.end().catch(() => undefined);
+    this.pool = new Pool({ connectionString: this.config.connectionString, max: 5 });
+    // Idle client errors would otherwise crash the process, the next write reports the failure
+    this.pool.on('error', error => this.logger.warn(`TimescaleDB connection error: ${error.message}`));
+
+    const table = this.config.table;
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        time TIMESTAMPTZ NOT NULL,
+        measurement TEXT NOT NULL,
+        tags JSONB NOT NULL,
+        fields JSONB NOT NULL
+      )
+    `);
+    await this.pool.query(
+      `CREATE INDEX IF NOT EXISTS ${table}_measurement_time_idx ON ${table} (measurement, time DESC)`,
+    );
+
+    const { rowCount } = await this.pool.query(`SELECT 1 FROM pg_extension WHERE extname = 'timescaledb'`);
+    if (rowCount > 0) {
+      await this.pool.query(`SELECT create_hypertable($1, 'time', if_not_exists => TRUE)`, [table]);
+    }
+  }
+
+  async write(points: MetricPoint[]): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO ${this.config.table} (time, measurement, tags, fields)
+       SELECT * FROM unnest($1::timestamptz[], $2::text[], $3::jsonb[], $4::jsonb[])`,
+      [
+        points.map(point => point.time),
+        points.map(point => point.measurement),
+        points.map(point => JSON.stringify(point.tags)),
+        points.map(point => JSON.stringify(point.getFieldValues())),
+      ],
+    );
+  }
+
+  async query(query: MetricQuery): Promise<MetricRecord[]> {
+    const params: unknown[] = [query.measurement, query.start, query.end ?? new Date()];
+    const param = (value: unknown) => `$${params.push(value)}`;
+
+    const conditions = ['measurement = $1', 'time >= $2', 'time <= $3'];
+    for (const [tag, value] of Object.entries(query.tags ?? {})) {
+      conditions.push(
+        Array.isArray(value)
+          ? `tags->>${param(tag)} = ANY(${param(value)}::text[])`
+          : `tags->>${param(tag)} = ${param(value)}`,
+      );
+    }
+
+    let sql: string;
+    if (query.latestBy?.length) {
+      const groups = query.latestBy.map(tag => `tags->>${param(tag)}`).join(', ');
+      sql = `SELECT * FROM (
+               SELECT DISTINCT ON (${groups}) time, tags, fields FROM ${this.config.table}
+               WHERE ${conditions.join(' AND ')}
+               ORDER BY ${groups}, time DESC
+             ) latest ORDER BY time`;
+    } else if (query.latestBy) {
+      sql = `SELECT time, tags, fields FROM ${this.config.table} WHERE ${conditions.join(' AND ')} ORDER BY time DESC LIMIT 1`;
+    } else {
+      sql = `SELECT time, tags, fields FROM ${this.config.table} WHERE ${conditions.join(' AND ')} ORDER BY time`;
+    }
+
+    const { rows } = await this.pool.query<{
+      time: Date;
+      tags: Record<string, string>;
+      fields: MetricRecord['fields'];
+    }>(sql, params);
+    return rows.map(row => ({
+      measurement: query.measurement,
+      timestamp: row.time,
+      tags: row.tags,
+      fields: row.fields,
+    }));
+  }
+
+  async close(): Promise<void> {
+    await this.pool?.end();
+    this.pool = null;
+  }
+}
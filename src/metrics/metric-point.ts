@@ -0,0 +1,59 @@
+import { MetricField } from '@types';
+
+/**
+ * Backend-neutral time-series point
+ *
+ * Mirrors the InfluxDB Point builder so measurements, tags and typed fields are described once and
+ * every time-series backend maps them to its own storage format.
+ */
+export class MetricPoint {
+  readonly tags: Record<string, string> = {};
+  readonly fields: Record<string, MetricField> = {};
+  // Recording time unless set explicitly, so buffered points keep the time they were recorded at
+  time = new Date();
+
+  constructor(readonly measurement: string) {}
+
+  tag(name: string, value: string): this {
+    this.tags[name] = value;
+    return this;
+  }
+
+  intField(name: string, value: number): this {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid int field ${name}: ${value}`);
+    }
+    this.fields[name] = { type: 'int', value: Math.trunc(value) };
+    return this;
+  }
+
+  floatField(name: string, value: number): this {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Invalid float field ${name}: ${value}`);
+    }
+    this.fields[name] = { type: 'float', value };
+    return this;
+  }
+
+  stringField(name: string, value: string): this {
+    this.fields[name] = { type: 'string', value };
+    return this;
+  }
+
+  booleanField(name: string, value: boolean): this {
+    this.fields[name] = { type: 'boolean', value };
+    return this;
+  }
+
+  timestamp(time: Date): this {
+    this.time = time;
+    return this;
+  }
+
+  /**
+   * Field values without their types
+   */
+  getFieldValues(): Record<string, number | string | boolean> {
+    return Object.fromEntries(Object.entries(this.fields).map(([name, field]) => [name, field.value]));
+  }
+}
@@ -0,0 +1,265 @@
+import { MetricPoint } from '@metrics/metric-point';
+import { Logger } from '@nestjs/common';
+import { DroppedPointReason, MetricField, MetricsSpoolConfig } from '@types';
+import { promises as fs } from 'fs';
+import { isAbsolute, join } from 'path';
+
+const SEGMENT_FILE_PATTERN = /^(\d+)\.jsonl$/;
+const MAX_SEGMENT_BYTES = 1024 * 1024; // 1 MB
+
+interface SpoolSegment {
+  seq: number;
+  file: string;
+  bytes: number;
+  points: number;
+}
+
+/**
+ * A point as stored on disk, one JSON object per line
+ */
+interface SpooledPoint {
+  measurement: string;
+  time: number;
+  tags: Record<string, string>;
+  fields: Record<string, MetricField>;
+}
+
+/**
+ * Write-ahead log for points the time-series backend could not take
+ *
+ * Points are appended to numbered JSON-lines segment files and replayed oldest first once the backend is
+ * reachable again, so they keep their order and recording time across outages and restarts. When the
+ * spool grows past its size limit the oldest segment is dropped.
+ */
+export class MetricsSpool {
+  private readonly logger = new Logger(MetricsSpool.name);
+  private readonly directory: string;
+  private readonly segmentMaxBytes: number;
+  private segments: SpoolSegment[] = [];
+  private activeSegment: SpoolSegment | null = null;
+  private nextSeq = 1;
+  // Operations run one at a time so an append never races a replay rewriting the same segment
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly config: MetricsSpoolConfig,
+    private readonly onDrop: (reason: DroppedPointReason, count: number) => void,
+  ) {
+    this.directory = isAbsolute(config.path) ? config.path : join(process.cwd(), config.path);
+    // Small segments keep the amount of data lost to a single eviction low
+    this.segmentMaxBytes = Math.max(1, Math.min(MAX_SEGMENT_BYTES, Math.floor(config.maxBytes / 10)));
+  }
+
+  get path(): string {
+    return this.directory;
+  }
+
+  get bytes(): number {
+    return this.segments.reduce((total, segment) => total + segment.bytes, 0);
+  }
+
+  get points(): number {
+    return this.segments.reduce((total, segment) => total + segment.points, 0);
+  }
+
+  get segmentCount(): number {
+    return this.segments.length;
+  }
+
+  isEmpty(): boolean {
+    return this.segments.length === 0;
+  }
+
+  /**
+   * Pick up segments left over from a previous run
+   */
+  open(): Promise<void> {
+    return this.exclusive(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+
+      const files = (await fs.readdir(this.directory))
+        .filter(file => SEGMENT_FILE_PATTERN.test(file))
+        .sort((a, b) => segmentSeq(a) - segmentSeq(b));
+
+      this.segments = [];
+      for (const file of files) {
+        const content = await fs.readFile(join(this.directory, file), 'utf8');
+        this.segments.push({
+          seq: segmentSeq(file),
+          file,
+          bytes: Buffer.byteLength(content),
+          points: content.split('\n').filter(line => line.length > 0).length,
+        });
+      }
+
+      // A segment from a crashed run may end in a torn line, new points always start a fresh segment
+      this.activeSegment = null;
+      this.nextSeq = this.segments.length > 0 ? this.segments[this.segments.length - 1].seq + 1 : 1;
+
+      if (this.segments.length > 0) {
+        this.logger.log(`Found ${this.points} spooled metric points in ${this.segments.length} segments`);
+      }
+    });
+  }
+
+  /**
+   * Append points to the newest segment, starting new segments as they fill up
+   */
+  append(points: MetricPoint[]): Promise<void> {
+    if (points.length === 0) return Promise.resolve();
+
+    return this.exclusive(async () => {
+      const lines = points.map(point => `${JSON.stringify(toSpooledPoint(point))}\n`);
+
+      let index = 0;
+      while (index < lines.length) {
+        const isNewSegment = !this.activeSegment || this.activeSegment.bytes >= this.segmentMaxBytes;
+        const segment = isNewSegment ? this.createSegment() : this.activeSegment;
+
+        // Fill the segment up to its size, always taking at least one line
+        let bytes = 0;
+        const chunk: string[] = [];
+        while (index < lines.length && (chunk.length === 0 || segment.bytes + bytes < this.segmentMaxBytes)) {
+          bytes += Buffer.byteLength(lines[index]);
+          chunk.push(lines[index++]);
+        }
+
+        await fs.appendFile(join(this.directory, segment.file), chunk.join(''), 'utf8');
+        segment.bytes += bytes;
+        segment.points += chunk.length;
+
+        if (isNewSegment) {
+          this.segments.push(segment);
+          this.activeSegment = segment;
+        }
+      }
+
+      await this.enforceSizeLimit();
+    });
+  }
+
+  /**
+   * Hand spooled points to `write` in batches, oldest first, deleting each segment once it is written
+   * Stops at the first failed batch, that batch and everything after it stays in the spool.
+   *
+   * @returns Number of points written
+   */
+  replay(write: (points: MetricPoint[]) => Promise<void>, batchSize: number): Promise<number> {
+    return this.exclusive(async () => {
+      let replayed = 0;
+
+      while (this.segments.length > 0) {
+        const segment = this.segments[0];
+        const points = await this.readSegment(segment);
+
+        for (let offset = 0; offset < points.length; offset += batchSize) {
+          try {
+            await write(points.slice(offset, offset + batchSize));
+          } catch (error) {
+            await this.rewriteSegment(segment, points.slice(offset));
+            throw error;
+          }
+          replayed += Math.min(batchSize, points.length - offset);
+        }
+
+        await this.removeSegment(segment);
+      }
+
+      return replayed;
+    });
+  }
+
+  private createSegment(): SpoolSegment {
+    const seq = this.nextSeq++;
+    return { seq, file: `${String(seq).padStart(10, '0')}.jsonl`, bytes: 0, points: 0 };
+  }
+
+  /**
+   * Drop the oldest segments until the spool fits its size limit
+   */
+  private async enforceSizeLimit() {
+    while (this.segments.length > 0 && this.bytes > this.config.maxBytes) {
+      const oldest = this.segments[0];
+      await this.removeSegment(oldest);
+
+      this.logger.warn(`Metrics spool is over ${this.config.maxBytes} bytes, dropped ${oldest.points} oldest points`);
+      this.onDrop('spool_full', oldest.points);
+    }
+  }
+
+  private async readSegment(segment: SpoolSegment): Promise<MetricPoint[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(join(this.directory, segment.file), 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const points: MetricPoint[] = [];
+    let corrupt = 0;
+    for (const line of content.split('\n')) {
+      if (line.length === 0) continue;
+      try {
+        points.push(fromSpooledPoint(JSON.parse(line)));
+      } catch {
+        corrupt++;
+      }
+    }
+
+    if (corrupt > 0) {
+      this.logger.warn(`Skipped ${corrupt} unreadable lines in metrics spool segment ${segment.file}`);
+      this.onDrop('spool_corrupt', corrupt);
+    }
+    return points;
+  }
+
+  /**
+   * Replace a segment with the points that are still to be written
+   */
+  private async rewriteSegment(segment: SpoolSegment, points: MetricPoint[]) {
+    const filePath = join(this.directory, segment.file);
+    const content = points.map(point => `${JSON.stringify(toSpooledPoint(point))}\n`).join('');
+
+    await fs.writeFile(`${filePath}.tmp`, content, 'utf8');
+    await fs.rename(`${filePath}.tmp`, filePath);
+    segment.bytes = Buffer.byteLength(content);
+    segment.points = points.length;
+  }
+
+  private async removeSegment(segment: SpoolSegment) {
+    await fs.unlink(join(this.directory, segment.file)).catch(error => {
+      if (error.code !== 'ENOENT') throw error;
+    });
+
+    this.segments = this.segments.filter(existing => existing !== segment);
+    if (this.activeSegment === segment) {
+      this.activeSegment = null;
+    }
+  }
+
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(operation);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+}
+
+function segmentSeq(file: string): number {
+  return Number(SEGMENT_FILE_PATTERN.exec(file)[1]);
+}
+
+function toSpooledPoint(point: MetricPoint): SpooledPoint {
+  return { measurement: point.measurement, time: point.time.getTime(), tags: point.tags, fields: point.fields };
+}
+
+function fromSpooledPoint(spooled: SpooledPoint): MetricPoint {
+  if (typeof spooled.measurement !== 'string' || !Number.isFinite(spooled.time)) {
+    throw new Error('Invalid spooled point');
+  }
+
+  const point = new MetricPoint(spooled.measurement).timestamp(new Date(spooled.time));
+  Object.assign(point.tags, spooled.tags);
+  Object.assign(point.fields, spooled.fields);
+  return point;
+}
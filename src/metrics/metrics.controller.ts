@@ -1,17 +1,22 @@
 import { MetricsService } from '@metrics/metrics.service';
+import { ApiAuth } from '@docs/api-docs.decorators';
 import { Controller, Get, Header } from '@nestjs/common';
+import { ApiOkResponse, ApiProduces, ApiTags } from '@nestjs/swagger';
 
 /**
  * Controller for regular /metrics endpoint (with api prefix applied by NestJS)
  */
 @Controller('metrics')
+@ApiTags('Metrics')
+@ApiAuth()
 export class MetricsController {
   constructor(private readonly metricsService: MetricsService) {}
 
   @Get()
-  @Header('Content-Type', 'text/plain')
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  @ApiProduces('text/plain')
+  @ApiOkResponse({ description: 'Prometheus text exposition format', schema: { type: 'string' } })
   async getMetrics(): Promise<string> {
-    console.log('Metrics endpoint called');
     return this.metricsService.getMetrics();
   }
 }
@@ -1,11 +1,13 @@
 import { ConfigModule } from '@config/config.module';
 import { MetricsController } from '@metrics/metrics.controller';
 import { MetricsService } from '@metrics/metrics.service';
+import { PrometheusService } from '@metrics/prometheus.service';
+import { TelemetryService } from '@metrics/telemetry.service';
 import { Module } from '@nestjs/common';
 
 @Module({
   imports: [ConfigModule],
-  providers: [MetricsService],
+  providers: [MetricsService, PrometheusService, TelemetryService],
   controllers: [MetricsController],
   exports: [MetricsService],
 })
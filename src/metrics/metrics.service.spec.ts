@@ -0,0 +1,197 @@
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { PERFORMANCE } from '@common/constants/config';
+import { ConfigService } from '@config/config.service';
+import { HttpError } from '@influxdata/influxdb-client';
+import { MemoryTimeSeriesBackend } from '@metrics/backends/memory.backend';
+import { MetricPoint } from '@metrics/metric-point';
+import { MetricsService } from '@metrics/metrics.service';
+import { PrometheusService } from '@metrics/prometheus.service';
+import { Test } from '@nestjs/testing';
+import { TimeSeriesConfig } from '@types';
+import { AxiosError, AxiosResponse } from 'axios';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition ');
+    await new Promise(resolve => setImmediate(resolve));
+  }
+};
+
+const httpError = (status: number) =>
+  new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status,
+  } as AxiosResponse);
+
+const point = (value: number) => new MetricPoint('block_height').tag('chainId', '50').intField('height', value);
+
+describe('MetricsService', () => {
+  let spoolPath: string;
+  let service: MetricsService;
+  let backend: MemoryTimeSeriesBackend;
+  let prometheus: { recordDroppedMetricPoints: jest.Mock; setMetricsStorage: jest.Mock };
+
+  const flush = () => jest.advanceTimersByTime(5000);
+
+  beforeEach(async () => {
+    // Only timers are faked, file I/O keeps running on the real event loop
+    jest.useFakeTimers({
+      doNotFake: ['nextTick', 'setImmediate', 'clearImmediate', 'queueMicrotask', 'Date', 'hrtime', 'performance'],
+    });
+    spoolPath = await fs.mkdtemp(join(tmpdir(), 'metrics-spool-'));
+    prometheus = { recordDroppedMetricPoints: jest.fn(), setMetricsStorage: jest.fn() };
+
+    const timeSeries: TimeSeriesConfig = {
+      backend: 'memory',
+      remoteWrite: { url: '' },
+      timescale: { connectionString: '', table: 'metrics' },
+      memoryMaxPoints: 1000,
+      spool: { enabled: true, path: spoolPath, maxBytes: 10 * 1024 * 1024 },
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        MetricsService,
+        { provide: ConfigService, useValue: { getTimeSeriesConfig: () => timeSeries } },
+        { provide: PrometheusService, useValue: prometheus },
+        { provide: ChainRegistryService, useValue: {} },
+      ],
+    }).compile();
+
+    moduleRef.useLogger(false);
+    service = moduleRef.get(MetricsService);
+    backend = service['backend'] as MemoryTimeSeriesBackend;
+
+    await service.onModuleInit();
+    // Backend connection is delayed after startup
+    jest.advanceTimersByTime(3000);
+    await waitFor(() => service.getStorageStatus().connected);
+  });
+
+  afterEach(async () => {
+    await service.onApplicationShutdown();
+    jest.useRealTimers();
+    await fs.rm(spoolPath, { recursive: true, force: true });
+  });
+
+  describe('write failures', () => {
+    it.each([
+      ['a remote-write 503', httpError(503)],
+      ['a remote-write 429', httpError(429)],
+      ['an InfluxDB 503', new HttpError(503, 'Service Unavailable')],
+      ['a terminated PostgreSQL connection', new Error('Connection terminated unexpectedly')],
+      [
+        'a PostgreSQL server starting up',
+        Object.assign(new Error('the database system is starting up'), { code: '57P03' }),
+      ],
+      [
+        'a refused connection',
+        Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:8086'), { code: 'ECONNREFUSED' }),
+      ],
+    ])('spools the batch after %s and waits for the backend', async (_, error) => {
+      jest.spyOn(backend, 'write').mockRejectedValueOnce(error);
+
+      service.writePoint(point(1));
+      flush();
+      await waitFor(() => service.getStorageStatus().spool.points === 1);
+
+      expect(service.getStorageStatus()).toMatchObject({ connected: false, droppedPoints: { rejected: 0 } });
+      expect(prometheus.recordDroppedMetricPoints).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['a remote-write 400', httpError(400)],
+      ['an InfluxDB 422', new HttpError(422, 'Unprocessable Entity')],
+      [
+        'an invalid PostgreSQL value',
+        Object.assign(new Error('invalid input syntax for type integer'), { code: '22P02' }),
+      ],
+    ])('drops the batch rejected with %s', async (_, error) => {
+      jest.spyOn(backend, 'write').mockRejectedValueOnce(error);
+
+      service.writePoint(point(1));
+      flush();
+      await waitFor(() => service.getStorageStatus().droppedPoints.rejected === 1);
+
+      expect(service.getStorageStatus()).toMatchObject({ connected: true, spool: { points: 0 } });
+      expect(prometheus.recordDroppedMetricPoints).toHaveBeenCalledWith('rejected', 1);
+    });
+  });
+
+  describe('outage spool', () => {
+    it('spools points while the backend answers 503 and replays them in order once it recovers', async () => {
+      const written: number[] = [];
+      let attempts = 0;
+      let available = false;
+      const write = backend.write.bind(backend);
+      jest.spyOn(backend, 'write').mockImplementation(async points => {
+        attempts++;
+        if (!available) throw new HttpError(503, 'Service Unavailable');
+        written.push(...points.map(({ fields }) => fields.height.value as number));
+        return write(points);
+      });
+
+      [1, 2, 3].forEach(value => service.writePoint(point(value)));
+      flush();
+      await waitFor(() => service.getStorageStatus().spool.points === 3);
+
+      // Points recorded during the outage join the spool, a replay against the failing backend keeps them all
+      [4, 5].forEach(value => service.writePoint(point(value)));
+      flush();
+      await waitFor(() => service.getStorageStatus().spool.points === 5);
+      flush();
+      await waitFor(() => attempts >= 2 && !service.getStorageStatus().connected);
+      expect(service.getStorageStatus().spool.points).toBe(5);
+
+      available = true;
+      flush();
+      await waitFor(() => service.getStorageStatus().connected && service.getStorageStatus().spool.points === 0);
+
+      service.writePoint(point(6));
+      flush();
+      await waitFor(() => written.length === 6);
+
+      expect(written).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(await service.queryMetrics({ measurement: 'block_height', start: new Date(0) })).toHaveLength(6);
+      expect(service.getStorageStatus()).toMatchObject({
+        queuedPoints: 0,
+        spool: { points: 0, segments: 0 },
+        droppedPoints: { queue_full: 0, spool_full: 0, spool_corrupt: 0, rejected: 0 },
+      });
+    });
+  });
+
+  describe('chunked queries', () => {
+    const DAY_MS = PERFORMANCE.METRICS_QUERY.CHUNK_MS;
+    const start = new Date('2024-01-01T00:00:00Z');
+    const at = (offsetMs: number) => point(offsetMs).timestamp(new Date(start.getTime() + offsetMs));
+
+    it('reads the range one chunk at a time and passes a boundary point only with the later chunk', async () => {
+      await backend.write([at(0), at(DAY_MS - 1), at(DAY_MS), at(2 * DAY_MS), at(2 * DAY_MS + 1000)]);
+      const querySpy = jest.spyOn(backend, 'query');
+      const chunks: number[][] = [];
+
+      const queried = await service.queryMetricsInChunks(
+        { measurement: 'block_height', start, end: new Date(start.getTime() + 2 * DAY_MS + 1000) },
+        records => {
+          chunks.push(records.map(({ fields }) => fields.height as number));
+        },
+      );
+
+      expect(queried).toBe(true);
+      expect(querySpy).toHaveBeenCalledTimes(3);
+      expect(chunks).toEqual([[0, DAY_MS - 1], [DAY_MS], [2 * DAY_MS, 2 * DAY_MS + 1000]]);
+    });
+
+    it('reports a backend that cannot be queried', async () => {
+      service['connected'] = false;
+      const onChunk = jest.fn();
+
+      expect(await service.queryMetricsInChunks({ measurement: 'block_height', start }, onChunk)).toBe(false);
+      expect(onChunk).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,22 +1,48 @@
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { PERFORMANCE } from '@common/constants/config';
 import { ConfigService } from '@config/config.service';
-import { InfluxDB, Point, WriteApi } from '@influxdata/influxdb-client';
 import { Alert } from '@alerts/alert.service';
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import { MinerRecord, MinerStatus } from '@types';
+import { InfluxDbTimeSeriesBackend } from '@metrics/backends/influxdb.backend';
+import { MemoryTimeSeriesBackend } from '@metrics/backends/memory.backend';
+import { PrometheusRemoteWriteBackend } from '@metrics/backends/prometheus-remote-write.backend';
+import { TimescaleDbTimeSeriesBackend } from '@metrics/backends/timescaledb.backend';
+import { MetricPoint } from '@metrics/metric-point';
+import { MetricsSpool } from '@metrics/metrics-spool';
+import { PrometheusService } from '@metrics/prometheus.service';
+import { Injectable, Logger, OnApplicationShutdown, OnModuleInit } from '@nestjs/common';
+import {
+  DroppedPointReason,
+  EpochRewardSummary,
+  MetricQuery,
+  MetricRecord,
+  MetricsStorageStatus,
+  MinerStatus,
+  NodeReward,
+  TimeSeriesBackend,
+} from '@types';
 
 /**
- * InfluxDB Metrics Service
- * Handles all metrics recording and InfluxDB communication with optimized sentinel value support
+ * Metrics Service
+ * Handles all metrics recording with optimized sentinel value support. Points are batched and written
+ * to the configured time-series backend (InfluxDB by default) and mirrored to the Prometheus registry.
+ * While the backend is unreachable points are spooled to disk and replayed in order on reconnect.
  */
 @Injectable()
-export class MetricsService implements OnModuleInit {
+export class MetricsService implements OnModuleInit, OnApplicationShutdown {
   private readonly logger = new Logger(MetricsService.name);
-  private influxClient: InfluxDB;
-  private writeApi: WriteApi;
+  private readonly backend: TimeSeriesBackend;
+  private spool: MetricsSpool | null = null;
   private connected = false;
   private reconnectAttempts = 0;
-  private connectionQueue: Point[] = [];
+  private pendingPoints: MetricPoint[] = [];
   private isWriteInProgress = false;
+  private flushInterval: NodeJS.Timeout | null = null;
+  private readonly droppedPoints: Record<DroppedPointReason, number> = {
+    queue_full: 0,
+    spool_full: 0,
+    spool_corrupt: 0,
+    rejected: 0,
+  };
 
   // Configuration constants
   private readonly MAX_RECONNECT_ATTEMPTS = 10;
@@ -24,11 +50,24 @@ export class MetricsService implements OnModuleInit {
   private readonly BATCH_SIZE = 20; // Batch writes to reduce number of requests
   private readonly FLUSH_INTERVAL = 5000; // Flush every 5 seconds
   private readonly MAX_QUEUE_SIZE = 1000; // Maximum queue size to prevent memory issues
+  private readonly REPLAY_BATCH_SIZE = 500; // Points per write when replaying the spool
+  private readonly HISTORY_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000; // How far back persisted state is looked up
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prometheus: PrometheusService,
+    private readonly chainRegistry: ChainRegistryService,
+  ) {
+    this.backend = this.createBackend();
+
+    const spoolConfig = this.configService.getTimeSeriesConfig().spool;
+    if (spoolConfig.enabled) {
+      this.spool = new MetricsSpool(spoolConfig, (reason, count) => this.recordDroppedPoints(reason, count));
+    }
 
-  constructor(private readonly configService: ConfigService) {
-    // Add a small delay to ensure InfluxDB is ready
+    // Add a small delay to ensure the database is ready
     // This helps especially when running outside Docker
-    setTimeout(() => this.initializeInfluxDB(), 3000); // 3 second delay
+    setTimeout(() => this.connectBackend(), 3000); // 3 second delay
   }
 
   /**
@@ -52,51 +91,87 @@ export class MetricsService implements OnModuleInit {
   /**
    * Initialize the service when the module is loaded
    */
-  onModuleInit() {
-    const influxConfig = this.configService.getInfluxDbConfig();
-    this.logger.log('InfluxDB metrics service initialized');
-    this.logger.log(`Using bucket: ${influxConfig.bucket}`);
+  async onModuleInit() {
+    this.logger.log(`Metrics service initialized with ${this.backend.name} backend`);
+    if (this.backend.name === 'influxdb') {
+      this.logger.log(`Using bucket: ${this.configService.getInfluxDbConfig().bucket}`);
+    }
     this.logger.log(
       `Metrics will be batched (size: ${this.BATCH_SIZE}) and flushed every ${this.FLUSH_INTERVAL / 1000} seconds`,
     );
+
+    // Flush from the start so points are spooled even if the backend never comes up
+    this.setupPeriodicFlush();
+
+    if (this.spool) {
+      try {
+        await this.spool.open();
+        this.logger.log(`Spooling metrics to ${this.spool.path} while the backend is unavailable`);
+      } catch (error) {
+        this.logger.error(`Failed to open metrics spool at ${this.spool.path}, spooling disabled: ${error.message}`);
+        this.spool = null;
+      }
+    }
+  }
+
+  /**
+   * Write pending points and close the backend
+   */
+  async onApplicationShutdown() {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+
+    await this.flushMetrics();
+    // Whatever could not be written is kept on disk for the next start
+    if (this.spool && this.pendingPoints.length > 0) {
+      await this.spoolPoints(this.takePendingPoints());
+    }
+    await this.backend.close().catch(error => this.logger.warn(`Failed to close metrics backend: ${error.message}`));
+  }
+
+  /**
+   * Create the configured time-series backend
+   */
+  private createBackend(): TimeSeriesBackend {
+    const config = this.configService.getTimeSeriesConfig();
+
+    switch (config.backend) {
+      case 'memory':
+        return new MemoryTimeSeriesBackend(config.memoryMaxPoints);
+      case 'prometheus-remote-write':
+        return new PrometheusRemoteWriteBackend(config.remoteWrite);
+      case 'timescaledb':
+        return new TimescaleDbTimeSeriesBackend(config.timescale);
+      case 'influxdb':
+        return new InfluxDbTimeSeriesBackend(this.configService.getInfluxDbConfig());
+      default:
+        this.logger.warn(`Unknown metrics backend "${config.backend}", falling back to influxdb`);
+        return new InfluxDbTimeSeriesBackend(this.configService.getInfluxDbConfig());
+    }
   }
 
   /**
-   * Initialize the InfluxDB client and write API
+   * Connect the backend and start flushing queued points
    */
-  private initializeInfluxDB() {
+  private async connectBackend() {
     try {
-      const influxConfig = this.configService.getInfluxDbConfig();
-      this.logger.log(`Connecting to InfluxDB at ${influxConfig.url}...`);
-      this.logger.log(`Using token: ${influxConfig.token ? '[SET]' : '[MISSING]'}`);
-      this.logger.log(`Using org: ${influxConfig.org}`);
-      this.logger.log(`Using bucket: ${influxConfig.bucket}`);
-
-      // Initialize InfluxDB client
-      this.influxClient = new InfluxDB({
-        url: influxConfig.url,
-        token: influxConfig.token,
-        timeout: 30000, // 30 seconds timeout
-      });
+      if (this.backend.name === 'influxdb') {
+        const influxConfig = this.configService.getInfluxDbConfig();
+        this.logger.log(`Connecting to InfluxDB at ${influxConfig.url}...`);
+        this.logger.log(`Using token: ${influxConfig.token ? '[SET]' : '[MISSING]'}`);
+        this.logger.log(`Using org: ${influxConfig.org}`);
+        this.logger.log(`Using bucket: ${influxConfig.bucket}`);
+      }
 
-      // Configure WriteApi with batching and retries
-      this.writeApi = this.influxClient.getWriteApi(influxConfig.org, influxConfig.bucket, 'ns', {
-        batchSize: this.BATCH_SIZE,
-        flushInterval: this.FLUSH_INTERVAL,
-        maxRetries: 5,
-        maxRetryDelay: 15000,
-        minRetryDelay: 1000,
-        retryJitter: 1000,
-        defaultTags: {},
-      });
+      await this.backend.connect();
 
       // Set connection state and process queue
       this.connected = true;
       this.reconnectAttempts = 0;
+      this.logger.log(`Connected to ${this.backend.name} metrics backend`);
       this.processQueue();
-
-      // Set up periodic flush
-      this.setupPeriodicFlush();
     } catch (error) {
       this.handleConnectionError(error);
     }
@@ -106,7 +181,7 @@ export class MetricsService implements OnModuleInit {
    * Handle connection errors and schedule reconnection
    */
   private handleConnectionError(error: Error) {
-    this.logger.error(`Failed to initialize InfluxDB: ${error.message}`);
+    this.logger.error(`Failed to initialize ${this.backend.name} metrics backend: ${error.message}`);
     this.connected = false;
     this.scheduleReconnect();
   }
@@ -115,7 +190,11 @@ export class MetricsService implements OnModuleInit {
    * Set up periodic flush of metrics
    */
   private setupPeriodicFlush() {
-    setInterval(() => this.flushMetrics(), this.FLUSH_INTERVAL);
+    if (this.flushInterval) return;
+    this.flushInterval = setInterval(() => {
+      this.updateStorageMetrics();
+      this.flushMetrics();
+    }, this.FLUSH_INTERVAL);
   }
 
   /**
@@ -126,12 +205,12 @@ export class MetricsService implements OnModuleInit {
       this.reconnectAttempts++;
       const delay = Math.min(this.RECONNECT_INTERVAL * Math.pow(1.5, this.reconnectAttempts - 1), 60000);
       this.logger.log(
-        `Attempting to reconnect to InfluxDB (attempt ${this.reconnectAttempts}/${this.MAX_RECONNECT_ATTEMPTS}) in ${delay / 1000} seconds...`,
+        `Attempting to reconnect to ${this.backend.name} (attempt ${this.reconnectAttempts}/${this.MAX_RECONNECT_ATTEMPTS}) in ${delay / 1000} seconds...`,
       );
 
-      setTimeout(() => this.initializeInfluxDB(), delay);
+      setTimeout(() => this.connectBackend(), delay);
     } else {
-      this.logger.error(`Failed to connect to InfluxDB after ${this.MAX_RECONNECT_ATTEMPTS} attempts`);
+      this.logger.error(`Failed to connect to ${this.backend.name} after ${this.MAX_RECONNECT_ATTEMPTS} attempts`);
       // Reset and try again after a longer delay
       setTimeout(() => {
         this.reconnectAttempts = 0;
@@ -141,88 +220,263 @@ export class MetricsService implements OnModuleInit {
   }
 
   /**
-   * Flush metrics to InfluxDB
+   * Write pending points to the backend, or to the spool while it is unreachable
    */
   private async flushMetrics() {
-    if (!this.connected || this.isWriteInProgress) return;
+    if (this.isWriteInProgress) return;
+
+    if (!this.connected) {
+      if (this.spool && this.pendingPoints.length > 0) {
+        this.isWriteInProgress = true;
+        await this.spoolPoints(this.takePendingPoints());
+        this.isWriteInProgress = false;
+      }
+      return;
+    }
+
+    const hasSpooledPoints = this.spool && !this.spool.isEmpty();
+    if (this.pendingPoints.length === 0 && !hasSpooledPoints) return;
+
+    const batch = this.takePendingPoints();
 
     try {
       this.isWriteInProgress = true;
-      await this.writeApi.flush();
-      this.isWriteInProgress = false;
+      // Spooled points are older than the queue, write them first so points arrive in order
+      if (hasSpooledPoints) {
+        await this.replaySpool();
+      }
+      if (batch.length > 0) {
+        await this.backend.write(batch);
+      }
     } catch (error) {
-      this.isWriteInProgress = false;
-      this.logger.error(`Error flushing metrics to InfluxDB: ${error.message}`);
+      this.logger.error(`Error flushing metrics to ${this.backend.name}: ${error.message}`);
 
-      if (this.isConnectionError(error)) {
+      if (this.isRetryableError(error)) {
+        await this.keepForRetry(batch);
         this.connected = false;
         this.scheduleReconnect();
+      } else {
+        this.recordDroppedPoints('rejected', batch.length);
       }
+    } finally {
+      this.isWriteInProgress = false;
     }
   }
 
   /**
-   * Check if an error is a connection-related error
+   * Write spooled points to the backend, retryable errors are rethrown and leave the rest spooled
    */
-  private isConnectionError(error: any): boolean {
-    return ['ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND'].includes(error.code);
+  private async replaySpool() {
+    try {
+      const replayed = await this.spool.replay(async points => {
+        try {
+          await this.backend.write(points);
+        } catch (error) {
+          if (this.isRetryableError(error)) throw error;
+
+          this.logger.warn(
+            `Discarding ${points.length} spooled points rejected by ${this.backend.name}: ${error.message}`,
+          );
+          this.recordDroppedPoints('rejected', points.length);
+        }
+      }, this.REPLAY_BATCH_SIZE);
+
+      if (replayed > 0) {
+        this.logger.log(`Replayed ${replayed} spooled data points to ${this.backend.name}`);
+      }
+    } catch (error) {
+      if (this.isRetryableError(error)) throw error;
+      this.logger.error(`Failed to replay metrics spool: ${error.message}`);
+    }
   }
 
   /**
-   * Process queued points
+   * Keep points that failed to write for the next connection
    */
-  private processQueue() {
-    if (this.connectionQueue.length === 0 || !this.connected) return;
-
-    this.logger.log(`Processing ${this.connectionQueue.length} queued data points`);
+  private async keepForRetry(points: MetricPoint[]) {
+    if (this.spool) {
+      await this.spoolPoints(points);
+    } else {
+      this.requeue(points);
+    }
+  }
 
+  private async spoolPoints(points: MetricPoint[]) {
     try {
-      for (const point of this.connectionQueue) {
-        this.writeApi.writePoint(point);
-      }
-      this.connectionQueue = [];
-      this.logger.log('Successfully queued data points for writing');
+      await this.spool.append(points);
     } catch (error) {
-      this.logger.error(`Error writing queued points to InfluxDB: ${error.message}`);
+      this.logger.error(`Failed to spool ${points.length} data points: ${error.message}`);
+      this.requeue(points);
     }
+    this.updateStorageMetrics();
   }
 
   /**
-   * Write a point to InfluxDB or queue it if disconnected
+   * Put points back in front of the queue, newer points win when the queue is full
    */
-  private writePoint(point: Point) {
-    if (!this.connected) {
-      this.queuePoint(point);
-      return;
+  private requeue(points: MetricPoint[]) {
+    const queue = [...points, ...this.pendingPoints];
+    if (queue.length > this.MAX_QUEUE_SIZE) {
+      this.recordDroppedPoints('queue_full', queue.length - this.MAX_QUEUE_SIZE);
     }
+    this.pendingPoints = queue.slice(-this.MAX_QUEUE_SIZE);
+  }
 
-    try {
-      this.writeApi.writePoint(point);
-    } catch (error) {
-      this.logger.error(`Error writing to InfluxDB: ${error.message}`);
+  private takePendingPoints(): MetricPoint[] {
+    const points = this.pendingPoints;
+    this.pendingPoints = [];
+    return points;
+  }
 
-      if (this.isConnectionError(error)) {
-        this.connected = false;
-        this.queuePoint(point);
-        this.scheduleReconnect();
+  private recordDroppedPoints(reason: DroppedPointReason, count: number) {
+    if (count <= 0) return;
+    this.droppedPoints[reason] += count;
+    this.prometheus.recordDroppedMetricPoints(reason, count);
+  }
+
+  private updateStorageMetrics() {
+    this.prometheus.setMetricsStorage(this.pendingPoints.length, this.spool?.bytes ?? 0, this.spool?.points ?? 0);
+  }
+
+  /**
+   * Check if a write failed because the backend is unavailable rather than because it rejected the points
+   * Covers network errors, HTTP 5xx and 429 answers (remote write, InfluxDB) and PostgreSQL connection
+   * failures, points failing this way are kept and written again later
+   */
+  private isRetryableError(error: any): boolean {
+    const code = error.code ?? error.cause?.code;
+    const networkErrors = [
+      'ECONNREFUSED',
+      'ECONNRESET',
+      'ECONNABORTED',
+      'ETIMEDOUT',
+      'EPIPE',
+      'EAI_AGAIN',
+      'ENOTFOUND',
+      'EHOSTUNREACH',
+      'ENETUNREACH',
+    ];
+    if (networkErrors.includes(code)) return true;
+
+    // axios keeps the status on the response, the InfluxDB client on the error itself
+    const status = error.response?.status ?? error.statusCode;
+    if (typeof status === 'number') return status >= 500 || status === 429;
+
+    // SQLSTATE connection exceptions (class 08), server shutting down or out of connections
+    if (typeof code === 'string' && (code.startsWith('08') || ['57P01', '57P02', '57P03', '53300'].includes(code))) {
+      return true;
+    }
+
+    // Driver errors without a code: pg "Connection terminated...", InfluxDB "Request timed out"
+    return /connection terminated|connection timeout|timed out/i.test(error.message ?? '');
+  }
+
+  /**
+   * Process points queued while disconnected
+   */
+  private processQueue() {
+    const hasSpooledPoints = this.spool && !this.spool.isEmpty();
+    if ((this.pendingPoints.length === 0 && !hasSpooledPoints) || !this.connected) return;
+
+    this.logger.log(
+      `Processing ${this.pendingPoints.length} queued and ${this.spool?.points ?? 0} spooled data points`,
+    );
+    this.flushMetrics();
+  }
+
+  /**
+   * Queue a point for the backend, written in batches or on the periodic flush
+   * Also used by MetricsManager for generic threshold metrics
+   */
+  writePoint(point: MetricPoint) {
+    if (this.pendingPoints.length >= this.MAX_QUEUE_SIZE) {
+      if (!this.spool) {
+        this.recordDroppedPoints('queue_full', 1);
+        return;
       }
+      // A write or replay is holding the queue up, move the older points to disk
+      this.spoolPoints(this.takePendingPoints());
+    }
+
+    this.pendingPoints.push(point);
+    if (this.pendingPoints.length >= this.BATCH_SIZE) {
+      this.flushMetrics();
     }
   }
 
   /**
-   * Queue a point for later processing
+   * Read points back from the backend
+   *
+   * @returns Matching points, or null when the backend is not connected or cannot be queried
+   */
+  async queryMetrics(query: MetricQuery): Promise<MetricRecord[] | null> {
+    if (!this.isQueryable()) return null;
+    return this.backend.query(query);
+  }
+
+  /**
+   * Read points back one chunk of the range at a time, oldest chunk first
+   * Backends include both ends of a range, a point on a chunk boundary is only passed with the later chunk.
+   *
+   * @param onChunk Called with the points of each chunk, awaited before the next chunk is read
+   * @returns False when the backend is not connected or cannot be queried
    */
-  private queuePoint(point: Point) {
-    if (this.connectionQueue.length < this.MAX_QUEUE_SIZE) {
-      this.connectionQueue.push(point);
+  async queryMetricsInChunks(
+    query: MetricQuery,
+    onChunk: (records: MetricRecord[]) => void | Promise<void>,
+  ): Promise<boolean> {
+    const end = (query.end ?? new Date()).getTime();
+    const chunkMs = PERFORMANCE.METRICS_QUERY.CHUNK_MS;
+
+    for (let chunkStart = query.start.getTime(); chunkStart < end; chunkStart += chunkMs) {
+      const chunkEnd = Math.min(chunkStart + chunkMs, end);
+      const records = await this.queryMetrics({ ...query, start: new Date(chunkStart), end: new Date(chunkEnd) });
+      if (records === null) return false;
+
+      await onChunk(chunkEnd === end ? records : records.filter(record => record.timestamp.getTime() < chunkEnd));
     }
+
+    return true;
+  }
+
+  /**
+   * Whether the backend is connected, it may still not support history queries
+   */
+  isConnected(): boolean {
+    return this.connected;
   }
 
   /**
-   * Get metrics endpoint response (for compatibility with existing metrics endpoint)
+   * Whether the backend is connected and supports history queries
+   */
+  isQueryable(): boolean {
+    return this.connected && typeof this.backend.query === 'function';
+  }
+
+  /**
+   * Backend connection, queue and spool state
+   */
+  getStorageStatus(): MetricsStorageStatus {
+    return {
+      backend: this.backend.name,
+      connected: this.connected,
+      queuedPoints: this.pendingPoints.length,
+      spool: {
+        enabled: this.spool !== null,
+        path: this.spool?.path ?? null,
+        bytes: this.spool?.bytes ?? 0,
+        points: this.spool?.points ?? 0,
+        segments: this.spool?.segmentCount ?? 0,
+      },
+      droppedPoints: { ...this.droppedPoints },
+    };
+  }
+
+  /**
+   * Get all recorded metrics in the Prometheus text exposition format
    */
   async getMetrics(): Promise<string> {
-    return 'Direct /metrics endpoint accessed';
+    return this.prometheus.getMetrics();
   }
 
   //
@@ -241,13 +495,14 @@ export class MetricsService implements OnModuleInit {
     const sentinelConfig = this.getSentinelConfig();
     const actualHeight = this.getValueWithSentinel(height, sentinelConfig.blockHeight, endpointFailed, -1);
 
-    const point = new Point('block_height')
+    const point = new MetricPoint('block_height')
       .tag('chainId', chainId)
       .tag('endpoint', endpoint)
       .tag('endpoint_status', endpointFailed ? 'failed' : 'active')
       .intField('height', actualHeight);
 
     this.writePoint(point);
+    this.prometheus.setBlockHeight(chainId, endpoint, height, endpointFailed);
   }
 
   /**
@@ -291,13 +546,15 @@ export class MetricsService implements OnModuleInit {
 
     statuses.forEach(({ status, value }) => {
       this.writePoint(
-        new Point('transactions_per_block')
+        new MetricPoint('transactions_per_block')
           .tag('block_number', blockNumberStr)
           .tag('status', status)
           .tag('chainId', chainIdStr)
           .intField('value', value),
       );
     });
+
+    this.prometheus.addTransactions(chainId, success, failed);
   }
 
   /**
@@ -318,12 +575,13 @@ export class MetricsService implements OnModuleInit {
     }
 
     this.writePoint(
-      new Point('rpc_latency')
+      new MetricPoint('rpc_latency')
         .tag('endpoint', endpoint)
         .tag('chainId', chainId.toString())
         .tag('endpoint_status', endpointFailed ? 'failed' : 'active')
         .floatField('value', validLatency),
     );
+    this.prometheus.setRpcLatency(chainId, endpoint, latencyMs === null ? null : validLatency, endpointFailed);
   }
 
   /**
@@ -344,12 +602,13 @@ export class MetricsService implements OnModuleInit {
     );
 
     this.writePoint(
-      new Point(`${type}_status`)
+      new MetricPoint(`${type}_status`)
         .tag('endpoint', endpoint)
         .tag('chainId', chainId.toString())
         .tag('endpoint_status', endpointFailed ? 'failed' : 'active')
         .intField('value', statusValue),
     );
+    this.prometheus.setEndpointUp(chainId, endpoint, type, isUp && !endpointFailed);
   }
 
   // Convenience methods that use setServiceStatusWithSentinel internally
@@ -384,13 +643,14 @@ export class MetricsService implements OnModuleInit {
     const actualPeerCount = this.getValueWithSentinel(peerCount, this.getSentinelConfig().peerCount, endpointFailed, 0);
 
     this.writePoint(
-      new Point('peer_count')
+      new MetricPoint('peer_count')
         .tag('endpoint', endpoint)
         .tag('type', endpointType)
         .tag('chainId', chainId.toString())
         .tag('endpoint_status', endpointFailed ? 'failed' : 'active')
         .intField('value', actualPeerCount),
     );
+    this.prometheus.setPeerCount(chainId, endpoint, endpointType, peerCount, endpointFailed);
 
     // Only log when there are issues (failures or zero peers) to reduce log volume
     if (endpointFailed || actualPeerCount === 0) {
@@ -405,10 +665,159 @@ export class MetricsService implements OnModuleInit {
    * Record block time
    */
   setBlockTime(seconds: number, chainId: number = 50): void {
-    this.writePoint(new Point('block_time').tag('chainId', chainId.toString()).floatField('value', seconds));
+    this.writePoint(new MetricPoint('block_time').tag('chainId', chainId.toString()).floatField('value', seconds));
+    this.prometheus.setBlockTime(chainId, seconds);
     this.logger.log(`Recorded block time for chainId ${chainId}: ${seconds} seconds`);
   }
 
+  /**
+   * Record the height up to which every block has been processed
+   *
+   * @param chainId The chain ID
+   * @param height Last processed block height
+   */
+  recordLastProcessedBlock(chainId: number, height: number): void {
+    this.writePoint(
+      new MetricPoint('block_processing_checkpoint').tag('chainId', chainId.toString()).intField('height', height),
+    );
+    this.prometheus.setLastProcessedBlock(chainId, height);
+  }
+
+  /**
+   * Record a range of blocks missed between two monitoring cycles
+   *
+   * @param chainId The chain ID
+   * @param from First missing block
+   * @param to Last missing block
+   */
+  recordBlockGap(chainId: number, from: number, to: number): void {
+    this.writePoint(
+      new MetricPoint('block_gaps')
+        .tag('chainId', chainId.toString())
+        .intField('from', from)
+        .intField('to', to)
+        .intField('size', to - from + 1),
+    );
+    this.prometheus.recordBlockGap(chainId, to - from + 1);
+  }
+
+  /**
+   * Record a chain reorganization
+   *
+   * @param chainId The chain ID
+   * @param depth Number of previously canonical blocks that were replaced
+   * @param commonAncestor Height of the last block shared by both chains
+   */
+  recordChainReorg(chainId: number, depth: number, commonAncestor: number): void {
+    this.writePoint(
+      new MetricPoint('chain_reorg')
+        .tag('chainId', chainId.toString())
+        .intField('depth', depth)
+        .intField('common_ancestor', commonAncestor),
+    );
+    this.prometheus.recordChainReorg(chainId, depth);
+  }
+
+  /**
+   * Record whether an endpoint serves a block hash that differs from the other endpoints
+   *
+   * @param endpoint The endpoint URL
+   * @param chainId The chain ID
+   * @param divergedAt Height where the endpoint diverged, or null if it matches
+   */
+  recordEndpointDivergence(endpoint: string, chainId: number, divergedAt: number | null): void {
+    this.writePoint(
+      new MetricPoint('endpoint_divergence')
+        .tag('endpoint', endpoint)
+        .tag('chainId', chainId.toString())
+        .intField('diverged', divergedAt === null ? 0 : 1)
+        .intField('height', divergedAt ?? 0),
+    );
+    this.prometheus.setEndpointDiverged(chainId, endpoint, divergedAt !== null);
+  }
+
+  /**
+   * Stop exporting the Prometheus series of an endpoint removed from monitoring
+   * Points already written to the time-series backend are kept as history.
+   *
+   * @param endpoint The endpoint URL
+   * @param chainId The chain ID
+   */
+  removeEndpoint(endpoint: string, chainId: number): Promise<void> {
+    return this.prometheus.removeEndpoint(chainId, endpoint);
+  }
+
+  /**
+   * Record the head block and masternode counts of a subnet
+   *
+   * @param chainId The subnet chain ID
+   * @param headBlock Latest block of the subnet
+   * @param counts Number of masternodes, standby nodes and penalized nodes
+   */
+  recordSubnetStatus(
+    chainId: number,
+    headBlock: number,
+    counts: { masternode: number; standby: number; penalty: number },
+  ): void {
+    this.writePoint(
+      new MetricPoint('subnet_status')
+        .tag('chainId', chainId.toString())
+        .intField('head_block', headBlock)
+        .intField('masternode_count', counts.masternode)
+        .intField('standbynode_count', counts.standby)
+        .intField('penalty_count', counts.penalty),
+    );
+    this.prometheus.setSubnetStatus(chainId, headBlock, counts);
+  }
+
+  /**
+   * Record how far the headers checkpointed on the parent chain trail a subnet
+   *
+   * @param chainId The subnet chain ID
+   * @param parentChainId The chain holding the checkpoint contract
+   * @param committedBlock Latest subnet block committed by the checkpoint contract
+   * @param lagBlocks Subnet blocks produced since the committed block
+   */
+  recordSubnetCheckpoint(chainId: number, parentChainId: number, committedBlock: number, lagBlocks: number): void {
+    this.writePoint(
+      new MetricPoint('subnet_checkpoint')
+        .tag('chainId', chainId.toString())
+        .tag('parentChainId', parentChainId.toString())
+        .intField('committed_block', committedBlock)
+        .intField('lag_blocks', lagBlocks),
+    );
+    this.prometheus.setSubnetCheckpoint(chainId, committedBlock, lagBlocks);
+  }
+
+  /**
+   * Get the last processed block height persisted for a chain
+   *
+   * @param chainId The chain ID
+   * @returns The last processed height or null if none was recorded
+   */
+  async getLastProcessedBlock(chainId: number): Promise<number | null> {
+    if (!this.isQueryable()) {
+      this.logger.warn(`Cannot get last processed block - ${this.backend.name} backend not queryable`);
+      return null;
+    }
+
+    try {
+      const records = await this.backend.query({
+        measurement: 'block_processing_checkpoint',
+        start: new Date(Date.now() - this.HISTORY_LOOKBACK_MS),
+        tags: { chainId: chainId.toString() },
+        latestBy: [],
+      });
+      if (records.length === 0) return null;
+
+      const height = parseInt(String(records[records.length - 1].fields.height), 10);
+      return isNaN(height) ? null : height;
+    } catch (error) {
+      this.logger.error(`Failed to get last processed block for chain ${chainId}: ${error.message}`);
+      return null;
+    }
+  }
+
   /**
    * Save alert history
    *
@@ -417,13 +826,14 @@ export class MetricsService implements OnModuleInit {
    */
   saveAlert(alert: Alert, chainId?: number): void {
     this.writePoint(
-      new Point('alert_history')
+      new MetricPoint('alert_history')
         .tag('type', alert.type)
         .tag('title', alert.title)
         .tag('component', alert.component)
         .tag('chainId', chainId?.toString() || 'null')
         .stringField('value', alert.message),
     );
+    this.prometheus.recordAlert(chainId, alert.type, alert.component);
   }
 
   /**
@@ -444,7 +854,7 @@ export class MetricsService implements OnModuleInit {
     rpcUrl: string,
   ): void {
     this.writePoint(
-      new Point('transaction_monitor')
+      new MetricPoint('transaction_monitor')
         .tag('type', type)
         .tag('chainId', chainId.toString())
         .tag('rpc', rpcUrl)
@@ -452,12 +862,13 @@ export class MetricsService implements OnModuleInit {
     );
 
     this.writePoint(
-      new Point('transaction_monitor_confirmation_time')
+      new MetricPoint('transaction_monitor_confirmation_time')
         .tag('type', type)
         .tag('chainId', chainId.toString())
         .tag('rpc', rpcUrl)
         .intField('duration_ms', duration),
     );
+    this.prometheus.recordTestTransaction(chainId, type, rpcUrl, success, duration);
 
     this.logger.debug(
       `Recorded transaction test: type=${type}, chainId=${chainId}, rpc=${rpcUrl}, ` +
@@ -468,15 +879,15 @@ export class MetricsService implements OnModuleInit {
   /**
    * Record wallet balance information
    *
-   * @param chainId The chain ID (50 for Mainnet, 51 for Testnet)
+   * @param chainId The chain ID
    * @param balance The wallet balance in XDC
    * @param sufficient Whether the balance is sufficient for testing
    */
   setWalletBalance(chainId: number, balance: string, sufficient: boolean): void {
-    const chainName = chainId === 50 ? 'Mainnet' : 'Testnet';
+    const chainName = this.chainRegistry.getChainName(chainId);
 
     this.writePoint(
-      new Point('transaction_wallet_balance')
+      new MetricPoint('transaction_wallet_balance')
         .tag('chainId', chainId.toString())
         .tag('network', chainName)
         .tag('sufficient', sufficient ? 'true' : 'false')
@@ -485,11 +896,12 @@ export class MetricsService implements OnModuleInit {
 
     // Also record a separate boolean field for "sufficient" to make it easier to query
     this.writePoint(
-      new Point('transaction_wallet_status')
+      new MetricPoint('transaction_wallet_status')
         .tag('chainId', chainId.toString())
         .tag('network', chainName)
         .booleanField('sufficient_balance', sufficient),
     );
+    this.prometheus.setWalletBalance(chainId, parseFloat(balance), sufficient);
   }
 
   /**
@@ -497,8 +909,9 @@ export class MetricsService implements OnModuleInit {
    */
   setTransactionsPerMinute(txPerMinute: number, chainId: number = 50): void {
     this.writePoint(
-      new Point('transactions_per_minute').tag('chainId', chainId.toString()).floatField('value', txPerMinute),
+      new MetricPoint('transactions_per_minute').tag('chainId', chainId.toString()).floatField('value', txPerMinute),
     );
+    this.prometheus.setTransactionsPerMinute(chainId, txPerMinute);
     this.logger.debug(`Set transactions per minute for chainId ${chainId}: ${txPerMinute.toFixed(2)}`);
   }
 
@@ -523,7 +936,7 @@ export class MetricsService implements OnModuleInit {
     round: number,
   ): void {
     this.writePoint(
-      new Point('validator_summary')
+      new MetricPoint('validator_summary')
         .tag('chainId', chainId.toString())
         .tag('epoch', epoch.toString())
         .intField('masternode_count', masternodeCount)
@@ -532,6 +945,11 @@ export class MetricsService implements OnModuleInit {
         .intField('block_number', blockNumber)
         .intField('round', round),
     );
+    this.prometheus.setValidatorSummary(chainId, epoch, round, {
+      masternode: masternodeCount,
+      standby: standbyCount,
+      penalty: penaltyCount,
+    });
   }
 
   /**
@@ -553,7 +971,7 @@ export class MetricsService implements OnModuleInit {
     index?: number,
   ): void {
     this.writePoint(
-      new Point('validator_nodes')
+      new MetricPoint('validator_nodes')
         .tag('chainId', chainId.toString())
         .tag('epoch', epoch.toString())
         .tag('block_number', blockNumber.toString())
@@ -565,11 +983,56 @@ export class MetricsService implements OnModuleInit {
   }
 
   /**
-   * Get the InfluxDB client instance for other services to use
-   * NOTE: This should be used carefully to prevent bypassing error handling and queue mechanisms
+   * Record reward distribution totals for an epoch checkpoint
+   *
+   * @param summary Reward summary computed at the checkpoint block
    */
-  getInfluxClient(): InfluxDB | null {
-    return this.connected ? this.influxClient : null;
+  recordEpochRewardSummary(summary: EpochRewardSummary): void {
+    this.writePoint(
+      new MetricPoint('consensus_epoch_rewards')
+        .tag('chainId', summary.chainId.toString())
+        .tag('epoch', summary.epoch.toString())
+        .intField('checkpoint_block', summary.checkpointBlock)
+        .floatField('total_reward', summary.totalReward)
+        .floatField('masternode_reward', summary.masternodeReward)
+        .floatField('standby_reward', summary.standbyReward)
+        .floatField('penalty_reward', summary.penaltyReward)
+        .intField('rewarded_nodes', summary.rewardedNodes)
+        .intField('unrewarded_masternodes', summary.unrewardedMasternodes.length)
+        .intField('rewarded_penalty_nodes', summary.rewardedPenaltyNodes.length),
+    );
+    this.prometheus.setEpochRewards(
+      summary.chainId,
+      {
+        total: summary.totalReward,
+        masternode: summary.masternodeReward,
+        standby: summary.standbyReward,
+        penalty: summary.penaltyReward,
+      },
+      summary.rewardedNodes,
+      summary.unrewardedMasternodes.length,
+    );
+  }
+
+  /**
+   * Record the reward a single node received at an epoch checkpoint
+   *
+   * @param chainId The chain ID
+   * @param epoch Epoch the reward was paid for
+   * @param checkpointBlock Block number where the reward was distributed
+   * @param reward Node reward details
+   */
+  recordNodeReward(chainId: number, epoch: number, checkpointBlock: number, reward: NodeReward): void {
+    this.writePoint(
+      new MetricPoint('consensus_node_rewards')
+        .tag('chainId', chainId.toString())
+        .tag('epoch', epoch.toString())
+        .tag('address', reward.address.toLowerCase())
+        .tag('status', reward.status)
+        .intField('checkpoint_block', checkpointBlock)
+        .floatField('amount', reward.amount)
+        .intField('sign_count', reward.signCount),
+    );
   }
 
   /**
@@ -597,7 +1060,7 @@ export class MetricsService implements OnModuleInit {
     missedMinersCount: number = 1,
   ): void {
     this.writePoint(
-      new Point('consensus_missed_rounds')
+      new MetricPoint('consensus_missed_rounds')
         .tag('chainId', chainId.toString())
         .tag('expected_miner', expectedMiner.toLowerCase())
         .tag('actual_miner', actualMiner.toLowerCase())
@@ -609,6 +1072,7 @@ export class MetricsService implements OnModuleInit {
         .intField('missed_miners_count', missedMinersCount)
         .timestamp(new Date()),
     );
+    this.prometheus.recordMissedRounds(chainId, missedMinersCount);
 
     this.logger.debug(
       `Recorded missed round: chainId=${chainId}, block=${blockNumber}, round=${round}, ` +
@@ -645,7 +1109,7 @@ export class MetricsService implements OnModuleInit {
     const isConsistent = variance <= 2; // Within 2 seconds of expected timeout
 
     this.writePoint(
-      new Point('consensus_timeout_periods')
+      new MetricPoint('consensus_timeout_periods')
         .tag('chainId', chainId.toString())
         .tag('is_consistent', isConsistent ? 'true' : 'false')
         .intField('block_number', blockNumber)
@@ -659,6 +1123,7 @@ export class MetricsService implements OnModuleInit {
         .floatField('variance', variance)
         .timestamp(new Date()),
     );
+    this.prometheus.setTimeoutPeriod(chainId, timeoutPeriod);
 
     this.logger.debug(
       `Recorded timeout period: chainId=${chainId}, block=${blockNumber}, ` +
@@ -676,12 +1141,13 @@ export class MetricsService implements OnModuleInit {
    */
   recordMinerMissedRound(chainId: number, minerAddress: string, missedBlocks: number): void {
     this.writePoint(
-      new Point('consensus_miner_missed_rounds')
+      new MetricPoint('consensus_miner_missed_rounds')
         .tag('chainId', chainId.toString())
         .tag('miner', minerAddress.toLowerCase())
         .intField('missed_blocks', missedBlocks)
         .timestamp(new Date()),
     );
+    this.prometheus.setMinerMissedBlocks(chainId, minerAddress.toLowerCase(), missedBlocks);
 
     this.logger.debug(
       `Updated miner missed round stats: chainId=${chainId}, miner=${minerAddress}, ` + `missedBlocks=${missedBlocks}`,
@@ -709,7 +1175,7 @@ export class MetricsService implements OnModuleInit {
     const successRate = totalAttempts > 0 ? (totalBlocksMined / totalAttempts) * 100 : 100;
 
     this.writePoint(
-      new Point('consensus_miner_performance')
+      new MetricPoint('consensus_miner_performance')
         .tag('chainId', chainId.toString())
         .tag('miner', minerAddress.toLowerCase())
         .intField('total_blocks_mined', totalBlocksMined)
@@ -719,6 +1185,13 @@ export class MetricsService implements OnModuleInit {
         .intField('last_block', blockNumber)
         .timestamp(new Date()),
     );
+    this.prometheus.setMinerPerformance(
+      chainId,
+      minerAddress.toLowerCase(),
+      totalBlocksMined,
+      missedBlocks,
+      successRate,
+    );
 
     this.logger.debug(
       `Recorded miner performance: chainId=${chainId}, miner=${minerAddress}, ` +
@@ -728,7 +1201,7 @@ export class MetricsService implements OnModuleInit {
   }
 
   /**
-   * Retrieve historical miner performance data from InfluxDB
+   * Retrieve historical miner performance data from the metrics backend
    */
   async getMinerPerformanceData(
     chainId: number,
@@ -744,26 +1217,18 @@ export class MetricsService implements OnModuleInit {
       }
     >
   > {
-    if (!this.connected || !this.influxClient) {
-      this.logger.warn('Cannot get miner performance data - InfluxDB not connected');
+    if (!this.isQueryable()) {
+      this.logger.warn(`Cannot get miner performance data - ${this.backend.name} backend not queryable`);
       return {};
     }
 
     try {
-      const config = this.configService.getInfluxDbConfig();
-      const queryApi = this.influxClient.getQueryApi(config.org);
-      const addressList = minerAddresses.map(addr => `"${addr.toLowerCase()}"`).join(', ');
-
-      const query = `
-        from(bucket: "${config.bucket}")
-          |> range(start: -30d)
-          |> filter(fn: (r) => r._measurement == "consensus_miner_performance")
-          |> filter(fn: (r) => r.chainId == "${chainId}")
-          |> filter(fn: (r) => contains(value: r.miner, set: [${addressList}]))
-          |> pivot(rowKey:["_time"], columnKey: ["_field"], valueColumn: "_value")
-          |> group(columns: ["miner"])
-          |> last()
-      `;
+      const records = await this.backend.query({
+        measurement: 'consensus_miner_performance',
+        start: new Date(Date.now() - this.HISTORY_LOOKBACK_MS),
+        tags: { chainId: chainId.toString(), miner: minerAddresses.map(addr => addr.toLowerCase()) },
+        latestBy: ['miner'],
+      });
 
       const result: Record<
         string,
@@ -775,20 +1240,17 @@ export class MetricsService implements OnModuleInit {
         }
       > = {};
 
-      // Execute query and process results
-      const records = await queryApi.collectRows(query);
-      this.logger.debug(`Retrieved ${records.length} miner performance records from InfluxDB`);
+      this.logger.debug(`Retrieved ${records.length} miner performance records from ${this.backend.name}`);
 
-      for (const record of records) {
-        const minerRecord = record as MinerRecord;
-        const minerAddress = minerRecord.miner?.toLowerCase();
+      for (const { tags, fields, timestamp } of records) {
+        const minerAddress = tags.miner?.toLowerCase();
         if (!minerAddress) continue;
 
         result[minerAddress] = {
-          totalBlocksMined: parseInt(String(minerRecord.total_blocks_mined ?? '0')),
-          missedBlocks: parseInt(String(minerRecord.missed_blocks ?? '0')),
-          lastActiveBlock: parseInt(String(minerRecord.last_block ?? '0')),
-          lastActive: minerRecord._time ?? null,
+          totalBlocksMined: parseInt(String(fields.total_blocks_mined ?? '0')),
+          missedBlocks: parseInt(String(fields.missed_blocks ?? '0')),
+          lastActiveBlock: parseInt(String(fields.last_block ?? '0')),
+          lastActive: timestamp.toISOString(),
         };
       }
 
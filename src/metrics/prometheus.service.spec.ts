@@ -0,0 +1,35 @@
+import { PrometheusService } from '@metrics/prometheus.service';
+
+describe('PrometheusService', () => {
+  const removed = 'https://removed.example';
+  const kept = 'https://kept.example';
+  let service: PrometheusService;
+
+  beforeEach(() => {
+    service = new PrometheusService();
+    [removed, kept].forEach(endpoint => {
+      service.setBlockHeight(50, endpoint, 100, false);
+      service.setEndpointUp(50, endpoint, 'rpc', true);
+      service.setEndpointUp(50, endpoint, 'websocket', true);
+      service.setRpcLatency(50, endpoint, 120, false);
+      service.setPeerCount(50, endpoint, 'rpc', 8, false);
+      service.setEndpointDiverged(50, endpoint, false);
+    });
+    service.setEndpointUp(51, removed, 'rpc', true);
+  });
+
+  it('removes every series of an endpoint on its chain only', async () => {
+    await service.removeEndpoint(50, removed);
+
+    const metrics = await service.getMetrics();
+    expect(metrics).not.toMatch(new RegExp(`chain_id="50",endpoint="${removed}"`));
+    expect(metrics).toContain(`xdc_endpoint_up{chain_id="51",endpoint="${removed}",type="rpc"} 1`);
+    [
+      'xdc_block_height',
+      'xdc_endpoint_up',
+      'xdc_rpc_latency_milliseconds',
+      'xdc_peer_count',
+      'xdc_endpoint_diverged',
+    ].forEach(name => expect(metrics).toMatch(new RegExp(`${name}\\{chain_id="50",endpoint="${kept}"`)));
+  });
+});
@@ -0,0 +1,349 @@
+import { Injectable } from '@nestjs/common';
+import { collectDefaultMetrics, Counter, Gauge, Registry } from 'prom-client';
+
+type Labels<T extends string> = Partial<Record<T, string | number>>;
+
+/**
+ * Prometheus registry mirroring the values MetricsService writes to InfluxDB
+ *
+ * Series are keyed on bounded labels only (chain, endpoint, miner...). Per-block and per-epoch
+ * identifiers that InfluxDB keeps as tags are left out so the scrape output does not grow forever.
+ * Values reported for a failed endpoint are dropped instead of exporting the InfluxDB sentinel values,
+ * endpoint availability is exported separately through xdc_endpoint_up.
+ */
+@Injectable()
+export class PrometheusService {
+  readonly registry = new Registry();
+
+  // Blocks
+  private readonly blockHeight = this.gauge('xdc_block_height', 'Latest block height reported by an endpoint', [
+    'chain_id',
+    'endpoint',
+  ]);
+  private readonly blockTime = this.gauge('xdc_block_time_seconds', 'Average time between blocks', ['chain_id']);
+  private readonly lastProcessedBlock = this.gauge('xdc_last_processed_block', 'Last block processed by the monitor', [
+    'chain_id',
+  ]);
+  private readonly transactions = this.counter(
+    'xdc_transactions_total',
+    'Transactions seen in processed blocks by status',
+    ['chain_id', 'status'],
+  );
+  private readonly transactionsPerMinute = this.gauge('xdc_transactions_per_minute', 'Transactions per minute', [
+    'chain_id',
+  ]);
+  private readonly blockGaps = this.counter('xdc_block_gaps_total', 'Block gaps detected in processing', ['chain_id']);
+  private readonly blockGapBlocks = this.counter('xdc_block_gap_blocks_total', 'Blocks missed in detected gaps', [
+    'chain_id',
+  ]);
+  private readonly chainReorgs = this.counter('xdc_chain_reorgs_total', 'Chain reorganizations detected', ['chain_id']);
+  private readonly chainReorgDepth = this.gauge('xdc_chain_reorg_depth', 'Depth of the last chain reorganization', [
+    'chain_id',
+  ]);
+
+  // Endpoints
+  private readonly endpointUp = this.gauge('xdc_endpoint_up', 'Whether an endpoint is up (1) or down (0)', [
+    'chain_id',
+    'endpoint',
+    'type',
+  ]);
+  private readonly rpcLatency = this.gauge('xdc_rpc_latency_milliseconds', 'RPC endpoint response time', [
+    'chain_id',
+    'endpoint',
+  ]);
+  private readonly peerCount = this.gauge('xdc_peer_count', 'Peers connected to the node behind an endpoint', [
+    'chain_id',
+    'endpoint',
+    'type',
+  ]);
+  private readonly endpointDiverged = this.gauge(
+    'xdc_endpoint_diverged',
+    'Whether an endpoint is on a different fork than the majority (1) or not (0)',
+    ['chain_id', 'endpoint'],
+  );
+
+  // Alerts
+  private readonly alerts = this.counter('xdc_alerts_total', 'Alerts raised by the monitor', [
+    'chain_id',
+    'type',
+    'component',
+  ]);
+
+  // Test transactions
+  private readonly testTransactions = this.counter('xdc_test_transactions_total', 'Test transactions sent', [
+    'chain_id',
+    'type',
+    'rpc',
+    'result',
+  ]);
+  private readonly testTransactionDuration = this.gauge(
+    'xdc_test_transaction_confirmation_milliseconds',
+    'Confirmation time of the last test transaction',
+    ['chain_id', 'type', 'rpc'],
+  );
+  private readonly walletBalance = this.gauge('xdc_wallet_balance_xdc', 'Balance of the test wallet', ['chain_id']);
+  private readonly walletSufficient = this.gauge(
+    'xdc_wallet_balance_sufficient',
+    'Whether the test wallet balance is sufficient (1) or not (0)',
+    ['chain_id'],
+  );
+
+  // Consensus
+  private readonly epoch = this.gauge('xdc_epoch', 'Current epoch', ['chain_id']);
+  private readonly round = this.gauge('xdc_consensus_round', 'Current consensus round', ['chain_id']);
+  private readonly validators = this.gauge('xdc_validators', 'Validator nodes in the current epoch by status', [
+    'chain_id',
+    'status',
+  ]);
+  private readonly missedRounds = this.counter('xdc_consensus_missed_rounds_total', 'Rounds missed by miners', [
+    'chain_id',
+  ]);
+  private readonly timeoutPeriod = this.gauge(
+    'xdc_consensus_timeout_period_seconds',
+    'Duration of the last consensus timeout',
+    ['chain_id'],
+  );
+  private readonly minerMissedBlocks = this.gauge('xdc_miner_missed_blocks', 'Blocks missed by a miner', [
+    'chain_id',
+    'miner',
+  ]);
+  private readonly minerBlocksMined = this.gauge('xdc_miner_blocks_mined', 'Blocks mined by a miner', [
+    'chain_id',
+    'miner',
+  ]);
+  private readonly minerSuccessRate = this.gauge(
+    'xdc_miner_success_rate_percent',
+    'Share of turns in which a miner produced its block',
+    ['chain_id', 'miner'],
+  );
+  private readonly epochReward = this.gauge('xdc_epoch_reward_xdc', 'Rewards paid in the last epoch by recipient', [
+    'chain_id',
+    'recipient',
+  ]);
+  private readonly epochRewardedNodes = this.gauge('xdc_epoch_rewarded_nodes', 'Nodes rewarded in the last epoch', [
+    'chain_id',
+  ]);
+  private readonly epochUnrewardedMasternodes = this.gauge(
+    'xdc_epoch_unrewarded_masternodes',
+    'Masternodes that did not receive a reward in the last epoch',
+    ['chain_id'],
+  );
+
+  // Subnets
+  private readonly subnetHeadBlock = this.gauge('xdc_subnet_head_block', 'Latest block of a subnet', ['chain_id']);
+  private readonly subnetValidators = this.gauge('xdc_subnet_validators', 'Subnet validator nodes by status', [
+    'chain_id',
+    'status',
+  ]);
+  private readonly subnetCheckpointedBlock = this.gauge(
+    'xdc_subnet_checkpointed_block',
+    'Latest subnet block committed by the checkpoint contract on the parent chain',
+    ['chain_id'],
+  );
+  private readonly subnetCheckpointLag = this.gauge(
+    'xdc_subnet_checkpoint_lag_blocks',
+    'Subnet blocks produced since the latest committed checkpoint',
+    ['chain_id'],
+  );
+
+  // Metrics storage
+  private readonly metricsQueuePoints = this.gauge(
+    'xdc_metrics_queue_points',
+    'Points waiting in memory for the time-series backend',
+    [],
+  );
+  private readonly metricsSpoolBytes = this.gauge('xdc_metrics_spool_bytes', 'Size of the on-disk metrics spool', []);
+  private readonly metricsSpoolPoints = this.gauge(
+    'xdc_metrics_spool_points',
+    'Points held in the on-disk metrics spool',
+    [],
+  );
+  private readonly metricsDroppedPoints = this.counter(
+    'xdc_metrics_dropped_points_total',
+    'Points discarded before reaching the time-series backend',
+    ['reason'],
+  );
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry, prefix: 'xdc_monitor_' });
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  getMetrics(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  setBlockHeight(chainId: string | number, endpoint: string, height: number | null, failed: boolean): void {
+    this.setOrRemove(this.blockHeight, { chain_id: chainId, endpoint }, height, failed);
+  }
+
+  setBlockTime(chainId: number, seconds: number): void {
+    this.blockTime.set({ chain_id: chainId }, seconds);
+  }
+
+  setLastProcessedBlock(chainId: number, height: number): void {
+    this.lastProcessedBlock.set({ chain_id: chainId }, height);
+  }
+
+  addTransactions(chainId: number, success: number, failed: number): void {
+    this.transactions.inc({ chain_id: chainId, status: 'success' }, success);
+    this.transactions.inc({ chain_id: chainId, status: 'failed' }, failed);
+  }
+
+  setTransactionsPerMinute(chainId: number, value: number): void {
+    this.transactionsPerMinute.set({ chain_id: chainId }, value);
+  }
+
+  recordBlockGap(chainId: number, size: number): void {
+    this.blockGaps.inc({ chain_id: chainId });
+    this.blockGapBlocks.inc({ chain_id: chainId }, size);
+  }
+
+  recordChainReorg(chainId: number, depth: number): void {
+    this.chainReorgs.inc({ chain_id: chainId });
+    this.chainReorgDepth.set({ chain_id: chainId }, depth);
+  }
+
+  setEndpointUp(chainId: number, endpoint: string, type: string, isUp: boolean | null): void {
+    this.endpointUp.set({ chain_id: chainId, endpoint, type }, isUp ? 1 : 0);
+  }
+
+  setRpcLatency(chainId: number, endpoint: string, latencyMs: number | null, failed: boolean): void {
+    this.setOrRemove(this.rpcLatency, { chain_id: chainId, endpoint }, latencyMs, failed);
+  }
+
+  setPeerCount(chainId: number, endpoint: string, type: string, peerCount: number | null, failed: boolean): void {
+    this.setOrRemove(this.peerCount, { chain_id: chainId, endpoint, type }, peerCount, failed);
+  }
+
+  setEndpointDiverged(chainId: number, endpoint: string, diverged: boolean): void {
+    this.endpointDiverged.set({ chain_id: chainId, endpoint }, diverged ? 1 : 0);
+  }
+
+  /**
+   * Drop every series of an endpoint that is no longer monitored
+   */
+  async removeEndpoint(chainId: number, endpoint: string): Promise<void> {
+    const gauges: Gauge<string>[] = [
+      this.blockHeight,
+      this.endpointUp,
+      this.rpcLatency,
+      this.peerCount,
+      this.endpointDiverged,
+    ];
+    for (const gauge of gauges) {
+      // Label sets also differ by endpoint type, so look up the ones actually exported
+      const { values } = await gauge.get();
+      values
+        .filter(({ labels }) => labels.endpoint === endpoint && String(labels.chain_id) === String(chainId))
+        .forEach(({ labels }) => gauge.remove(labels));
+    }
+  }
+
+  recordAlert(chainId: number | undefined, type: string, component: string): void {
+    this.alerts.inc({ chain_id: chainId ?? 'none', type, component });
+  }
+
+  recordTestTransaction(chainId: number, type: string, rpc: string, success: boolean, durationMs: number): void {
+    this.testTransactions.inc({ chain_id: chainId, type, rpc, result: success ? 'success' : 'failure' });
+    this.testTransactionDuration.set({ chain_id: chainId, type, rpc }, durationMs);
+  }
+
+  setWalletBalance(chainId: number, balance: number, sufficient: boolean): void {
+    this.walletBalance.set({ chain_id: chainId }, balance);
+    this.walletSufficient.set({ chain_id: chainId }, sufficient ? 1 : 0);
+  }
+
+  setValidatorSummary(
+    chainId: number,
+    epoch: number,
+    round: number,
+    counts: { masternode: number; standby: number; penalty: number },
+  ): void {
+    this.epoch.set({ chain_id: chainId }, epoch);
+    this.round.set({ chain_id: chainId }, round);
+    Object.entries(counts).forEach(([status, count]) => this.validators.set({ chain_id: chainId, status }, count));
+  }
+
+  recordMissedRounds(chainId: number, missedMiners: number): void {
+    this.missedRounds.inc({ chain_id: chainId }, missedMiners);
+  }
+
+  setTimeoutPeriod(chainId: number, seconds: number): void {
+    this.timeoutPeriod.set({ chain_id: chainId }, seconds);
+  }
+
+  setMinerMissedBlocks(chainId: number, miner: string, missedBlocks: number): void {
+    this.minerMissedBlocks.set({ chain_id: chainId, miner }, missedBlocks);
+  }
+
+  setMinerPerformance(chainId: number, miner: string, blocksMined: number, missedBlocks: number, rate: number): void {
+    this.minerBlocksMined.set({ chain_id: chainId, miner }, blocksMined);
+    this.minerMissedBlocks.set({ chain_id: chainId, miner }, missedBlocks);
+    this.minerSuccessRate.set({ chain_id: chainId, miner }, rate);
+  }
+
+  setEpochRewards(
+    chainId: number,
+    rewards: { total: number; masternode: number; standby: number; penalty: number },
+    rewardedNodes: number,
+    unrewardedMasternodes: number,
+  ): void {
+    Object.entries(rewards).forEach(([recipient, amount]) =>
+      this.epochReward.set({ chain_id: chainId, recipient }, amount),
+    );
+    this.epochRewardedNodes.set({ chain_id: chainId }, rewardedNodes);
+    this.epochUnrewardedMasternodes.set({ chain_id: chainId }, unrewardedMasternodes);
+  }
+
+  setSubnetStatus(
+    chainId: number,
+    headBlock: number,
+    counts: { masternode: number; standby: number; penalty: number },
+  ): void {
+    this.subnetHeadBlock.set({ chain_id: chainId }, headBlock);
+    Object.entries(counts).forEach(([status, count]) =>
+      this.subnetValidators.set({ chain_id: chainId, status }, count),
+    );
+  }
+
+  setSubnetCheckpoint(chainId: number, committedBlock: number, lagBlocks: number): void {
+    this.subnetCheckpointedBlock.set({ chain_id: chainId }, committedBlock);
+    this.subnetCheckpointLag.set({ chain_id: chainId }, lagBlocks);
+  }
+
+  setMetricsStorage(queuedPoints: number, spoolBytes: number, spoolPoints: number): void {
+    this.metricsQueuePoints.set(queuedPoints);
+    this.metricsSpoolBytes.set(spoolBytes);
+    this.metricsSpoolPoints.set(spoolPoints);
+  }
+
+  recordDroppedMetricPoints(reason: string, count: number): void {
+    this.metricsDroppedPoints.inc({ reason }, count);
+  }
+
+  /**
+   * Set a per-endpoint gauge, or drop the series while the endpoint is failing
+   */
+  private setOrRemove<T extends string>(gauge: Gauge<T>, labels: Labels<T>, value: number | null, failed: boolean) {
+    if (failed || value === null) {
+      gauge.remove(labels);
+      return;
+    }
+    gauge.set(labels, value);
+  }
+
+  private gauge<T extends string>(name: string, help: string, labelNames: T[]): Gauge<T> {
+    return new Gauge({ name, help, labelNames, registers: [this.registry] });
+  }
+
+  private counter<T extends string>(name: string, help: string, labelNames: T[]): Counter<T> {
+    return new Counter({ name, help, labelNames, registers: [this.registry] });
+  }
+}
@@ -0,0 +1,107 @@
+import { TELEMETRY_SCOPE } from '@common/utils/tracing';
+import { ConfigService } from '@config/config.service';
+import { PrometheusService } from '@metrics/prometheus.service';
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { Resource, resourceFromAttributes } from '@opentelemetry/resources';
+import { MeterProvider, PeriodicExportingMetricReader } from '@opentelemetry/sdk-metrics';
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+  ParentBasedSampler,
+  TraceIdRatioBasedSampler,
+} from '@opentelemetry/sdk-trace-node';
+import { TelemetryConfig } from '@types';
+import { Counter, Gauge } from 'prom-client';
+
+/**
+ * OpenTelemetry exporter
+ *
+ * Sends the monitor metrics and per-check spans to an OTLP/HTTP collector, next to InfluxDB and /metrics.
+ * Metrics are read from the Prometheus registry at each export, so everything MetricsService records is
+ * exported without a second set of instruments. Spans are created through the global tracer
+ * (see common/utils/tracing) and stay no-ops while tracing is disabled.
+ */
+@Injectable()
+export class TelemetryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TelemetryService.name);
+  private tracerProvider: NodeTracerProvider | null = null;
+  private meterProvider: MeterProvider | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prometheus: PrometheusService,
+  ) {}
+
+  onModuleInit() {
+    const config = this.configService.getTelemetryConfig();
+    if (!config.metricsEnabled && !config.tracesEnabled) return;
+
+    const resource = resourceFromAttributes({ 'service.name': config.serviceName });
+
+    try {
+      if (config.tracesEnabled) this.startTracing(config, resource);
+      if (config.metricsEnabled) this.startMetrics(config, resource);
+    } catch (error) {
+      this.logger.error(`Failed to start OpenTelemetry export: ${error.message}`);
+    }
+  }
+
+  /**
+   * Flush pending spans and metrics before shutting down
+   */
+  async onModuleDestroy() {
+    await Promise.all([this.tracerProvider?.shutdown(), this.meterProvider?.shutdown()]).catch(error =>
+      this.logger.warn(`Failed to flush OpenTelemetry data: ${error.message}`),
+    );
+  }
+
+  private startTracing(config: TelemetryConfig, resource: Resource): void {
+    const exporter = new OTLPTraceExporter({ url: `${config.endpoint}/v1/traces`, headers: config.headers });
+
+    this.tracerProvider = new NodeTracerProvider({
+      resource,
+      sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(config.traceSampleRatio) }),
+      spanProcessors: [new BatchSpanProcessor(exporter)],
+    });
+    // Registers the global tracer provider and the async context manager used to nest spans
+    this.tracerProvider.register();
+
+    this.logger.log(`Exporting traces to ${config.endpoint}/v1/traces (sample ratio: ${config.traceSampleRatio})`);
+  }
+
+  private startMetrics(config: TelemetryConfig, resource: Resource): void {
+    const exporter = new OTLPMetricExporter({ url: `${config.endpoint}/v1/metrics`, headers: config.headers });
+
+    this.meterProvider = new MeterProvider({
+      resource,
+      readers: [new PeriodicExportingMetricReader({ exporter, exportIntervalMillis: config.metricExportIntervalMs })],
+    });
+    const meter = this.meterProvider.getMeter(TELEMETRY_SCOPE);
+
+    let instruments = 0;
+    for (const { name, help } of this.prometheus.registry.getMetricsAsArray()) {
+      const metric = this.prometheus.registry.getSingleMetric(name);
+
+      // Histograms and summaries (Node.js runtime metrics only) stay on /metrics
+      const instrument =
+        metric instanceof Counter
+          ? meter.createObservableCounter(name, { description: help })
+          : metric instanceof Gauge
+            ? meter.createObservableGauge(name, { description: help })
+            : null;
+      if (!instrument) continue;
+
+      instrument.addCallback(async result => {
+        const { values } = await metric.get();
+        values.forEach(({ value, labels }) => result.observe(value, labels));
+      });
+      instruments++;
+    }
+
+    this.logger.log(
+      `Exporting ${instruments} metrics to ${config.endpoint}/v1/metrics every ${config.metricExportIntervalMs / 1000}s`,
+    );
+  }
+}
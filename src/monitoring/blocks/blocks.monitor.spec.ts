@@ -0,0 +1,260 @@
+import { AlertService } from '@alerts/alert.service';
+import { BlockchainService } from '@blockchain/blockchain.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { ConfigService } from '@config/config.service';
+import { EndpointRegistryService } from '@endpoints/endpoint-registry.service';
+import { LiveUpdatesService } from '@live/live-updates.service';
+import { MetricsService } from '@metrics/metrics.service';
+import { BlocksMonitorService } from '@monitoring/blocks/blocks.monitor';
+import { ReorgMonitor } from '@monitoring/blocks/reorg.monitor';
+import { RpcMonitorService } from '@monitoring/rpc/rpc.monitor';
+import { Logger } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Test } from '@nestjs/testing';
+import { StateStoreService } from '@state/state-store.service';
+import { BlockInfo, StateProvider } from '@types';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Local JSON-RPC server reporting the chain head
+ */
+class MockRpcNode {
+  headBlock = 100;
+
+  private server: Server;
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const { id } = JSON.parse(body);
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result: `0x${this.headBlock.toString(16)}` }));
+      });
+    });
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+const block = (number: number): BlockInfo => ({
+  number,
+  hash: `0x${number.toString(16)}`,
+  parentHash: `0x${(number - 1).toString(16)}`,
+  timestamp: number * 2000,
+  transactions: [],
+  gasUsed: 0n,
+  gasLimit: 0n,
+  miner: '0x0000000000000000000000000000000000000001',
+});
+
+describe('BlocksMonitorService', () => {
+  let node: MockRpcNode;
+  let service: BlocksMonitorService;
+  let metrics: Record<string, jest.Mock>;
+  let alerts: Record<string, jest.Mock>;
+  let fetchedBlocks: number[];
+  let failingBlocks: Set<number>;
+  let persistedHeight: number | null;
+  let backendConnected: boolean;
+  let stateProvider: StateProvider<Record<number, number>>;
+
+  const checkChain = (): Promise<void> => service['checkChain'](50);
+  const backfill = () => service.getBlockMonitoringInfo().backfill.mainnet;
+  const persistedHeights = () => metrics.recordLastProcessedBlock.mock.calls.map(([, height]) => height);
+
+  beforeEach(async () => {
+    node = new MockRpcNode();
+    const url = await node.start();
+    fetchedBlocks = [];
+    failingBlocks = new Set();
+    persistedHeight = null;
+    backendConnected = true;
+
+    const chain = { key: 'mainnet', chainId: 50, name: 'Mainnet', type: 'mainnet', primaryRpcUrl: url };
+    metrics = {
+      getLastProcessedBlock: jest.fn(async () => (backendConnected ? persistedHeight : null)),
+      isConnected: jest.fn(() => backendConnected),
+      recordLastProcessedBlock: jest.fn(),
+      recordBlockGap: jest.fn(),
+      setBlockHeightWithSentinel: jest.fn(),
+      setBlockTime: jest.fn(),
+      setTransactionsPerBlock: jest.fn(),
+      setTransactionsPerMinute: jest.fn(),
+    };
+
+    alerts = { error: jest.fn(), warning: jest.fn(), resolveCondition: jest.fn(async () => true) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        BlocksMonitorService,
+        {
+          provide: BlockchainService,
+          useValue: {
+            getBlockByNumberForChain: jest.fn(async (number: number) => {
+              fetchedBlocks.push(number);
+              if (failingBlocks.has(number)) throw new Error(`header not found for #${number}`);
+              return block(number);
+            }),
+          },
+        },
+        { provide: ConfigService, useValue: { scanInterval: 15000, enableBlockMonitoring: true } },
+        { provide: RpcMonitorService, useValue: { getAllRpcStatuses: () => [{ url, chainId: 50, status: 'up' }] } },
+        { provide: MetricsService, useValue: metrics },
+        { provide: AlertService, useValue: alerts },
+        { provide: SchedulerRegistry, useValue: { addInterval: jest.fn(), deleteInterval: jest.fn() } },
+        {
+          provide: ReorgMonitor,
+          useValue: {
+            verifyBlock: jest.fn(async () => undefined),
+            compareEndpointHashes: jest.fn(async () => undefined),
+          },
+        },
+        {
+          provide: EndpointRegistryService,
+          useValue: { onChange: jest.fn(), getPrimaryRpcUrl: () => url, getEndpoints: () => [] },
+        },
+        { provide: ChainRegistryService, useValue: { getChains: () => [chain], getChain: () => chain } },
+        { provide: LiveUpdatesService, useValue: { publish: jest.fn(), publishLatest: jest.fn() } },
+        {
+          provide: StateStoreService,
+          useValue: {
+            register: jest.fn(async (_key: string, provider: StateProvider<Record<number, number>>) => {
+              stateProvider = provider;
+              return false;
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    moduleRef.useLogger(false);
+    service = moduleRef.get(BlocksMonitorService);
+  });
+
+  afterEach(async () => {
+    service.onModuleDestroy();
+    await node.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('restores the persisted height and backfills the blocks missed while stopped', async () => {
+    persistedHeight = 95;
+
+    await checkChain();
+    await waitFor(() => backfill().lastProcessedHeight === 100);
+
+    expect(fetchedBlocks).toEqual(expect.arrayContaining([96, 97, 98, 99, 100]));
+    expect(backfill().recentGaps).toEqual([expect.objectContaining({ from: 96, to: 99 })]);
+    expect(persistedHeights()).toContain(100);
+  });
+
+  it('restores the height from the state store when the metrics backend cannot read it back', async () => {
+    // Remote-write backends are connected but have no query support
+    stateProvider.restore({ 50: 95 });
+    persistedHeight = null;
+
+    await checkChain();
+    await waitFor(() => backfill().lastProcessedHeight === 100);
+
+    expect(metrics.getLastProcessedBlock).not.toHaveBeenCalled();
+    expect(backfill().recentGaps).toEqual([expect.objectContaining({ from: 96, to: 99 })]);
+    expect(stateProvider.snapshot()).toEqual({ 50: 100 });
+  });
+
+  it('keeps the saved height in snapshots taken before the chain restored it', async () => {
+    stateProvider.restore({ 50: 95 });
+
+    expect(stateProvider.snapshot()).toEqual({ 50: 95 });
+  });
+
+  it('asks again for the persisted height until the metrics backend is connected', async () => {
+    backendConnected = false;
+    persistedHeight = 90;
+
+    await checkChain();
+
+    expect(backfill().lastProcessedHeight).toBe(100);
+    // Persisting now would replace the height a later restore is waiting for
+    expect(metrics.recordLastProcessedBlock).not.toHaveBeenCalled();
+
+    backendConnected = true;
+    node.headBlock = 101;
+    await checkChain();
+    await waitFor(() => backfill().pending === 0);
+
+    expect(metrics.getLastProcessedBlock).toHaveBeenCalledTimes(2);
+    expect(backfill().completed).toBe(9);
+    expect(fetchedBlocks).toEqual(expect.arrayContaining([91, 92, 93, 94, 95, 96, 97, 98, 99]));
+    expect(backfill().recentGaps).toEqual([expect.objectContaining({ from: 91, to: 99 })]);
+    expect(backfill().lastProcessedHeight).toBe(101);
+    expect(persistedHeights()).toEqual([101]);
+  });
+
+  it('stops asking once the connected backend has no persisted height', async () => {
+    await checkChain();
+    node.headBlock = 101;
+    await checkChain();
+
+    expect(metrics.getLastProcessedBlock).toHaveBeenCalledTimes(1);
+    expect(persistedHeights()).toEqual([100, 101]);
+  });
+
+  it('leaves a block that failed to process for the next cycle', async () => {
+    persistedHeight = 99;
+    failingBlocks.add(100);
+
+    await checkChain();
+
+    expect(backfill().lastProcessedHeight).toBe(99);
+    expect(metrics.recordLastProcessedBlock).not.toHaveBeenCalled();
+
+    failingBlocks.clear();
+    node.headBlock = 101;
+    await checkChain();
+    await waitFor(() => backfill().lastProcessedHeight === 101);
+
+    expect(fetchedBlocks.filter(number => number === 100).length).toBeGreaterThanOrEqual(2);
+    expect(backfill().recentGaps).toEqual([expect.objectContaining({ from: 100, to: 100 })]);
+    expect(persistedHeights().pop()).toBe(101);
+  });
+
+  it('retries the same failed block directly while it is still the head', async () => {
+    failingBlocks.add(100);
+
+    await checkChain();
+    failingBlocks.clear();
+    await checkChain();
+
+    expect(backfill().lastProcessedHeight).toBe(100);
+    expect(backfill().recentGaps).toEqual([]);
+  });
+
+  it('logs a failed sync lag resolve instead of leaving the rejection unhandled', async () => {
+    const errorSpy = jest.spyOn(Logger.prototype, 'error');
+    alerts.resolveCondition.mockRejectedValue(new Error('state store unavailable'));
+
+    await checkChain();
+    await waitFor(() => errorSpy.mock.calls.length >= 2);
+
+    expect(alerts.resolveCondition).toHaveBeenCalledWith('sync_blocks_lag:critical:50', expect.any(String));
+    expect(errorSpy.mock.calls.map(([message]) => message)).toEqual([
+      'Failed to resolve sync lag alert for chain 50: state store unavailable',
+      'Failed to resolve sync lag alert for chain 50: state store unavailable',
+    ]);
+  });
+});
@@ -1,32 +1,57 @@
 import { BlockchainService } from '@blockchain/blockchain.service';
-import {
-  CHAIN_ID_TO_NETWORK,
-  NETWORK_MAINNET,
-  NETWORK_TESTNET,
-  RECENT_BLOCKS_SAMPLE_SIZE,
-  TRANSACTION_HISTORY_WINDOW_MS,
-} from '@common/constants/block-monitoring';
-import { ALERTS, BLOCKCHAIN, PERFORMANCE } from '@common/constants/config';
-import { MAINNET_CHAIN_ID, TESTNET_CHAIN_ID } from '@common/constants/endpoints';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { RECENT_BLOCKS_SAMPLE_SIZE, TRANSACTION_HISTORY_WINDOW_MS } from '@common/constants/block-monitoring';
+import { ALERTS, BLOCKCHAIN, FEATURES, PERFORMANCE } from '@common/constants/config';
+import { EnhancedQueue, Priority } from '@common/utils/enhanced-queue';
 import { RpcRetryClient } from '@common/utils/rpc-retry-client';
 import { TimeWindowData } from '@common/utils/time-window-data';
+import { markSpanFailed, SPAN_ATTRIBUTES, withSpan } from '@common/utils/tracing';
 import { ConfigService } from '@config/config.service';
+import { EndpointRegistryService } from '@endpoints/endpoint-registry.service';
+import { LiveUpdatesService } from '@live/live-updates.service';
 import { MetricsService } from '@metrics/metrics.service';
 import { AlertService } from '@alerts/alert.service';
+import { ReorgMonitor } from '@monitoring/blocks/reorg.monitor';
 import { RpcMonitorService } from '@monitoring/rpc/rpc.monitor';
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { SchedulerRegistry } from '@nestjs/schedule';
-import { BlockInfo, BlockMonitoringInfo, NetworkConfig, PrimaryEndpointStatus } from '@types';
+import { StateStoreService } from '@state/state-store.service';
+import {
+  BackfillStatus,
+  BlockGap,
+  BlockInfo,
+  BlockMonitoringInfo,
+  ChainDefinition,
+  EndpointChange,
+  NetworkConfig,
+  PrimaryEndpointStatus,
+  RecentBlock,
+} from '@types';
 
 // Core constants
 const DOWNTIME_NOTIFICATION_THRESHOLD_MS = 60 * 60 * 1000; // 1 hour
 const DEFAULT_BATCH_SIZE = 20;
 
-// Network configurations
-const SUPPORTED_CHAINS = [
-  { key: NETWORK_MAINNET, chainId: MAINNET_CHAIN_ID, defaultRpc: BLOCKCHAIN.RPC.DEFAULT_MAINNET_RPC },
-  { key: NETWORK_TESTNET, chainId: TESTNET_CHAIN_ID, defaultRpc: BLOCKCHAIN.RPC.DEFAULT_TESTNET_RPC },
-];
+// Block queued for backfill
+interface BackfillItem {
+  chainId: number;
+  blockNumber: number;
+}
+
+// Backfill progress for a chain
+interface BackfillState {
+  lastProcessedHeight: number | null; // Every block up to this height has been processed
+  scheduledHeight: number | null; // Highest block already processed or queued
+  latestHeight: number | null;
+  restored: boolean; // Whether the persisted height has been loaded
+  startHeight: number | null; // First block processed without a persisted height
+  pendingBlocks: Set<number>;
+  processedBlocks: Set<number>; // Processed blocks above lastProcessedHeight
+  completed: number;
+  failed: number;
+  skipped: number;
+  recentGaps: BlockGap[];
+}
 
 /**
  * Service for monitoring blocks across XDC networks
@@ -44,15 +69,20 @@ export class BlocksMonitorService implements OnModuleInit {
   // Network state
   private networks: Record<string, NetworkConfig> = {};
   private primaryEndpointStatus: Record<number, PrimaryEndpointStatus> = {};
-  private endpointBlockHeights: Record<string, Record<string, number>> = {
-    [NETWORK_MAINNET]: {},
-    [NETWORK_TESTNET]: {},
-  };
+  private endpointBlockHeights: Record<string, Record<string, number>> = {};
 
   // Data tracking
   private recentBlockTimes: Record<string, TimeWindowData>;
   private transactionCounts: Record<string, TimeWindowData>;
   private failedTransactions: Record<string, TimeWindowData>;
+  private recentBlocks: Record<number, RecentBlock[]> = {}; // Newest first
+
+  // Block gap backfill
+  private backfillQueue: EnhancedQueue<BackfillItem>;
+  private backfillState: Record<number, BackfillState> = {};
+  // Last processed heights restored from the state store, chainId -> height
+  private savedHeights: Record<number, number> = {};
+  private stateRestored: Promise<boolean>;
 
   // Alert throttling - Primary throttling mechanism for sync lag alerts
   // This works in addition to the AlertService throttling to guarantee a minimum time between alerts
@@ -67,8 +97,15 @@ export class BlocksMonitorService implements OnModuleInit {
     private readonly metricsService: MetricsService,
     private readonly alertService: AlertService,
     private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly reorgMonitor: ReorgMonitor,
+    private readonly endpointRegistry: EndpointRegistryService,
+    private readonly chainRegistry: ChainRegistryService,
+    private readonly liveUpdates: LiveUpdatesService,
+    private readonly stateStore: StateStoreService,
   ) {
     this.initializeService();
+    this.registerStateProvider();
+    this.endpointRegistry.onChange(change => this.handleEndpointChange(change));
   }
 
   /**
@@ -78,6 +115,7 @@ export class BlocksMonitorService implements OnModuleInit {
     this.initTimeWindows();
     this.loadConfig();
     this.initNetworks();
+    this.initBackfill();
   }
 
   async onModuleInit() {
@@ -105,14 +143,12 @@ export class BlocksMonitorService implements OnModuleInit {
    */
   onModuleDestroy() {
     this.stopMonitoring();
+    this.backfillQueue.clear();
   }
 
   private initTimeWindows(): void {
     // Create time windows with common configs
-    const createTimeWindows = (config: any) => ({
-      [NETWORK_MAINNET]: new TimeWindowData(config),
-      [NETWORK_TESTNET]: new TimeWindowData(config),
-    });
+    const createTimeWindows = (config: any) => this.perChain(() => new TimeWindowData(config));
 
     this.recentBlockTimes = createTimeWindows({
       windowDurationMs: 24 * 60 * 60 * 1000,
@@ -128,6 +164,59 @@ export class BlocksMonitorService implements OnModuleInit {
     this.failedTransactions = createTimeWindows(txConfig);
   }
 
+  private initBackfill(): void {
+    this.chainRegistry.getChains().forEach(({ chainId }) => {
+      this.backfillState[chainId] = {
+        lastProcessedHeight: null,
+        scheduledHeight: null,
+        latestHeight: null,
+        restored: false,
+        startHeight: null,
+        pendingBlocks: new Set(),
+        processedBlocks: new Set(),
+        completed: 0,
+        failed: 0,
+        skipped: 0,
+        recentGaps: [],
+      };
+    });
+
+    this.backfillQueue = new EnhancedQueue<BackfillItem>(item => this.processBackfillBlock(item), {
+      maxConcurrent: BLOCKCHAIN.BLOCKS.BACKFILL_MAX_CONCURRENT,
+      maxRetries: BLOCKCHAIN.BLOCKS.BACKFILL_MAX_RETRIES,
+      retryDelayMs: BLOCKCHAIN.BLOCKS.BACKFILL_RETRY_DELAY_MS,
+      getItemId: ({ chainId, blockNumber }) => `${chainId}-${blockNumber}`,
+      onSuccess: ({ chainId, blockNumber }) => {
+        this.backfillState[chainId].completed++;
+        this.markBlockProcessed(chainId, blockNumber);
+      },
+      onMaxRetries: ({ chainId, blockNumber }, error) => {
+        this.logger.warn(`Giving up backfill of block #${blockNumber} on chain ${chainId}: ${error.message}`);
+        this.backfillState[chainId].failed++;
+        this.markBlockProcessed(chainId, blockNumber);
+      },
+    });
+  }
+
+  /**
+   * Persist the last processed height of each chain so blocks missed while stopped are backfilled
+   * Chains whose height was not restored yet keep the saved one, an early snapshot must not drop it
+   */
+  private registerStateProvider(): void {
+    this.stateRestored = this.stateStore.register<Record<number, number>>(BlocksMonitorService.name, {
+      snapshot: () => {
+        const heights = { ...this.savedHeights };
+        Object.entries(this.backfillState).forEach(([chainId, state]) => {
+          if (state.restored && state.lastProcessedHeight !== null) heights[chainId] = state.lastProcessedHeight;
+        });
+        return heights;
+      },
+      restore: heights => {
+        this.savedHeights = { ...heights };
+      },
+    });
+  }
+
   private loadConfig(): void {
     this.scanIntervalMs = this.configService.scanInterval || BLOCKCHAIN.BLOCKS.DEFAULT_SCAN_INTERVAL_MS;
     this.monitoringEnabled = this.configService.enableBlockMonitoring;
@@ -143,9 +232,10 @@ export class BlocksMonitorService implements OnModuleInit {
   }
 
   private initNetworks(): void {
-    // Initialize networks from supported chains
-    SUPPORTED_CHAINS.forEach(({ key, chainId, defaultRpc }) => {
-      const primaryEndpoint = this.configService.getPrimaryRpcUrl(chainId) || defaultRpc;
+    // Initialize networks from the registered chains
+    this.chainRegistry.getChains().forEach(({ key, chainId, primaryRpcUrl }) => {
+      const primaryEndpoint = this.endpointRegistry.getPrimaryRpcUrl(chainId) || primaryRpcUrl;
+      this.endpointBlockHeights[key] = {};
       this.networks[key] = {
         primaryEndpoint,
         endpoints: [],
@@ -158,41 +248,73 @@ export class BlocksMonitorService implements OnModuleInit {
   }
 
   private updateNetworkEndpoints(): void {
-    SUPPORTED_CHAINS.forEach(({ key, chainId }) => {
-      this.networks[key].primaryEndpoint = this.configService.getPrimaryRpcUrl(chainId);
+    this.chainRegistry.getChains().forEach(({ key, chainId }) => {
+      this.networks[key].primaryEndpoint = this.endpointRegistry.getPrimaryRpcUrl(chainId);
     });
   }
 
   private loadAdditionalEndpoints(): void {
-    SUPPORTED_CHAINS.forEach(({ key, chainId }) => {
-      const endpoints = this.configService
-        .getRpcEndpoints()
-        .filter(endpoint => endpoint.chainId === chainId && endpoint.type === 'rpc')
+    this.chainRegistry.getChains().forEach(({ key, chainId }) => {
+      const endpoints = this.endpointRegistry
+        .getEndpoints({ kind: 'rpc', chainId })
+        .filter(endpoint => endpoint.type === 'rpc')
         .map(endpoint => endpoint.url);
 
-      if (endpoints.length > 0) {
-        this.networks[key].endpoints = endpoints;
-        this.networks[key].client.setFallbackUrls(endpoints);
-      }
+      this.networks[key].endpoints = endpoints;
+      this.networks[key].client.setFallbackUrls(endpoints);
     });
   }
 
+  /**
+   * Follow RPC endpoints added to or removed from the endpoint registry
+   * A removed primary endpoint is replaced right away by the highest endpoint of the last cycle.
+   */
+  private handleEndpointChange({ type, endpoint }: EndpointChange): void {
+    const chain = this.chainRegistry.getChain(endpoint.chainId);
+    if (endpoint.kind !== 'rpc' || !chain) return;
+
+    const network = this.networks[chain.key];
+    if (type === 'removed') {
+      delete this.endpointBlockHeights[chain.key][endpoint.url];
+
+      if (network.primaryEndpoint === endpoint.url) {
+        const replacement = this.getBestEndpoint(chain.key) || this.endpointRegistry.getPrimaryRpcUrl(chain.chainId);
+        network.primaryEndpoint = replacement;
+        network.client = this.createRpcClient(replacement);
+        this.primaryEndpointStatus[chain.chainId] = {
+          url: replacement,
+          chainId: chain.chainId,
+          downSince: undefined,
+          alerted: false,
+        };
+        this.logger.log(`Primary endpoint ${endpoint.url} for ${chain.key} was removed, switched to ${replacement}`);
+      }
+    }
+
+    this.loadAdditionalEndpoints();
+  }
+
   private async initRpcClients(): Promise<void> {
     try {
       this.logger.log('Initializing RPC clients for block monitoring...');
       const options = { maxRetries: 5, retryDelayMs: 1000, timeoutMs: 10000 };
 
       // Create clients for all supported chains
-      SUPPORTED_CHAINS.forEach(({ key }) => {
+      this.chainRegistry.getChains().forEach(({ key }) => {
         this.networks[key].client = this.createRpcClient(this.networks[key].primaryEndpoint, options);
       });
 
       // Test connections in parallel
       const results = await Promise.all(
-        SUPPORTED_CHAINS.map(({ key }) => this.networks[key].client.call('eth_chainId').catch(() => null)),
+        this.chainRegistry
+          .getChains()
+          .map(({ key }) => this.networks[key].client.call('eth_chainId').catch(() => null)),
       );
 
-      const statusSummary = SUPPORTED_CHAINS.map((net, i) => `${net.key}: ${!!results[i]}`).join(', ');
+      const statusSummary = this.chainRegistry
+        .getChains()
+        .map((net, i) => `${net.key}: ${!!results[i]}`)
+        .join(', ');
       this.logger.log(`RPC clients initialized - ${statusSummary}`);
     } catch (error) {
       this.logger.error(`Error initializing RPC clients: ${error.message}`);
@@ -212,7 +334,7 @@ export class BlocksMonitorService implements OnModuleInit {
   }
 
   private initEndpointStatusTracking(): void {
-    SUPPORTED_CHAINS.forEach(({ chainId }) => {
+    this.chainRegistry.getChains().forEach(({ chainId }) => {
       const networkKey = this.getNetworkKey(chainId);
       this.primaryEndpointStatus[chainId] = {
         url: this.networks[networkKey].primaryEndpoint,
@@ -231,13 +353,16 @@ export class BlocksMonitorService implements OnModuleInit {
 
     try {
       // Check endpoints for all supported chains in parallel
-      await Promise.all(SUPPORTED_CHAINS.map(({ chainId }) => this.findEndpointBlockHeights(chainId)));
+      await Promise.all(this.chainRegistry.getChains().map(({ chainId }) => this.findEndpointBlockHeights(chainId)));
 
       // Log discovered best endpoints
-      const bestEndpoints = SUPPORTED_CHAINS.map(({ key }) => {
-        const best = this.getBestEndpoint(key);
-        return `${key}: ${best || 'none found'}`;
-      }).join(', ');
+      const bestEndpoints = this.chainRegistry
+        .getChains()
+        .map(({ key }) => {
+          const best = this.getBestEndpoint(key);
+          return `${key}: ${best || 'none found'}`;
+        })
+        .join(', ');
 
       this.logger.log(`Initial endpoint selection - ${bestEndpoints}`);
     } catch (error) {
@@ -263,9 +388,9 @@ export class BlocksMonitorService implements OnModuleInit {
     }
 
     // Get all RPC endpoints for this chain
-    const allRpcEndpoints = this.configService
-      .getRpcEndpoints()
-      .filter(endpoint => endpoint.chainId === chainId && endpoint.type === 'rpc')
+    const allRpcEndpoints = this.endpointRegistry
+      .getEndpoints({ kind: 'rpc', chainId })
+      .filter(endpoint => endpoint.type === 'rpc')
       .map(endpoint => endpoint.url);
 
     // Check all endpoints in parallel with timeout
@@ -283,7 +408,7 @@ export class BlocksMonitorService implements OnModuleInit {
    */
   private async updateToBestEndpoints(): Promise<void> {
     // Update all networks to use their best endpoint
-    for (const { key, chainId } of SUPPORTED_CHAINS) {
+    for (const { key, chainId } of this.chainRegistry.getChains()) {
       const bestEndpoint = this.getBestEndpoint(key);
       if (bestEndpoint) {
         this.networks[key].primaryEndpoint = bestEndpoint;
@@ -345,7 +470,7 @@ export class BlocksMonitorService implements OnModuleInit {
 
     try {
       this.logger.debug('Running block monitoring cycle');
-      await Promise.all(SUPPORTED_CHAINS.map(({ chainId }) => this.checkChain(chainId)));
+      await Promise.all(this.chainRegistry.getChains().map(({ chainId }) => this.checkChain(chainId)));
     } catch (error) {
       this.logger.error(`Monitoring error: ${error.message}`);
     }
@@ -361,19 +486,37 @@ export class BlocksMonitorService implements OnModuleInit {
       return;
     }
 
-    try {
-      // First check all endpoints to find the one with highest block
-      await this.checkAllEndpoints(chainId, network);
+    // One trace per chain and cycle, RPC calls and block processing are recorded as child spans
+    await withSpan('blocks.check_chain', { [SPAN_ATTRIBUTES.CHAIN_ID]: chainId }, async span => {
+      try {
+        // First check all endpoints to find the one with highest block
+        await this.checkAllEndpoints(chainId, network);
+
+        // Process data from the best endpoint
+        const bestEndpoint = this.getBestEndpoint(networkKey);
+        if (bestEndpoint) {
+          const blockHeight = this.endpointBlockHeights[networkKey][bestEndpoint];
+          span.setAttributes({ [SPAN_ATTRIBUTES.ENDPOINT]: bestEndpoint, [SPAN_ATTRIBUTES.BLOCK_NUMBER]: blockHeight });
+          await this.restoreLastProcessedHeight(chainId);
+
+          // Skip blocks that were already processed in a previous cycle
+          if (this.isBlockProcessed(chainId, blockHeight)) {
+            span.setAttribute(SPAN_ATTRIBUTES.OUTCOME, 'skipped');
+            return;
+          }
 
-      // Process data from the best endpoint
-      const bestEndpoint = this.getBestEndpoint(networkKey);
-      if (bestEndpoint) {
-        const blockHeight = this.endpointBlockHeights[networkKey][bestEndpoint];
-        await this.processLatestBlockData(chainId, bestEndpoint, blockHeight);
+          this.scheduleBackfill(chainId, blockHeight);
+          if (await this.processLatestBlockData(chainId, bestEndpoint, blockHeight)) {
+            this.markBlockProcessed(chainId, blockHeight);
+          } else {
+            this.unscheduleBlock(chainId, blockHeight);
+          }
+        }
+      } catch (error) {
+        markSpanFailed(span, error);
+        this.logger.error(`Error checking chain ${chainId}: ${error.message}`);
       }
-    } catch (error) {
-      this.logger.error(`Error checking chain ${chainId}: ${error.message}`);
-    }
+    });
   }
 
   private async checkAllEndpoints(chainId: number, network: NetworkConfig): Promise<void> {
@@ -391,6 +534,9 @@ export class BlocksMonitorService implements OnModuleInit {
 
     // After collecting all block heights, check for endpoints that are behind
     this.checkForBlockHeightLag(chainId, networkKey);
+
+    // Check that all endpoints agree on the block hash at the same height
+    await this.reorgMonitor.compareEndpointHashes(chainId, this.endpointBlockHeights[networkKey]);
   }
 
   private async checkEndpointBlockHeight(endpoint: string, chainId: number, networkKey: string): Promise<void> {
@@ -449,7 +595,12 @@ export class BlocksMonitorService implements OnModuleInit {
     }
   }
 
-  private async processLatestBlockData(chainId: number, endpointUrl: string, latestBlock: number): Promise<void> {
+  /**
+   * Process the latest block and record its block time
+   *
+   * @returns Whether the block was fetched and processed
+   */
+  private async processLatestBlockData(chainId: number, endpointUrl: string, latestBlock: number): Promise<boolean> {
     const networkKey = this.getNetworkKey(chainId);
 
     try {
@@ -469,17 +620,22 @@ export class BlocksMonitorService implements OnModuleInit {
         );
       }
 
+      // Verify the blocks extend the canonical chain before processing them
+      if (previousBlockData) await this.reorgMonitor.verifyBlock(chainId, previousBlockData);
+      if (latestBlockData) await this.reorgMonitor.verifyBlock(chainId, latestBlockData);
+
       // Calculate and record block time if both blocks are available
       if (latestBlockData && previousBlockData && previousBlockData.timestamp) {
         this.processBlockTime(latestBlockData, previousBlockData, networkKey, chainId);
       }
 
       // Process the block directly
-      if (latestBlockData) {
-        await this.processBlock(latestBlockData, chainId, endpointUrl);
-      }
+      if (!latestBlockData) return false;
+      await this.processBlock(latestBlockData, chainId, endpointUrl);
+      return true;
     } catch (error) {
       this.logger.error(`Error processing block data: ${error.message}`);
+      return false;
     }
   }
 
@@ -550,21 +706,251 @@ export class BlocksMonitorService implements OnModuleInit {
     }
 
     const networkKey = this.getNetworkKey(chainId);
+    const attributes = {
+      [SPAN_ATTRIBUTES.CHAIN_ID]: chainId,
+      [SPAN_ATTRIBUTES.BLOCK_NUMBER]: block.number,
+      [SPAN_ATTRIBUTES.TRANSACTION_COUNT]: block.transactions?.length || 0,
+      ...(endpoint && { [SPAN_ATTRIBUTES.ENDPOINT]: endpoint }),
+    };
 
-    try {
-      // Update metrics
-      if (endpoint) {
-        this.metricsService.setBlockHeightWithSentinel(block.number, endpoint, chainId.toString(), false);
+    await withSpan('blocks.process_block', attributes, async () => {
+      try {
+        // Update metrics
+        if (endpoint) {
+          this.metricsService.setBlockHeightWithSentinel(block.number, endpoint, chainId.toString(), false);
+        }
+
+        // Process transactions and update metrics
+        const { confirmedCount, failedCount } = await this.processBlockTransactions(block, chainId);
+        this.updateTransactionMetrics(block, chainId, networkKey, confirmedCount, failedCount);
+        const summary: RecentBlock = {
+          number: block.number,
+          hash: block.hash,
+          parentHash: block.parentHash,
+          timestamp: block.timestamp,
+          miner: block.miner,
+          transactionCount: block.transactions?.length || 0,
+          confirmedCount,
+          failedCount,
+        };
+        this.recordRecentBlock(chainId, summary);
+        this.publishBlock(chainId, summary, !endpoint);
+      } catch (error) {
+        this.logger.error(`Error processing block #${block.number}: ${error.message}`);
+        // The caller leaves the block unprocessed, backfills are retried by the queue
+        throw error;
       }
+    });
+  }
 
-      // Process transactions and update metrics
-      const { confirmedCount, failedCount } = await this.processBlockTransactions(block, chainId);
-      this.updateTransactionMetrics(block, chainId, networkKey, confirmedCount, failedCount);
-    } catch (error) {
-      this.logger.error(`Error processing block #${block.number}: ${error.message}`);
+  /**
+   * Keep the newest processed blocks of a chain for the status page
+   */
+  private recordRecentBlock(chainId: number, block: RecentBlock): void {
+    const blocks = (this.recentBlocks[chainId] || []).filter(recent => recent.number !== block.number);
+    blocks.push(block);
+    blocks.sort((a, b) => b.number - a.number);
+    this.recentBlocks[chainId] = blocks.slice(0, FEATURES.DASHBOARD.MAX_BLOCKS_DISPLAY);
+  }
+
+  /**
+   * Stream a processed block to live update clients
+   * Backfilled blocks are coalesced per chain so a large backfill only reports its progress
+   */
+  private publishBlock(chainId: number, block: RecentBlock, backfilled: boolean): void {
+    const data = { ...block, backfilled };
+
+    if (backfilled) {
+      this.liveUpdates.publishLatest(`blocks:backfill:${chainId}`, 'blocks', chainId, 'new-block', data);
+    } else {
+      this.liveUpdates.publish('blocks', chainId, 'new-block', data);
+    }
+  }
+
+  /**
+   * Load the persisted last processed height once, so gaps across restarts are backfilled
+   * The state store is read first. The metrics backend is the fallback for state saved before
+   * the state store was enabled, and is asked every cycle until it is connected, an unconnected
+   * backend cannot tell there is none.
+   */
+  private async restoreLastProcessedHeight(chainId: number): Promise<void> {
+    const state = this.backfillState[chainId];
+    if (!state || state.restored) return;
+
+    await this.stateRestored;
+    let height = this.savedHeights[chainId] ?? null;
+    if (height === null) {
+      height = await this.metricsService.getLastProcessedBlock(chainId);
+      if (height === null && !this.metricsService.isConnected()) return;
+    }
+
+    state.restored = true;
+    if (height === null) return;
+
+    this.logger.log(`Restored last processed block #${height} for chain ${chainId}`);
+    if (state.scheduledHeight === null) {
+      state.lastProcessedHeight = height;
+      state.scheduledHeight = height;
+    } else if (height < state.startHeight - 1) {
+      // Blocks were processed before the backend answered, backfill the ones missed before the first of them
+      this.queueBackfill(chainId, height + 1, state.startHeight - 1);
     }
   }
 
+  private isBlockProcessed(chainId: number, blockNumber: number): boolean {
+    const state = this.backfillState[chainId];
+    if (!state || state.lastProcessedHeight === null) return false;
+
+    return blockNumber <= state.lastProcessedHeight || state.processedBlocks.has(blockNumber);
+  }
+
+  /**
+   * Queue every block between the last scheduled block and the latest one for backfill
+   */
+  private scheduleBackfill(chainId: number, latestBlock: number): void {
+    const state = this.backfillState[chainId];
+    state.latestHeight = Math.max(state.latestHeight ?? 0, latestBlock);
+
+    // Nothing to backfill on the first cycle without a persisted height
+    if (state.scheduledHeight === null) {
+      state.lastProcessedHeight = latestBlock - 1;
+      state.scheduledHeight = latestBlock;
+      state.startHeight = latestBlock;
+      return;
+    }
+
+    const from = state.scheduledHeight + 1;
+    const to = latestBlock - 1;
+    state.scheduledHeight = Math.max(state.scheduledHeight, latestBlock);
+    if (to >= from) {
+      this.queueBackfill(chainId, from, to);
+    }
+  }
+
+  /**
+   * Hand a block that failed to process back to the next cycle, which retries it or backfills it
+   */
+  private unscheduleBlock(chainId: number, blockNumber: number): void {
+    const state = this.backfillState[chainId];
+    if (state.scheduledHeight === blockNumber) {
+      state.scheduledHeight = blockNumber - 1;
+    }
+  }
+
+  /**
+   * Record a gap of missed blocks and queue them for backfill
+   */
+  private queueBackfill(chainId: number, from: number, to: number): void {
+    const state = this.backfillState[chainId];
+    const gap: BlockGap = { from, to, detectedAt: new Date() };
+    state.recentGaps = [gap, ...state.recentGaps].slice(0, BLOCKCHAIN.BLOCKS.BACKFILL_RECENT_GAPS);
+    this.metricsService.recordBlockGap(chainId, from, to);
+
+    // Skip the oldest blocks of very large gaps (e.g. after a long downtime)
+    let start = from;
+    if (to - from + 1 > BLOCKCHAIN.BLOCKS.BACKFILL_MAX_BLOCKS) {
+      start = to - BLOCKCHAIN.BLOCKS.BACKFILL_MAX_BLOCKS + 1;
+      state.skipped += start - from;
+      this.logger.warn(
+        `Gap of ${to - from + 1} blocks on chain ${chainId} exceeds backfill limit, ` +
+          `skipping blocks #${from}-#${start - 1}`,
+      );
+      this.advanceLastProcessedHeight(chainId, start - 1);
+    }
+
+    this.logger.debug(`Queueing backfill of blocks #${start}-#${to} on chain ${chainId}`);
+    for (let blockNumber = start; blockNumber <= to; blockNumber++) {
+      state.pendingBlocks.add(blockNumber);
+      this.backfillQueue.enqueue({ chainId, blockNumber }, Priority.NORMAL);
+    }
+  }
+
+  /**
+   * Fetch and process a missed block, including its block time
+   */
+  private async processBackfillBlock({ chainId, blockNumber }: BackfillItem): Promise<void> {
+    const networkKey = this.getNetworkKey(chainId);
+    const [block, previousBlock] = await Promise.all([
+      this.blockchainService.getBlockByNumberForChain(blockNumber, chainId),
+      this.blockchainService.getBlockByNumberForChain(blockNumber - 1, chainId).catch(() => null),
+    ]);
+
+    await this.reorgMonitor.verifyBlock(chainId, block);
+
+    if (previousBlock?.timestamp) {
+      this.processBlockTime(block, previousBlock, networkKey, chainId);
+    }
+
+    await this.processBlock(block, chainId);
+  }
+
+  /**
+   * Mark a block as processed and move the last processed height forward when possible
+   */
+  private markBlockProcessed(chainId: number, blockNumber: number): void {
+    const state = this.backfillState[chainId];
+    if (!state) return;
+
+    state.pendingBlocks.delete(blockNumber);
+    if (state.lastProcessedHeight !== null && blockNumber <= state.lastProcessedHeight) return;
+
+    state.processedBlocks.add(blockNumber);
+    this.advanceLastProcessedHeight(chainId, state.lastProcessedHeight ?? blockNumber - 1);
+  }
+
+  /**
+   * Move the last processed height to at least the given height and then past
+   * every consecutive processed block, persisting it if it changed
+   */
+  private advanceLastProcessedHeight(chainId: number, minHeight: number): void {
+    const state = this.backfillState[chainId];
+    const previousHeight = state.lastProcessedHeight;
+    let height = Math.max(previousHeight ?? minHeight, minHeight);
+
+    while (state.processedBlocks.has(height + 1)) height++;
+
+    // Drop tracking for processed blocks at or below the new height, pending ones are
+    // still queued (e.g. a gap found by a late restore) and leave once they are processed
+    for (const blockNumber of state.processedBlocks) {
+      if (blockNumber <= height) state.processedBlocks.delete(blockNumber);
+    }
+
+    if (height === previousHeight) return;
+
+    state.lastProcessedHeight = height;
+    // Persisting before the old height is restored would overwrite it
+    if (state.restored) {
+      this.metricsService.recordLastProcessedBlock(chainId, height);
+    }
+  }
+
+  private getBackfillStatus(chainId: number): BackfillStatus {
+    const state = this.backfillState[chainId];
+    if (!state) return this.createEmptyBackfillStatus();
+
+    return {
+      lastProcessedHeight: state.lastProcessedHeight,
+      latestHeight: state.latestHeight,
+      pending: state.pendingBlocks.size,
+      completed: state.completed,
+      failed: state.failed,
+      skipped: state.skipped,
+      recentGaps: state.recentGaps,
+    };
+  }
+
+  private createEmptyBackfillStatus(): BackfillStatus {
+    return {
+      lastProcessedHeight: null,
+      latestHeight: null,
+      pending: 0,
+      completed: 0,
+      failed: 0,
+      skipped: 0,
+      recentGaps: [],
+    };
+  }
+
   private async processBlockTransactions(
     block: BlockInfo,
     chainId: number,
@@ -683,33 +1069,26 @@ export class BlocksMonitorService implements OnModuleInit {
   getBlockMonitoringInfo(): BlockMonitoringInfo {
     try {
       const rpcStatuses = this.rpcMonitorService.getAllRpcStatuses();
-      const getNetworkEndpoints = (chainId: number) => rpcStatuses.filter(e => e.chainId === chainId).map(e => e.url);
 
       return {
         enabled: this.monitoringEnabled,
-        primaryEndpoint: {
-          mainnet: this.getBestEndpoint(NETWORK_MAINNET) || this.networks[NETWORK_MAINNET]?.primaryEndpoint,
-          testnet: this.getBestEndpoint(NETWORK_TESTNET) || this.networks[NETWORK_TESTNET]?.primaryEndpoint,
-        },
+        primaryEndpoint: this.perChain(({ key }) => this.getBestEndpoint(key) || this.networks[key]?.primaryEndpoint),
         blockTimeThreshold: { error: BLOCKCHAIN.BLOCKS.BLOCK_TIME_ERROR_THRESHOLD },
         scanInterval: this.scanIntervalMs,
-        monitoredEndpoints: {
-          mainnet: { endpoints: getNetworkEndpoints(MAINNET_CHAIN_ID) },
-          testnet: { endpoints: getNetworkEndpoints(TESTNET_CHAIN_ID) },
-        },
-        rpcStatus: {
-          mainnet: this.createStatusMap(rpcStatuses, MAINNET_CHAIN_ID),
-          testnet: this.createStatusMap(rpcStatuses, TESTNET_CHAIN_ID),
-        },
-        blockHeightVariance: {
-          mainnet: this.calculateBlockHeightVariance(NETWORK_MAINNET),
-          testnet: this.calculateBlockHeightVariance(NETWORK_TESTNET),
-        },
-        queueStats: { size: 0, processing: 0, completed: 0 },
-        blockTimeStats: {
-          mainnet: this.getTimeWindowStats(NETWORK_MAINNET),
-          testnet: this.getTimeWindowStats(NETWORK_TESTNET),
+        monitoredEndpoints: this.perChain(({ chainId, key }) => ({
+          endpoints: rpcStatuses.filter(e => e.chainId === chainId).map(e => e.url),
+          rpcBlocks: { ...this.endpointBlockHeights[key] },
+        })),
+        rpcStatus: this.perChain(({ chainId }) => this.createStatusMap(rpcStatuses, chainId)),
+        blockHeightVariance: this.perChain(({ key }) => this.calculateBlockHeightVariance(key)),
+        queueStats: {
+          size: this.backfillQueue.size(),
+          processing: this.backfillQueue.processingCount(),
+          completed: Object.values(this.backfillState).reduce((sum, state) => sum + state.completed, 0),
         },
+        backfill: this.perChain(({ chainId }) => this.getBackfillStatus(chainId)),
+        blockTimeStats: this.perChain(chain => this.getTimeWindowStats(chain)),
+        recentBlocks: this.perChain(({ chainId }) => this.recentBlocks[chainId] || []),
       };
     } catch (error) {
       this.logger.error(`Error in monitoring info: ${error.message}`);
@@ -717,6 +1096,13 @@ export class BlocksMonitorService implements OnModuleInit {
     }
   }
 
+  /**
+   * Build a status map keyed by chain key, e.g. { mainnet: ..., testnet: ... }
+   */
+  private perChain<T>(value: (chain: ChainDefinition) => T): Record<string, T> {
+    return Object.fromEntries(this.chainRegistry.getChains().map(chain => [chain.key, value(chain)]));
+  }
+
   private calculateBlockHeightVariance(networkKey: string): number {
     const heights = Object.values(this.endpointBlockHeights[networkKey]);
     if (heights.length < 2) return 0;
@@ -729,27 +1115,24 @@ export class BlocksMonitorService implements OnModuleInit {
   private createFallbackMonitoringInfo(): BlockMonitoringInfo {
     return {
       enabled: this.monitoringEnabled,
-      primaryEndpoint: {
-        mainnet: this.networks[NETWORK_MAINNET]?.primaryEndpoint || '',
-        testnet: this.networks[NETWORK_TESTNET]?.primaryEndpoint || '',
-      },
+      primaryEndpoint: this.perChain(({ key }) => this.networks[key]?.primaryEndpoint || ''),
       blockTimeThreshold: { error: BLOCKCHAIN.BLOCKS.BLOCK_TIME_ERROR_THRESHOLD || 60 },
       scanInterval: this.scanIntervalMs || 15000,
-      monitoredEndpoints: { mainnet: { endpoints: [] }, testnet: { endpoints: [] } },
-      rpcStatus: { mainnet: {}, testnet: {} },
-      blockHeightVariance: { mainnet: 0, testnet: 0 },
+      monitoredEndpoints: this.perChain(() => ({ endpoints: [] })),
+      rpcStatus: this.perChain(() => ({})),
+      blockHeightVariance: this.perChain(() => 0),
       queueStats: { size: 0, processing: 0, completed: 0 },
-      blockTimeStats: {
-        mainnet: { count: 0, average: 0 },
-        testnet: { count: 0, average: 0 },
-      },
+      backfill: this.perChain(() => this.createEmptyBackfillStatus()),
+      blockTimeStats: this.perChain(({ blockTimeSeconds }) => ({ target: blockTimeSeconds, count: 0, average: 0 })),
+      recentBlocks: this.perChain(() => []),
     };
   }
 
-  private getTimeWindowStats(network: string) {
+  private getTimeWindowStats({ key, blockTimeSeconds }: ChainDefinition) {
     try {
-      const timeWindow = this.recentBlockTimes[network];
+      const timeWindow = this.recentBlockTimes[key];
       return {
+        target: blockTimeSeconds,
         count: timeWindow.count(),
         average: timeWindow.getAverage() || 0,
         min: timeWindow.getMin(),
@@ -757,7 +1140,7 @@ export class BlocksMonitorService implements OnModuleInit {
         latest: timeWindow.getLatest()?.value,
       };
     } catch (error) {
-      return { count: 0, average: 0 };
+      return { target: blockTimeSeconds, count: 0, average: 0 };
     }
   }
 
@@ -772,9 +1155,7 @@ export class BlocksMonitorService implements OnModuleInit {
 
   private getNetworkKey(chainId: number | string): string {
     const parsedChainId = typeof chainId === 'string' ? parseInt(chainId, 10) : chainId;
-    return (
-      CHAIN_ID_TO_NETWORK[parsedChainId] || (parsedChainId === MAINNET_CHAIN_ID ? NETWORK_MAINNET : NETWORK_TESTNET)
-    );
+    return this.chainRegistry.getChain(parsedChainId)?.key;
   }
 
   /**
@@ -801,9 +1182,8 @@ export class BlocksMonitorService implements OnModuleInit {
       const warningLaggingEndpoints = [];
 
       // Get ALL configured RPC endpoints for this chain to ensure we write sentinel values for missing ones
-      const allConfiguredEndpoints = this.configService
-        .getRpcEndpoints()
-        .filter(endpoint => endpoint.chainId === chainId)
+      const allConfiguredEndpoints = this.endpointRegistry
+        .getEndpoints({ kind: 'rpc', chainId })
         .map(endpoint => endpoint.url);
 
       // Check each configured endpoint against the heights we collected
@@ -841,6 +1221,24 @@ export class BlocksMonitorService implements OnModuleInit {
         }
       }
 
+      // Close sync lag incidents whose condition has cleared, independent of alert throttling
+      if (criticalLaggingEndpoints.length === 0) {
+        this.alertService
+          .resolveCondition(
+            this.getSyncLagAlertKey(chainId, 'critical'),
+            `No RPC endpoints are critically behind anymore. Highest block: ${highestBlock}`,
+          )
+          .catch(error => this.logger.error(`Failed to resolve sync lag alert for chain ${chainId}: ${error.message}`));
+      }
+      if (warningLaggingEndpoints.length === 0 && criticalLaggingEndpoints.length === 0) {
+        this.alertService
+          .resolveCondition(
+            this.getSyncLagAlertKey(chainId, 'warning'),
+            `All RPC endpoints are in sync. Highest block: ${highestBlock}`,
+          )
+          .catch(error => this.logger.error(`Failed to resolve sync lag alert for chain ${chainId}: ${error.message}`));
+      }
+
       // Check if we should throttle these alerts
       const now = Date.now();
       const lastAlertTime = this.lastSyncLagAlertTime[chainId] || 0;
@@ -888,7 +1286,13 @@ export class BlocksMonitorService implements OnModuleInit {
         this.logger.error(message);
 
         // Send error alert through the alert service
-        this.alertService.error(ALERTS.TYPES.SYNC_BLOCKS_LAG, ALERTS.COMPONENTS.SYNC, message, chainId);
+        this.alertService.error(
+          ALERTS.TYPES.SYNC_BLOCKS_LAG,
+          ALERTS.COMPONENTS.SYNC,
+          message,
+          chainId,
+          this.getSyncLagAlertKey(chainId, 'critical'),
+        );
 
         alertSent = true;
       }
@@ -915,7 +1319,13 @@ export class BlocksMonitorService implements OnModuleInit {
         this.logger.warn(message);
 
         // Send warning alert through the alert service
-        this.alertService.warning(ALERTS.TYPES.SYNC_BLOCKS_LAG, ALERTS.COMPONENTS.SYNC, message, chainId);
+        this.alertService.warning(
+          ALERTS.TYPES.SYNC_BLOCKS_LAG,
+          ALERTS.COMPONENTS.SYNC,
+          message,
+          chainId,
+          this.getSyncLagAlertKey(chainId, 'warning'),
+        );
 
         alertSent = true;
       }
@@ -929,4 +1339,11 @@ export class BlocksMonitorService implements OnModuleInit {
       this.logger.error(`Error checking for block height lag: ${error.message}`);
     }
   }
+
+  /**
+   * Stateful alert key for a chain's sync lag incident at the given level
+   */
+  private getSyncLagAlertKey(chainId: number, level: 'critical' | 'warning'): string {
+    return `${ALERTS.TYPES.SYNC_BLOCKS_LAG}:${level}:${chainId}`;
+  }
 }
@@ -0,0 +1,116 @@
+import { AlertService } from '@alerts/alert.service';
+import { BlockchainService } from '@blockchain/blockchain.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { MetricsService } from '@metrics/metrics.service';
+import { ReorgMonitor } from '@monitoring/blocks/reorg.monitor';
+import { Test } from '@nestjs/testing';
+import { BlockInfo } from '@types';
+
+const block = (number: number, fork = ''): BlockInfo => ({
+  number,
+  hash: `0x${fork}${number.toString(16)}`,
+  parentHash: `0x${fork}${(number - 1).toString(16)}`,
+  timestamp: number * 2000,
+  transactions: [],
+  gasUsed: 0n,
+  gasLimit: 0n,
+  miner: '0x0000000000000000000000000000000000000001',
+});
+
+describe('ReorgMonitor', () => {
+  let monitor: ReorgMonitor;
+  let metrics: Record<string, jest.Mock>;
+  let alerts: Record<string, jest.Mock>;
+  // Blocks the chain currently returns, by height
+  let currentChain: Map<number, BlockInfo | null>;
+
+  const storedHash = (height: number) => monitor['canonicalChains'].get(50).get(height)?.hash;
+
+  beforeEach(async () => {
+    currentChain = new Map();
+    metrics = { recordChainReorg: jest.fn(), recordEndpointDivergence: jest.fn() };
+    alerts = { error: jest.fn(async () => undefined), warning: jest.fn(async () => undefined) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ReorgMonitor,
+        {
+          provide: BlockchainService,
+          useValue: {
+            getBlockByNumberForChain: jest.fn(async (number: number) => {
+              if (!currentChain.has(number)) throw new Error(`Block ${number} not found`);
+              return currentChain.get(number);
+            }),
+          },
+        },
+        { provide: MetricsService, useValue: metrics },
+        { provide: AlertService, useValue: alerts },
+        { provide: ChainRegistryService, useValue: { getChainName: () => 'Mainnet' } },
+      ],
+    }).compile();
+
+    moduleRef.useLogger(false);
+    monitor = moduleRef.get(ReorgMonitor);
+
+    for (let height = 90; height <= 100; height++) {
+      currentChain.set(height, block(height));
+      await monitor.verifyBlock(50, block(height));
+    }
+  });
+
+  it('replaces the orphaned blocks and reports the highest new block as the new head', async () => {
+    for (let height = 98; height <= 100; height++) currentChain.set(height, block(height, 'f'));
+
+    await monitor.verifyBlock(50, block(98, 'f'));
+
+    expect(metrics.recordChainReorg).toHaveBeenCalledWith(50, 3, 97);
+    expect(monitor.getRecentReorgs(50)).toEqual([
+      expect.objectContaining({
+        depth: 3,
+        commonAncestor: 97,
+        oldHead: { number: 100, hash: block(100).hash },
+        newHead: { number: 100, hash: block(100, 'f').hash },
+      }),
+    ]);
+    expect([97, 98, 99, 100].map(storedHash)).toEqual([
+      block(97).hash,
+      block(98, 'f').hash,
+      block(99, 'f').hash,
+      block(100, 'f').hash,
+    ]);
+    expect(alerts.error).toHaveBeenCalledWith(
+      'chain_reorg',
+      expect.any(String),
+      expect.stringContaining(`New head: #100 (${block(100, 'f').hash})`),
+      50,
+    );
+  });
+
+  it('reports the highest block of a new chain shorter than the old head', async () => {
+    currentChain.set(99, block(99, 'f'));
+    currentChain.delete(100);
+
+    await monitor.verifyBlock(50, block(99, 'f'));
+
+    expect(monitor.getRecentReorgs(50)[0]).toMatchObject({
+      depth: 2,
+      commonAncestor: 98,
+      newHead: { number: 99, hash: block(99, 'f').hash },
+    });
+    expect(storedHash(100)).toBeUndefined();
+  });
+
+  it('aborts the walk when a block is unavailable and keeps the stored chain', async () => {
+    currentChain.set(98, block(98, 'f'));
+    currentChain.set(97, null);
+
+    await monitor.verifyBlock(50, block(98, 'f'));
+
+    expect(storedHash(98)).toBe(block(98).hash);
+    expect(storedHash(100)).toBe(block(100).hash);
+    expect(monitor.getRecentReorgs(50)).toEqual([]);
+    expect(metrics.recordChainReorg).not.toHaveBeenCalled();
+    expect(alerts.warning).not.toHaveBeenCalled();
+    expect(alerts.error).not.toHaveBeenCalled();
+  });
+});
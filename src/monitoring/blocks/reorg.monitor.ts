@@ -0,0 +1,339 @@
+import { AlertService } from '@alerts/alert.service';
+import { BlockchainService } from '@blockchain/blockchain.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { ALERTS } from '@common/constants/config';
+import { RpcRetryClient } from '@common/utils/rpc-retry-client';
+import { MetricsService } from '@metrics/metrics.service';
+import { Injectable, Logger } from '@nestjs/common';
+import { BlockInfo, ChainReorg, EndpointDivergence } from '@types';
+
+// Hash linkage of a block on the canonical chain
+interface CanonicalBlock {
+  hash: string;
+  parentHash: string;
+}
+
+type BlockLink = Pick<BlockInfo, 'number' | 'hash' | 'parentHash'>;
+
+/**
+ * Service for detecting chain reorganizations and endpoints that follow a different fork
+ */
+@Injectable()
+export class ReorgMonitor {
+  private readonly logger = new Logger(ReorgMonitor.name);
+
+  // Configuration constants
+  private readonly CANONICAL_CHAIN_LENGTH = 128; // Number of recent block hashes kept per chain
+  private readonly FORK_CHECK_CONFIRMATIONS = 3; // Compare endpoints a few blocks below the tip to avoid races
+  private readonly MAX_DIVERGENCE_SEARCH_DEPTH = 20; // How far back to look for the divergence height
+  private readonly MAX_RECENT_REORGS = 20;
+
+  // chainId -> height -> block hashes
+  private canonicalChains = new Map<number, Map<number, CanonicalBlock>>();
+  private reorgInProgress = new Set<number>();
+  private recentReorgs: Record<number, ChainReorg[]> = {};
+
+  // Endpoint URL -> active divergence
+  private divergedEndpoints = new Map<string, EndpointDivergence>();
+
+  // Cache of RPC clients to avoid recreating them
+  private rpcClients = new Map<string, RpcRetryClient>();
+
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly metricsService: MetricsService,
+    private readonly alertService: AlertService,
+    private readonly chainRegistry: ChainRegistryService,
+  ) {}
+
+  /**
+   * Get the most recent reorgs detected for a chain (newest first)
+   */
+  public getRecentReorgs(chainId: number): ChainReorg[] {
+    return this.recentReorgs[chainId] || [];
+  }
+
+  /**
+   * Get endpoints currently diverging from the other endpoints of a chain
+   */
+  public getDivergedEndpoints(chainId: number): EndpointDivergence[] {
+    return Array.from(this.divergedEndpoints.values()).filter(divergence => divergence.chainId === chainId);
+  }
+
+  /**
+   * Verify a block links to the canonical chain and add it, handling a reorg if it does not
+   *
+   * @param chainId The chain the block belongs to
+   * @param block Block with number, hash and parentHash
+   */
+  public async verifyBlock(chainId: number, block: BlockLink): Promise<void> {
+    if (!block?.hash || block.number === undefined) return;
+    if (this.reorgInProgress.has(chainId)) return;
+
+    const chain = this.getCanonicalChain(chainId);
+    const known = chain.get(block.number);
+    if (known?.hash === block.hash) return;
+
+    const parent = chain.get(block.number - 1);
+    const child = chain.get(block.number + 1);
+    const conflicts =
+      !!known ||
+      (parent && block.parentHash && parent.hash !== block.parentHash) ||
+      (child && child.parentHash !== block.hash);
+
+    if (!conflicts) {
+      this.storeBlock(chain, block);
+      return;
+    }
+
+    this.reorgInProgress.add(chainId);
+    try {
+      await this.handleReorg(chainId, block.number);
+    } catch (error) {
+      this.logger.error(`Error handling reorg on chain ${chainId}: ${error.message}`);
+    } finally {
+      this.reorgInProgress.delete(chainId);
+    }
+  }
+
+  /**
+   * Walk back from the conflicting height until the current chain matches the stored one
+   * and replace everything above the common ancestor
+   */
+  private async handleReorg(chainId: number, conflictHeight: number): Promise<void> {
+    const chain = this.getCanonicalChain(chainId);
+    const heights = Array.from(chain.keys());
+    const lowestHeight = Math.min(...heights);
+    const oldHeadHeight = Math.max(...heights);
+    const oldHead = { number: oldHeadHeight, hash: chain.get(oldHeadHeight).hash };
+
+    const newBlocks: BlockLink[] = [];
+    let commonAncestor: number | null = null;
+
+    for (let height = conflictHeight; height >= lowestHeight; height--) {
+      const current = await this.blockchainService.getBlockByNumberForChain(height, chainId);
+      // Without the block the common ancestor cannot be found, leave the stored chain as it is
+      if (!current?.hash) {
+        this.logger.warn(`Aborting reorg check on chain ${chainId}: block #${height} is unavailable`);
+        return;
+      }
+
+      const stored = chain.get(height);
+      if (stored && stored.hash === current.hash) {
+        commonAncestor = height;
+        break;
+      }
+      newBlocks.push(current);
+    }
+
+    // The conflicting data was stale, the current chain still matches what we stored
+    if (newBlocks.length === 0) return;
+
+    // Stored blocks above the conflict descend from replaced ones, load the new chain up to the old head
+    for (let height = conflictHeight + 1; height <= oldHeadHeight; height++) {
+      const current = await this.blockchainService.getBlockByNumberForChain(height, chainId).catch(() => null);
+      if (!current?.hash) break;
+      newBlocks.push(current);
+    }
+
+    // No shared block within the stored window, the reorg is at least as deep as the window
+    if (commonAncestor === null) commonAncestor = lowestHeight - 1;
+
+    for (const height of heights) {
+      if (height > commonAncestor) chain.delete(height);
+    }
+    newBlocks.forEach(block => this.storeBlock(chain, block));
+
+    const depth = Math.max(oldHeadHeight - commonAncestor, 1);
+    const highest = newBlocks.reduce((head, block) => (block.number > head.number ? block : head));
+    const newHead = { number: highest.number, hash: highest.hash };
+    const reorg: ChainReorg = { chainId, depth, commonAncestor, oldHead, newHead, detectedAt: new Date() };
+
+    this.recentReorgs[chainId] = [reorg, ...(this.recentReorgs[chainId] || [])].slice(0, this.MAX_RECENT_REORGS);
+    this.metricsService.recordChainReorg(chainId, depth, commonAncestor);
+    await this.sendReorgAlert(reorg);
+  }
+
+  private async sendReorgAlert(reorg: ChainReorg): Promise<void> {
+    const { chainId, depth, commonAncestor, oldHead, newHead } = reorg;
+    const chainName = this.chainRegistry.getChainName(chainId);
+    const message =
+      `${chainName}: chain reorganization of ${depth} block${depth > 1 ? 's' : ''} detected.\n` +
+      `- Common ancestor: #${commonAncestor}\n` +
+      `- Old head: #${oldHead.number} (${oldHead.hash})\n` +
+      `- New head: #${newHead.number} (${newHead.hash})`;
+
+    this.logger.warn(message);
+
+    if (depth >= ALERTS.THRESHOLDS.REORG_DEPTH_ERROR_BLOCKS) {
+      await this.alertService.error(ALERTS.TYPES.CHAIN_REORG, ALERTS.COMPONENTS.BLOCK, message, chainId);
+    } else {
+      await this.alertService.warning(ALERTS.TYPES.CHAIN_REORG, ALERTS.COMPONENTS.BLOCK, message, chainId);
+    }
+  }
+
+  /**
+   * Compare block hashes at the same height across endpoints and alert on endpoints that diverge
+   *
+   * @param chainId The chain the endpoints belong to
+   * @param endpointHeights Latest block height reported by each endpoint
+   */
+  public async compareEndpointHashes(chainId: number, endpointHeights: Record<string, number>): Promise<void> {
+    try {
+      const heights = Object.values(endpointHeights);
+      if (heights.length === 0) return;
+
+      const height = Math.max(...heights) - this.FORK_CHECK_CONFIRMATIONS;
+      const endpoints = Object.keys(endpointHeights).filter(endpoint => endpointHeights[endpoint] >= height);
+      if (endpoints.length < 2 || height < 0) return;
+
+      const hashes = await Promise.all(endpoints.map(endpoint => this.fetchBlockHash(endpoint, height)));
+      const responses = endpoints
+        .map((endpoint, i) => ({ endpoint, hash: hashes[i] }))
+        .filter(response => response.hash !== null);
+
+      const expectedHash = this.getMajorityHash(
+        chainId,
+        height,
+        responses.map(response => response.hash),
+      );
+      if (!expectedHash) return;
+
+      const reference = responses.find(response => response.hash === expectedHash).endpoint;
+      const newDivergences: EndpointDivergence[] = [];
+
+      for (const { endpoint, hash } of responses) {
+        if (hash === expectedHash) {
+          this.clearDivergence(endpoint, chainId);
+          continue;
+        }
+
+        if (this.divergedEndpoints.has(endpoint)) continue;
+
+        const divergedAt = await this.findDivergenceHeight(endpoint, reference, height);
+        const divergence: EndpointDivergence = {
+          endpoint,
+          chainId,
+          divergedAt,
+          height,
+          expectedHash,
+          actualHash: hash,
+          detectedAt: new Date(),
+        };
+
+        this.divergedEndpoints.set(endpoint, divergence);
+        this.metricsService.recordEndpointDivergence(endpoint, chainId, divergedAt);
+        newDivergences.push(divergence);
+      }
+
+      if (newDivergences.length > 0) {
+        await this.sendDivergenceAlert(chainId, newDivergences);
+      }
+    } catch (error) {
+      this.logger.error(`Error comparing endpoint block hashes for chain ${chainId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Pick the hash returned by most endpoints, preferring the canonical chain on a tie
+   */
+  private getMajorityHash(chainId: number, height: number, hashes: string[]): string | null {
+    if (hashes.length === 0) return null;
+
+    const counts = hashes.reduce<Record<string, number>>((acc, hash) => {
+      acc[hash] = (acc[hash] || 0) + 1;
+      return acc;
+    }, {});
+
+    const highestCount = Math.max(...Object.values(counts));
+    const candidates = Object.keys(counts).filter(hash => counts[hash] === highestCount);
+    const canonicalHash = this.getCanonicalChain(chainId).get(height)?.hash;
+
+    return candidates.includes(canonicalHash) ? canonicalHash : candidates[0];
+  }
+
+  /**
+   * Walk back from the compared height to find the lowest height where the endpoint
+   * still differs from the reference endpoint
+   */
+  private async findDivergenceHeight(endpoint: string, referenceEndpoint: string, height: number): Promise<number> {
+    let divergedAt = height;
+
+    for (let depth = 1; depth <= this.MAX_DIVERGENCE_SEARCH_DEPTH && height - depth >= 0; depth++) {
+      const [endpointHash, referenceHash] = await Promise.all([
+        this.fetchBlockHash(endpoint, height - depth),
+        this.fetchBlockHash(referenceEndpoint, height - depth),
+      ]);
+
+      if (!endpointHash || !referenceHash || endpointHash === referenceHash) break;
+      divergedAt = height - depth;
+    }
+
+    return divergedAt;
+  }
+
+  private async sendDivergenceAlert(chainId: number, divergences: EndpointDivergence[]): Promise<void> {
+    const chainName = this.chainRegistry.getChainName(chainId);
+    const details = divergences
+      .map(
+        d =>
+          `- ${d.endpoint}: diverged at block #${d.divergedAt} ` +
+          `(at #${d.height} expected ${d.expectedHash}, got ${d.actualHash})`,
+      )
+      .join('\n');
+
+    const message = `${chainName}: ${divergences.length} RPC endpoint${divergences.length > 1 ? 's are' : ' is'} on a different fork:\n${details}`;
+
+    this.logger.error(message);
+    await this.alertService.error(ALERTS.TYPES.ENDPOINT_CHAIN_DIVERGENCE, ALERTS.COMPONENTS.RPC, message, chainId);
+  }
+
+  private clearDivergence(endpoint: string, chainId: number): void {
+    const divergence = this.divergedEndpoints.get(endpoint);
+    if (!divergence) return;
+
+    this.divergedEndpoints.delete(endpoint);
+    this.metricsService.recordEndpointDivergence(endpoint, chainId, null);
+    this.logger.log(`Endpoint ${endpoint} is back on the canonical chain (diverged at #${divergence.divergedAt})`);
+  }
+
+  /**
+   * Fetch the hash of a block from a specific endpoint
+   *
+   * @returns The block hash or null if the request failed
+   */
+  private async fetchBlockHash(endpoint: string, height: number): Promise<string | null> {
+    try {
+      let client = this.rpcClients.get(endpoint);
+      if (!client) {
+        client = new RpcRetryClient(endpoint, { maxRetries: 1, retryDelayMs: 500, timeoutMs: 3000 });
+        this.rpcClients.set(endpoint, client);
+      }
+
+      const block = await client.call<{ hash: string }>('eth_getBlockByNumber', [`0x${height.toString(16)}`, false]);
+      return block?.hash ?? null;
+    } catch (error) {
+      this.logger.debug(`Error fetching block #${height} hash from ${endpoint}: ${error.message}`);
+      return null;
+    }
+  }
+
+  private getCanonicalChain(chainId: number): Map<number, CanonicalBlock> {
+    if (!this.canonicalChains.has(chainId)) {
+      this.canonicalChains.set(chainId, new Map());
+    }
+    return this.canonicalChains.get(chainId);
+  }
+
+  /**
+   * Store a block on the canonical chain, keeping only the most recent heights
+   */
+  private storeBlock(chain: Map<number, CanonicalBlock>, block: BlockLink): void {
+    chain.set(block.number, { hash: block.hash, parentHash: block.parentHash });
+
+    const oldestAllowed = Math.max(...chain.keys()) - this.CANONICAL_CHAIN_LENGTH;
+    for (const height of chain.keys()) {
+      if (height <= oldestAllowed) chain.delete(height);
+    }
+  }
+}
@@ -1,9 +1,10 @@
+import { ChainRegistryService } from '@chains/chain-registry.service';
 import { ConfigService } from '@config/config.service';
 import { MetricsService } from '@metrics/metrics.service';
 import { Injectable, Logger, OnModuleDestroy, OnModuleInit, Inject, forwardRef } from '@nestjs/common';
 import { SchedulerRegistry } from '@nestjs/schedule';
 import { ConsensusMonitoringInfo, MasternodeList, MinerStatus } from '@types';
-import { calculateEpochNumber, createRpcClient } from './consensus.utils';
+import { calculateEpochNumber, createRpcClient, getMasternodesByNumber } from './consensus.utils';
 import { EpochMonitor } from './epoch/epoch.monitor';
 import { MinerMonitor } from './miner/miner.monitor';
 import { RewardMonitor } from './reward/reward.monitor';
@@ -35,8 +36,15 @@ export class ConsensusMonitor implements OnModuleInit, OnModuleDestroy {
     private readonly configService: ConfigService,
     private readonly schedulerRegistry: SchedulerRegistry,
     private readonly metricsService: MetricsService,
+    private readonly chainRegistry: ChainRegistryService,
   ) {
-    this.supportedChains = this.configService.getNumberArray(ENV_VARS.CONSENSUS_MONITORING_CHAIN_IDS, [50, 51]);
+    this.supportedChains = this.configService
+      .getNumberArray(ENV_VARS.CONSENSUS_MONITORING_CHAIN_IDS, this.chainRegistry.getChainIds())
+      .filter(chainId => {
+        if (this.chainRegistry.isSupported(chainId)) return true;
+        this.logger.warn(`Ignoring consensus monitoring for unregistered chain ${chainId}`);
+        return false;
+      });
     this.logger.log(`Consensus monitoring service initialized for chains: ${this.supportedChains.join(', ')}`);
   }
 
@@ -64,7 +72,7 @@ export class ConsensusMonitor implements OnModuleInit, OnModuleDestroy {
     this.logger.log('Validator data loaded for all chains, initializing component monitors...');
     await this.initializeMinerMonitoring();
     await this.initializeEpochMonitoring();
-    // await this.initializeRewardMonitoring();
+    await this.initializeRewardMonitoring();
   }
 
   onModuleDestroy() {
@@ -73,7 +81,7 @@ export class ConsensusMonitor implements OnModuleInit, OnModuleDestroy {
       this.deregisterMonitoringInterval(`ValidatorRefresh-${chainId}`);
       this.deregisterMonitoringInterval(`${MinerMonitor.name}-${chainId}`);
       this.deregisterMonitoringInterval(`${EpochMonitor.name}-${chainId}`);
-      // this.deregisterMonitoringInterval(`${RewardMonitor.name}-${chainId}`);
+      this.deregisterMonitoringInterval(`${RewardMonitor.name}-${chainId}`);
     }
     this.logger.log('All monitoring intervals deregistered');
   }
@@ -98,7 +106,7 @@ export class ConsensusMonitor implements OnModuleInit, OnModuleDestroy {
    */
   private async refreshValidatorData(chainId: number): Promise<void> {
     try {
-      const rpcClient = createRpcClient(this.configService, chainId);
+      const rpcClient = createRpcClient(this.chainRegistry.getChain(chainId));
       const result = await this.fetchMasternodeList(`ConsensusMonitor-${chainId}`, rpcClient, chainId);
 
       if (!result) return;
@@ -251,22 +259,13 @@ export class ConsensusMonitor implements OnModuleInit, OnModuleDestroy {
     chainId: number,
   ): Promise<{ masternodeList: MasternodeList; currentEpoch: number } | null> {
     try {
-      const response = await rpcClient.call('XDPoS_getMasternodesByNumber', ['latest']);
+      const masternodeList = await getMasternodesByNumber(rpcClient);
 
-      if (!response) return null;
+      if (!masternodeList) return null;
 
-      let currentEpoch = calculateEpochNumber(response.Round, chainId);
+      let currentEpoch = calculateEpochNumber(masternodeList.round, this.chainRegistry.getChain(chainId));
 
-      return {
-        masternodeList: {
-          number: response.Number,
-          round: response.Round,
-          masternodes: response.Masternodes,
-          penalty: response.Penalty,
-          standbynodes: response.Standbynodes,
-        },
-        currentEpoch,
-      };
+      return { masternodeList, currentEpoch };
     } catch (error) {
       this.logger.error(`Failed to fetch masternode list for ${component}: ${error.message}`);
       return null;
@@ -311,4 +310,22 @@ export class ConsensusMonitor implements OnModuleInit, OnModuleDestroy {
       this.logger.error(`Failed to initialize epoch monitoring: ${error.message}`);
     }
   }
+
+  /**
+   * Initialize reward monitoring after validator data is loaded
+   */
+  private async initializeRewardMonitoring() {
+    try {
+      for (const chainId of this.supportedChains) {
+        this.registerMonitoringInterval(
+          `${RewardMonitor.name}-${chainId}`,
+          () => this.rewardMonitor.monitorRewards(chainId),
+          this.rewardMonitor.getScanIntervalMs(),
+        );
+        this.logger.log(`Reward monitoring enabled for chain ${chainId}`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to initialize reward monitoring: ${error.message}`);
+    }
+  }
 }
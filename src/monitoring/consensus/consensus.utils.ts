@@ -1,20 +1,18 @@
+import { ChainRegistryService } from '@chains/chain-registry.service';
 import { ENV_VARS, FEATURE_FLAGS } from '@common/constants/config';
 import { RpcRetryClient } from '@common/utils/rpc-retry-client';
 import { ConfigService } from '@config/config.service';
+import { ChainDefinition, MasternodeList } from '@types';
 
 // Constants
 export const TIMEOUT_THRESHOLD = 10; // 10 seconds timeout for miners
 export const DEFAULT_SCAN_INTERVAL_MS = 15000; // Default: 15 seconds
 
 /**
- * Creates an RPC client for the consensus monitoring
+ * Creates an RPC client for the consensus monitoring on the primary RPC of a chain
  */
-export function createRpcClient(configService: ConfigService, chainId: number = 50): RpcRetryClient {
-  const rpcUrl =
-    configService.getPrimaryRpcUrl(chainId) ||
-    (chainId === 50 ? 'http://173.212.233.170:8989' : 'http://157.173.195.189:8555');
-
-  return new RpcRetryClient(rpcUrl, {
+export function createRpcClient(chain: ChainDefinition): RpcRetryClient {
+  return new RpcRetryClient(chain.primaryRpcUrl, {
     maxRetries: 3,
     retryDelayMs: 1000,
     timeoutMs: 30000,
@@ -24,7 +22,10 @@ export function createRpcClient(configService: ConfigService, chainId: number =
 /**
  * Get monitoring configuration
  */
-export function getMonitoringConfig(configService: ConfigService): {
+export function getMonitoringConfig(
+  configService: ConfigService,
+  chainRegistry: ChainRegistryService,
+): {
   enabled: boolean;
   scanIntervalMs: number;
   chains: number[];
@@ -32,7 +33,7 @@ export function getMonitoringConfig(configService: ConfigService): {
   return {
     enabled: configService.isFeatureEnabled(FEATURE_FLAGS.ENABLE_CONSENSUS_MONITORING, false),
     scanIntervalMs: configService.getNumber(ENV_VARS.CONSENSUS_SCAN_INTERVAL, DEFAULT_SCAN_INTERVAL_MS),
-    chains: configService.getNumberArray(ENV_VARS.CONSENSUS_MONITORING_CHAIN_IDS, [50, 51]),
+    chains: configService.getNumberArray(ENV_VARS.CONSENSUS_MONITORING_CHAIN_IDS, chainRegistry.getChainIds()),
   };
 }
 
@@ -67,6 +68,33 @@ export async function getMissedRoundsForEpoch(
   }
 }
 
+/**
+ * Gets the masternode, standby and penalty lists at a block
+ * @param rpcClient RPC client to use for API calls
+ * @param blockNumber Optional block number to query (defaults to 'latest')
+ * @returns Promise<MasternodeList> The masternode lists or null if error
+ */
+export async function getMasternodesByNumber(
+  rpcClient: RpcRetryClient,
+  blockNumber: string | number = 'latest',
+): Promise<MasternodeList | null> {
+  try {
+    const response = await rpcClient.call('XDPoS_getMasternodesByNumber', [blockNumber]);
+    if (!response) return null;
+
+    return {
+      number: response.Number,
+      round: response.Round,
+      masternodes: response.Masternodes || [],
+      penalty: response.Penalty || [],
+      standbynodes: response.Standbynodes || [],
+    };
+  } catch (error) {
+    console.error(`Error getting masternodes: ${error.message}`);
+    return null;
+  }
+}
+
 /**
  * Fetches a batch of blocks efficiently to allow checking multiple blocks
  * @param rpcClient RPC client to use for API calls
@@ -114,18 +142,16 @@ export async function fetchBlockBatch(
 /**
  * Calculate epoch number
  * @param round Round number to calculate epoch number for
- * @param chainId Chain ID to use for calculation
+ * @param chain Chain to use for calculation
  * @returns Epoch number
  */
-export function calculateEpochNumber(round: number, chainId: number): number {
+export function calculateEpochNumber(round: number, chain: ChainDefinition): number {
   /**
    * epochNum := x.config.V2.SwitchEpoch + uint64(epochSwitchInfo.EpochSwitchBlockInfo.Round)/x.config.Epoch
-   * - SwitchEpoch:       common.MaintnetConstant.TIPV2SwitchBlock.Uint64() / 900,
-   * - TIPV2SwitchBlock:  big.NewInt(80370000), // Target 2nd Oct 2024  ( chainId 50)
-   * - TIPV2SwitchBlock:  big.NewInt(56828700), // Target 13rd Nov 2023 ( chainId 51)
-   * - x.config.Epoch:    900
+   * - SwitchEpoch:       common.MaintnetConstant.TIPV2SwitchBlock.Uint64() / x.config.Epoch,
+   * - TIPV2SwitchBlock:  chain.v2SwitchBlock, e.g. 80370000 for Mainnet, 0 for chains that started on v2
+   * - x.config.Epoch:    chain.epochLength, 900 for Mainnet and Apothem
    */
 
-  const switchBlock = chainId === 50 ? 80370000 : 56828700;
-  return Math.floor(switchBlock / 900) + Math.floor(round / 900);
+  return Math.floor(chain.v2SwitchBlock / chain.epochLength) + Math.floor(round / chain.epochLength);
 }
@@ -1,8 +1,16 @@
 import { AlertService } from '@alerts/alert.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
 import { ALERTS } from '@common/constants/config';
 import { MetricsService } from '@metrics/metrics.service';
 import { ConsensusMonitor } from '@monitoring/consensus/consensus.monitor';
 import { Inject, Injectable, Logger, forwardRef } from '@nestjs/common';
+import { StateStoreService } from '@state/state-store.service';
+
+interface EpochMonitorState {
+  lastEpochChecked: number;
+  penaltyHistory: Record<number, Record<number, string[]>>;
+  processedEpochs: Record<number, number[]>;
+}
 
 /**
  * Monitors XDC blockchain epochs, tracking penalties using a sliding window approach
@@ -26,12 +34,33 @@ export class EpochMonitor {
     private readonly alertService: AlertService,
     @Inject(forwardRef(() => ConsensusMonitor))
     private readonly consensusMonitor: ConsensusMonitor,
+    private readonly stateStore: StateStoreService,
+    private readonly chainRegistry: ChainRegistryService,
   ) {
     this.logger.log(`${EpochMonitor.name} initialized with sliding window of ${this.slidingWindowSize} epochs`);
+    this.registerStateProvider();
   }
 
   public getScanIntervalMs = (): number => this.monitoringIntervalMs;
 
+  /**
+   * Persist the penalty sliding window so frequency checks keep their history across restarts
+   */
+  private registerStateProvider(): void {
+    this.stateStore.register<EpochMonitorState>(EpochMonitor.name, {
+      snapshot: () => ({
+        lastEpochChecked: this.lastEpochChecked,
+        penaltyHistory: this.penaltyHistory,
+        processedEpochs: this.processedEpochs,
+      }),
+      restore: state => {
+        this.lastEpochChecked = state.lastEpochChecked;
+        this.penaltyHistory = state.penaltyHistory || {};
+        this.processedEpochs = state.processedEpochs || {};
+      },
+    });
+  }
+
   /**
    * Main monitoring function that checks for penalties and generates alerts
    */
@@ -63,7 +92,7 @@ export class EpochMonitor {
   private async checkPenaltyListSize(chainId: number, penaltyList: string[]): Promise<void> {
     if (penaltyList.length < this.maxPenaltyListSize) return;
 
-    const chainName = chainId === 50 ? 'Mainnet' : 'Testnet';
+    const chainName = this.chainRegistry.getChainName(chainId);
     const alertMessage = `Chain ${chainId} (${chainName}): Penalty list size (${penaltyList.length}) exceeds threshold (${this.maxPenaltyListSize})`;
 
     this.logger.warn(alertMessage);
@@ -131,7 +160,7 @@ export class EpochMonitor {
         .map(n => `${n.address} (${n.count}/${totalEpochs} epochs, ${n.percentage.toFixed(1)}%)`)
         .join('\n');
 
-      const chainName = chainId === 50 ? 'Mainnet' : 'Testnet';
+      const chainName = this.chainRegistry.getChainName(chainId);
       const alertMessage = `Chain ${chainId} (${chainName}): ${frequentNodes.length} node(s) frequently penalized (>${this.penaltyThresholdPercentage}% of the last ${totalEpochs} epochs):\n${detailedList}`;
 
       this.logger.warn(alertMessage);
@@ -1,7 +1,8 @@
 import { AlertService } from '@alerts/alert.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
 import { ALERTS } from '@common/constants/config';
 import { RpcRetryClient } from '@common/utils/rpc-retry-client';
-import { ConfigService } from '@config/config.service';
+import { LiveUpdatesService } from '@live/live-updates.service';
 import { MetricsService } from '@metrics/metrics.service';
 import { ConsensusMonitor } from '@monitoring/consensus/consensus.monitor';
 import {
@@ -13,6 +14,7 @@ import {
   getMonitoringConfig,
 } from '@monitoring/consensus/consensus.utils';
 import { Inject, Injectable, Logger, forwardRef } from '@nestjs/common';
+import { StateStoreService } from '@state/state-store.service';
 import { ConsensusMonitoringInfo, ConsensusViolation, MinerPerformance } from '@types';
 import { performance } from 'perf_hooks';
 
@@ -38,6 +40,9 @@ interface ChainState {
   initialRun: boolean; // Track first execution
 }
 
+// Persisted chain state, RPC clients are recreated on boot
+type PersistedChainState = Omit<ChainState, 'rpcClient' | 'initialRun'>;
+
 /**
  * Service for monitoring XDC blockchain miner consensus and timeouts
  */
@@ -45,17 +50,21 @@ interface ChainState {
 export class MinerMonitor {
   private readonly logger = new Logger(MinerMonitor.name);
   private readonly MAX_RECENT_VIOLATIONS = 100;
+  private readonly MAX_RESUME_BLOCK_GAP = 1000; // Resume from the restored checkpoint only if it is this recent
 
   private scanIntervalMs = 15000; // Default: 15 seconds
-  private supportedChains: number[] = [50, 51]; // Default: mainnet and testnet
+  private supportedChains: number[] = [];
   private chainStates: Record<number, ChainState> = {};
+  private stateRestored: Promise<boolean>;
 
   constructor(
-    private readonly configService: ConfigService,
     private readonly metricsService: MetricsService,
     private readonly alertService: AlertService,
     @Inject(forwardRef(() => ConsensusMonitor))
     private readonly consensusMonitor: ConsensusMonitor,
+    private readonly stateStore: StateStoreService,
+    private readonly chainRegistry: ChainRegistryService,
+    private readonly liveUpdates: LiveUpdatesService,
   ) {
     this.supportedChains = this.consensusMonitor.getSupportedChains();
 
@@ -63,7 +72,7 @@ export class MinerMonitor {
     this.supportedChains.forEach(chainId => {
       this.chainStates[chainId] = {
         chainId,
-        rpcClient: createRpcClient(this.configService, chainId),
+        rpcClient: createRpcClient(this.chainRegistry.getChain(chainId)),
         lastCheckedBlock: 0,
         lastBlockTimestamp: 0,
         currentEpochNumber: 0,
@@ -76,6 +85,42 @@ export class MinerMonitor {
         initialRun: true,
       };
     });
+
+    this.registerStateProvider();
+  }
+
+  /**
+   * Persist chain states so miner tracking resumes from its last checkpoint after a restart
+   */
+  private registerStateProvider(): void {
+    this.stateRestored = this.stateStore.register<Record<number, PersistedChainState>>(MinerMonitor.name, {
+      snapshot: () => {
+        const state: Record<number, PersistedChainState> = {};
+        Object.values(this.chainStates).forEach(({ rpcClient, initialRun, ...chainState }) => {
+          state[chainState.chainId] = chainState;
+        });
+        return state;
+      },
+      restore: state => {
+        Object.values(state).forEach(saved => {
+          const chainState = this.chainStates[saved.chainId];
+          if (!chainState) return;
+
+          Object.assign(chainState, saved, {
+            minerPerformance: Object.fromEntries(
+              Object.entries(saved.minerPerformance || {}).map(([address, stats]) => [
+                address,
+                { ...stats, lastActive: new Date(stats.lastActive) },
+              ]),
+            ),
+            recentViolations: (saved.recentViolations || []).map(violation => ({
+              ...violation,
+              timestamp: new Date(violation.timestamp),
+            })),
+          });
+        });
+      },
+    });
   }
 
   /**
@@ -190,7 +235,10 @@ export class MinerMonitor {
         this.logger.log(`Chain ${chainId}: Updating epoch block ${missedRoundsData.EpochBlockNumber}`);
         chainState.currentEpochBlock = missedRoundsData.EpochBlockNumber;
         chainState.currentEpochRound = missedRoundsData.EpochRound;
-        chainState.currentEpochNumber = calculateEpochNumber(missedRoundsData.EpochRound, chainId);
+        chainState.currentEpochNumber = calculateEpochNumber(
+          missedRoundsData.EpochRound,
+          this.chainRegistry.getChain(chainId),
+        );
       }
 
       // Track new missed rounds
@@ -412,6 +460,8 @@ export class MinerMonitor {
     if (chainState.recentViolations.length > this.MAX_RECENT_VIOLATIONS) {
       chainState.recentViolations.pop();
     }
+
+    this.liveUpdates.publish('consensus', chainId, 'violation', violation);
   }
 
   /**
@@ -518,7 +568,17 @@ export class MinerMonitor {
       }
 
       const latestBlockNumber = parseInt(latestBlockResponse.number, 16);
-      chainState.lastCheckedBlock = latestBlockNumber - 100; // Start checking from 100 blocks back
+      const restored = await this.stateRestored;
+
+      if (
+        restored &&
+        chainState.lastCheckedBlock > 0 &&
+        latestBlockNumber - chainState.lastCheckedBlock <= this.MAX_RESUME_BLOCK_GAP
+      ) {
+        this.logger.log(`Resuming chain ${chainId} miner tracking from restored block ${chainState.lastCheckedBlock}`);
+      } else {
+        chainState.lastCheckedBlock = latestBlockNumber - 100; // Start checking from 100 blocks back
+      }
 
       // Get validators and their performance data
       const validatorData = this.consensusMonitor.getValidatorData(chainId);
@@ -532,6 +592,9 @@ export class MinerMonitor {
 
       // Initialize performance data for each miner
       for (const miner of minerAddresses) {
+        // Restored counters are newer than the last values written to InfluxDB
+        if (chainState.minerPerformance[miner]) continue;
+
         const minerData = performanceData[miner] || {
           totalBlocksMined: 0,
           missedBlocks: 0,
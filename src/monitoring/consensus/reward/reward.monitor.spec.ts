@@ -0,0 +1,75 @@
+import { AlertService } from '@alerts/alert.service';
+import { BlockchainService } from '@blockchain/blockchain.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { MetricsService } from '@metrics/metrics.service';
+import { BlocksMonitorService } from '@monitoring/blocks/blocks.monitor';
+import { ConsensusMonitor } from '@monitoring/consensus/consensus.monitor';
+import { RewardMonitor } from '@monitoring/consensus/reward/reward.monitor';
+import { RpcMonitorService } from '@monitoring/rpc/rpc.monitor';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Test } from '@nestjs/testing';
+import { EpochRewards } from '@types';
+
+const MASTERNODE = '0xAbC0000000000000000000000000000000000001';
+const STANDBY = '0xabc0000000000000000000000000000000000002';
+const HOLDER = '0xabc0000000000000000000000000000000000003';
+
+describe('RewardMonitor', () => {
+  let monitor: RewardMonitor;
+
+  const extractRewards = (response: EpochRewards) => Object.fromEntries(monitor['extractRewards'](response));
+
+  beforeEach(async () => {
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        RewardMonitor,
+        { provide: BlockchainService, useValue: {} },
+        { provide: BlocksMonitorService, useValue: {} },
+        { provide: RpcMonitorService, useValue: {} },
+        { provide: MetricsService, useValue: {} },
+        { provide: AlertService, useValue: {} },
+        { provide: SchedulerRegistry, useValue: {} },
+        { provide: ConsensusMonitor, useValue: {} },
+        { provide: ChainRegistryService, useValue: {} },
+      ],
+    }).compile();
+
+    moduleRef.useLogger(false);
+    monitor = moduleRef.get(RewardMonitor);
+  });
+
+  it('reads the signer totals of an epoch reward response', () => {
+    expect(
+      extractRewards({
+        signers: {
+          [MASTERNODE]: { sign: 12, reward: '250000000000000000000' },
+          [STANDBY]: 1e18,
+        },
+        rewards: { [MASTERNODE]: { [HOLDER]: '1' } },
+      }),
+    ).toEqual({
+      [MASTERNODE.toLowerCase()]: { amount: 250, signCount: 12 },
+      [STANDBY]: { amount: 1, signCount: 0 },
+    });
+  });
+
+  it('sums the holder distribution when the response has no signer totals', () => {
+    expect(
+      extractRewards({
+        rewards: {
+          [MASTERNODE]: { [MASTERNODE]: '90000000000000000000', [HOLDER]: 1e19 },
+          [STANDBY]: null,
+        },
+      }),
+    ).toEqual({
+      [MASTERNODE.toLowerCase()]: { amount: 100, signCount: 0 },
+      [STANDBY]: { amount: 0, signCount: 0 },
+    });
+  });
+
+  it('counts a signer without a reward entry as unpaid', () => {
+    expect(extractRewards({ signers: { [MASTERNODE]: null } })).toEqual({
+      [MASTERNODE.toLowerCase()]: { amount: 0, signCount: 0 },
+    });
+  });
+});
@@ -1,17 +1,28 @@
 import { AlertService } from '@alerts/alert.service';
 import { BlockchainService } from '@blockchain/blockchain.service';
-import { ConfigService } from '@config/config.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { ALERTS } from '@common/constants/config';
+import { RpcRetryClient } from '@common/utils/rpc-retry-client';
 import { MetricsService } from '@metrics/metrics.service';
 import { BlocksMonitorService } from '@monitoring/blocks/blocks.monitor';
 import { ConsensusMonitor } from '@monitoring/consensus/consensus.monitor';
+import { calculateEpochNumber, createRpcClient, getMissedRoundsForEpoch } from '@monitoring/consensus/consensus.utils';
 import { RpcMonitorService } from '@monitoring/rpc/rpc.monitor';
 import { Injectable, Logger, OnModuleDestroy, OnModuleInit, Inject, forwardRef } from '@nestjs/common';
 import { SchedulerRegistry } from '@nestjs/schedule';
+import { EpochRewards, EpochRewardSigner, EpochRewardSummary, MasternodeList, MinerStatus, NodeReward } from '@types';
+import { ethers } from 'ethers';
+
+// Validator set that was active during an epoch, used to verify the rewards paid for it
+interface EpochValidatorSnapshot {
+  epoch: number;
+  masternodeList: MasternodeList;
+}
 
 /**
  * Service for monitoring XDC blockchain reward distribution
  *
- * This service will track reward distribution at epoch boundaries:
+ * This service tracks reward distribution at epoch boundaries:
  * - Masternode rewards (~10% APY)
  * - Standbynode rewards (~7-8% APY)
  * - Verify penalized nodes receive no rewards
@@ -19,10 +30,16 @@ import { SchedulerRegistry } from '@nestjs/schedule';
 @Injectable()
 export class RewardMonitor implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(RewardMonitor.name);
+  private readonly monitoringIntervalMs = 60000; // 1 minute
+  private readonly slidingWindowSize = 10; // Keep summaries for the last 10 epochs
+
+  private rpcClients: Record<number, RpcRetryClient> = {};
+  private lastCheckedEpoch: Record<number, number> = {};
+  private epochSnapshots: Record<number, EpochValidatorSnapshot> = {};
+  private rewardHistory: Record<number, EpochRewardSummary[]> = {};
 
   constructor(
     private readonly blockchainService: BlockchainService,
-    private readonly configService: ConfigService,
     private readonly blocksMonitorService: BlocksMonitorService,
     private readonly rpcMonitorService: RpcMonitorService,
     private readonly metricsService: MetricsService,
@@ -30,6 +47,7 @@ export class RewardMonitor implements OnModuleInit, OnModuleDestroy {
     private readonly schedulerRegistry: SchedulerRegistry,
     @Inject(forwardRef(() => ConsensusMonitor))
     private readonly consensusMonitor: ConsensusMonitor,
+    private readonly chainRegistry: ChainRegistryService,
   ) {}
 
   async onModuleInit() {
@@ -39,4 +57,275 @@ export class RewardMonitor implements OnModuleInit, OnModuleDestroy {
   onModuleDestroy() {
     this.logger.log(`${RewardMonitor.name} destroyed`);
   }
+
+  public getScanIntervalMs = (): number => this.monitoringIntervalMs;
+
+  /**
+   * Get reward summaries of the most recent epochs for a chain (newest first)
+   */
+  public getRecentRewardSummaries(chainId: number): EpochRewardSummary[] {
+    return this.rewardHistory[chainId] || [];
+  }
+
+  /**
+   * Main monitoring function, verifies the reward checkpoint whenever a new epoch starts
+   */
+  async monitorRewards(chainId: number): Promise<void> {
+    try {
+      const validatorData = this.consensusMonitor.getValidatorData(chainId);
+      if (!validatorData?.masternodeList) return this.logger.warn(`No validator data available for chain ${chainId}`);
+
+      const { masternodeList, currentEpoch } = validatorData;
+      if (currentEpoch === this.lastCheckedEpoch[chainId]) return;
+
+      // Rewards for an epoch are paid at the first block of the next one, so verification
+      // needs the validator set of the epoch right before the current one
+      const previous = this.epochSnapshots[chainId];
+      if (previous && previous.epoch === currentEpoch - 1) {
+        const verified = await this.verifyEpochRewards(chainId, currentEpoch, previous, masternodeList);
+        if (!verified) return; // Retry on the next interval
+      } else if (previous) {
+        this.logger.warn(
+          `Skipping reward verification for chain ${chainId}: no validator data for epoch ${currentEpoch - 1}`,
+        );
+      }
+
+      this.epochSnapshots[chainId] = { epoch: currentEpoch, masternodeList };
+      this.lastCheckedEpoch[chainId] = currentEpoch;
+    } catch (error) {
+      this.logger.error(`Error monitoring rewards for chain ${chainId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fetch the reward checkpoint block of the current epoch and verify what each node received
+   *
+   * @returns True if verification completed, false if data was not available yet
+   */
+  private async verifyEpochRewards(
+    chainId: number,
+    currentEpoch: number,
+    snapshot: EpochValidatorSnapshot,
+    currentList: MasternodeList,
+  ): Promise<boolean> {
+    const rpcClient = this.getRpcClient(chainId);
+
+    const epochInfo = await getMissedRoundsForEpoch(rpcClient);
+    if (!epochInfo) return false;
+
+    if (calculateEpochNumber(epochInfo.EpochRound, this.chainRegistry.getChain(chainId)) !== currentEpoch) {
+      this.logger.debug(`Epoch switch block for epoch ${currentEpoch} on chain ${chainId} not available yet`);
+      return false;
+    }
+
+    const checkpointBlock = Number(epochInfo.EpochBlockNumber);
+    const block = await rpcClient.call<{ hash: string }>('eth_getBlockByNumber', [
+      `0x${checkpointBlock.toString(16)}`,
+      false,
+    ]);
+    if (!block?.hash) return false;
+
+    const rewardResponse = await rpcClient.call<EpochRewards>('XDPoS_getRewardByHash', [block.hash]);
+    if (!rewardResponse) return false;
+
+    const paidRewards = this.extractRewards(rewardResponse);
+    const nodeRewards = this.classifyRewards(snapshot.masternodeList, paidRewards);
+    const summary = this.buildSummary(chainId, snapshot.epoch, checkpointBlock, block.hash, nodeRewards);
+
+    this.metricsService.recordEpochRewardSummary(summary);
+    nodeRewards.forEach(reward =>
+      this.metricsService.recordNodeReward(chainId, snapshot.epoch, checkpointBlock, reward),
+    );
+    this.addToHistory(chainId, summary);
+
+    this.logger.log(
+      `Rewards verified for chain ${chainId} epoch ${snapshot.epoch} at block ${checkpointBlock}: ` +
+        `total=${summary.totalReward.toFixed(2)} XDC, rewardedNodes=${summary.rewardedNodes}, ` +
+        `unrewardedMasternodes=${summary.unrewardedMasternodes.length}, ` +
+        `rewardedPenaltyNodes=${summary.rewardedPenaltyNodes.length}`,
+    );
+
+    await this.checkRewardedPenaltyNodes(chainId, summary, nodeRewards);
+    await this.checkUnrewardedMasternodes(chainId, summary, currentList);
+
+    return true;
+  }
+
+  /**
+   * Extract the amount paid to each signer from an XDPoS_getRewardByHash response
+   * Uses the signer totals when present, otherwise sums the per-holder distribution
+   */
+  private extractRewards(response: EpochRewards): Map<string, { amount: number; signCount: number }> {
+    const rewards = new Map<string, { amount: number; signCount: number }>();
+
+    for (const [address, log] of Object.entries(response.signers || {})) {
+      const signer: Partial<EpochRewardSigner> = typeof log === 'object' ? log || {} : { reward: log };
+      rewards.set(address.toLowerCase(), {
+        amount: this.toXdc(signer.reward),
+        signCount: Number(signer.sign ?? 0),
+      });
+    }
+
+    if (rewards.size > 0) return rewards;
+
+    for (const [address, holders] of Object.entries(response.rewards || {})) {
+      const amount = Object.values(holders || {}).reduce<number>((sum, value) => sum + this.toXdc(value), 0);
+      rewards.set(address.toLowerCase(), { amount, signCount: 0 });
+    }
+
+    return rewards;
+  }
+
+  /**
+   * Match paid rewards against the validator set of the rewarded epoch
+   */
+  private classifyRewards(
+    masternodeList: MasternodeList,
+    paidRewards: Map<string, { amount: number; signCount: number }>,
+  ): NodeReward[] {
+    const nodeRewards: NodeReward[] = [];
+    const seen = new Set<string>();
+
+    const addNode = (address: string, status: MinerStatus) => {
+      const normalized = address.toLowerCase();
+      if (seen.has(normalized)) return;
+      seen.add(normalized);
+
+      const paid = paidRewards.get(normalized);
+      nodeRewards.push({ address: normalized, status, amount: paid?.amount ?? 0, signCount: paid?.signCount ?? 0 });
+    };
+
+    masternodeList.masternodes.forEach(address => addNode(address, MinerStatus.Masternode));
+    masternodeList.standbynodes.forEach(address => addNode(address, MinerStatus.Standby));
+    masternodeList.penalty.forEach(address => addNode(address, MinerStatus.Penalty));
+
+    // Anything paid outside the known validator set is still recorded
+    paidRewards.forEach((_, address) => addNode(address, MinerStatus.None));
+
+    return nodeRewards;
+  }
+
+  /**
+   * Aggregate node rewards into a per-epoch summary
+   */
+  private buildSummary(
+    chainId: number,
+    epoch: number,
+    checkpointBlock: number,
+    checkpointHash: string,
+    nodeRewards: NodeReward[],
+  ): EpochRewardSummary {
+    const sumFor = (status: MinerStatus) =>
+      nodeRewards.filter(node => node.status === status).reduce((sum, node) => sum + node.amount, 0);
+
+    return {
+      chainId,
+      epoch,
+      checkpointBlock,
+      checkpointHash,
+      totalReward: nodeRewards.reduce((sum, node) => sum + node.amount, 0),
+      masternodeReward: sumFor(MinerStatus.Masternode),
+      standbyReward: sumFor(MinerStatus.Standby),
+      penaltyReward: sumFor(MinerStatus.Penalty),
+      rewardedNodes: nodeRewards.filter(node => node.amount > 0).length,
+      unrewardedMasternodes: nodeRewards
+        .filter(node => node.status === MinerStatus.Masternode && node.amount === 0)
+        .map(node => node.address),
+      rewardedPenaltyNodes: nodeRewards
+        .filter(node => node.status === MinerStatus.Penalty && node.amount > 0)
+        .map(node => node.address),
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Alerts if any node in the penalty list was paid a reward
+   */
+  private async checkRewardedPenaltyNodes(
+    chainId: number,
+    summary: EpochRewardSummary,
+    nodeRewards: NodeReward[],
+  ): Promise<void> {
+    if (summary.rewardedPenaltyNodes.length === 0) return;
+
+    const detailedList = nodeRewards
+      .filter(node => summary.rewardedPenaltyNodes.includes(node.address))
+      .map(node => `${node.address} (${node.amount.toFixed(4)} XDC)`)
+      .join('\n');
+
+    const chainName = this.chainRegistry.getChainName(chainId);
+    const alertMessage = `Chain ${chainId} (${chainName}): ${summary.rewardedPenaltyNodes.length} penalized node(s) received rewards for epoch ${summary.epoch} at block ${summary.checkpointBlock}:\n${detailedList}`;
+
+    this.logger.warn(alertMessage);
+    await this.alertService.error(
+      ALERTS.TYPES.CONSENSUS_PENALIZED_NODE_REWARDED,
+      RewardMonitor.name,
+      alertMessage,
+      chainId,
+    );
+  }
+
+  /**
+   * Alerts if any active masternode of the rewarded epoch received nothing
+   */
+  private async checkUnrewardedMasternodes(
+    chainId: number,
+    summary: EpochRewardSummary,
+    currentList: MasternodeList,
+  ): Promise<void> {
+    if (summary.unrewardedMasternodes.length === 0) return;
+
+    // Nodes that went offline are usually penalized in the new epoch, which explains the missing reward
+    const nowPenalized = new Set(currentList.penalty.map(address => address.toLowerCase()));
+    const detailedList = summary.unrewardedMasternodes
+      .map(address => (nowPenalized.has(address) ? `${address} (now penalized)` : address))
+      .join('\n');
+
+    const chainName = this.chainRegistry.getChainName(chainId);
+    const alertMessage = `Chain ${chainId} (${chainName}): ${summary.unrewardedMasternodes.length} masternode(s) received no reward for epoch ${summary.epoch} at block ${summary.checkpointBlock}:\n${detailedList}`;
+
+    this.logger.warn(alertMessage);
+    await this.alertService.warning(
+      ALERTS.TYPES.CONSENSUS_MASTERNODE_MISSING_REWARD,
+      RewardMonitor.name,
+      alertMessage,
+      chainId,
+    );
+  }
+
+  /**
+   * Keep a sliding window of the most recent reward summaries
+   */
+  private addToHistory(chainId: number, summary: EpochRewardSummary): void {
+    const history = this.rewardHistory[chainId] || [];
+    this.rewardHistory[chainId] = [summary, ...history.filter(item => item.epoch !== summary.epoch)].slice(
+      0,
+      this.slidingWindowSize,
+    );
+  }
+
+  /**
+   * Convert a reward amount in wei (number, decimal or hex string) to XDC
+   */
+  private toXdc(value: unknown): number {
+    if (value === null || value === undefined) return 0;
+
+    try {
+      const wei = typeof value === 'number' ? BigInt(Math.trunc(value)) : BigInt(String(value));
+      return parseFloat(ethers.formatEther(wei));
+    } catch (error) {
+      this.logger.debug(`Unable to parse reward amount ${String(value)}: ${error.message}`);
+      return 0;
+    }
+  }
+
+  /**
+   * Get or create the RPC client for a chain
+   */
+  private getRpcClient(chainId: number): RpcRetryClient {
+    if (!this.rpcClients[chainId]) {
+      this.rpcClients[chainId] = createRpcClient(this.chainRegistry.getChain(chainId));
+    }
+    return this.rpcClients[chainId];
+  }
 }
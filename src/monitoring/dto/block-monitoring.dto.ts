@@ -0,0 +1,219 @@
+import { ApiRecordProperty } from '@common/dto/api-record-property';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  BackfillStatus,
+  BlockGap,
+  BlockMonitoringInfo,
+  BlockTimeStats,
+  NetworkMonitoringData,
+  RecentBlock,
+} from '@types';
+
+export class NetworkMonitoringDataDto implements NetworkMonitoringData {
+  @ApiProperty({ type: [String] })
+  endpoints: string[];
+
+  @ApiPropertyOptional({ description: 'Epoch milliseconds' })
+  lastBlockTimestamp?: number;
+
+  @ApiPropertyOptional()
+  consecutiveHighVarianceCount?: number;
+
+  @ApiPropertyOptional()
+  blockHeightVariance?: number;
+
+  @ApiRecordProperty('number', { required: false, description: 'Latest block number per RPC endpoint URL' })
+  rpcBlocks?: Record<string, number>;
+}
+
+export class RecentBlockDto implements RecentBlock {
+  @ApiProperty()
+  number: number;
+
+  @ApiProperty()
+  hash: string;
+
+  @ApiProperty()
+  parentHash: string;
+
+  @ApiProperty({ description: 'Epoch milliseconds' })
+  timestamp: number;
+
+  @ApiProperty()
+  miner: string;
+
+  @ApiProperty()
+  transactionCount: number;
+
+  @ApiProperty()
+  confirmedCount: number;
+
+  @ApiProperty()
+  failedCount: number;
+}
+
+export class BlockTimeStatsDto implements BlockTimeStats {
+  @ApiProperty({ description: 'Target block time of the chain in seconds' })
+  target: number;
+
+  @ApiProperty()
+  count: number;
+
+  @ApiProperty({ description: 'Seconds' })
+  average: number;
+
+  @ApiPropertyOptional()
+  min?: number;
+
+  @ApiPropertyOptional()
+  max?: number;
+
+  @ApiPropertyOptional()
+  latest?: number;
+}
+
+export class BlockGapDto implements BlockGap {
+  @ApiProperty()
+  from: number;
+
+  @ApiProperty()
+  to: number;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  detectedAt: Date;
+}
+
+export class BackfillStatusDto implements BackfillStatus {
+  @ApiProperty({ type: Number, nullable: true, description: 'Every block up to this height has been processed' })
+  lastProcessedHeight: number | null;
+
+  @ApiProperty({ type: Number, nullable: true })
+  latestHeight: number | null;
+
+  @ApiProperty()
+  pending: number;
+
+  @ApiProperty()
+  completed: number;
+
+  @ApiProperty()
+  failed: number;
+
+  @ApiProperty()
+  skipped: number;
+
+  @ApiProperty({ type: [BlockGapDto] })
+  recentGaps: BlockGapDto[];
+}
+
+export class BlockTimeThresholdDto {
+  @ApiProperty({ description: 'Seconds' })
+  error: number;
+}
+
+export class BlockQueueStatsDto {
+  @ApiProperty()
+  size: number;
+
+  @ApiProperty()
+  processing: number;
+
+  @ApiProperty()
+  completed: number;
+}
+
+/**
+ * Per-chain fields are keyed by chain key, e.g. mainnet or testnet
+ */
+export class BlockMonitoringInfoDto implements BlockMonitoringInfo {
+  @ApiProperty()
+  enabled: boolean;
+
+  @ApiRecordProperty('string', { description: 'Primary RPC URL per chain key' })
+  primaryEndpoint: Record<string, string>;
+
+  @ApiProperty({ type: BlockTimeThresholdDto })
+  blockTimeThreshold: BlockTimeThresholdDto;
+
+  @ApiProperty({ description: 'Milliseconds' })
+  scanInterval: number;
+
+  @ApiRecordProperty(NetworkMonitoringDataDto)
+  monitoredEndpoints: Record<string, NetworkMonitoringDataDto>;
+
+  @ApiRecordProperty('number')
+  blockHeightVariance: Record<string, number>;
+
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: { type: 'object', additionalProperties: { type: 'boolean' } },
+    description: 'Whether each RPC endpoint URL is up, per chain key',
+  })
+  rpcStatus: Record<string, Record<string, boolean>>;
+
+  @ApiProperty({ type: BlockQueueStatsDto })
+  queueStats: BlockQueueStatsDto;
+
+  @ApiRecordProperty(BackfillStatusDto)
+  backfill: Record<string, BackfillStatusDto>;
+
+  @ApiRecordProperty(BlockTimeStatsDto)
+  blockTimeStats: Record<string, BlockTimeStatsDto>;
+
+  @ApiRecordProperty(RecentBlockDto, { isArray: true, description: 'Newest blocks first, per chain key' })
+  recentBlocks: Record<string, RecentBlockDto[]>;
+}
+
+export class BlockStatusDto {
+  @ApiProperty({ type: BlockMonitoringInfoDto })
+  blockMonitoring: BlockMonitoringInfoDto;
+}
+
+export class EndpointBlockDifferenceDto {
+  @ApiProperty()
+  endpoint1: string;
+
+  @ApiProperty()
+  endpoint2: string;
+
+  @ApiProperty({ description: 'Blocks between the two endpoints' })
+  difference: number;
+}
+
+export class NetworkBlockDifferencesDto {
+  @ApiProperty()
+  maxDifference: number;
+
+  @ApiProperty({ type: [EndpointBlockDifferenceDto], description: 'Largest difference first' })
+  differences: EndpointBlockDifferenceDto[];
+}
+
+export class BlockComparisonDto {
+  @ApiRecordProperty(NetworkMonitoringDataDto)
+  endpoints: Record<string, NetworkMonitoringDataDto>;
+
+  @ApiProperty({ type: BlockTimeThresholdDto })
+  blockTimeThreshold: BlockTimeThresholdDto;
+
+  @ApiProperty()
+  totalEndpoints: number;
+
+  @ApiProperty()
+  activeEndpoints: number;
+
+  @ApiRecordProperty(NetworkBlockDifferencesDto, {
+    description: 'Height differences between RPC endpoints per chain key',
+  })
+  blockDifferences: Record<string, NetworkBlockDifferencesDto>;
+
+  @ApiRecordProperty('string')
+  primaryEndpoint: Record<string, string>;
+}
+
+export class BlockComparisonResponseDto {
+  @ApiProperty({ format: 'date-time' })
+  timestamp: string;
+
+  @ApiProperty({ type: BlockComparisonDto })
+  blockComparison: BlockComparisonDto;
+}
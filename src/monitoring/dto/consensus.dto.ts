@@ -0,0 +1,90 @@
+import { ApiRecordProperty } from '@common/dto/api-record-property';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ConsensusMonitoringInfo, ConsensusViolation, MinerPerformance } from '@types';
+
+export class ConsensusViolationDto implements ConsensusViolation {
+  @ApiProperty()
+  blockNumber: number;
+
+  @ApiProperty()
+  round: number;
+
+  @ApiProperty()
+  expectedMiner: string;
+
+  @ApiProperty()
+  actualMiner: string;
+
+  @ApiProperty({ enum: ['wrong_miner', 'timeout'] })
+  violationType: 'wrong_miner' | 'timeout';
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  timestamp: Date;
+
+  @ApiPropertyOptional({ description: 'Seconds, timeout violations only' })
+  timeDifference?: number;
+
+  @ApiPropertyOptional({ description: 'Estimated number of consecutive miners that missed their turn' })
+  estimatedMissedMiners?: number;
+}
+
+export class MinerPerformanceDto implements MinerPerformance {
+  @ApiProperty()
+  address: string;
+
+  @ApiProperty()
+  totalBlocksMined: number;
+
+  @ApiProperty()
+  missedBlocks: number;
+
+  @ApiPropertyOptional()
+  lastActiveBlock?: number;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  lastActive?: Date;
+}
+
+export class ConsensusMonitoringInfoDto implements ConsensusMonitoringInfo {
+  @ApiPropertyOptional()
+  chainId?: number;
+
+  @ApiProperty()
+  lastCheckedBlock: number;
+
+  @ApiProperty()
+  currentEpoch: number;
+
+  @ApiPropertyOptional({ description: 'Block number where the current epoch started' })
+  currentEpochBlock?: number;
+
+  @ApiProperty()
+  masternodeCount: number;
+
+  @ApiProperty()
+  standbyNodeCount: number;
+
+  @ApiProperty()
+  penaltyNodeCount: number;
+
+  @ApiProperty({ type: [ConsensusViolationDto] })
+  recentViolations: ConsensusViolationDto[];
+
+  @ApiRecordProperty(MinerPerformanceDto, { description: 'Performance per miner address' })
+  minerPerformance: Record<string, MinerPerformanceDto>;
+}
+
+export class ConsensusStatusDto {
+  @ApiRecordProperty(ConsensusMonitoringInfoDto, { description: 'Consensus state per chain ID' })
+  consensusMonitoring: Record<number, ConsensusMonitoringInfoDto>;
+}
+
+export class MasternodePerformanceDto {
+  @ApiRecordProperty(MinerPerformanceDto, { description: 'Performance per miner address' })
+  masternodePerformance: Record<string, MinerPerformanceDto>;
+}
+
+export class ConsensusViolationListDto {
+  @ApiProperty({ type: [ConsensusViolationDto], description: 'The 10 most recent violations' })
+  consensusViolations: ConsensusViolationDto[];
+}
@@ -0,0 +1,114 @@
+import { ApiRecordProperty } from '@common/dto/api-record-property';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MetricsStorageStatus, StateStoreStatus } from '@types';
+
+export class TestWalletStatusDto {
+  @ApiPropertyOptional({ description: 'Unset when no test wallet is configured for the chain' })
+  address?: string;
+
+  @ApiProperty()
+  hasBalance: boolean;
+}
+
+export class TransactionStatusDto {
+  @ApiProperty({ format: 'date-time' })
+  timestamp: string;
+
+  @ApiRecordProperty(TestWalletStatusDto, { description: 'Test wallet per chain key' })
+  walletStatus: Record<string, TestWalletStatusDto>;
+
+  @ApiProperty({ type: [String] })
+  disabledEndpoints: string[];
+}
+
+export class DisabledEndpointsDto {
+  @ApiProperty({ format: 'date-time' })
+  timestamp: string;
+
+  @ApiProperty({ type: [String], description: 'Endpoint URLs skipped by the transaction tests' })
+  disabledEndpoints: string[];
+
+  @ApiProperty()
+  message: string;
+}
+
+export class StateStoreStatusDto implements StateStoreStatus {
+  @ApiProperty()
+  enabled: boolean;
+
+  @ApiProperty({ example: 'file' })
+  backend: string;
+
+  @ApiProperty({ type: [String], description: 'Services whose state is snapshotted' })
+  providers: string[];
+
+  @ApiProperty({ type: [String], description: 'Services restored from a snapshot on boot' })
+  restored: string[];
+
+  @ApiProperty({ type: String, format: 'date-time', nullable: true })
+  lastSavedAt: Date | null;
+}
+
+export class StateStoreResponseDto {
+  @ApiProperty({ format: 'date-time' })
+  timestamp: string;
+
+  @ApiProperty({ type: StateStoreStatusDto })
+  stateStore: StateStoreStatusDto;
+}
+
+export class MetricsSpoolStatusDto {
+  @ApiProperty()
+  enabled: boolean;
+
+  @ApiProperty()
+  path: string;
+
+  @ApiProperty()
+  bytes: number;
+
+  @ApiProperty()
+  points: number;
+
+  @ApiProperty()
+  segments: number;
+}
+
+export class DroppedPointsDto {
+  @ApiProperty()
+  queue_full: number;
+
+  @ApiProperty()
+  spool_full: number;
+
+  @ApiProperty()
+  spool_corrupt: number;
+
+  @ApiProperty()
+  rejected: number;
+}
+
+export class MetricsStorageStatusDto implements MetricsStorageStatus {
+  @ApiProperty({ example: 'influxdb' })
+  backend: string;
+
+  @ApiProperty()
+  connected: boolean;
+
+  @ApiProperty()
+  queuedPoints: number;
+
+  @ApiProperty({ type: MetricsSpoolStatusDto })
+  spool: MetricsSpoolStatusDto;
+
+  @ApiProperty({ type: DroppedPointsDto, description: 'Points dropped since startup per reason' })
+  droppedPoints: DroppedPointsDto;
+}
+
+export class MetricsStorageResponseDto {
+  @ApiProperty({ format: 'date-time' })
+  timestamp: string;
+
+  @ApiProperty({ type: MetricsStorageStatusDto })
+  metricsStorage: MetricsStorageStatusDto;
+}
@@ -0,0 +1,108 @@
+import { ActionResultDto } from '@common/dto/common.dto';
+import { ApiRecordProperty } from '@common/dto/api-record-property';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RegisteredEndpointDto } from '@endpoints/dto/endpoint.dto';
+
+export class RpcEndpointHealthDto {
+  @ApiProperty()
+  url: string;
+
+  @ApiProperty()
+  isUp: boolean;
+
+  @ApiProperty({ description: 'Milliseconds' })
+  latency: number;
+
+  @ApiProperty({ description: 'Epoch milliseconds' })
+  lastChecked: number;
+
+  @ApiProperty({ description: 'Share of successful checks, 0 to 1' })
+  successRate: number;
+
+  @ApiProperty()
+  failureCount: number;
+
+  @ApiProperty({ description: 'Selection tier, lower tiers are preferred as primary' })
+  tier: number;
+
+  @ApiProperty()
+  syncedWithNetwork: boolean;
+
+  @ApiProperty()
+  blocksBehind: number;
+}
+
+export class PrimaryRpcDto {
+  @ApiProperty()
+  chainId: number;
+
+  @ApiProperty()
+  url: string;
+}
+
+export class RpcEndpointStatusDto {
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  url: string;
+
+  @ApiProperty({ enum: ['rpc', 'erpc', 'websocket'] })
+  type: string;
+
+  @ApiProperty({ enum: ['up', 'down', 'unknown'] })
+  status: string;
+
+  @ApiProperty({ description: 'Milliseconds, 0 when not measured yet' })
+  latency: number;
+
+  @ApiProperty()
+  chainId: number;
+}
+
+export class WsEndpointStatusDto {
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  url: string;
+
+  @ApiProperty({ enum: ['rpc', 'erpc', 'websocket'] })
+  type: string;
+
+  @ApiProperty({ enum: ['up', 'down', 'unknown'] })
+  status: string;
+
+  @ApiProperty()
+  chainId: number;
+}
+
+export class RpcStatusDto {
+  @ApiProperty({ type: [RpcEndpointStatusDto] })
+  rpc: RpcEndpointStatusDto[];
+
+  @ApiProperty({ type: [WsEndpointStatusDto] })
+  websocket: WsEndpointStatusDto[];
+
+  @ApiRecordProperty('string', { description: 'Status per explorer URL' })
+  explorer: Record<string, string>;
+
+  @ApiRecordProperty('string', { description: 'Status per faucet URL' })
+  faucet: Record<string, string>;
+}
+
+export class WebsocketStatusDto {
+  @ApiProperty({ enum: ['up', 'down'], description: 'Up when any WebSocket endpoint is up' })
+  wsStatus: 'up' | 'down';
+
+  @ApiProperty({ type: [WsEndpointStatusDto] })
+  wsEndpoints: WsEndpointStatusDto[];
+}
+
+export class PeerCountTestResultDto extends ActionResultDto {
+  @ApiPropertyOptional()
+  alertTriggered?: boolean;
+
+  @ApiPropertyOptional({ type: RegisteredEndpointDto })
+  endpoint?: RegisteredEndpointDto;
+}
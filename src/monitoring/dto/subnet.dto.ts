@@ -0,0 +1,93 @@
+import { ApiRecordProperty } from '@common/dto/api-record-property';
+import { ApiProperty } from '@nestjs/swagger';
+import { CheckpointedBlock, SubnetCheckpointStatus, SubnetStatus } from '@types';
+
+export class CheckpointedBlockDto implements CheckpointedBlock {
+  @ApiProperty()
+  number: number;
+
+  @ApiProperty()
+  hash: string;
+}
+
+export class SubnetCheckpointStatusDto implements SubnetCheckpointStatus {
+  @ApiProperty()
+  parentChainId: number;
+
+  @ApiProperty({ description: 'Checkpoint contract on the parent chain' })
+  contract: string;
+
+  @ApiProperty({ type: CheckpointedBlockDto, description: 'Latest header submitted, not necessarily committed yet' })
+  latestSubmitted: CheckpointedBlockDto;
+
+  @ApiProperty({ type: CheckpointedBlockDto, description: 'Latest header the contract considers committed' })
+  latestCommitted: CheckpointedBlockDto;
+
+  @ApiProperty()
+  lagBlocks: number;
+
+  @ApiProperty()
+  lagThresholdBlocks: number;
+
+  @ApiProperty({ description: 'Seconds the committed header may stay put before the lag alert fires' })
+  lagThresholdSeconds: number;
+
+  @ApiProperty({
+    type: Boolean,
+    nullable: true,
+    description: 'Whether the committed hash matches the subnet block, null if that block could not be fetched',
+  })
+  hashMatches: boolean | null;
+
+  @ApiProperty({ type: String, format: 'date-time', nullable: true })
+  lastAdvancedAt: Date | null;
+}
+
+export class SubnetStatusDto implements SubnetStatus {
+  @ApiProperty()
+  chainId: number;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ type: Number, nullable: true })
+  headBlock: number | null;
+
+  @ApiProperty({ type: String, nullable: true })
+  headHash: string | null;
+
+  @ApiProperty({ type: String, format: 'date-time', nullable: true })
+  lastBlockAt: Date | null;
+
+  @ApiProperty()
+  stalled: boolean;
+
+  @ApiProperty({ type: Number, nullable: true })
+  round: number | null;
+
+  @ApiProperty({ type: [String] })
+  masternodes: string[];
+
+  @ApiProperty({ type: [String] })
+  standbynodes: string[];
+
+  @ApiProperty({ type: [String] })
+  penalty: string[];
+
+  @ApiProperty({ type: SubnetCheckpointStatusDto, nullable: true })
+  checkpoint: SubnetCheckpointStatusDto | null;
+
+  @ApiProperty({ type: String, format: 'date-time', nullable: true })
+  lastCheckedAt: Date | null;
+
+  @ApiProperty({ type: String, nullable: true })
+  lastError: string | null;
+}
+
+export class SubnetStatusListDto {
+  @ApiProperty({ format: 'date-time' })
+  timestamp: string;
+
+  @ApiRecordProperty(SubnetStatusDto, { description: 'Status per subnet chain key' })
+  subnets: Record<string, SubnetStatusDto>;
+}
@@ -1,11 +1,35 @@
-import { Controller, Get } from '@nestjs/common';
+import { MAINNET_CHAIN_ID } from '@common/constants/endpoints';
+import { ErrorResponseDto } from '@common/dto/common.dto';
+import { ApiAuth, ApiChainIdQuery } from '@docs/api-docs.decorators';
+import { Controller, DefaultValuePipe, Get, ParseIntPipe, Query } from '@nestjs/common';
+import { ApiBadRequestResponse, ApiOkResponse, ApiTags } from '@nestjs/swagger';
 import { RpcMonitorService } from '@monitoring/rpc/rpc.monitor';
 import { BlocksMonitorService } from '@monitoring/blocks/blocks.monitor';
 import { ConsensusMonitor } from '@monitoring/consensus/consensus.monitor';
 import { MinerMonitor } from '@monitoring/consensus/miner/miner.monitor';
+import { SubnetMonitor } from '@monitoring/subnet/subnet.monitor';
 import { TransactionMonitorService } from '@monitoring/transaction/transaction.monitor';
+import { StateStoreService } from '@state/state-store.service';
+import { MetricsService } from '@metrics/metrics.service';
+import {
+  BlockComparisonResponseDto,
+  BlockStatusDto,
+  NetworkBlockDifferencesDto,
+} from '@monitoring/dto/block-monitoring.dto';
+import { ConsensusStatusDto, ConsensusViolationListDto, MasternodePerformanceDto } from '@monitoring/dto/consensus.dto';
+import {
+  DisabledEndpointsDto,
+  MetricsStorageResponseDto,
+  StateStoreResponseDto,
+  TransactionStatusDto,
+} from '@monitoring/dto/monitoring-status.dto';
+import { WebsocketStatusDto } from '@monitoring/dto/rpc.dto';
+import { SubnetStatusListDto } from '@monitoring/dto/subnet.dto';
+import { ConsensusMonitoringInfo, NetworkMonitoringData } from '@types';
 
 @Controller('monitoring')
+@ApiTags('Monitoring')
+@ApiAuth()
 export class MonitoringController {
   constructor(
     private readonly rpcMonitorService: RpcMonitorService,
@@ -13,10 +37,14 @@ export class MonitoringController {
     private readonly consensusMonitorService: ConsensusMonitor,
     private readonly minerMonitor: MinerMonitor,
     private readonly transactionMonitorService: TransactionMonitorService,
+    private readonly stateStore: StateStoreService,
+    private readonly metricsService: MetricsService,
+    private readonly subnetMonitor: SubnetMonitor,
   ) {}
 
   @Get('websocket-status')
-  getWebsocketStatus() {
+  @ApiOkResponse({ type: WebsocketStatusDto })
+  getWebsocketStatus(): WebsocketStatusDto {
     return {
       wsStatus: this.rpcMonitorService.getAnyWsStatus(),
       wsEndpoints: this.rpcMonitorService.getAllWsStatuses(),
@@ -24,35 +52,67 @@ export class MonitoringController {
   }
 
   @Get('block-status')
-  getBlockStatus() {
+  @ApiOkResponse({ type: BlockStatusDto })
+  getBlockStatus(): BlockStatusDto {
     return {
       blockMonitoring: this.blocksMonitorService.getBlockMonitoringInfo(),
     };
   }
 
   @Get('consensus-status')
-  getConsensusStatus() {
+  @ApiOkResponse({ type: ConsensusStatusDto })
+  getConsensusStatus(): ConsensusStatusDto {
     return {
-      consensusMonitoring: this.consensusMonitorService.getConsensusMonitoringInfo(),
+      // Without a chain ID the monitor returns the state of every chain keyed by chain ID
+      consensusMonitoring: this.consensusMonitorService.getConsensusMonitoringInfo() as Record<
+        number,
+        ConsensusMonitoringInfo
+      >,
     };
   }
 
+  /**
+   * GET /api/monitoring/masternode-performance?chainId=51, mainnet by default
+   */
   @Get('masternode-performance')
-  getMasternodePerformance(chainId: number) {
+  @ApiChainIdQuery('Chain ID, defaults to mainnet (50)')
+  @ApiOkResponse({ type: MasternodePerformanceDto })
+  @ApiBadRequestResponse({ description: 'chainId is not a number', type: ErrorResponseDto })
+  getMasternodePerformance(
+    @Query('chainId', new DefaultValuePipe(MAINNET_CHAIN_ID), ParseIntPipe) chainId: number,
+  ): MasternodePerformanceDto {
     return {
       masternodePerformance: this.minerMonitor.getMinerPerformance(chainId),
     };
   }
 
+  /**
+   * GET /api/monitoring/consensus-violations?chainId=51, mainnet by default
+   */
   @Get('consensus-violations')
-  getConsensusViolations(chainId: number) {
+  @ApiChainIdQuery('Chain ID, defaults to mainnet (50)')
+  @ApiOkResponse({ type: ConsensusViolationListDto })
+  @ApiBadRequestResponse({ description: 'chainId is not a number', type: ErrorResponseDto })
+  getConsensusViolations(
+    @Query('chainId', new DefaultValuePipe(MAINNET_CHAIN_ID), ParseIntPipe) chainId: number,
+  ): ConsensusViolationListDto {
     return {
       consensusViolations: this.minerMonitor.getRecentViolations(chainId),
     };
   }
 
+  @Get('subnet-status')
+  @ApiOkResponse({ type: SubnetStatusListDto })
+  getSubnetStatus(): SubnetStatusListDto {
+    return {
+      timestamp: new Date().toISOString(),
+      subnets: this.subnetMonitor.getSubnetStatus(),
+    };
+  }
+
   @Get('block-comparison')
-  getBlockComparison() {
+  @ApiOkResponse({ type: BlockComparisonResponseDto })
+  getBlockComparison(): BlockComparisonResponseDto {
     const blockInfo = this.blocksMonitorService.getBlockMonitoringInfo();
     const rpcStatus = this.rpcMonitorService.getAllRpcStatuses();
 
@@ -69,38 +129,44 @@ export class MonitoringController {
     };
   }
 
-  private calculateBlockDifferences(endpoints) {
-    if (!endpoints || endpoints.length <= 1) {
-      return { maxDifference: 0, differences: [] };
-    }
-
-    const blockNumbers = endpoints.map(e => e.blockNumber);
-    const maxBlock = Math.max(...blockNumbers);
-    const minBlock = Math.min(...blockNumbers);
-    const maxDifference = maxBlock - minBlock;
-
-    const differences = [];
-    for (let i = 0; i < endpoints.length; i++) {
-      for (let j = i + 1; j < endpoints.length; j++) {
-        const diff = Math.abs(endpoints[i].blockNumber - endpoints[j].blockNumber);
-        if (diff > 0) {
-          differences.push({
-            endpoint1: endpoints[i].endpoint,
-            endpoint2: endpoints[j].endpoint,
-            difference: diff,
-          });
+  /**
+   * Height differences between the RPC endpoints of each network, keyed by chain key
+   */
+  private calculateBlockDifferences(
+    networks: Record<string, NetworkMonitoringData>,
+  ): Record<string, NetworkBlockDifferencesDto> {
+    return Object.fromEntries(
+      Object.entries(networks || {}).map(([key, network]) => {
+        const endpoints = Object.entries(network.rpcBlocks || {});
+        if (endpoints.length <= 1) {
+          return [key, { maxDifference: 0, differences: [] }];
         }
-      }
-    }
 
-    return {
-      maxDifference,
-      differences: differences.sort((a, b) => b.difference - a.difference),
-    };
+        const blockNumbers = endpoints.map(([, blockNumber]) => blockNumber);
+        const maxDifference = Math.max(...blockNumbers) - Math.min(...blockNumbers);
+
+        const differences = [];
+        for (let i = 0; i < endpoints.length; i++) {
+          for (let j = i + 1; j < endpoints.length; j++) {
+            const diff = Math.abs(endpoints[i][1] - endpoints[j][1]);
+            if (diff > 0) {
+              differences.push({
+                endpoint1: endpoints[i][0],
+                endpoint2: endpoints[j][0],
+                difference: diff,
+              });
+            }
+          }
+        }
+
+        return [key, { maxDifference, differences: differences.sort((a, b) => b.difference - a.difference) }];
+      }),
+    );
   }
 
   @Get('transaction-status')
-  getTransactionStatus() {
+  @ApiOkResponse({ type: TransactionStatusDto })
+  getTransactionStatus(): TransactionStatusDto {
     return {
       timestamp: new Date().toISOString(),
       walletStatus: this.transactionMonitorService.getTestWalletStatus(),
@@ -109,11 +175,30 @@ export class MonitoringController {
   }
 
   @Get('disabled-endpoints')
-  getDisabledEndpoints() {
+  @ApiOkResponse({ type: DisabledEndpointsDto })
+  getDisabledEndpoints(): DisabledEndpointsDto {
     return {
       timestamp: new Date().toISOString(),
       disabledEndpoints: this.transactionMonitorService.getDisabledEndpoints(),
       message: 'These endpoints are temporarily disabled for transaction testing',
     };
   }
+
+  @Get('state-store')
+  @ApiOkResponse({ type: StateStoreResponseDto })
+  getStateStoreStatus(): StateStoreResponseDto {
+    return {
+      timestamp: new Date().toISOString(),
+      stateStore: this.stateStore.getStatus(),
+    };
+  }
+
+  @Get('metrics-storage')
+  @ApiOkResponse({ type: MetricsStorageResponseDto })
+  getMetricsStorageStatus(): MetricsStorageResponseDto {
+    return {
+      timestamp: new Date().toISOString(),
+      metricsStorage: this.metricsService.getStorageStatus(),
+    };
+  }
 }
@@ -4,11 +4,14 @@ import { ConfigModule } from '@config/config.module';
 import { MetricsModule } from '@metrics/metrics.module';
 import { AlertModule } from '@alerts/alert.module';
 import { BlocksMonitorService } from '@monitoring/blocks/blocks.monitor';
+import { ReorgMonitor } from '@monitoring/blocks/reorg.monitor';
 import { ConsensusModule } from '@monitoring/consensus/consensus.module';
 import { MonitoringController } from '@monitoring/monitoring.controller';
 import { RpcMonitorService } from '@monitoring/rpc/rpc.monitor';
 import { PeerCountMonitor } from '@monitoring/rpc/peer-count.monitor';
+import { RpcController } from '@monitoring/rpc/rpc.controller';
 import { RpcSelectorModule } from '@monitoring/rpc/rpc-selector.module';
+import { SubnetModule } from '@monitoring/subnet/subnet.module';
 import { TransactionMonitorService } from '@monitoring/transaction/transaction.monitor';
 import { Module, forwardRef } from '@nestjs/common';
 import { ScheduleModule } from '@nestjs/schedule';
@@ -21,10 +24,18 @@ import { ScheduleModule } from '@nestjs/schedule';
     MetricsModule,
     ConsensusModule,
     RpcSelectorModule,
+    SubnetModule,
     forwardRef(() => AlertModule),
   ],
-  providers: [BlocksMonitorService, RpcMonitorService, TransactionMonitorService, MetricsManager, PeerCountMonitor],
-  controllers: [MonitoringController],
-  exports: [BlocksMonitorService, RpcMonitorService, TransactionMonitorService, ConsensusModule],
+  providers: [
+    BlocksMonitorService,
+    RpcMonitorService,
+    TransactionMonitorService,
+    MetricsManager,
+    PeerCountMonitor,
+    ReorgMonitor,
+  ],
+  controllers: [MonitoringController, RpcController],
+  exports: [BlocksMonitorService, RpcMonitorService, TransactionMonitorService, ConsensusModule, SubnetModule],
 })
 export class MonitoringModule {}
@@ -1,9 +1,11 @@
 import { AlertService } from '@alerts/alert.service';
 import { ALERTS } from '@common/constants/config';
 import { RpcRetryClient } from '@common/utils/rpc-retry-client';
+import { EndpointRegistryService } from '@endpoints/endpoint-registry.service';
 import { MetricsService } from '@metrics/metrics.service';
 import { Injectable, Logger } from '@nestjs/common';
-import { PeerCountBaseline, RpcEndpoint } from '@types';
+import { StateStoreService } from '@state/state-store.service';
+import { EndpointChange, PeerCountBaseline, RpcEndpoint } from '@types';
 import WebSocket from 'ws';
 
 /**
@@ -37,7 +39,47 @@ export class PeerCountMonitor {
   constructor(
     private readonly metricsService: MetricsService,
     private readonly alertService: AlertService,
-  ) {}
+    private readonly stateStore: StateStoreService,
+    private readonly endpointRegistry: EndpointRegistryService,
+  ) {
+    this.registerStateProvider();
+    this.endpointRegistry.onChange(change => this.handleEndpointChange(change));
+  }
+
+  /**
+   * Persist peer count baselines so they do not have to be relearned after a restart
+   */
+  private registerStateProvider(): void {
+    this.stateStore.register<PeerCountBaseline[]>(PeerCountMonitor.name, {
+      snapshot: () => Array.from(this.peerCountBaselines.values()),
+      restore: baselines => {
+        baselines.forEach(baseline => {
+          if (
+            !this.peerCountBaselines.has(baseline.endpointUrl) &&
+            this.endpointRegistry.findByUrl(baseline.endpointUrl)
+          ) {
+            this.peerCountBaselines.set(baseline.endpointUrl, baseline);
+          }
+        });
+      },
+    });
+  }
+
+  /**
+   * Drop the baseline of a removed endpoint and close its open peer count incident
+   */
+  private handleEndpointChange({ type, endpoint }: EndpointChange): void {
+    if (type !== 'removed') return;
+
+    this.peerCountBaselines.delete(endpoint.url);
+    this.rpcClients.delete(endpoint.url);
+    this.alertService
+      .resolveCondition(
+        this.getPeerCountAlertKey(endpoint),
+        `${endpoint.name} (${endpoint.url}) was removed from monitoring.`,
+      )
+      .catch(error => this.logger.error(`Failed to resolve peer count alert for ${endpoint.url}: ${error.message}`));
+  }
 
   /**
    * Monitor peer count for an RPC endpoint
@@ -49,6 +91,13 @@ export class PeerCountMonitor {
     return this.monitorPeerCount(endpoint, 'rpc', () => this.fetchRpcPeerCount(endpoint));
   }
 
+  /**
+   * Peer count baseline of an endpoint, null until its peer count has been sampled
+   */
+  public getBaseline(url: string): PeerCountBaseline | null {
+    return this.peerCountBaselines.get(url) || null;
+  }
+
   /**
    * Monitor peer count for a WebSocket endpoint
    *
@@ -278,8 +327,19 @@ export class PeerCountMonitor {
       isCritical = true;
     }
 
+    // Peer count is healthy again, close any open peer count incident for this endpoint
+    if (!alertType) {
+      this.alertService
+        .resolveCondition(
+          this.getPeerCountAlertKey(endpoint),
+          `${endpoint.name} (${endpoint.url}) has recovered to ${currentPeerCount} peers (baseline ${baselinePeerCount.toFixed(1)}).`,
+        )
+        .catch(error => this.logger.error(`Failed to resolve peer count alert for ${endpoint.url}: ${error.message}`));
+      return false;
+    }
+
     // If no critical alert needed or throttled, return false
-    if (!alertType || !isCritical || this.isAlertThrottled(baseline)) return false;
+    if (!isCritical || this.isAlertThrottled(baseline)) return false;
 
     // Record this alert
     baseline.recentAlerts.push(Date.now());
@@ -295,11 +355,18 @@ export class PeerCountMonitor {
     );
 
     const componentType = endpointType === 'rpc' ? ALERTS.COMPONENTS.RPC : ALERTS.COMPONENTS.WEBSOCKET;
-    this.alertService.error(alertType, componentType, alertMessage, chainId);
+    this.alertService.error(alertType, componentType, alertMessage, chainId, this.getPeerCountAlertKey(endpoint));
 
     return true;
   }
 
+  /**
+   * Stateful alert key for a peer count incident, shared by no-peers and low-peers alerts
+   */
+  private getPeerCountAlertKey(endpoint: RpcEndpoint): string {
+    return `peer_count:${endpoint.url}`;
+  }
+
   /**
    * Check if alerts for this endpoint should be throttled using exponential backoff
    */
@@ -1,7 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@config/config.service';
-import { MAINNET_CHAIN_ID, PRIMARY_RPC_URLS, RPC_QUALITY_TIERS, TESTNET_CHAIN_ID } from '@common/constants/endpoints';
-import { RpcEndpoint } from '@types';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { RPC_QUALITY_TIERS } from '@common/constants/endpoints';
+import { EndpointRegistryService } from '@endpoints/endpoint-registry.service';
+import { LiveUpdatesService } from '@live/live-updates.service';
+import { StateStoreService } from '@state/state-store.service';
+import { EndpointChange, RpcEndpoint } from '@types';
 
 interface EndpointHealth {
   url: string;
@@ -15,6 +18,12 @@ interface EndpointHealth {
   blocksBehind: number;
 }
 
+interface RpcSelectorState {
+  endpointHealth: Record<number, EndpointHealth[]>;
+  selectedPrimary: Record<number, string>;
+  lastSwitchTime: Record<number, number>;
+}
+
 /**
  * Service for dynamically selecting the best RPC endpoints
  * based on real-time health metrics and historical performance
@@ -41,10 +50,63 @@ export class RpcSelectorService {
   // Maximum block height difference to consider an endpoint in sync
   private readonly MAX_BLOCKS_BEHIND = 50;
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly endpointRegistry: EndpointRegistryService,
+    private readonly stateStore: StateStoreService,
+    private readonly chainRegistry: ChainRegistryService,
+    private readonly liveUpdates: LiveUpdatesService,
+  ) {
     // Initialize with supported chain IDs
-    this.initializeForChain(MAINNET_CHAIN_ID);
-    this.initializeForChain(TESTNET_CHAIN_ID);
+    this.chainRegistry.getChainIds().forEach(chainId => this.initializeForChain(chainId));
+    this.registerStateProvider();
+    this.endpointRegistry.onChange(change => this.handleEndpointChange(change));
+  }
+
+  /**
+   * Forget the health of a removed endpoint and move off it if it was the primary
+   */
+  private handleEndpointChange({ type, endpoint }: EndpointChange): void {
+    if (type !== 'removed' || endpoint.kind !== 'rpc') return;
+
+    const { url, chainId } = endpoint;
+    this.getChainMap(chainId).delete(url);
+
+    if (this.selectedPrimary.get(chainId) === url) {
+      const replacement = this.findBestEndpoint(chainId);
+      this.logger.log(`Primary RPC ${url} for chain ${chainId} was removed, switching to ${replacement}`);
+
+      this.switchPrimary(chainId, url, replacement, 'removed');
+    }
+  }
+
+  /**
+   * Persist endpoint health and primary selection so endpoint tiers survive restarts
+   */
+  private registerStateProvider(): void {
+    this.stateStore.register<RpcSelectorState>(RpcSelectorService.name, {
+      snapshot: () => {
+        const state: RpcSelectorState = { endpointHealth: {}, selectedPrimary: {}, lastSwitchTime: {} };
+        this.endpointHealth.forEach((chainMap, chainId) => {
+          state.endpointHealth[chainId] = Array.from(chainMap.values());
+          state.selectedPrimary[chainId] = this.selectedPrimary.get(chainId);
+          state.lastSwitchTime[chainId] = this.lastSwitchTime.get(chainId) || 0;
+        });
+        return state;
+      },
+      restore: state => {
+        Object.entries(state.endpointHealth || {}).forEach(([chainIdStr, healthList]) => {
+          const chainId = Number(chainIdStr);
+          const chainMap = this.getChainMap(chainId);
+          healthList.forEach(health => {
+            if (!chainMap.has(health.url) && this.isRegistered(health.url, chainId)) chainMap.set(health.url, health);
+          });
+          if (this.isRegistered(state.selectedPrimary?.[chainId], chainId)) {
+            this.selectedPrimary.set(chainId, state.selectedPrimary[chainId]);
+          }
+          if (state.lastSwitchTime?.[chainId]) this.lastSwitchTime.set(chainId, state.lastSwitchTime[chainId]);
+        });
+      },
+    });
   }
 
   /**
@@ -53,7 +115,7 @@ export class RpcSelectorService {
   private initializeForChain(chainId: number): void {
     if (!this.endpointHealth.has(chainId)) {
       this.endpointHealth.set(chainId, new Map());
-      this.selectedPrimary.set(chainId, PRIMARY_RPC_URLS[chainId]);
+      this.selectedPrimary.set(chainId, this.endpointRegistry.getPrimaryRpcUrl(chainId));
       this.lastSwitchTime.set(chainId, 0);
       this.logger.log(`Initialized RPC selector for chain ${chainId}`);
     }
@@ -162,7 +224,7 @@ export class RpcSelectorService {
     }
 
     // Otherwise use the default fallback
-    return PRIMARY_RPC_URLS[chainId] || PRIMARY_RPC_URLS[MAINNET_CHAIN_ID];
+    return this.endpointRegistry.getPrimaryRpcUrl(chainId);
   }
 
   /**
@@ -202,23 +264,37 @@ export class RpcSelectorService {
     if (bestEndpoint && bestEndpoint !== currentPrimary) {
       this.logger.log(`Switching primary RPC for chain ${chainId} from ${currentPrimary} to ${bestEndpoint}`);
 
-      this.selectedPrimary.set(chainId, bestEndpoint);
-      this.lastSwitchTime.set(chainId, now);
+      this.switchPrimary(chainId, currentPrimary, bestEndpoint, hasPrimaryIssues ? 'unhealthy' : 'better-endpoint');
     }
   }
 
+  /**
+   * Make an endpoint the primary for a chain and stream the switch to live update clients
+   */
+  private switchPrimary(chainId: number, previousUrl: string, url: string, reason: string): void {
+    const health = this.getChainMap(chainId).get(url);
+
+    this.selectedPrimary.set(chainId, url);
+    this.lastSwitchTime.set(chainId, Date.now());
+
+    this.liveUpdates.publish('rpc-selection', chainId, 'primary-switched', {
+      previousUrl,
+      url,
+      reason,
+      latency: health?.latency ?? null,
+      tier: health?.tier ?? null,
+    });
+  }
+
   /**
    * Find the best endpoint for a chain based on health metrics
    */
   private findBestEndpoint(chainId: number): string {
     const chainMap = this.getChainMap(chainId);
-    let bestUrl = null;
     let bestScore = -1;
 
     // Default to fallback if nothing better is found
-    if (PRIMARY_RPC_URLS[chainId]) {
-      bestUrl = PRIMARY_RPC_URLS[chainId];
-    }
+    let bestUrl = this.endpointRegistry.getPrimaryRpcUrl(chainId);
 
     // Score each endpoint
     for (const [url, health] of chainMap.entries()) {
@@ -244,6 +320,13 @@ export class RpcSelectorService {
     return bestUrl;
   }
 
+  /**
+   * Whether an endpoint is still in the endpoint registry for this chain
+   */
+  private isRegistered(url: string | undefined, chainId: number): boolean {
+    return this.endpointRegistry.findByUrl(url)?.chainId === chainId;
+  }
+
   /**
    * Get health metrics for all endpoints on a chain
    */
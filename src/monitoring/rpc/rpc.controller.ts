@@ -1,11 +1,17 @@
 import { Controller, Get, Param, ParseIntPipe, Post, Query, Logger } from '@nestjs/common';
 import { RpcSelectorService } from './rpc-selector.service';
 import { RpcMonitorService } from './rpc.monitor';
-import { MAINNET_CHAIN_ID, TESTNET_CHAIN_ID } from '@common/constants/endpoints';
 import { PeerCountMonitor } from './peer-count.monitor';
-import { ConfigService } from '@config/config.service';
+import { EndpointRegistryService } from '@endpoints/endpoint-registry.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { ApiAuth } from '@docs/api-docs.decorators';
+import { ApiCreatedResponse, ApiExtraModels, ApiOkResponse, ApiQuery, ApiTags, getSchemaPath } from '@nestjs/swagger';
+import { PeerCountTestResultDto, PrimaryRpcDto, RpcEndpointHealthDto, RpcStatusDto } from '@monitoring/dto/rpc.dto';
 
-@Controller('api/monitoring/rpc')
+@Controller('monitoring/rpc')
+@ApiTags('RPC')
+@ApiAuth()
+@ApiExtraModels(RpcEndpointHealthDto)
 export class RpcController {
   private readonly logger = new Logger(RpcController.name);
 
@@ -13,25 +19,35 @@ export class RpcController {
     private readonly rpcSelectorService: RpcSelectorService,
     private readonly rpcMonitorService: RpcMonitorService,
     private readonly peerCountMonitor: PeerCountMonitor,
-    private readonly configService: ConfigService,
+    private readonly endpointRegistry: EndpointRegistryService,
+    private readonly chainRegistry: ChainRegistryService,
   ) {}
 
   /**
    * Get health metrics for all RPC endpoints
    */
   @Get('health')
-  getAllRpcHealth(): any {
-    return {
-      mainnet: this.rpcSelectorService.getEndpointHealthForChain(MAINNET_CHAIN_ID),
-      testnet: this.rpcSelectorService.getEndpointHealthForChain(TESTNET_CHAIN_ID),
-    };
+  @ApiOkResponse({
+    description: 'Endpoint health per chain key',
+    schema: {
+      type: 'object',
+      additionalProperties: { type: 'array', items: { $ref: getSchemaPath(RpcEndpointHealthDto) } },
+    },
+  })
+  getAllRpcHealth(): Record<string, RpcEndpointHealthDto[]> {
+    return Object.fromEntries(
+      this.chainRegistry
+        .getChains()
+        .map(({ key, chainId }) => [key, this.rpcSelectorService.getEndpointHealthForChain(chainId)]),
+    );
   }
 
   /**
    * Get health metrics for a specific chain
    */
   @Get('health/:chainId')
-  getRpcHealthForChain(@Param('chainId', ParseIntPipe) chainId: number): any {
+  @ApiOkResponse({ type: [RpcEndpointHealthDto] })
+  getRpcHealthForChain(@Param('chainId', ParseIntPipe) chainId: number): RpcEndpointHealthDto[] {
     return this.rpcSelectorService.getEndpointHealthForChain(chainId);
   }
 
@@ -39,18 +55,24 @@ export class RpcController {
    * Get the currently selected primary RPC endpoints
    */
   @Get('primary')
-  getPrimaryRpcEndpoints() {
-    return {
-      mainnet: this.rpcSelectorService.getPrimaryRpcUrl(MAINNET_CHAIN_ID),
-      testnet: this.rpcSelectorService.getPrimaryRpcUrl(TESTNET_CHAIN_ID),
-    };
+  @ApiOkResponse({
+    description: 'Primary RPC URL per chain key',
+    schema: { type: 'object', additionalProperties: { type: 'string' } },
+  })
+  getPrimaryRpcEndpoints(): Record<string, string> {
+    return Object.fromEntries(
+      this.chainRegistry
+        .getChains()
+        .map(({ key, chainId }) => [key, this.rpcSelectorService.getPrimaryRpcUrl(chainId)]),
+    );
   }
 
   /**
    * Get the currently selected primary RPC for a specific chain
    */
   @Get('primary/:chainId')
-  getPrimaryRpcForChain(@Param('chainId', ParseIntPipe) chainId: number) {
+  @ApiOkResponse({ type: PrimaryRpcDto })
+  getPrimaryRpcForChain(@Param('chainId', ParseIntPipe) chainId: number): PrimaryRpcDto {
     return {
       chainId,
       url: this.rpcSelectorService.getPrimaryRpcUrl(chainId),
@@ -61,7 +83,8 @@ export class RpcController {
    * Get the current status of all RPC endpoints
    */
   @Get('status')
-  getRpcStatus() {
+  @ApiOkResponse({ type: RpcStatusDto })
+  getRpcStatus(): RpcStatusDto {
     return {
       rpc: this.rpcMonitorService.getAllRpcStatuses(),
       websocket: this.rpcMonitorService.getAllWsStatuses(),
@@ -74,14 +97,16 @@ export class RpcController {
    * Test peer count monitoring for a specific endpoint
    */
   @Post('test-peer-count')
-  async testPeerCount(@Query('endpoint') endpoint: string) {
+  @ApiQuery({ name: 'endpoint', description: 'RPC endpoint URL' })
+  @ApiCreatedResponse({ type: PeerCountTestResultDto })
+  async testPeerCount(@Query('endpoint') endpoint: string): Promise<PeerCountTestResultDto> {
     if (!endpoint) {
       return { success: false, message: 'Endpoint parameter is required' };
     }
 
     try {
       // Find the endpoint configuration
-      const rpcEndpoints = this.configService.getRpcEndpoints();
+      const rpcEndpoints = this.endpointRegistry.getRpcEndpoints();
       const endpointConfig = rpcEndpoints.find(e => e.url === endpoint);
 
       if (!endpointConfig) {
@@ -3,11 +3,21 @@ import { BlockchainService } from '@blockchain/blockchain.service';
 import { ALERTS, BLOCKCHAIN, PERFORMANCE } from '@common/constants/config';
 import { RpcRetryClient } from '@common/utils/rpc-retry-client';
 import { ConfigService } from '@config/config.service';
+import { EndpointRegistryService } from '@endpoints/endpoint-registry.service';
+import { LiveUpdatesService } from '@live/live-updates.service';
 import { MetricsService } from '@metrics/metrics.service';
 import { PeerCountMonitor } from '@monitoring/rpc/peer-count.monitor';
 import { RpcSelectorService } from '@monitoring/rpc/rpc-selector.service';
 import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
-import { EndpointStatus, MonitorType, RpcEndpoint, RpcMonitorConfig, ServiceStatus } from '@types';
+import {
+  EndpointChange,
+  EndpointStatus,
+  MonitorType,
+  RegisteredEndpoint,
+  RpcEndpoint,
+  RpcMonitorConfig,
+  ServiceStatus,
+} from '@types';
 import axios from 'axios';
 import WebSocket from 'ws';
 
@@ -54,7 +64,11 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
     private readonly alertService: AlertService,
     private readonly peerCountMonitor: PeerCountMonitor,
     private readonly rpcSelectorService: RpcSelectorService,
-  ) {}
+    private readonly endpointRegistry: EndpointRegistryService,
+    private readonly liveUpdates: LiveUpdatesService,
+  ) {
+    this.endpointRegistry.onChange(change => this.handleEndpointChange(change));
+  }
 
   // #region Lifecycle Methods
 
@@ -117,6 +131,33 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
     this.intervals = {} as any;
   }
 
+  /**
+   * Stop tracking an endpoint removed from the endpoint registry
+   * Added endpoints need no setup, every check reads its endpoints from the registry.
+   */
+  private handleEndpointChange({ type, endpoint }: EndpointChange): void {
+    if (type !== 'removed') return;
+
+    const statusMaps: Record<RegisteredEndpoint['kind'], Map<string, unknown>> = {
+      rpc: this.rpcStatuses,
+      websocket: this.wsStatuses,
+      explorer: this.explorerStatuses,
+      faucet: this.faucetStatuses,
+    };
+    statusMaps[endpoint.kind].delete(endpoint.url);
+    this.rpcClients.delete(endpoint.url);
+    this.metricsService
+      .removeEndpoint(endpoint.url, endpoint.chainId)
+      .catch(error => this.logger.error(`Failed to remove metrics of ${endpoint.url}: ${error.message}`));
+
+    this.alertService
+      .resolveCondition(
+        this.getDowntimeAlertKey(endpoint),
+        `Endpoint ( ${endpoint.url} ) for chain ${endpoint.chainId} was removed from monitoring`,
+      )
+      .catch(error => this.logger.error(`Failed to resolve downtime alert for ${endpoint.url}: ${error.message}`));
+  }
+
   /**
    * Load configuration settings from environment variables
    */
@@ -141,13 +182,13 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
    */
   private initializeStatusMaps() {
     // Initialize RPC status map
-    for (const endpoint of this.configService.getRpcEndpoints()) {
+    for (const endpoint of this.endpointRegistry.getRpcEndpoints()) {
       this.initializeRpcStatus(endpoint);
     }
 
     // Initialize WebSocket status map
     if (WebSocket) {
-      for (const endpoint of this.configService.getWsEndpoints()) {
+      for (const endpoint of this.endpointRegistry.getWsEndpoints()) {
         this.initializeWsStatus(endpoint);
       }
     }
@@ -201,7 +242,7 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
    */
   private initializeServiceStatuses(): void {
     // Initialize explorer statuses
-    for (const endpoint of this.configService.explorerEndpoints) {
+    for (const endpoint of this.endpointRegistry.getExplorerEndpoints()) {
       this.explorerStatuses.set(endpoint.url, {
         status: 'down',
         downSince: Date.now(),
@@ -210,7 +251,7 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
     }
 
     // Initialize faucet statuses
-    for (const endpoint of this.configService.faucetEndpoints) {
+    for (const endpoint of this.endpointRegistry.getFaucetEndpoints()) {
       this.faucetStatuses.set(endpoint.url, {
         status: 'down',
         downSince: Date.now(),
@@ -223,7 +264,7 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
    * Initialize RPC clients for all endpoints
    */
   private initializeRpcClients() {
-    for (const endpoint of this.configService.getRpcEndpoints()) {
+    for (const endpoint of this.endpointRegistry.getRpcEndpoints()) {
       this.getRpcClient(endpoint);
     }
   }
@@ -308,7 +349,7 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
     this.logger.debug('Checking RPC endpoints...');
 
     // Get all configured RPC endpoints
-    const allRpcEndpoints = this.configService.getRpcEndpoints();
+    const allRpcEndpoints = this.endpointRegistry.getRpcEndpoints();
 
     // Track which endpoints were successfully monitored
     const monitoredEndpoints = new Set<string>();
@@ -355,7 +396,7 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
     this.logger.debug('Checking WebSocket endpoints...');
 
     // Get all configured WebSocket endpoints
-    const allWsEndpoints = this.configService.getWsEndpoints();
+    const allWsEndpoints = this.endpointRegistry.getWsEndpoints();
 
     // Track which endpoints were successfully monitored
     const monitoredEndpoints = new Set<string>();
@@ -809,8 +850,8 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
 
     // Process in parallel
     await Promise.all([
-      Promise.all(this.configService.getRpcEndpoints().map(e => this.monitorRpcPort(e))),
-      Promise.all(this.configService.getWsEndpoints().map(e => this.monitorWsPort(e))),
+      Promise.all(this.endpointRegistry.getRpcEndpoints().map(e => this.monitorRpcPort(e))),
+      Promise.all(this.endpointRegistry.getWsEndpoints().map(e => this.monitorWsPort(e))),
     ]);
   }
 
@@ -879,12 +920,13 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
     this.logger.debug('Checking services...');
 
     // Monitor explorers with comprehensive coverage
-    if (this.configService.explorerEndpoints?.length) {
+    const explorerEndpoints = this.endpointRegistry.getExplorerEndpoints();
+    if (explorerEndpoints.length) {
       const monitoredExplorers = new Set<string>();
-      await this.monitorServiceGroup(this.configService.explorerEndpoints, 'explorer', monitoredExplorers);
+      await this.monitorServiceGroup(explorerEndpoints, 'explorer', monitoredExplorers);
 
       // Ensure sentinel values for any unmonitored explorers
-      for (const endpoint of this.configService.explorerEndpoints) {
+      for (const endpoint of explorerEndpoints) {
         if (!monitoredExplorers.has(endpoint.url)) {
           this.logger.debug(`Writing sentinel values for unmonitored explorer: ${endpoint.url}`);
           this.metricsService.setExplorerStatusWithSentinel(endpoint.url, null, endpoint.chainId, true);
@@ -893,12 +935,13 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
     }
 
     // Monitor faucets with comprehensive coverage
-    if (this.configService.faucetEndpoints?.length) {
+    const faucetEndpoints = this.endpointRegistry.getFaucetEndpoints();
+    if (faucetEndpoints.length) {
       const monitoredFaucets = new Set<string>();
-      await this.monitorServiceGroup(this.configService.faucetEndpoints, 'faucet', monitoredFaucets);
+      await this.monitorServiceGroup(faucetEndpoints, 'faucet', monitoredFaucets);
 
       // Ensure sentinel values for any unmonitored faucets
-      for (const endpoint of this.configService.faucetEndpoints) {
+      for (const endpoint of faucetEndpoints) {
         if (!monitoredFaucets.has(endpoint.url)) {
           this.logger.debug(`Writing sentinel values for unmonitored faucet: ${endpoint.url}`);
           this.metricsService.setFaucetStatusWithSentinel(endpoint.url, null, endpoint.chainId, true);
@@ -910,7 +953,11 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
   /**
    * Monitor a group of services
    */
-  private async monitorServiceGroup(endpoints: RpcEndpoint[], serviceType: string, monitoredEndpoints?: Set<string>) {
+  private async monitorServiceGroup(
+    endpoints: RegisteredEndpoint[],
+    serviceType: string,
+    monitoredEndpoints?: Set<string>,
+  ) {
     const results = await Promise.all(
       endpoints.map(async endpoint => {
         const isUp = await this.monitorService(endpoint);
@@ -927,7 +974,7 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
   /**
    * Monitor a service endpoint
    */
-  async monitorService(endpoint: RpcEndpoint): Promise<boolean> {
+  async monitorService(endpoint: RegisteredEndpoint): Promise<boolean> {
     try {
       this.logger.debug(`Checking service: ${endpoint.name} (${endpoint.url})`);
 
@@ -951,11 +998,14 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
   /**
    * Update service status and metrics
    */
-  private updateServiceStatus(endpoint: RpcEndpoint, isUp: boolean): void {
-    if (endpoint.url.includes('explorer') || endpoint.url.includes('scan')) {
+  private updateServiceStatus(endpoint: RegisteredEndpoint, isUp: boolean): void {
+    const statusMap = endpoint.kind === 'explorer' ? this.explorerStatuses : this.faucetStatuses;
+    this.publishStatusChange(endpoint, endpoint.kind, statusMap.get(endpoint.url)?.status, isUp);
+
+    if (endpoint.kind === 'explorer') {
       this.explorerStatuses.set(endpoint.url, { status: isUp ? 'up' : 'down' });
       this.metricsService.setExplorerStatusWithSentinel(endpoint.url, isUp, endpoint.chainId, !isUp);
-    } else if (endpoint.url.includes('faucet')) {
+    } else if (endpoint.kind === 'faucet') {
       this.faucetStatuses.set(endpoint.url, { status: isUp ? 'up' : 'down' });
       this.metricsService.setFaucetStatusWithSentinel(endpoint.url, isUp, endpoint.chainId, !isUp);
     }
@@ -974,13 +1024,14 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
     // Process RPC provider statuses
     for (const providerData of rpcProviders) {
       const { url, status, chainId } = providerData.endpoint;
-      const configEndpoint = this.configService.getRpcEndpoints().find(ep => ep.url === url);
+      const configEndpoint = this.endpointRegistry.getRpcEndpoints().find(ep => ep.url === url);
       if (configEndpoint) {
         // Only update if we have configuration for this endpoint
         const currentStatus = this.rpcStatuses.get(url);
         const isUp = status === 'up';
 
         if (currentStatus) {
+          this.publishStatusChange(configEndpoint, 'rpc', currentStatus.status, isUp);
           if (!isUp && currentStatus.status === 'up') {
             currentStatus.status = 'down';
             currentStatus.downSince = Date.now();
@@ -1018,13 +1069,14 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
     // Process WebSocket provider statuses
     for (const providerData of wsProviders) {
       const { url, status, chainId } = providerData.endpoint;
-      const configEndpoint = this.configService.getWsEndpoints().find(ep => ep.url === url);
+      const configEndpoint = this.endpointRegistry.getWsEndpoints().find(ep => ep.url === url);
       if (configEndpoint) {
         // Only update if we have configuration for this endpoint
         const currentStatus = this.wsStatuses.get(url);
         const isUp = status === 'up';
 
         if (currentStatus) {
+          this.publishStatusChange(configEndpoint, 'websocket', currentStatus.status, isUp);
           if (!isUp && currentStatus.status === 'up') {
             currentStatus.status = 'down';
             currentStatus.downSince = Date.now();
@@ -1082,6 +1134,24 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
       current.alerted = false;
     }
 
+    this.publishStatusChange(
+      endpoint,
+      statusMap === this.wsStatuses ? 'websocket' : 'rpc',
+      current.status,
+      isUp,
+      extraFields,
+    );
+
+    // Resolve any open downtime incident, also covers incidents restored after a restart
+    if (isUp && current.status !== 'up') {
+      this.alertService
+        .resolveCondition(
+          this.getDowntimeAlertKey(endpoint),
+          `Endpoint ( ${endpoint.url} ) for chain ${endpoint.chainId} is back up`,
+        )
+        .catch(error => this.logger.error(`Failed to resolve downtime alert for ${endpoint.url}: ${error.message}`));
+    }
+
     // Update status
     statusMap.set(endpoint.url, {
       ...current,
@@ -1092,6 +1162,29 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
     return current;
   }
 
+  /**
+   * Stream an endpoint going up or down to live update clients
+   */
+  private publishStatusChange(
+    endpoint: RpcEndpoint,
+    type: string,
+    previousStatus: string | undefined,
+    isUp: boolean,
+    extraFields = {},
+  ): void {
+    const status = isUp ? 'up' : 'down';
+    if (previousStatus === status) return;
+
+    this.liveUpdates.publish('endpoints', endpoint.chainId, 'status-changed', {
+      url: endpoint.url,
+      name: endpoint.name,
+      type,
+      status,
+      previousStatus: previousStatus || 'unknown',
+      ...extraFields,
+    });
+  }
+
   /**
    * Check if we should send a notification for extended downtime
    */
@@ -1118,6 +1211,7 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
         endpointType,
         `${endpointType.charAt(0).toUpperCase() + endpointType.slice(1)} endpoint ( ${endpoint.url} ) for chain ${endpoint.chainId} has been down for ${hours}h ${minutes}m`,
         endpoint.chainId,
+        this.getDowntimeAlertKey(endpoint),
       );
 
       // Mark as alerted
@@ -1128,6 +1222,13 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
     return false;
   }
 
+  /**
+   * Stateful alert key for an endpoint downtime incident
+   */
+  private getDowntimeAlertKey(endpoint: RpcEndpoint): string {
+    return `${ALERTS.TYPES.RPC_ENDPOINT_DOWN}:${endpoint.url}`;
+  }
+
   /**
    * Calculate health factor for a status map (0-1)
    */
@@ -1141,21 +1242,21 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
    * Calculate health factor for RPC endpoints
    */
   private calculateRpcHealthFactor(): number {
-    return this.calculateHealthFactor(this.rpcStatuses, this.configService.getRpcEndpoints());
+    return this.calculateHealthFactor(this.rpcStatuses, this.endpointRegistry.getRpcEndpoints());
   }
 
   /**
    * Calculate health factor for WebSocket endpoints
    */
   private calculateWsHealthFactor(): number {
-    return this.calculateHealthFactor(this.wsStatuses, this.configService.getWsEndpoints());
+    return this.calculateHealthFactor(this.wsStatuses, this.endpointRegistry.getWsEndpoints());
   }
 
   /**
    * Get all RPC endpoint statuses
    */
   getAllRpcStatuses() {
-    return this.configService.getRpcEndpoints().map(endpoint => {
+    return this.endpointRegistry.getRpcEndpoints().map(endpoint => {
       const status = this.rpcStatuses.get(endpoint.url) || { status: 'unknown', latency: 0 };
       return {
         name: endpoint.name,
@@ -1172,7 +1273,7 @@ export class RpcMonitorService implements OnModuleInit, OnModuleDestroy {
    * Get all WebSocket endpoint statuses
    */
   getAllWsStatuses() {
-    return this.configService.getWsEndpoints().map(endpoint => {
+    return this.endpointRegistry.getWsEndpoints().map(endpoint => {
       const status = this.wsStatuses.get(endpoint.url) || { status: 'unknown' };
       return {
         name: endpoint.name,
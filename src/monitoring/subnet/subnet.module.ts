@@ -0,0 +1,12 @@
+import { AlertModule } from '@alerts/alert.module';
+import { ConfigModule } from '@config/config.module';
+import { MetricsModule } from '@metrics/metrics.module';
+import { Module, forwardRef } from '@nestjs/common';
+import { SubnetMonitor } from './subnet.monitor';
+
+@Module({
+  imports: [ConfigModule, MetricsModule, forwardRef(() => AlertModule)],
+  providers: [SubnetMonitor],
+  exports: [SubnetMonitor],
+})
+export class SubnetModule {}
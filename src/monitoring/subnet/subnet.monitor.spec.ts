@@ -0,0 +1,335 @@
+import { AlertService } from '@alerts/alert.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { ALERTS, ENV_VARS } from '@common/constants/config';
+import { ConfigService } from '@config/config.service';
+import { MetricsService } from '@metrics/metrics.service';
+import { SubnetMonitor } from '@monitoring/subnet/subnet.monitor';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Test } from '@nestjs/testing';
+import { ChainDefinition } from '@types';
+import { ethers } from 'ethers';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+
+const CHECKPOINT_ABI = [
+  'function getLatestBlocks() view returns (tuple(bytes32 hash, int256 number), tuple(bytes32 hash, int256 number))',
+];
+const CHECKPOINT_CONTRACT = '0x0000000000000000000000000000000000000c5c';
+const SUBNET_CHAIN_ID = 7000;
+const PARENT_CHAIN_ID = 51;
+const EPOCH_LENGTH = 10;
+const BLOCK_TIME_SECONDS = 2;
+const LAG_EPOCHS = 2;
+
+const blockHash = (number: number) => ethers.zeroPadValue(ethers.toBeHex(number + 1), 32);
+
+/**
+ * Local JSON-RPC server answering for both the subnet and its parent chain
+ */
+class MockRpcNode {
+  headBlock = 100;
+  committed = { number: 90, hash: blockHash(90) };
+  submitted = { number: 95, hash: blockHash(95) };
+  masternodes = ['0xa1', '0xa2'];
+  // Heights the subnet cannot serve, as a pruned or lagging node would
+  missingBlocks = new Set<number>();
+  calls: string[] = [];
+
+  private readonly checkpointContract = new ethers.Interface(CHECKPOINT_ABI);
+  private server: Server;
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const { id, method, params } = JSON.parse(body);
+        this.calls.push(method);
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result: this.handle(method, params) }));
+      });
+    });
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(method: string, params: any[]): unknown {
+    switch (method) {
+      case 'eth_getBlockByNumber': {
+        const number = params[0] === 'latest' ? this.headBlock : parseInt(params[0], 16);
+        if (number > this.headBlock || this.missingBlocks.has(number)) return null;
+        return { number: ethers.toQuantity(number), hash: blockHash(number) };
+      }
+      case 'XDPoS_getMasternodesByNumber':
+        return {
+          Number: this.headBlock,
+          Round: this.headBlock,
+          Masternodes: this.masternodes,
+          Penalty: [],
+          Standbynodes: [],
+        };
+      case 'eth_call':
+        if (params[0].to !== CHECKPOINT_CONTRACT) return '0x';
+        return this.checkpointContract.encodeFunctionResult('getLatestBlocks', [
+          [this.submitted.hash, this.submitted.number],
+          [this.committed.hash, this.committed.number],
+        ]);
+      default:
+        return null;
+    }
+  }
+}
+
+describe('SubnetMonitor', () => {
+  let node: MockRpcNode;
+  let monitor: SubnetMonitor;
+  let alertService: { error: jest.Mock; resolveCondition: jest.Mock };
+  let subnet: ChainDefinition;
+  let blockStallSeconds: number;
+
+  const alertKey = (type: string) => `${type}:${SUBNET_CHAIN_ID}`;
+  const errorsOfType = (type: string) => alertService.error.mock.calls.filter(([alertType]) => alertType === type);
+  const status = () => monitor.getSubnetStatus().subnet;
+
+  const createMonitor = async () => {
+    const url = await node.start();
+    subnet = {
+      chainId: SUBNET_CHAIN_ID,
+      key: 'subnet',
+      name: 'Test Subnet',
+      type: 'subnet',
+      epochLength: EPOCH_LENGTH,
+      blockTimeSeconds: BLOCK_TIME_SECONDS,
+      v2SwitchBlock: 0,
+      primaryRpcUrl: url,
+      endpoints: [],
+      wallet: null,
+      parentChainId: PARENT_CHAIN_ID,
+      checkpointContract: CHECKPOINT_CONTRACT,
+    };
+    const parent: ChainDefinition = {
+      ...subnet,
+      chainId: PARENT_CHAIN_ID,
+      key: 'testnet',
+      name: 'Parent',
+      type: 'testnet',
+    };
+    const settings: Record<string, number> = {
+      [ENV_VARS.SUBNET_SCAN_INTERVAL]: 60000,
+      [ENV_VARS.SUBNET_BLOCK_STALL_SECONDS]: blockStallSeconds,
+      [ENV_VARS.SUBNET_CHECKPOINT_LAG_EPOCHS]: LAG_EPOCHS,
+    };
+    alertService = {
+      error: jest.fn().mockResolvedValue(undefined),
+      resolveCondition: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        SubnetMonitor,
+        { provide: AlertService, useValue: alertService },
+        {
+          provide: ConfigService,
+          useValue: {
+            isFeatureEnabled: () => true,
+            getNumber: (name: string, fallback: number) => settings[name] ?? fallback,
+          },
+        },
+        { provide: MetricsService, useValue: { recordSubnetStatus: jest.fn(), recordSubnetCheckpoint: jest.fn() } },
+        { provide: SchedulerRegistry, useValue: { addInterval: jest.fn(), doesExist: () => false } },
+        {
+          provide: ChainRegistryService,
+          useValue: {
+            getSubnets: () => [subnet],
+            getChain: (chainId: number) => (chainId === PARENT_CHAIN_ID ? parent : subnet),
+          },
+        },
+      ],
+    }).compile();
+
+    moduleRef.useLogger(false);
+    monitor = moduleRef.get(SubnetMonitor);
+    // Registers the subnet without starting the interval scan
+    jest.spyOn(monitor, 'monitorSubnets').mockResolvedValueOnce(undefined);
+    monitor.onModuleInit();
+  };
+
+  beforeEach(() => {
+    node = new MockRpcNode();
+    blockStallSeconds = 0;
+    // Only the clock and the scan interval are faked, sockets and the RPC client timeouts stay real
+    jest.useFakeTimers({
+      now: new Date('2025-01-01T00:00:00Z'),
+      doNotFake: [
+        'nextTick',
+        'setImmediate',
+        'clearImmediate',
+        'setTimeout',
+        'clearTimeout',
+        'queueMicrotask',
+        'hrtime',
+        'performance',
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    await node.stop();
+  });
+
+  describe('block production', () => {
+    it('follows the head and reads the masternode list', async () => {
+      await createMonitor();
+      await monitor.monitorSubnets();
+
+      expect(status()).toMatchObject({
+        headBlock: 100,
+        headHash: blockHash(100),
+        stalled: false,
+        masternodes: ['0xa1', '0xa2'],
+      });
+      expect(status().lastError).toBeNull();
+      expect(node.calls).toEqual(
+        expect.arrayContaining(['eth_getBlockByNumber', 'XDPoS_getMasternodesByNumber', 'eth_call']),
+      );
+    });
+
+    it('does not alert while the head is within the stall threshold', async () => {
+      blockStallSeconds = 60;
+      await createMonitor();
+
+      await monitor.monitorSubnets();
+      jest.setSystemTime(Date.now() + 30000);
+      await monitor.monitorSubnets();
+
+      expect(status().stalled).toBe(false);
+      expect(errorsOfType(ALERTS.TYPES.SUBNET_BLOCK_PRODUCTION_STALLED)).toHaveLength(0);
+    });
+
+    it('alerts when the head stops moving and resolves once blocks are produced again', async () => {
+      blockStallSeconds = 60;
+      await createMonitor();
+
+      await monitor.monitorSubnets();
+      jest.setSystemTime(Date.now() + 61000);
+      await monitor.monitorSubnets();
+
+      expect(status().stalled).toBe(true);
+      const [stalled] = errorsOfType(ALERTS.TYPES.SUBNET_BLOCK_PRODUCTION_STALLED);
+      expect(stalled).toEqual([
+        ALERTS.TYPES.SUBNET_BLOCK_PRODUCTION_STALLED,
+        ALERTS.COMPONENTS.SUBNET,
+        expect.stringContaining('no new block for 61s, head is still #100'),
+        SUBNET_CHAIN_ID,
+        alertKey(ALERTS.TYPES.SUBNET_BLOCK_PRODUCTION_STALLED),
+      ]);
+
+      node.headBlock = 101;
+      await monitor.monitorSubnets();
+
+      expect(status()).toMatchObject({ headBlock: 101, stalled: false });
+      expect(alertService.resolveCondition).toHaveBeenCalledWith(
+        alertKey(ALERTS.TYPES.SUBNET_BLOCK_PRODUCTION_STALLED),
+        expect.stringContaining('producing blocks again, head is #101'),
+      );
+    });
+  });
+
+  describe('checkpoint lag', () => {
+    it('resolves the lag condition while the committed header is under the threshold', async () => {
+      await createMonitor();
+      await monitor.monitorSubnets();
+
+      expect(status().checkpoint).toMatchObject({
+        parentChainId: PARENT_CHAIN_ID,
+        contract: CHECKPOINT_CONTRACT,
+        latestCommitted: { number: 90 },
+        latestSubmitted: { number: 95 },
+        lagBlocks: 10,
+        lagThresholdBlocks: LAG_EPOCHS * EPOCH_LENGTH,
+        lagThresholdSeconds: LAG_EPOCHS * EPOCH_LENGTH * BLOCK_TIME_SECONDS,
+        hashMatches: true,
+      });
+      expect(errorsOfType(ALERTS.TYPES.SUBNET_CHECKPOINT_LAG)).toHaveLength(0);
+      expect(alertService.resolveCondition).toHaveBeenCalledWith(
+        alertKey(ALERTS.TYPES.SUBNET_CHECKPOINT_LAG),
+        expect.any(String),
+      );
+    });
+
+    it('alerts when the committed header is more blocks behind than the threshold', async () => {
+      node.headBlock = 111;
+      await createMonitor();
+      await monitor.monitorSubnets();
+
+      expect(status().checkpoint.lagBlocks).toBe(21);
+      const [lag] = errorsOfType(ALERTS.TYPES.SUBNET_CHECKPOINT_LAG);
+      expect(lag[2]).toContain('21 blocks behind the subnet head (threshold 20)');
+      expect(lag[4]).toBe(alertKey(ALERTS.TYPES.SUBNET_CHECKPOINT_LAG));
+    });
+
+    it('alerts when the committed header stops advancing even if the subnet stalls too', async () => {
+      blockStallSeconds = 3600;
+      await createMonitor();
+
+      await monitor.monitorSubnets();
+      jest.setSystemTime(Date.now() + 30000);
+      await monitor.monitorSubnets();
+      expect(errorsOfType(ALERTS.TYPES.SUBNET_CHECKPOINT_LAG)).toHaveLength(0);
+
+      jest.setSystemTime(Date.now() + 15000);
+      await monitor.monitorSubnets();
+
+      expect(status().checkpoint.lagBlocks).toBe(10);
+      const [lag] = errorsOfType(ALERTS.TYPES.SUBNET_CHECKPOINT_LAG);
+      expect(lag[2]).toContain('has not advanced for 45s (threshold 40s)');
+
+      node.headBlock = 102;
+      node.committed = { number: 100, hash: blockHash(100) };
+      await monitor.monitorSubnets();
+
+      expect(status().checkpoint.lastAdvancedAt).toEqual(new Date(Date.now()));
+      expect(alertService.resolveCondition).toHaveBeenLastCalledWith(
+        alertKey(ALERTS.TYPES.SUBNET_CHECKPOINT_LAG),
+        expect.stringContaining('2 blocks behind'),
+      );
+    });
+  });
+
+  describe('checkpoint verification', () => {
+    it('alerts once when the committed hash does not match the subnet block', async () => {
+      node.committed = { number: 90, hash: blockHash(12345) };
+      await createMonitor();
+
+      await monitor.monitorSubnets();
+      await monitor.monitorSubnets();
+
+      expect(status().checkpoint.hashMatches).toBe(false);
+      const mismatches = errorsOfType(ALERTS.TYPES.SUBNET_CHECKPOINT_MISMATCH);
+      expect(mismatches).toHaveLength(1);
+      expect(mismatches[0][2]).toContain('header #90 committed on Parent does not match the subnet');
+    });
+
+    it('verifies the hash again after the subnet block could not be fetched', async () => {
+      node.committed = { number: 90, hash: blockHash(12345) };
+      node.missingBlocks.add(90);
+      await createMonitor();
+
+      await monitor.monitorSubnets();
+      expect(status().checkpoint.hashMatches).toBeNull();
+      expect(errorsOfType(ALERTS.TYPES.SUBNET_CHECKPOINT_MISMATCH)).toHaveLength(0);
+
+      node.missingBlocks.clear();
+      await monitor.monitorSubnets();
+
+      expect(status().checkpoint.hashMatches).toBe(false);
+      expect(errorsOfType(ALERTS.TYPES.SUBNET_CHECKPOINT_MISMATCH)).toHaveLength(1);
+    });
+  });
+});
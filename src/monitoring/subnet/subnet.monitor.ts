@@ -0,0 +1,345 @@
+import { AlertService } from '@alerts/alert.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { ALERTS, DEFAULTS, ENV_VARS, FEATURE_FLAGS } from '@common/constants/config';
+import { RpcRetryClient } from '@common/utils/rpc-retry-client';
+import { ConfigService } from '@config/config.service';
+import { MetricsService } from '@metrics/metrics.service';
+import { createRpcClient, getMasternodesByNumber } from '@monitoring/consensus/consensus.utils';
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { ChainDefinition, CheckpointedBlock, SubnetStatus } from '@types';
+import { ethers } from 'ethers';
+
+// Read-only part of the checkpoint smart contract (CSC) subnets submit their headers to
+const CHECKPOINT_ABI = [
+  'function getLatestBlocks() view returns (tuple(bytes32 hash, int256 number), tuple(bytes32 hash, int256 number))',
+];
+
+interface RpcBlock {
+  number: string;
+  hash: string;
+}
+
+/**
+ * Service for monitoring XDC subnets
+ *
+ * Tracks block production and the masternode lists of every chain registered with type subnet,
+ * and checks on the parent chain that the subnet headers are checkpointed on schedule.
+ */
+@Injectable()
+export class SubnetMonitor implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SubnetMonitor.name);
+  private readonly intervalName = 'subnetMonitoring';
+  private readonly checkpointContract = new ethers.Interface(CHECKPOINT_ABI);
+
+  private readonly enabled: boolean;
+  private readonly scanIntervalMs: number;
+  private readonly blockStallMs: number;
+  private readonly checkpointLagEpochs: number;
+
+  private statuses = new Map<number, SubnetStatus>();
+  private rpcClients = new Map<number, RpcRetryClient>();
+  // When checkpointing was first read, stands in for lastAdvancedAt until the committed header moves
+  private checkpointTrackedSince = new Map<number, Date>();
+  private isChecking = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly metricsService: MetricsService,
+    private readonly alertService: AlertService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly chainRegistry: ChainRegistryService,
+  ) {
+    this.enabled = this.configService.isFeatureEnabled(FEATURE_FLAGS.ENABLE_SUBNET_MONITORING, true);
+    this.scanIntervalMs = this.configService.getNumber(ENV_VARS.SUBNET_SCAN_INTERVAL, DEFAULTS.SUBNET_SCAN_INTERVAL);
+    this.blockStallMs =
+      this.configService.getNumber(ENV_VARS.SUBNET_BLOCK_STALL_SECONDS, DEFAULTS.SUBNET_BLOCK_STALL_SECONDS) * 1000;
+    this.checkpointLagEpochs = this.configService.getNumber(
+      ENV_VARS.SUBNET_CHECKPOINT_LAG_EPOCHS,
+      DEFAULTS.SUBNET_CHECKPOINT_LAG_EPOCHS,
+    );
+  }
+
+  onModuleInit() {
+    const subnets = this.chainRegistry.getSubnets();
+    if (!this.enabled || subnets.length === 0) {
+      this.logger.log(this.enabled ? 'No subnets registered, subnet monitoring idle' : 'Subnet monitoring is disabled');
+      return;
+    }
+
+    subnets.forEach(chain => this.statuses.set(chain.chainId, this.createStatus(chain)));
+
+    this.monitorSubnets();
+    const interval = setInterval(() => this.monitorSubnets(), this.scanIntervalMs);
+    this.schedulerRegistry.addInterval(this.intervalName, interval);
+
+    this.logger.log(
+      `Subnet monitoring enabled for ${subnets.map(chain => `${chain.name} (${chain.chainId})`).join(', ')} ` +
+        `every ${this.scanIntervalMs}ms`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.schedulerRegistry.doesExist('interval', this.intervalName)) {
+      this.schedulerRegistry.deleteInterval(this.intervalName);
+    }
+  }
+
+  /**
+   * Get the latest status of every monitored subnet, keyed by chain key
+   */
+  getSubnetStatus(): Record<string, SubnetStatus> {
+    return Object.fromEntries(
+      this.chainRegistry
+        .getSubnets()
+        .filter(chain => this.statuses.has(chain.chainId))
+        .map(chain => [chain.key, this.statuses.get(chain.chainId)]),
+    );
+  }
+
+  /**
+   * Check every subnet once, skipped while the previous check is still running
+   */
+  async monitorSubnets(): Promise<void> {
+    if (this.isChecking) return;
+
+    this.isChecking = true;
+    try {
+      await Promise.all(
+        this.chainRegistry
+          .getSubnets()
+          .filter(chain => this.statuses.has(chain.chainId))
+          .map(chain => this.checkSubnet(chain)),
+      );
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async checkSubnet(chain: ChainDefinition): Promise<void> {
+    const status = this.statuses.get(chain.chainId);
+    const client = this.getRpcClient(chain);
+
+    try {
+      await this.checkBlockProduction(chain, status, client);
+      await this.checkMasternodes(chain, status, client);
+
+      if (chain.checkpointContract) {
+        await this.checkCheckpoint(chain, status, client);
+      }
+      status.lastError = null;
+    } catch (error) {
+      status.lastError = error.message;
+      this.logger.error(`Error monitoring subnet ${chain.name} (${chain.chainId}): ${error.message}`);
+    } finally {
+      status.lastCheckedAt = new Date();
+    }
+  }
+
+  /**
+   * Follow the subnet head and alert when it stops moving forward
+   */
+  private async checkBlockProduction(chain: ChainDefinition, status: SubnetStatus, client: RpcRetryClient) {
+    const head = await client.call<RpcBlock>('eth_getBlockByNumber', ['latest', false]);
+    if (!head) throw new Error('Latest block is not available');
+
+    const headBlock = parseInt(head.number, 16);
+    const now = new Date();
+
+    if (status.headBlock === null || headBlock > status.headBlock) {
+      status.headBlock = headBlock;
+      status.headHash = head.hash;
+      status.lastBlockAt = now;
+
+      if (status.stalled) {
+        status.stalled = false;
+        await this.alertService.resolveCondition(
+          this.getAlertKey(ALERTS.TYPES.SUBNET_BLOCK_PRODUCTION_STALLED, chain),
+          `${chain.name} is producing blocks again, head is #${headBlock}`,
+        );
+      }
+      return;
+    }
+
+    const stalledMs = now.getTime() - status.lastBlockAt.getTime();
+    if (stalledMs < this.blockStallMs) return;
+
+    status.stalled = true;
+    const message = `${chain.name}: no new block for ${Math.round(stalledMs / 1000)}s, head is still #${status.headBlock}`;
+    this.logger.error(message);
+    await this.alertService.error(
+      ALERTS.TYPES.SUBNET_BLOCK_PRODUCTION_STALLED,
+      ALERTS.COMPONENTS.SUBNET,
+      message,
+      chain.chainId,
+      this.getAlertKey(ALERTS.TYPES.SUBNET_BLOCK_PRODUCTION_STALLED, chain),
+    );
+  }
+
+  /**
+   * Refresh the masternode, standby and penalty lists of the subnet
+   */
+  private async checkMasternodes(chain: ChainDefinition, status: SubnetStatus, client: RpcRetryClient) {
+    const masternodeList = await getMasternodesByNumber(client);
+    if (!masternodeList) return;
+
+    const { masternodes, standbynodes, penalty, round } = masternodeList;
+    const joined = masternodes.filter(address => !status.masternodes.includes(address));
+    const left = status.masternodes.filter(address => !masternodes.includes(address));
+
+    if (status.round !== null && (joined.length > 0 || left.length > 0)) {
+      this.logger.log(
+        `${chain.name}: masternode list changed at round ${round}, ` +
+          `joined [${joined.join(', ')}], left [${left.join(', ')}]`,
+      );
+    }
+
+    status.round = round;
+    status.masternodes = masternodes;
+    status.standbynodes = standbynodes;
+    status.penalty = penalty;
+
+    this.metricsService.recordSubnetStatus(chain.chainId, status.headBlock, {
+      masternode: masternodes.length,
+      standby: standbynodes.length,
+      penalty: penalty.length,
+    });
+  }
+
+  /**
+   * Read the latest checkpointed headers from the parent chain, verify the committed header
+   * against the subnet and alert when checkpointing falls behind
+   */
+  private async checkCheckpoint(chain: ChainDefinition, status: SubnetStatus, client: RpcRetryClient) {
+    const parent = this.chainRegistry.getChain(chain.parentChainId);
+    const result = await this.getRpcClient(parent).call<string>('eth_call', [
+      { to: chain.checkpointContract, data: this.checkpointContract.encodeFunctionData('getLatestBlocks') },
+      'latest',
+    ]);
+
+    const [latestSubmitted, latestCommitted] = this.checkpointContract
+      .decodeFunctionResult('getLatestBlocks', result)
+      .map((block): CheckpointedBlock => ({ number: Number(block.number), hash: block.hash }));
+
+    const previous = status.checkpoint;
+    const advanced = !previous || latestCommitted.number > previous.latestCommitted.number;
+    // A hash that could not be verified is checked again on the next scan
+    const verified = advanced || previous.hashMatches === null;
+    const hashMatches = verified ? await this.verifyCheckpointedHash(client, latestCommitted) : previous.hashMatches;
+    const lagBlocks = Math.max(status.headBlock - latestCommitted.number, 0);
+    const lagThresholdBlocks = this.checkpointLagEpochs * chain.epochLength;
+    const lagThresholdSeconds = lagThresholdBlocks * chain.blockTimeSeconds;
+    const lastAdvancedAt = previous ? (advanced ? new Date() : previous.lastAdvancedAt) : null;
+
+    status.checkpoint = {
+      parentChainId: parent.chainId,
+      contract: chain.checkpointContract,
+      latestSubmitted,
+      latestCommitted,
+      lagBlocks,
+      lagThresholdBlocks,
+      lagThresholdSeconds,
+      hashMatches,
+      // Unknown until the committed header is seen moving forward
+      lastAdvancedAt,
+    };
+    this.metricsService.recordSubnetCheckpoint(chain.chainId, parent.chainId, latestCommitted.number, lagBlocks);
+
+    if (verified && hashMatches === false) {
+      const message =
+        `${chain.name}: header #${latestCommitted.number} committed on ${parent.name} does not match the subnet.\n` +
+        `- Committed hash: ${latestCommitted.hash}\n` +
+        `- Contract: ${chain.checkpointContract}`;
+      this.logger.error(message);
+      await this.alertService.error(
+        ALERTS.TYPES.SUBNET_CHECKPOINT_MISMATCH,
+        ALERTS.COMPONENTS.SUBNET,
+        message,
+        chain.chainId,
+      );
+    }
+
+    // Measured in time as well, the block lag stays flat when the subnet stalls together with checkpointing
+    if (!this.checkpointTrackedSince.has(chain.chainId)) {
+      this.checkpointTrackedSince.set(chain.chainId, new Date());
+    }
+    const stalledSeconds = Math.round(
+      (Date.now() - (lastAdvancedAt || this.checkpointTrackedSince.get(chain.chainId)).getTime()) / 1000,
+    );
+
+    const lagKey = this.getAlertKey(ALERTS.TYPES.SUBNET_CHECKPOINT_LAG, chain);
+    if (lagBlocks <= lagThresholdBlocks && stalledSeconds <= lagThresholdSeconds) {
+      await this.alertService.resolveCondition(
+        lagKey,
+        `${chain.name} checkpoints on ${parent.name} are ${lagBlocks} blocks behind the subnet head`,
+      );
+      return;
+    }
+
+    const message =
+      (lagBlocks > lagThresholdBlocks
+        ? `${chain.name}: checkpoints on ${parent.name} are ${lagBlocks} blocks behind the subnet head ` +
+          `(threshold ${lagThresholdBlocks}).\n`
+        : `${chain.name}: the committed header on ${parent.name} has not advanced for ${stalledSeconds}s ` +
+          `(threshold ${lagThresholdSeconds}s).\n`) +
+      `- Subnet head: #${status.headBlock}\n` +
+      `- Latest committed: #${latestCommitted.number}\n` +
+      `- Latest submitted: #${latestSubmitted.number}\n` +
+      `- Contract: ${chain.checkpointContract}`;
+    this.logger.error(message);
+    await this.alertService.error(
+      ALERTS.TYPES.SUBNET_CHECKPOINT_LAG,
+      ALERTS.COMPONENTS.SUBNET,
+      message,
+      chain.chainId,
+      lagKey,
+    );
+  }
+
+  /**
+   * Compare a checkpointed header with the subnet block at the same height
+   *
+   * @returns Whether the hashes match, or null if the subnet block could not be fetched
+   */
+  private async verifyCheckpointedHash(client: RpcRetryClient, checkpointed: CheckpointedBlock): Promise<boolean> {
+    try {
+      const block = await client.call<RpcBlock>('eth_getBlockByNumber', [
+        `0x${checkpointed.number.toString(16)}`,
+        false,
+      ]);
+      return block ? block.hash.toLowerCase() === checkpointed.hash.toLowerCase() : null;
+    } catch (error) {
+      this.logger.debug(`Error fetching subnet block #${checkpointed.number}: ${error.message}`);
+      return null;
+    }
+  }
+
+  private getRpcClient(chain: ChainDefinition): RpcRetryClient {
+    if (!this.rpcClients.has(chain.chainId)) {
+      this.rpcClients.set(chain.chainId, createRpcClient(chain));
+    }
+    return this.rpcClients.get(chain.chainId);
+  }
+
+  private getAlertKey(alertType: string, chain: ChainDefinition): string {
+    return `${alertType}:${chain.chainId}`;
+  }
+
+  private createStatus(chain: ChainDefinition): SubnetStatus {
+    return {
+      chainId: chain.chainId,
+      name: chain.name,
+      headBlock: null,
+      headHash: null,
+      lastBlockAt: null,
+      stalled: false,
+      round: null,
+      masternodes: [],
+      standbynodes: [],
+      penalty: [],
+      checkpoint: null,
+      lastCheckedAt: null,
+      lastError: null,
+    };
+  }
+}
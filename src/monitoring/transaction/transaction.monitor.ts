@@ -1,17 +1,28 @@
 import { BlockchainService } from '@blockchain/blockchain.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
 import { ConfigService } from '@config/config.service';
 import { MetricsService } from '@metrics/metrics.service';
 import { AlertService } from '@alerts/alert.service';
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { Cron } from '@nestjs/schedule';
-import { TransactionStatus } from '@types';
+import { Span } from '@opentelemetry/api';
+import { ChainTestResults, TransactionStatus, TransactionTestResult } from '@types';
 import { ethers } from 'ethers';
 import { ALERTS } from '@common/constants/config';
+import { markSpanFailed, SPAN_ATTRIBUTES, withSpan } from '@common/utils/tracing';
+
+interface TestWallet {
+  privateKey: string;
+  receiverAddress: string;
+  address: string;
+  hasBalance: boolean;
+}
 
 @Injectable()
 export class TransactionMonitorService implements OnModuleInit {
   private readonly logger = new Logger(TransactionMonitorService.name);
-  private testWallets = {}; // Will store test wallets for different networks
+  private testWallets: Record<number, TestWallet> = {}; // Test wallet of each chain
+  private latestResults: Record<number, ChainTestResults> = {}; // Latest test run of each chain
 
   // Minimum balance required for testing (in XDC)
   private readonly MIN_BALANCE_THRESHOLD = '0.01';
@@ -25,6 +36,7 @@ export class TransactionMonitorService implements OnModuleInit {
     private readonly configService: ConfigService,
     private readonly metricsService: MetricsService,
     private readonly alertService: AlertService,
+    private readonly chainRegistry: ChainRegistryService,
   ) {}
 
   async onModuleInit() {
@@ -40,20 +52,17 @@ export class TransactionMonitorService implements OnModuleInit {
   }
 
   private async initializeTestWallets() {
-    // Initialize test wallets with private keys from config for different networks
+    // Initialize test wallets with the private keys configured for each chain
     // These should be test accounts with some XDC balance
-    this.testWallets = {
-      50: {
-        privateKey: this.configService.mainnetTestPrivateKey,
-        address: this.getAddressFromPrivateKey(this.configService.mainnetTestPrivateKey),
-        hasBalance: false,
-      },
-      51: {
-        privateKey: this.configService.testnetTestPrivateKey,
-        address: this.getAddressFromPrivateKey(this.configService.testnetTestPrivateKey),
+    for (const { chainId } of this.chainRegistry.getChains()) {
+      const { privateKey, receiverAddress } = this.chainRegistry.getTestWallet(chainId);
+      this.testWallets[chainId] = {
+        privateKey,
+        receiverAddress,
+        address: this.getAddressFromPrivateKey(privateKey),
         hasBalance: false,
-      },
-    };
+      };
+    }
 
     this.logger.log('Test wallets initialized for transaction monitoring');
 
@@ -91,11 +100,9 @@ export class TransactionMonitorService implements OnModuleInit {
   async checkWalletBalances() {
     this.logger.debug('Checking test wallet balances');
 
-    // Check mainnet wallet balance
-    await this.checkWalletBalance(50);
-
-    // Check testnet wallet balance
-    await this.checkWalletBalance(51);
+    for (const chainId of this.chainRegistry.getChainIds()) {
+      await this.checkWalletBalance(chainId);
+    }
   }
 
   /**
@@ -108,7 +115,7 @@ export class TransactionMonitorService implements OnModuleInit {
       return;
     }
 
-    const chainName = chainId === 50 ? 'Mainnet' : 'Testnet';
+    const chainName = this.chainRegistry.getChainName(chainId);
 
     try {
       // Get a provider for this chain
@@ -157,204 +164,138 @@ export class TransactionMonitorService implements OnModuleInit {
     // Force check wallet balances before running tests
     await this.checkWalletBalances();
 
-    // Get all active RPC providers
-    const mainnetProviders = this.blockchainService
-      .getAllProviders()
-      .filter(
-        providerData =>
-          providerData.endpoint.chainId === 50 &&
-          providerData.endpoint.status === 'up' &&
-          providerData.provider !== null,
-      );
+    // Track transaction success/failure rates for each chain and transaction type
+    const results: Record<number, ChainTestResults> = {};
 
-    const testnetProviders = this.blockchainService
-      .getAllProviders()
-      .filter(
-        providerData =>
-          providerData.endpoint.chainId === 51 &&
-          providerData.endpoint.status === 'up' &&
-          providerData.provider !== null,
-      );
+    for (const { chainId, name } of this.chainRegistry.getChains()) {
+      const wallet = this.testWallets[chainId];
+      if (!wallet?.address) continue;
 
-    // Filter out disabled endpoints
-    const enabledMainnetProviders = this.filterEnabledProviders(mainnetProviders);
-    const enabledTestnetProviders = this.filterEnabledProviders(testnetProviders);
+      if (!wallet.hasBalance) {
+        this.logger.warn(`Skipping ${name} transaction tests due to insufficient wallet balance`);
+        this.alertService.warning(
+          ALERTS.TYPES.INSUFFICIENT_WALLET_BALANCE,
+          ALERTS.COMPONENTS.TRANSACTION,
+          `${name} test wallet (${wallet.address}) has insufficient balance for transaction tests`,
+          chainId,
+        );
+        continue;
+      }
 
-    // Track transaction success/failure rates for each network and transaction type
-    const results = {
-      50: {
-        // Mainnet
-        normalTransaction: { success: 0, failure: 0, total: 0, failedEndpoints: [] },
-        contractDeployment: { success: 0, failure: 0, total: 0, failedEndpoints: [] },
-      },
-      51: {
-        // Testnet
+      // Get the active RPC providers of the chain, without the disabled endpoints
+      const providers = this.filterEnabledProviders(
+        this.blockchainService
+          .getAllProviders()
+          .filter(
+            providerData =>
+              providerData.endpoint.chainId === chainId &&
+              providerData.endpoint.status === 'up' &&
+              providerData.provider !== null,
+          ),
+      );
+
+      results[chainId] = {
         normalTransaction: { success: 0, failure: 0, total: 0, failedEndpoints: [] },
         contractDeployment: { success: 0, failure: 0, total: 0, failedEndpoints: [] },
-      },
-    };
+        testedAt: Date.now(),
+      };
 
-    // Test each active mainnet RPC with both transaction types if wallet has enough balance
-    if (this.testWallets[50].hasBalance) {
-      for (const providerData of enabledMainnetProviders) {
+      // Test each active RPC with both transaction types
+      for (const providerData of providers) {
         // Run normal transaction test
-        const normalTxResult = await this.runTransactionTest(50, false, providerData.endpoint.url);
-        results[50].normalTransaction.total++;
-        if (normalTxResult) {
-          results[50].normalTransaction.success++;
-        } else {
-          results[50].normalTransaction.failure++;
-          results[50].normalTransaction.failedEndpoints.push(providerData.endpoint.url);
-        }
+        const normalTxResult = await this.runTransactionTest(chainId, false, providerData.endpoint.url);
+        this.recordTestResult(results[chainId].normalTransaction, normalTxResult, providerData.endpoint.url);
 
         // Run contract deployment test
-        const contractTxResult = await this.runTransactionTest(50, true, providerData.endpoint.url);
-        results[50].contractDeployment.total++;
-        if (contractTxResult) {
-          results[50].contractDeployment.success++;
-        } else {
-          results[50].contractDeployment.failure++;
-          results[50].contractDeployment.failedEndpoints.push(providerData.endpoint.url);
-        }
+        const contractTxResult = await this.runTransactionTest(chainId, true, providerData.endpoint.url);
+        this.recordTestResult(results[chainId].contractDeployment, contractTxResult, providerData.endpoint.url);
       }
-    } else {
-      this.logger.warn('Skipping Mainnet transaction tests due to insufficient wallet balance');
-      this.alertService.warning(
-        ALERTS.TYPES.INSUFFICIENT_WALLET_BALANCE,
-        ALERTS.COMPONENTS.TRANSACTION,
-        `Mainnet test wallet (${this.testWallets[50].address}) has insufficient balance for transaction tests`,
-        50,
-      );
-    }
-
-    // Test each active testnet RPC with both transaction types if wallet has enough balance
-    if (this.testWallets[51].hasBalance) {
-      for (const providerData of enabledTestnetProviders) {
-        // Run normal transaction test
-        const normalTxResult = await this.runTransactionTest(51, false, providerData.endpoint.url);
-        results[51].normalTransaction.total++;
-        if (normalTxResult) {
-          results[51].normalTransaction.success++;
-        } else {
-          results[51].normalTransaction.failure++;
-          results[51].normalTransaction.failedEndpoints.push(providerData.endpoint.url);
-        }
 
-        // Run contract deployment test
-        const contractTxResult = await this.runTransactionTest(51, true, providerData.endpoint.url);
-        results[51].contractDeployment.total++;
-        if (contractTxResult) {
-          results[51].contractDeployment.success++;
-        } else {
-          results[51].contractDeployment.failure++;
-          results[51].contractDeployment.failedEndpoints.push(providerData.endpoint.url);
-        }
-      }
-    } else {
-      this.logger.warn('Skipping Testnet transaction tests due to insufficient wallet balance');
-      this.alertService.warning(
-        ALERTS.TYPES.INSUFFICIENT_WALLET_BALANCE,
-        ALERTS.COMPONENTS.TRANSACTION,
-        `Testnet test wallet (${this.testWallets[51].address}) has insufficient balance for transaction tests`,
-        51,
-      );
+      this.latestResults[chainId] = results[chainId];
     }
 
     // Check failure rates and generate alerts if needed
     this.checkFailureRatesAndAlert(results);
   }
 
+  private recordTestResult(result: TransactionTestResult, success: boolean, endpoint: string): void {
+    result.total++;
+    if (success) {
+      result.success++;
+    } else {
+      result.failure++;
+      result.failedEndpoints.push(endpoint);
+    }
+  }
+
   /**
    * Check transaction failure rates across RPC endpoints and generate alerts if necessary
    */
-  private checkFailureRatesAndAlert(results: any) {
-    // Check Mainnet normal transactions
-    if (results[50].normalTransaction.total > 0) {
-      const failureRate = results[50].normalTransaction.failure / results[50].normalTransaction.total;
-      if (failureRate >= 0.5) {
-        // 50% or more failed
-        // Format the list of failed endpoints for better readability
-        const failedEndpointsList = results[50].normalTransaction.failedEndpoints
-          .map(endpoint => `\n  - ${endpoint}`)
-          .join('');
-
-        this.alertService.error(
-          ALERTS.TYPES.TRANSACTION_FAILURE_RATE_HIGH,
-          ALERTS.COMPONENTS.TRANSACTION,
-          `High transaction failure rate on Mainnet: ${results[50].normalTransaction.failure}/${results[50].normalTransaction.total} (${Math.round(failureRate * 100)}%) RPC endpoints failed to process normal transactions.\n\nFailed endpoints:${failedEndpointsList}`,
-          50,
-        );
-      }
-    }
+  private checkFailureRatesAndAlert(results: Record<number, ChainTestResults>) {
+    for (const [chainIdKey, { normalTransaction, contractDeployment }] of Object.entries(results)) {
+      const chainId = Number(chainIdKey);
+      const chainName = this.chainRegistry.getChainName(chainId);
 
-    // Check Mainnet contract deployments
-    if (results[50].contractDeployment.total > 0) {
-      const failureRate = results[50].contractDeployment.failure / results[50].contractDeployment.total;
-      if (failureRate >= 0.5) {
-        // 50% or more failed
-        // Format the list of failed endpoints for better readability
-        const failedEndpointsList = results[50].contractDeployment.failedEndpoints
-          .map(endpoint => `\n  - ${endpoint}`)
-          .join('');
-
-        this.alertService.error(
-          ALERTS.TYPES.TRANSACTION_FAILURE_RATE_HIGH,
-          ALERTS.COMPONENTS.TRANSACTION,
-          `High contract deployment failure rate on Mainnet: ${results[50].contractDeployment.failure}/${results[50].contractDeployment.total} (${Math.round(failureRate * 100)}%) RPC endpoints failed to deploy contracts.\n\nFailed endpoints:${failedEndpointsList}`,
-          50,
-        );
-      }
-    }
+      this.alertOnHighFailureRate(
+        chainId,
+        normalTransaction,
+        `High transaction failure rate on ${chainName}`,
+        'RPC endpoints failed to process normal transactions',
+      );
+      this.alertOnHighFailureRate(
+        chainId,
+        contractDeployment,
+        `High contract deployment failure rate on ${chainName}`,
+        'RPC endpoints failed to deploy contracts',
+      );
 
-    // Check Testnet normal transactions
-    if (results[51].normalTransaction.total > 0) {
-      const failureRate = results[51].normalTransaction.failure / results[51].normalTransaction.total;
-      if (failureRate >= 0.5) {
-        // 50% or more failed
-        // Format the list of failed endpoints for better readability
-        const failedEndpointsList = results[51].normalTransaction.failedEndpoints
-          .map(endpoint => `\n  - ${endpoint}`)
-          .join('');
-
-        this.alertService.error(
-          ALERTS.TYPES.TRANSACTION_FAILURE_RATE_HIGH,
-          ALERTS.COMPONENTS.TRANSACTION,
-          `High transaction failure rate on Testnet: ${results[51].normalTransaction.failure}/${results[51].normalTransaction.total} (${Math.round(failureRate * 100)}%) RPC endpoints failed to process normal transactions.\n\nFailed endpoints:${failedEndpointsList}`,
-          51,
-        );
-      }
+      // Log summary of transaction test results
+      this.logger.log(
+        `Transaction test summary - ${chainName}: Normal ${normalTransaction.success}/${normalTransaction.total} successful, Contract ${contractDeployment.success}/${contractDeployment.total} successful`,
+      );
     }
+  }
 
-    // Check Testnet contract deployments
-    if (results[51].contractDeployment.total > 0) {
-      const failureRate = results[51].contractDeployment.failure / results[51].contractDeployment.total;
-      if (failureRate >= 0.5) {
-        // 50% or more failed
-        // Format the list of failed endpoints for better readability
-        const failedEndpointsList = results[51].contractDeployment.failedEndpoints
-          .map(endpoint => `\n  - ${endpoint}`)
-          .join('');
-
-        this.alertService.error(
-          ALERTS.TYPES.TRANSACTION_FAILURE_RATE_HIGH,
-          ALERTS.COMPONENTS.TRANSACTION,
-          `High contract deployment failure rate on Testnet: ${results[51].contractDeployment.failure}/${results[51].contractDeployment.total} (${Math.round(failureRate * 100)}%) RPC endpoints failed to deploy contracts.\n\nFailed endpoints:${failedEndpointsList}`,
-          51,
-        );
-      }
-    }
+  /**
+   * Alert when half or more of the endpoints of a chain failed a transaction test
+   */
+  private alertOnHighFailureRate(chainId: number, result: TransactionTestResult, title: string, detail: string) {
+    if (result.total === 0) return;
+
+    const failureRate = result.failure / result.total;
+    if (failureRate < 0.5) return;
 
-    // Log summary of transaction test results
-    this.logger.log(
-      `Transaction test summary - Mainnet: Normal ${results[50].normalTransaction.success}/${results[50].normalTransaction.total} successful, Contract ${results[50].contractDeployment.success}/${results[50].contractDeployment.total} successful`,
+    // 50% or more failed
+    // Format the list of failed endpoints for better readability
+    const failedEndpointsList = result.failedEndpoints.map(endpoint => `\n  - ${endpoint}`).join('');
+
+    this.alertService.error(
+      ALERTS.TYPES.TRANSACTION_FAILURE_RATE_HIGH,
+      ALERTS.COMPONENTS.TRANSACTION,
+      `${title}: ${result.failure}/${result.total} (${Math.round(failureRate * 100)}%) ${detail}.\n\nFailed endpoints:${failedEndpointsList}`,
+      chainId,
     );
-    this.logger.log(
-      `Transaction test summary - Testnet: Normal ${results[51].normalTransaction.success}/${results[51].normalTransaction.total} successful, Contract ${results[51].contractDeployment.success}/${results[51].contractDeployment.total} successful`,
+  }
+
+  private runTransactionTest(chainId: number, deployContract: boolean, rpcUrl?: string): Promise<boolean> {
+    const attributes = {
+      [SPAN_ATTRIBUTES.CHAIN_ID]: chainId,
+      [SPAN_ATTRIBUTES.METHOD]: deployContract ? 'deployContract' : 'sendTransaction',
+      [SPAN_ATTRIBUTES.TRANSACTION_TYPE]: deployContract ? 'contract_deployment' : 'normal_transaction',
+      ...(rpcUrl && { [SPAN_ATTRIBUTES.ENDPOINT]: rpcUrl }),
+    };
+
+    return withSpan('transaction.test', attributes, span =>
+      this.executeTransactionTest(span, chainId, deployContract, rpcUrl),
     );
   }
 
-  private async runTransactionTest(chainId: number, deployContract: boolean, rpcUrl?: string) {
-    const chainName = chainId === 50 ? 'Mainnet' : 'Testnet';
+  /**
+   * Send a test transaction and wait for its confirmation
+   * The span records the transaction hash, the confirmation polls as retries and the outcome
+   */
+  private async executeTransactionTest(span: Span, chainId: number, deployContract: boolean, rpcUrl?: string) {
+    const chainName = this.chainRegistry.getChainName(chainId);
     let success = false;
     let txHash = '';
 
@@ -382,13 +323,10 @@ export class TransactionMonitorService implements OnModuleInit {
         // Send normal test transaction
         this.logger.debug(`Sending normal test transaction on ${chainName} ${rpcUrl} (chainId: ${chainId})`);
 
-        // Get a receiving address (could be another test wallet)
-        const receiverAddress = this.configService.getTestReceiverAddress(chainId);
-
         startTime = Date.now();
         const result = await this.blockchainService.sendTransaction(
           this.testWallets[chainId].privateKey,
-          receiverAddress,
+          this.testWallets[chainId].receiverAddress,
           '0.0001', // Small test amount
           chainId,
           rpcUrl,
@@ -397,6 +335,8 @@ export class TransactionMonitorService implements OnModuleInit {
         txHash = result.transactionHash;
       }
 
+      span.setAttribute(SPAN_ATTRIBUTES.TRANSACTION_HASH, txHash);
+
       // ✅ Optimized transaction confirmation with exponential backoff
       let txConfirmed = false;
       let attempts = 0;
@@ -430,6 +370,10 @@ export class TransactionMonitorService implements OnModuleInit {
 
       success = txConfirmed;
       const duration = Date.now() - startTime;
+      span.setAttributes({
+        [SPAN_ATTRIBUTES.RETRY_COUNT]: attempts,
+        [SPAN_ATTRIBUTES.OUTCOME]: success ? 'success' : 'failure',
+      });
 
       // Record metrics
       this.metricsService.setTransactionMonitorResult(
@@ -446,6 +390,7 @@ export class TransactionMonitorService implements OnModuleInit {
           `Duration: ${duration}ms`,
       );
     } catch (error) {
+      markSpanFailed(span, error);
       this.logger.error(
         `Transaction test failed on ${chainName} ${rpcUrl}: ` +
           `Type: ${deployContract ? 'Contract Deployment' : 'Normal Transaction'}, ` +
@@ -467,17 +412,23 @@ export class TransactionMonitorService implements OnModuleInit {
   /**
    * Public method to get current test wallet status for testing
    */
-  public getTestWalletStatus(): any {
-    return {
-      mainnet: {
-        address: this.testWallets[50]?.address,
-        hasBalance: this.testWallets[50]?.hasBalance || false,
-      },
-      testnet: {
-        address: this.testWallets[51]?.address,
-        hasBalance: this.testWallets[51]?.hasBalance || false,
-      },
-    };
+  public getTestWalletStatus(): Record<string, { address: string; hasBalance: boolean }> {
+    return Object.fromEntries(
+      this.chainRegistry.getChains().map(({ key, chainId }) => [
+        key,
+        {
+          address: this.testWallets[chainId]?.address,
+          hasBalance: this.testWallets[chainId]?.hasBalance || false,
+        },
+      ]),
+    );
+  }
+
+  /**
+   * Results of the latest transaction test run of a chain, null before the first run
+   */
+  public getLatestTestResults(chainId: number): ChainTestResults | null {
+    return this.latestResults[chainId] || null;
   }
 
   /**
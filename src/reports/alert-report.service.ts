@@ -0,0 +1,400 @@
+import { Alert, AlertService } from '@alerts/alert.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { REPORTS } from '@common/constants/config';
+import { escapeHtml } from '@common/utils/html';
+import { ConfigService } from '@config/config.service';
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SlaReportService } from '@reports/sla-report.service';
+import {
+  AlertComponentTrend,
+  AlertReport,
+  AlertReportFormat,
+  AlertReportOptions,
+  AlertSeverityCounts,
+  ReportPeriod,
+} from '@types';
+
+/**
+ * Format-independent layout of a report, rendered by each output format
+ */
+interface ReportDocument {
+  title: string;
+  summary: [string, string][];
+  tables: ReportTable[];
+}
+
+interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: string[][];
+  // Shown instead of rows when there are none
+  empty: string;
+}
+
+const MAX_CELL_LENGTH = 40;
+
+/**
+ * Alert reports over daily, weekly, monthly or custom windows
+ *
+ * Each report compares the window with the previous window of the same length, per severity and per
+ * component, and lists the noisiest alert types. Scheduled reports are sent for the periods in
+ * REPORT_SCHEDULES, the weekly SLA report goes out with the weekly alert report.
+ */
+@Injectable()
+export class AlertReportService {
+  private readonly logger = new Logger(AlertReportService.name);
+
+  constructor(
+    private readonly alertService: AlertService,
+    private readonly slaReportService: SlaReportService,
+    private readonly configService: ConfigService,
+    private readonly chainRegistry: ChainRegistryService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT)
+  async sendDailyReport() {
+    await this.sendScheduledReport('daily');
+  }
+
+  @Cron(CronExpression.EVERY_WEEK)
+  async sendWeeklyReport() {
+    if (await this.sendScheduledReport('weekly')) {
+      await this.slaReportService.sendWeeklyReport();
+    }
+  }
+
+  @Cron(CronExpression.EVERY_1ST_DAY_OF_MONTH_AT_MIDNIGHT)
+  async sendMonthlyReport() {
+    await this.sendScheduledReport('monthly');
+  }
+
+  async generateReport(options: AlertReportOptions): Promise<AlertReport> {
+    const { start, end } = options;
+    const previousStart = new Date(start.getTime() - (end.getTime() - start.getTime()));
+
+    const alerts = await this.alertService.getAlertsInRange(start, end);
+    // Ranges include both ends, an alert raised exactly at the start belongs to the current window
+    const previousAlerts = (await this.alertService.getAlertsInRange(previousStart, start)).filter(
+      alert => alert.timestamp < start,
+    );
+
+    const byNetwork: Record<string, AlertSeverityCounts> = Object.fromEntries(
+      this.chainRegistry.getChains().map(chain => [chain.key, emptyCounts()]),
+    );
+    alerts.forEach(alert => {
+      const network = this.alertService.getAlertNetwork(alert);
+      byNetwork[network] = byNetwork[network] || emptyCounts();
+      countAlert(byNetwork[network], alert);
+    });
+
+    const currentByComponent = countBy(alerts, alert => alert.component || 'system');
+    const previousByComponent = countBy(previousAlerts, alert => alert.component || 'system');
+    const components: AlertComponentTrend[] = Array.from(
+      new Set([...currentByComponent.keys(), ...previousByComponent.keys()]),
+    )
+      .map(component => {
+        const current = currentByComponent.get(component) ?? emptyCounts();
+        const previousTotal = previousByComponent.get(component)?.total ?? 0;
+        return {
+          component,
+          current,
+          previousTotal,
+          change: current.total - previousTotal,
+          changePercent: previousTotal > 0 ? roundPercent((current.total - previousTotal) / previousTotal) : null,
+        };
+      })
+      .sort(
+        (a, b) =>
+          b.current.total - a.current.total ||
+          b.previousTotal - a.previousTotal ||
+          a.component.localeCompare(b.component),
+      );
+
+    const currentByTitle = countBy(alerts, alert => alert.title);
+    const previousByTitle = countBy(previousAlerts, alert => alert.title);
+    const noisyAlertTypes = Array.from(currentByTitle.entries())
+      .sort(([titleA, a], [titleB, b]) => b.total - a.total || titleA.localeCompare(titleB))
+      .slice(0, REPORTS.ALERTS.NOISY_ALERT_TYPES)
+      .map(([title, counts]) => ({
+        title,
+        count: counts.total,
+        previousCount: previousByTitle.get(title)?.total ?? 0,
+        percentOfTotal: roundPercent(counts.total / alerts.length),
+      }));
+
+    this.logger.log(
+      `Generated ${options.period} alert report with ${alerts.length} alerts from ${start.toISOString()} to ${end.toISOString()}`,
+    );
+
+    return {
+      period: options.period,
+      start,
+      end,
+      previousStart,
+      previousEnd: start,
+      generatedAt: new Date(),
+      totals: sumCounts(alerts),
+      previousTotals: sumCounts(previousAlerts),
+      byNetwork,
+      components,
+      noisyAlertTypes,
+    };
+  }
+
+  /**
+   * Send a report to the notification channels in the Telegram format
+   */
+  sendReport(report: AlertReport): void {
+    this.alertService.sendReport(reportTitle(report), this.render(report, 'telegram'), report.period);
+  }
+
+  render(report: AlertReport, format: AlertReportFormat): string {
+    const document = this.toDocument(report);
+
+    switch (format) {
+      case 'markdown':
+        return renderMarkdown(document);
+      case 'html':
+        return renderHtml(document);
+      case 'text':
+        return renderText(document);
+      default:
+        return renderTelegram(document);
+    }
+  }
+
+  /**
+   * @returns Whether a report was sent
+   */
+  private async sendScheduledReport(period: ReportPeriod): Promise<boolean> {
+    if (!this.configService.getReportSchedules().includes(period)) {
+      return false;
+    }
+
+    try {
+      const end = new Date();
+      const report = await this.generateReport({
+        period,
+        start: new Date(end.getTime() - REPORTS.PERIODS_MS[period]),
+        end,
+      });
+
+      this.sendReport(report);
+      this.logger.log(`${capitalize(period)} alert report sent`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to send ${period} alert report: ${error.message}`);
+      return false;
+    }
+  }
+
+  private toDocument(report: AlertReport): ReportDocument {
+    const { totals, previousTotals } = report;
+
+    return {
+      title: reportTitle(report),
+      summary: [
+        ['Period', `${formatDate(report.start)} to ${formatDate(report.end)}`],
+        ['Total alerts', `${totals.total}`],
+        ['Change vs previous period', formatChange(totals.total, previousTotals.total)],
+      ],
+      tables: [
+        {
+          title: 'Alerts by Severity',
+          columns: ['Severity', 'Count', 'Previous', 'Change'],
+          rows: (['error', 'warning', 'info'] as const).map(severity => [
+            capitalize(severity),
+            `${totals[severity]}`,
+            `${previousTotals[severity]}`,
+            formatChange(totals[severity], previousTotals[severity]),
+          ]),
+          empty: 'No alerts',
+        },
+        {
+          title: 'Alerts by Network',
+          columns: ['Network', 'Total', 'Errors', 'Warnings', 'Info'],
+          rows: Object.entries(report.byNetwork).map(([network, counts]) => [
+            capitalize(network),
+            `${counts.total}`,
+            `${counts.error}`,
+            `${counts.warning}`,
+            `${counts.info}`,
+          ]),
+          empty: 'No alerts',
+        },
+        {
+          title: 'Component Trends',
+          columns: ['Component', 'Total', 'Errors', 'Warnings', 'Info', 'Previous', 'Change'],
+          rows: report.components.map(trend => [
+            trend.component,
+            `${trend.current.total}`,
+            `${trend.current.error}`,
+            `${trend.current.warning}`,
+            `${trend.current.info}`,
+            `${trend.previousTotal}`,
+            formatChange(trend.current.total, trend.previousTotal),
+          ]),
+          empty: 'No components affected',
+        },
+        {
+          title: 'Noisiest Alert Types',
+          columns: ['Alert Type', 'Count', 'Share', 'Previous'],
+          rows: report.noisyAlertTypes.map(type => [
+            type.title,
+            `${type.count}`,
+            `${type.percentOfTotal}%`,
+            `${type.previousCount}`,
+          ]),
+          empty: 'No alert types recorded',
+        },
+      ],
+    };
+  }
+}
+
+function reportTitle(report: AlertReport): string {
+  return report.period === 'custom' ? 'Alert Report' : `${capitalize(report.period)} Alert Report`;
+}
+
+function emptyCounts(): AlertSeverityCounts {
+  return { total: 0, error: 0, warning: 0, info: 0 };
+}
+
+function countAlert(counts: AlertSeverityCounts, alert: Alert) {
+  counts.total++;
+  counts[alert.type]++;
+}
+
+function sumCounts(alerts: Alert[]): AlertSeverityCounts {
+  const counts = emptyCounts();
+  alerts.forEach(alert => countAlert(counts, alert));
+  return counts;
+}
+
+function countBy(alerts: Alert[], key: (alert: Alert) => string): Map<string, AlertSeverityCounts> {
+  const counts = new Map<string, AlertSeverityCounts>();
+  for (const alert of alerts) {
+    const value = key(alert);
+    if (!counts.has(value)) {
+      counts.set(value, emptyCounts());
+    }
+    countAlert(counts.get(value), alert);
+  }
+  return counts;
+}
+
+function roundPercent(ratio: number): number {
+  return Math.round(ratio * 1000) / 10;
+}
+
+/**
+ * Change against the previous period, such as "+4 (+25%)"
+ */
+function formatChange(current: number, previous: number): string {
+  if (previous === 0) {
+    return current > 0 ? 'new' : '-';
+  }
+
+  const change = current - previous;
+  const sign = change > 0 ? '+' : '';
+  return `${sign}${change} (${sign}${roundPercent(change / previous)}%)`;
+}
+
+function formatDate(date: Date): string {
+  return `${date.toISOString().substring(0, 16).replace('T', ' ')} UTC`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_CELL_LENGTH ? `${value.substring(0, MAX_CELL_LENGTH - 3)}...` : value;
+}
+
+/**
+ * Bordered monospace table, the first column is left-aligned and the others right-aligned
+ */
+function asciiTable(table: ReportTable): string {
+  const rows = table.rows.length > 0 ? table.rows.map(row => row.map(truncate)) : [[table.empty]];
+  const widths = table.columns.map((column, index) =>
+    Math.max(column.length, ...rows.filter(row => row.length > 1).map(row => row[index].length)),
+  );
+  // The empty message spans the whole table
+  widths[0] = Math.max(widths[0], ...rows.filter(row => row.length === 1).map(row => row[0].length));
+
+  const border = `+${widths.map(width => '-'.repeat(width + 2)).join('+')}+\n`;
+  const line = (cells: string[]) =>
+    `| ${cells.map((cell, index) => (index === 0 ? cell.padEnd(widths[index]) : cell.padStart(widths[index]))).join(' | ')} |\n`;
+
+  let text = border + line(table.columns) + border;
+  for (const row of rows) {
+    text += row.length === 1 ? line([row[0], ...widths.slice(1).map(() => '')]) : line(row);
+  }
+  return text + border;
+}
+
+function renderText(document: ReportDocument): string {
+  let text = `${document.title}\n${'='.repeat(document.title.length)}\n\n`;
+  text += document.summary.map(([label, value]) => `${label}: ${value}\n`).join('');
+
+  for (const table of document.tables) {
+    text += `\n${table.title}\n${asciiTable(table)}`;
+  }
+  return text;
+}
+
+function renderTelegram(document: ReportDocument): string {
+  let message = `🔵 <b>${escapeHtml(document.title)}</b>\n`;
+  message += document.summary.map(([label, value]) => `<b>${label}:</b> ${escapeHtml(value)}\n`).join('');
+
+  for (const table of document.tables) {
+    message += `\n<b>${table.title}:</b>\n<pre>${escapeHtml(asciiTable(table))}</pre>\n`;
+  }
+  return message;
+}
+
+function renderMarkdown(document: ReportDocument): string {
+  const cell = (value: string) => value.replace(/\|/g, '\\|');
+
+  let markdown = `# ${document.title}\n\n`;
+  markdown += document.summary.map(([label, value]) => `**${label}:** ${value}  \n`).join('');
+
+  for (const table of document.tables) {
+    markdown += `\n## ${table.title}\n\n`;
+    if (table.rows.length === 0) {
+      markdown += `${table.empty}\n`;
+      continue;
+    }
+
+    markdown += `| ${table.columns.join(' | ')} |\n`;
+    markdown += `| ${table.columns.map((_, index) => (index === 0 ? '---' : '---:')).join(' | ')} |\n`;
+    markdown += table.rows.map(row => `| ${row.map(cell).join(' | ')} |\n`).join('');
+  }
+  return markdown;
+}
+
+function renderHtml(document: ReportDocument): string {
+  let html = `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>${escapeHtml(document.title)}</title>\n`;
+  html +=
+    '<style>body{font-family:sans-serif;margin:2em}table{border-collapse:collapse;margin-bottom:1.5em}' +
+    'th,td{border:1px solid #ccc;padding:4px 8px}td:not(:first-child){text-align:right}th{background:#f4f4f4}</style>\n';
+  html += `</head>\n<body>\n<h1>${escapeHtml(document.title)}</h1>\n`;
+  html += document.summary
+    .map(([label, value]) => `<p><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</p>\n`)
+    .join('');
+
+  for (const table of document.tables) {
+    html += `<h2>${escapeHtml(table.title)}</h2>\n`;
+    if (table.rows.length === 0) {
+      html += `<p>${escapeHtml(table.empty)}</p>\n`;
+      continue;
+    }
+
+    html += `<table>\n<tr>${table.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr>\n`;
+    html += table.rows.map(row => `<tr>${row.map(value => `<td>${escapeHtml(value)}</td>`).join('')}</tr>\n`).join('');
+    html += `</table>\n`;
+  }
+  return html + '</body>\n</html>\n';
+}
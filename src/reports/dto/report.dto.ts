@@ -0,0 +1,164 @@
+import { ApiRecordProperty } from '@common/dto/api-record-property';
+import { REPORTS } from '@common/constants/config';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  AlertComponentTrend,
+  AlertReport,
+  AlertSeverityCounts,
+  AlertTypeCount,
+  ReportPeriod,
+  SlaEndpointReport,
+  SlaEndpointType,
+  SlaLatencyPercentiles,
+  SlaReport,
+} from '@types';
+
+const REPORT_PERIODS = [...Object.keys(REPORTS.PERIODS_MS), 'custom'];
+
+export class AlertSeverityCountsDto implements AlertSeverityCounts {
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  error: number;
+
+  @ApiProperty()
+  warning: number;
+
+  @ApiProperty()
+  info: number;
+}
+
+export class AlertComponentTrendDto implements AlertComponentTrend {
+  @ApiProperty()
+  component: string;
+
+  @ApiProperty({ type: AlertSeverityCountsDto })
+  current: AlertSeverityCountsDto;
+
+  @ApiProperty()
+  previousTotal: number;
+
+  @ApiProperty()
+  change: number;
+
+  @ApiProperty({
+    type: Number,
+    nullable: true,
+    description: 'Null when the component raised no alerts in the previous period',
+  })
+  changePercent: number | null;
+}
+
+export class AlertTypeCountDto implements AlertTypeCount {
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty()
+  count: number;
+
+  @ApiProperty()
+  previousCount: number;
+
+  @ApiProperty({ description: 'Share of all alerts in the period' })
+  percentOfTotal: number;
+}
+
+export class AlertReportDto implements AlertReport {
+  @ApiProperty({ enum: REPORT_PERIODS })
+  period: ReportPeriod | 'custom';
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  start: Date;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  end: Date;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  previousStart: Date;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  previousEnd: Date;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  generatedAt: Date;
+
+  @ApiProperty({ type: AlertSeverityCountsDto })
+  totals: AlertSeverityCountsDto;
+
+  @ApiProperty({ type: AlertSeverityCountsDto })
+  previousTotals: AlertSeverityCountsDto;
+
+  @ApiRecordProperty(AlertSeverityCountsDto, { description: 'Alert counts per chain key' })
+  byNetwork: Record<string, AlertSeverityCountsDto>;
+
+  @ApiProperty({ type: [AlertComponentTrendDto] })
+  components: AlertComponentTrendDto[];
+
+  @ApiProperty({ type: [AlertTypeCountDto], description: 'Most frequent alert titles' })
+  noisyAlertTypes: AlertTypeCountDto[];
+}
+
+export class SlaLatencyPercentilesDto implements SlaLatencyPercentiles {
+  @ApiProperty()
+  p50: number;
+
+  @ApiProperty()
+  p95: number;
+
+  @ApiProperty()
+  p99: number;
+}
+
+export class SlaEndpointReportDto implements SlaEndpointReport {
+  @ApiProperty()
+  chainId: number;
+
+  @ApiProperty({ enum: REPORTS.SLA.ENDPOINT_TYPES })
+  type: SlaEndpointType;
+
+  @ApiProperty()
+  endpoint: string;
+
+  @ApiProperty({ description: 'Share of checks that found the endpoint up' })
+  uptimePercent: number;
+
+  @ApiProperty()
+  checks: number;
+
+  @ApiProperty()
+  failedChecks: number;
+
+  @ApiProperty({
+    type: SlaLatencyPercentilesDto,
+    nullable: true,
+    description: 'RPC endpoints with successful checks only',
+  })
+  latencyMs: SlaLatencyPercentilesDto | null;
+
+  @ApiProperty({ description: 'Runs of consecutive failed checks' })
+  incidents: number;
+
+  @ApiProperty({ type: Number, nullable: true, description: 'Null without a recovered incident' })
+  mttrMs: number | null;
+
+  @ApiProperty({ description: 'Whether the endpoint was still down at the end of the window' })
+  down: boolean;
+}
+
+export class SlaReportDto implements SlaReport {
+  @ApiProperty({ enum: REPORT_PERIODS })
+  period: ReportPeriod | 'custom';
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  start: Date;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  end: Date;
+
+  @ApiProperty({ type: String, format: 'date-time' })
+  generatedAt: Date;
+
+  @ApiProperty({ type: [SlaEndpointReportDto] })
+  endpoints: SlaEndpointReportDto[];
+}
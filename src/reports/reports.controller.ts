@@ -0,0 +1,187 @@
+import { REPORTS } from '@common/constants/config';
+import { ActionResultDto, ErrorResponseDto } from '@common/dto/common.dto';
+import { parseOptionalInt, parseTimestamp } from '@common/utils/query-params';
+import { ApiAuth, ApiChainIdQuery } from '@docs/api-docs.decorators';
+import { AlertReportDto, SlaReportDto } from '@reports/dto/report.dto';
+import { AlertReportService } from '@reports/alert-report.service';
+import { SlaReportService } from '@reports/sla-report.service';
+import { applyDecorators, BadRequestException, Controller, Get, Post, Query, Res } from '@nestjs/common';
+import { AlertReport, AlertReportFormat, ReportPeriod, SlaEndpointType, SlaReport } from '@types';
+import {
+  ApiBadRequestResponse,
+  ApiCreatedResponse,
+  ApiExtraModels,
+  ApiOkResponse,
+  ApiQuery,
+  ApiTags,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+
+const CONTENT_TYPES: Record<AlertReportFormat, string> = {
+  telegram: 'text/html; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  text: 'text/plain; charset=utf-8',
+};
+
+/**
+ * Document the period, from and to query parameters of a report route
+ */
+function ApiReportWindowQuery(): MethodDecorator {
+  return applyDecorators(
+    ApiQuery({ name: 'period', required: false, enum: Object.keys(REPORTS.PERIODS_MS), description: 'Default weekly' }),
+    ApiQuery({ name: 'from', required: false, description: 'Epoch milliseconds or an ISO date, overrides period' }),
+    ApiQuery({ name: 'to', required: false, description: 'Epoch milliseconds or an ISO date, defaults to now' }),
+  );
+}
+
+/**
+ * Reports API
+ */
+@Controller('reports')
+@ApiTags('Reports')
+@ApiAuth()
+@ApiExtraModels(AlertReportDto, SlaReportDto)
+export class ReportsController {
+  constructor(
+    private readonly alertReportService: AlertReportService,
+    private readonly slaReportService: SlaReportService,
+  ) {}
+
+  /**
+   * GET /api/reports/alerts?period=monthly&format=markdown
+   * `from`/`to` select a custom range instead of the period ending now
+   */
+  @Get('alerts')
+  @ApiReportWindowQuery()
+  @ApiQuery({ name: 'format', required: false, enum: ['json', ...REPORTS.ALERTS.FORMATS] })
+  @ApiOkResponse({
+    content: {
+      'application/json': { schema: { $ref: getSchemaPath(AlertReportDto) } },
+      'text/html': { schema: { type: 'string' } },
+      'text/markdown': { schema: { type: 'string' } },
+      'text/plain': { schema: { type: 'string' } },
+    },
+  })
+  @ApiBadRequestResponse({ type: ErrorResponseDto })
+  async getAlertReport(
+    @Res({ passthrough: true }) res: Response,
+    @Query('period') period?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('format') format: string = 'json',
+  ): Promise<AlertReport | string> {
+    if (format !== 'json' && !REPORTS.ALERTS.FORMATS.includes(format)) {
+      throw new BadRequestException(`Invalid format. Available: json, ${REPORTS.ALERTS.FORMATS.join(', ')}`);
+    }
+
+    const report = await this.alertReportService.generateReport(this.parseWindow(period, from, to));
+    if (format === 'json') {
+      return report;
+    }
+
+    res.setHeader('Content-Type', CONTENT_TYPES[format as AlertReportFormat]);
+    return this.alertReportService.render(report, format as AlertReportFormat);
+  }
+
+  /**
+   * POST /api/reports/alerts/send?period=daily
+   * Generate an alert report and send it to the notification channels
+   */
+  @Post('alerts/send')
+  @ApiReportWindowQuery()
+  @ApiCreatedResponse({ type: ActionResultDto })
+  @ApiBadRequestResponse({ type: ErrorResponseDto })
+  async sendAlertReport(
+    @Query('period') period?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<ActionResultDto> {
+    const report = await this.alertReportService.generateReport(this.parseWindow(period, from, to));
+    this.alertReportService.sendReport(report);
+
+    return {
+      success: true,
+      message: `Alert report sent for ${report.start.toISOString()} to ${report.end.toISOString()}`,
+    };
+  }
+
+  /**
+   * GET /api/reports/sla?period=monthly&chainId=50&type=rpc,websocket&format=csv
+   * `from`/`to` select a custom range instead of the period ending now
+   */
+  @Get('sla')
+  @ApiReportWindowQuery()
+  @ApiChainIdQuery('Chain ID, every chain when omitted')
+  @ApiQuery({ name: 'type', required: false, description: `Comma-separated: ${REPORTS.SLA.ENDPOINT_TYPES.join(', ')}` })
+  @ApiQuery({ name: 'format', required: false, enum: ['json', 'csv', 'telegram'] })
+  @ApiOkResponse({
+    content: {
+      'application/json': { schema: { $ref: getSchemaPath(SlaReportDto) } },
+      'text/csv': { schema: { type: 'string' } },
+      'text/html': { schema: { type: 'string' } },
+    },
+  })
+  @ApiBadRequestResponse({ type: ErrorResponseDto })
+  async getSlaReport(
+    @Res({ passthrough: true }) res: Response,
+    @Query('period') period?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('chainId') chainIdStr?: string,
+    @Query('type') typeStr?: string,
+    @Query('format') format: string = 'json',
+  ): Promise<SlaReport | string> {
+    if (!['json', 'csv', 'telegram'].includes(format)) {
+      throw new BadRequestException('Invalid format. Available: json, csv, telegram');
+    }
+
+    const endpointTypes = typeStr ? typeStr.split(',').map(type => type.trim()) : undefined;
+    const invalidType = endpointTypes?.find(type => !REPORTS.SLA.ENDPOINT_TYPES.includes(type));
+    if (invalidType) {
+      throw new BadRequestException(`Invalid type ${invalidType}. Available: ${REPORTS.SLA.ENDPOINT_TYPES.join(', ')}`);
+    }
+
+    const report = await this.slaReportService.generateReport({
+      ...this.parseWindow(period, from, to),
+      chainId: parseOptionalInt(chainIdStr, 'chainId'),
+      endpointTypes: endpointTypes as SlaEndpointType[],
+    });
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="sla-${report.period}.csv"`);
+      return this.slaReportService.toCsv(report);
+    }
+    if (format === 'telegram') {
+      res.setHeader('Content-Type', CONTENT_TYPES.telegram);
+      return this.slaReportService.formatMessage(report);
+    }
+    return report;
+  }
+
+  /**
+   * Report window: the period (weekly by default) ending at `to`, or `from` to `to` for a custom range
+   */
+  private parseWindow(
+    period: string = 'weekly',
+    from?: string,
+    to?: string,
+  ): { period: ReportPeriod | 'custom'; start: Date; end: Date } {
+    if (!(period in REPORTS.PERIODS_MS)) {
+      throw new BadRequestException(`Invalid period. Available: ${Object.keys(REPORTS.PERIODS_MS).join(', ')}`);
+    }
+
+    const end = parseTimestamp(to, 'to') ?? Date.now();
+    const start = parseTimestamp(from, 'from') ?? end - REPORTS.PERIODS_MS[period as ReportPeriod];
+    if (start >= end) {
+      throw new BadRequestException('from must be before to');
+    }
+    if (end - start > REPORTS.MAX_RANGE_MS) {
+      throw new BadRequestException(`Range is limited to ${REPORTS.MAX_RANGE_MS / (24 * 60 * 60 * 1000)} days`);
+    }
+
+    return { period: from ? 'custom' : (period as ReportPeriod), start: new Date(start), end: new Date(end) };
+  }
+}
@@ -0,0 +1,14 @@
+import { AlertModule } from '@alerts/alert.module';
+import { MetricsModule } from '@metrics/metrics.module';
+import { Module } from '@nestjs/common';
+import { AlertReportService } from '@reports/alert-report.service';
+import { ReportsController } from '@reports/reports.controller';
+import { SlaReportService } from '@reports/sla-report.service';
+
+@Module({
+  imports: [MetricsModule, AlertModule],
+  controllers: [ReportsController],
+  providers: [AlertReportService, SlaReportService],
+  exports: [AlertReportService, SlaReportService],
+})
+export class ReportsModule {}
@@ -0,0 +1,285 @@
+import { AlertService } from '@alerts/alert.service';
+import { ChainRegistryService } from '@chains/chain-registry.service';
+import { REPORTS } from '@common/constants/config';
+import { toCsv } from '@common/utils/csv';
+import { MetricsService } from '@metrics/metrics.service';
+import { Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import {
+  MetricQuery,
+  MetricRecord,
+  SlaEndpointReport,
+  SlaEndpointType,
+  SlaLatencyPercentiles,
+  SlaReport,
+  SlaReportOptions,
+} from '@types';
+
+interface EndpointAccumulator {
+  chainId: number;
+  type: SlaEndpointType;
+  endpoint: string;
+  checks: number;
+  failedChecks: number;
+  latencies: number[];
+  incidents: number;
+  repairTimesMs: number[];
+  // Time of the first failed check of the ongoing incident
+  downSince: number | null;
+}
+
+/**
+ * Per-endpoint SLA reports built from the recorded status and latency checks
+ *
+ * Uptime is the share of checks that found an endpoint up. An incident is a run of consecutive
+ * failed checks, it is repaired at the next successful check.
+ */
+@Injectable()
+export class SlaReportService {
+  private readonly logger = new Logger(SlaReportService.name);
+
+  constructor(
+    private readonly metricsService: MetricsService,
+    private readonly alertService: AlertService,
+    private readonly chainRegistry: ChainRegistryService,
+  ) {}
+
+  /**
+   * Deliver the SLA report for the past week, sent after the weekly alert report
+   */
+  async sendWeeklyReport() {
+    try {
+      const end = new Date();
+      const report = await this.generateReport({
+        period: 'weekly',
+        start: new Date(end.getTime() - REPORTS.PERIODS_MS.weekly),
+        end,
+      });
+
+      if (report.endpoints.length === 0) {
+        this.logger.warn('No endpoint checks recorded in the past week, skipping SLA report');
+        return;
+      }
+
+      this.alertService.sendReport('Weekly SLA Report', this.formatMessage(report), 'sla_weekly');
+      this.logger.log(`Weekly SLA report sent for ${report.endpoints.length} endpoints`);
+    } catch (error) {
+      this.logger.error(`Failed to send weekly SLA report: ${error.message}`);
+    }
+  }
+
+  async generateReport(options: SlaReportOptions): Promise<SlaReport> {
+    const types = options.endpointTypes ?? (REPORTS.SLA.ENDPOINT_TYPES as SlaEndpointType[]);
+    const tags = options.chainId !== undefined ? { chainId: `${options.chainId}` } : undefined;
+    const accumulators = new Map<string, EndpointAccumulator>();
+    const range = { start: options.start, end: options.end, tags };
+
+    // Each status history is read in time order so incidents carry over from one chunk to the next
+    for (const type of types) {
+      await this.query({ measurement: `${type}_status`, ...range }, records =>
+        records.forEach(record => this.addStatus(accumulators, type, record)),
+      );
+    }
+
+    // Latencies are added to the rpc endpoints found in the status history
+    if (types.includes('rpc')) {
+      await this.query(
+        { ...range, measurement: 'rpc_latency', tags: { ...tags, endpoint_status: 'active' } },
+        records =>
+          records.forEach(record => {
+            const accumulator = accumulators.get(this.accumulatorKey('rpc', record));
+            const latency = Number(record.fields.value);
+            if (accumulator && Number.isFinite(latency)) {
+              accumulator.latencies.push(latency);
+            }
+          }),
+      );
+    }
+
+    const typeOrder = REPORTS.SLA.ENDPOINT_TYPES;
+    const endpoints = Array.from(accumulators.values())
+      .map(accumulator => this.toEndpointReport(accumulator))
+      .sort(
+        (a, b) =>
+          a.chainId - b.chainId ||
+          typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type) ||
+          a.endpoint.localeCompare(b.endpoint),
+      );
+
+    return {
+      period: options.period,
+      start: options.start,
+      end: options.end,
+      generatedAt: new Date(),
+      endpoints,
+    };
+  }
+
+  /**
+   * One CSV row per endpoint
+   */
+  toCsv(report: SlaReport): string {
+    return toCsv([
+      [
+        'chain_id',
+        'type',
+        'endpoint',
+        'uptime_percent',
+        'checks',
+        'failed_checks',
+        'latency_p50_ms',
+        'latency_p95_ms',
+        'latency_p99_ms',
+        'incidents',
+        'mttr_ms',
+        'down',
+      ],
+      ...report.endpoints.map(endpoint => [
+        endpoint.chainId,
+        endpoint.type,
+        endpoint.endpoint,
+        endpoint.uptimePercent,
+        endpoint.checks,
+        endpoint.failedChecks,
+        endpoint.latencyMs?.p50,
+        endpoint.latencyMs?.p95,
+        endpoint.latencyMs?.p99,
+        endpoint.incidents,
+        endpoint.mttrMs,
+        `${endpoint.down}`,
+      ]),
+    ]);
+  }
+
+  /**
+   * Format the report as a Telegram HTML message, one table per chain
+   */
+  formatMessage(report: SlaReport): string {
+    const title = report.period === 'custom' ? 'SLA Report' : `${capitalize(report.period)} SLA Report`;
+
+    let message = `📈 <b>${title}</b>\n`;
+    message += `<b>Period:</b> ${report.start.toLocaleDateString()} to ${report.end.toLocaleDateString()}\n\n`;
+
+    if (report.endpoints.length === 0) {
+      return message + 'No endpoint checks recorded in this period.\n';
+    }
+
+    const chainIds = Array.from(new Set(report.endpoints.map(endpoint => endpoint.chainId)));
+    for (const chainId of chainIds) {
+      message += `<b>${this.chainRegistry.getChainName(chainId)}</b>\n`;
+      message += `<pre>`;
+      message += `${'Endpoint'.padEnd(36)} ${'Uptime'.padStart(8)} ${'p95'.padStart(7)} ${'Inc'.padStart(4)} ${'MTTR'.padStart(7)}\n`;
+
+      for (const endpoint of report.endpoints.filter(entry => entry.chainId === chainId)) {
+        const name = `${endpoint.type} ${endpoint.endpoint.replace(/^\w+:\/\//, '')}`;
+        message +=
+          `${(name.length > 36 ? `${name.substring(0, 33)}...` : name).padEnd(36)} ` +
+          `${`${endpoint.uptimePercent.toFixed(2)}%`.padStart(8)} ` +
+          `${(endpoint.latencyMs ? `${Math.round(endpoint.latencyMs.p95)}ms` : '-').padStart(7)} ` +
+          `${String(endpoint.incidents).padStart(4)} ` +
+          `${(endpoint.mttrMs === null ? '-' : formatDuration(endpoint.mttrMs)).padStart(7)}\n`;
+      }
+
+      message += `</pre>\n\n`;
+    }
+
+    const down = report.endpoints.filter(endpoint => endpoint.down);
+    if (down.length > 0) {
+      message += `🔴 <b>Down at end of period:</b> ${down.map(endpoint => endpoint.endpoint).join(', ')}\n`;
+    }
+
+    return message;
+  }
+
+  /**
+   * Read the points of a query one chunk at a time, oldest first
+   */
+  private async query(query: MetricQuery, onChunk: (records: MetricRecord[]) => void): Promise<void> {
+    const queried = await this.metricsService.queryMetricsInChunks(query, onChunk);
+    if (!queried) {
+      throw new ServiceUnavailableException(
+        'SLA reports are unavailable: the metrics backend is not connected or does not support queries',
+      );
+    }
+  }
+
+  private addStatus(accumulators: Map<string, EndpointAccumulator>, type: SlaEndpointType, record: MetricRecord) {
+    if (!record.tags.endpoint) return;
+
+    const key = this.accumulatorKey(type, record);
+    if (!accumulators.has(key)) {
+      accumulators.set(key, {
+        chainId: Number(record.tags.chainId),
+        type,
+        endpoint: record.tags.endpoint,
+        checks: 0,
+        failedChecks: 0,
+        latencies: [],
+        incidents: 0,
+        repairTimesMs: [],
+        downSince: null,
+      });
+    }
+
+    const accumulator = accumulators.get(key);
+    const time = record.timestamp.getTime();
+    const up = record.tags.endpoint_status !== 'failed' && Number(record.fields.value) === 1;
+
+    accumulator.checks++;
+    if (!up) {
+      accumulator.failedChecks++;
+      if (accumulator.downSince === null) {
+        accumulator.downSince = time;
+        accumulator.incidents++;
+      }
+    } else if (accumulator.downSince !== null) {
+      accumulator.repairTimesMs.push(time - accumulator.downSince);
+      accumulator.downSince = null;
+    }
+  }
+
+  private accumulatorKey(type: SlaEndpointType, record: MetricRecord): string {
+    return `${type}|${record.tags.chainId}|${record.tags.endpoint}`;
+  }
+
+  private toEndpointReport(accumulator: EndpointAccumulator): SlaEndpointReport {
+    const { chainId, type, endpoint, checks, failedChecks, incidents, repairTimesMs } = accumulator;
+
+    return {
+      chainId,
+      type,
+      endpoint,
+      uptimePercent: Math.round(((checks - failedChecks) / checks) * 100 * 1000) / 1000,
+      checks,
+      failedChecks,
+      latencyMs: accumulator.latencies.length > 0 ? percentiles(accumulator.latencies) : null,
+      incidents,
+      mttrMs:
+        repairTimesMs.length > 0
+          ? Math.round(repairTimesMs.reduce((total, duration) => total + duration, 0) / repairTimesMs.length)
+          : null,
+      down: accumulator.downSince !== null,
+    };
+  }
+}
+
+/**
+ * Nearest-rank percentiles
+ */
+function percentiles(values: number[]): SlaLatencyPercentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (percentile: number) =>
+    Math.round(sorted[Math.max(0, Math.ceil((percentile / 100) * sorted.length) - 1)] * 10) / 10;
+
+  return { p50: rank(50), p95: rank(95), p99: rank(99) };
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -0,0 +1,35 @@
+import { StateSnapshot, StateStoreBackend } from '@types';
+import { promises as fs } from 'fs';
+import { dirname, isAbsolute, join } from 'path';
+
+/**
+ * State store backend that keeps all snapshots in a single JSON file
+ * Writes go to a temporary file first and are renamed into place so a crash
+ * during a save never leaves a truncated state file behind
+ */
+export class FileStateBackend implements StateStoreBackend {
+  readonly name = 'file';
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = isAbsolute(filePath) ? filePath : join(process.cwd(), filePath);
+  }
+
+  async load(): Promise<Record<string, StateSnapshot>> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(content);
+    } catch (error) {
+      if (error.code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+
+  async save(snapshots: Record<string, StateSnapshot>): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(snapshots), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,18 @@
+import { StateSnapshot, StateStoreBackend } from '@types';
+
+/**
+ * State store backend that only keeps snapshots in process memory
+ * Useful for development and tests where nothing should be written to disk
+ */
+export class MemoryStateBackend implements StateStoreBackend {
+  readonly name = 'memory';
+  private snapshots: Record<string, StateSnapshot> = {};
+
+  async load(): Promise<Record<string, StateSnapshot>> {
+    return { ...this.snapshots };
+  }
+
+  async save(snapshots: Record<string, StateSnapshot>): Promise<void> {
+    this.snapshots = { ...snapshots };
+  }
+}
@@ -0,0 +1,48 @@
+import { SqliteStateBackend } from '@state/backends/sqlite.backend';
+import { StateSnapshot } from '@types';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const snapshot = (key: string, data: unknown, savedAt = 1_700_000_000_000): StateSnapshot => ({ key, savedAt, data });
+
+describe('SqliteStateBackend', () => {
+  let dir: string;
+  let dbPath: string;
+  let backend: SqliteStateBackend;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'state-sqlite-'));
+    dbPath = join(dir, 'nested', 'state.db');
+    backend = new SqliteStateBackend(dbPath);
+  });
+
+  afterEach(async () => {
+    await backend.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('starts empty when the database does not exist yet', async () => {
+    expect(await backend.load()).toEqual({});
+  });
+
+  it('restores saved snapshots after a restart', async () => {
+    const snapshots = {
+      MinerMonitor: snapshot('MinerMonitor', { 50: { lastBlock: 1200, miners: ['0xabc'] } }),
+      AlertService: snapshot('AlertService', { alertThrottling: { 'rpc_endpoint_down:50': 1000 } }, 1_700_000_060_000),
+    };
+    await backend.save(snapshots);
+    await backend.close();
+
+    const restarted = new SqliteStateBackend(dbPath);
+    expect(await restarted.load()).toEqual(snapshots);
+    await restarted.close();
+  });
+
+  it('replaces the previous snapshots on every save', async () => {
+    await backend.save({ A: snapshot('A', 1), B: snapshot('B', 2) });
+    await backend.save({ B: snapshot('B', 3) });
+
+    expect(await backend.load()).toEqual({ B: snapshot('B', 3) });
+  });
+});
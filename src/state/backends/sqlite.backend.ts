@@ -0,0 +1,67 @@
+import { StateSnapshot, StateStoreBackend } from '@types';
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname, isAbsolute, join } from 'path';
+
+/**
+ * State store backend that keeps one row per snapshot key in a local SQLite database
+ * Each save replaces every row inside a single transaction, so a crash during a save
+ * leaves the previous snapshots in place
+ */
+export class SqliteStateBackend implements StateStoreBackend {
+  readonly name = 'sqlite';
+  private readonly filePath: string;
+  private db: Database.Database | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = isAbsolute(filePath) ? filePath : join(process.cwd(), filePath);
+  }
+
+  async load(): Promise<Record<string, StateSnapshot>> {
+    const rows = this.open().prepare('SELECT key, saved_at, data FROM state_snapshots').all() as {
+      key: string;
+      saved_at: number;
+      data: string;
+    }[];
+
+    return Object.fromEntries(
+      rows.map(row => [row.key, { key: row.key, savedAt: row.saved_at, data: JSON.parse(row.data) }]),
+    );
+  }
+
+  async save(snapshots: Record<string, StateSnapshot>): Promise<void> {
+    const db = this.open();
+    const insert = db.prepare('INSERT INTO state_snapshots (key, saved_at, data) VALUES (?, ?, ?)');
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM state_snapshots').run();
+      for (const snapshot of Object.values(snapshots)) {
+        insert.run(snapshot.key, snapshot.savedAt, JSON.stringify(snapshot.data));
+      }
+    })();
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Open the database on first use and create the snapshot table
+   */
+  private open(): Database.Database {
+    if (!this.db) {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      this.db = new Database(this.filePath);
+      this.db.pragma('journal_mode = WAL');
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS state_snapshots (
+          key TEXT PRIMARY KEY,
+          saved_at INTEGER NOT NULL,
+          data TEXT NOT NULL
+        )
+      `);
+    }
+    return this.db;
+  }
+}
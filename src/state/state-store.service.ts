@@ -0,0 +1,174 @@
+import { ConfigService } from '@config/config.service';
+import { Injectable, Logger, OnApplicationShutdown, OnModuleInit } from '@nestjs/common';
+import { FileStateBackend } from '@state/backends/file.backend';
+import { MemoryStateBackend } from '@state/backends/memory.backend';
+import { SqliteStateBackend } from '@state/backends/sqlite.backend';
+import { StateProvider, StateSnapshot, StateStoreBackend, StateStoreConfig, StateStoreStatus } from '@types';
+
+/**
+ * Snapshot/restore layer that lets monitors keep their warm state across restarts
+ *
+ * Services register a snapshot/restore pair under a unique key. Saved state is
+ * restored as soon as the service registers, snapshots are written periodically
+ * and once more when the application shuts down.
+ */
+@Injectable()
+export class StateStoreService implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(StateStoreService.name);
+  private readonly config: StateStoreConfig;
+  private readonly backend: StateStoreBackend;
+  private readonly loaded: Promise<void>;
+
+  private providers = new Map<string, StateProvider>();
+  private restoredKeys = new Set<string>();
+  private snapshots: Record<string, StateSnapshot> = {};
+  private snapshotInterval: NodeJS.Timeout | null = null;
+  private lastSavedAt: Date | null = null;
+  private isSaving = false;
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = this.configService.getStateStoreConfig();
+    this.backend = this.createBackend();
+    this.loaded = this.loadSnapshots();
+  }
+
+  onModuleInit() {
+    if (!this.config.enabled) {
+      this.logger.log('State store is disabled, monitor state will not survive restarts');
+      return;
+    }
+
+    this.snapshotInterval = setInterval(() => this.persist(), this.config.snapshotIntervalMs);
+    this.logger.log(
+      `State store initialized with ${this.backend.name} backend (snapshot every ${this.config.snapshotIntervalMs}ms)`,
+    );
+  }
+
+  async onApplicationShutdown() {
+    if (this.snapshotInterval) {
+      clearInterval(this.snapshotInterval);
+      this.snapshotInterval = null;
+    }
+
+    await this.persist();
+    await this.backend.close?.().catch(error => this.logger.warn(`Failed to close state store: ${error.message}`));
+  }
+
+  /**
+   * Register a service's snapshot/restore handlers
+   * Restores the last saved snapshot for the key before the provider is included in snapshots,
+   * so a save running during boot never overwrites saved state with an empty one
+   *
+   * @param key Unique key for the service state, usually the class name
+   * @param provider Snapshot and restore handlers
+   * @returns True if saved state was restored
+   */
+  async register<T>(key: string, provider: StateProvider<T>): Promise<boolean> {
+    if (this.providers.has(key)) {
+      this.logger.warn(`State provider ${key} is already registered, replacing it`);
+    }
+
+    await this.loaded;
+    const restored = this.restore(key, provider);
+    this.providers.set(key, provider as StateProvider);
+
+    return restored;
+  }
+
+  /**
+   * Snapshot all registered providers and write them to the backend
+   */
+  async persist(): Promise<void> {
+    if (!this.config.enabled || this.isSaving || this.providers.size === 0) return;
+
+    this.isSaving = true;
+    try {
+      const now = Date.now();
+
+      for (const [key, provider] of this.providers) {
+        try {
+          this.snapshots[key] = { key, savedAt: now, data: provider.snapshot() };
+        } catch (error) {
+          this.logger.warn(`Failed to snapshot state for ${key}: ${error.message}`);
+        }
+      }
+
+      await this.backend.save(this.snapshots);
+      this.lastSavedAt = new Date(now);
+      this.logger.debug(`Saved state for ${this.providers.size} providers`);
+    } catch (error) {
+      this.logger.error(`Failed to save state: ${error.message}`);
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  /**
+   * Get the state store status
+   */
+  getStatus(): StateStoreStatus {
+    return {
+      enabled: this.config.enabled,
+      backend: this.backend.name,
+      providers: Array.from(this.providers.keys()),
+      restored: Array.from(this.restoredKeys),
+      lastSavedAt: this.lastSavedAt,
+    };
+  }
+
+  /**
+   * Apply the saved snapshot for a key if one exists and is not stale
+   */
+  private restore<T>(key: string, provider: StateProvider<T>): boolean {
+    const snapshot = this.snapshots[key];
+    if (!snapshot) return false;
+
+    const ageMs = Date.now() - snapshot.savedAt;
+    if (ageMs > this.config.maxAgeMs) {
+      this.logger.log(`Skipping stale state for ${key} (saved ${Math.round(ageMs / 60000)} minutes ago)`);
+      return false;
+    }
+
+    try {
+      provider.restore(snapshot.data as T);
+      this.restoredKeys.add(key);
+      this.logger.log(`Restored state for ${key} (saved ${Math.round(ageMs / 1000)}s ago)`);
+      return true;
+    } catch (error) {
+      this.logger.warn(`Failed to restore state for ${key}: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Load all saved snapshots from the backend
+   */
+  private async loadSnapshots(): Promise<void> {
+    if (!this.config.enabled) return;
+
+    try {
+      this.snapshots = await this.backend.load();
+      this.logger.log(`Loaded ${Object.keys(this.snapshots).length} state snapshots from ${this.backend.name} backend`);
+    } catch (error) {
+      this.logger.error(`Failed to load saved state, starting cold: ${error.message}`);
+      this.snapshots = {};
+    }
+  }
+
+  /**
+   * Create the configured storage backend
+   */
+  private createBackend(): StateStoreBackend {
+    switch (this.config.backend) {
+      case 'memory':
+        return new MemoryStateBackend();
+      case 'file':
+        return new FileStateBackend(this.config.filePath);
+      case 'sqlite':
+        return new SqliteStateBackend(this.config.filePath);
+      default:
+        this.logger.warn(`Unknown state store backend "${this.config.backend}", falling back to file`);
+        return new FileStateBackend(this.config.filePath);
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { ConfigModule } from '@config/config.module';
+import { Global, Module } from '@nestjs/common';
+import { StateStoreService } from '@state/state-store.service';
+
+/**
+ * Global module providing the persistent state store
+ */
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [StateStoreService],
+  exports: [StateStoreService],
+})
+export class StateModule {}
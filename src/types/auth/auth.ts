@@ -0,0 +1,51 @@
+/**
+ * API role, each role can do everything the less privileged roles can
+ */
+export type ApiRole = 'read-only' | 'operator' | 'admin';
+
+/**
+ * API key from the API_KEYS setting
+ */
+export interface ApiKeyConfig {
+  name: string;
+  key: string;
+  role: ApiRole;
+}
+
+/**
+ * API authentication and rate limiting configuration
+ */
+export interface ApiAuthConfig {
+  enabled: boolean;
+  apiKeys: ApiKeyConfig[];
+  // HS256 secret JWTs are signed with, JWTs are rejected when empty
+  jwtSecret: string;
+  // Expected iss claim, not checked when empty
+  jwtIssuer: string;
+  rateLimit: {
+    windowMs: number;
+    maxRequests: number;
+  };
+}
+
+/**
+ * Caller identified by an API key or JWT
+ */
+export interface ApiPrincipal {
+  // Rate limiting key, e.g. key:grafana or jwt:alice
+  id: string;
+  name: string;
+  role: ApiRole;
+  method: 'api-key' | 'jwt';
+}
+
+/**
+ * Outcome of counting a request against the caller's rate limit
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // When the current window ends, in milliseconds since epoch
+  resetAt: number;
+}
@@ -0,0 +1,60 @@
+import { EndpointKind } from '../rpc/registry';
+
+/**
+ * Kind of XDC network a chain belongs to
+ */
+export type ChainType = 'mainnet' | 'testnet' | 'devnet' | 'subnet';
+
+/**
+ * Endpoint monitored from the start for a chain
+ */
+export interface ChainEndpointConfig {
+  url: string;
+  name: string;
+  kind: EndpointKind;
+  type: 'rpc' | 'erpc' | 'websocket';
+}
+
+/**
+ * Where the transaction tests find the test wallet of a chain
+ * Private keys are only ever read from the environment, never from the chains file.
+ */
+export interface ChainWalletConfig {
+  privateKeyEnv: string;
+  receiverAddressEnv: string;
+  // Used when the receiver environment variable is not set
+  receiverAddress?: string;
+}
+
+/**
+ * Chain monitored by XDC Monitor
+ */
+export interface ChainDefinition {
+  chainId: number;
+  // Identifier used as key in status payloads, e.g. mainnet
+  key: string;
+  // Display name used in alerts and reports, e.g. Mainnet
+  name: string;
+  type: ChainType;
+  // Blocks per epoch
+  epochLength: number;
+  // Target time between blocks in seconds
+  blockTimeSeconds: number;
+  // Block where XDPoS v2 started, epoch numbers are counted from it
+  v2SwitchBlock: number;
+  primaryRpcUrl: string;
+  endpoints: ChainEndpointConfig[];
+  wallet: ChainWalletConfig;
+  // Subnets only: chain the subnet checkpoints to
+  parentChainId?: number;
+  // Subnets only: checkpoint contract on the parent chain that receives the subnet headers
+  checkpointContract?: string;
+}
+
+/**
+ * Test wallet of a chain as resolved from the environment
+ */
+export interface ChainTestWallet {
+  privateKey: string;
+  receiverAddress: string;
+}
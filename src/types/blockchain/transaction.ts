@@ -17,3 +17,22 @@ export interface TransactionInfo {
   input?: string;
   transactionIndex?: number;
 }
+
+/**
+ * Outcome of one kind of transaction test across the RPC endpoints of a chain
+ */
+export interface TransactionTestResult {
+  success: number;
+  failure: number;
+  total: number;
+  failedEndpoints: string[];
+}
+
+/**
+ * Latest transaction test run of a chain
+ */
+export interface ChainTestResults {
+  normalTransaction: TransactionTestResult;
+  contractDeployment: TransactionTestResult;
+  testedAt: number;
+}
@@ -5,23 +5,43 @@ export * from './blockchain/transaction';
 export * from './blockchain/node';
 export * from './blockchain/stats';
 export * from './blockchain/processor';
+export * from './blockchain/chain';
 
 // RPC types
 export * from './rpc/endpoint';
 export * from './rpc/providers';
 export * from './rpc/status';
 export * from './rpc/baseline';
+export * from './rpc/registry';
 
 // Monitoring types
 export * from './monitoring/alerts';
+export * from './monitoring/alert-routing';
 export * from './monitoring/metrics';
+export * from './monitoring/time-series';
+export * from './monitoring/history';
+export * from './monitoring/reports';
 export * from './monitoring/status';
 export * from './monitoring/services';
 export * from './monitoring/endpoint-monitoring';
 
-
 // Block monitoring types
 export * from './monitoring/block-monitoring';
 
 // Consensus monitoring types
 export * from './monitoring/consensus';
+
+// Subnet monitoring types
+export * from './monitoring/subnet';
+
+// Live update types
+export * from './monitoring/live';
+
+// Status page types
+export * from './monitoring/status-page';
+
+// API authentication types
+export * from './auth/auth';
+
+// State store types
+export * from './state/store';
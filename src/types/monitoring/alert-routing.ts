@@ -0,0 +1,98 @@
+/**
+ * Declarative alert routing rule interfaces
+ */
+import { AlertCategory, AlertSeverity } from '@common/utils/alert-manager';
+
+/**
+ * Conditions a rule matches on
+ * All set conditions must match; a list matches if any of its values matches
+ */
+export interface AlertRouteMatch {
+  severity?: AlertSeverity[];
+  category?: AlertCategory[];
+  component?: string[];
+  chainId?: number[];
+  alertType?: string[];
+  // Regular expression tested against the alert message (case-insensitive)
+  message?: string;
+}
+
+/**
+ * Daily window in which a rule records alerts without notifying
+ * The window may wrap past midnight (e.g. 22:00 - 07:00)
+ */
+export interface AlertQuietHours {
+  start: string;
+  end: string;
+  timezone: string;
+  // Days the window starts on (sun..sat), every day when omitted
+  days?: string[];
+}
+
+/**
+ * A routing rule as written in the rules file
+ */
+export interface AlertRoutingRule {
+  name: string;
+  match: AlertRouteMatch;
+  // Notification channel ids, an empty list records the alert without notifying
+  channels?: string[];
+  throttleSeconds?: number;
+  quietHours?: AlertQuietHours;
+  // Overrides the network topic picked from the chainId
+  telegramTopicId?: string;
+}
+
+/**
+ * Contents of the rules file
+ */
+export interface AlertRoutingRuleSet {
+  rules: AlertRoutingRule[];
+}
+
+/**
+ * Alert attributes used to pick a route
+ */
+export interface AlertRouteInput {
+  severity: AlertSeverity;
+  category: AlertCategory;
+  component: string;
+  chainId?: number;
+  alertType?: string;
+  message: string;
+  timestamp?: number;
+}
+
+/**
+ * Outcome of routing an alert
+ * Without a matching rule every field except quietHours is undefined and the built-in behavior applies
+ */
+export interface AlertRouteDecision {
+  rule?: string;
+  ruleIndex?: number;
+  channels?: string[];
+  throttleSeconds?: number;
+  quietHours: boolean;
+  telegramTopicId?: string;
+}
+
+/**
+ * Alert routing configuration
+ */
+export interface AlertRoutingConfig {
+  // Path to a .yaml, .yml or .json rules file, routing rules are disabled when empty
+  rulesPath?: string;
+  reloadIntervalMs: number;
+}
+
+/**
+ * Alert routing engine status
+ */
+export interface AlertRoutingStatus {
+  enabled: boolean;
+  rulesPath?: string;
+  ruleCount: number;
+  loadedAt: Date | null;
+  lastError: string | null;
+  rules: AlertRoutingRule[];
+}
@@ -12,11 +12,71 @@ export interface AlertNotificationConfig {
   telegramChatId?: string;
   telegramMainnetTopicId?: string;
   telegramTestnetTopicId?: string;
+  email: EmailNotificationConfig;
+  slack: ChatWebhookRoutes;
+  discord: ChatWebhookRoutes;
+  pagerDuty: PagerDutyNotificationConfig;
   enableWebhook: boolean;
   enableTelegram: boolean;
+  enableEmail: boolean;
+  enableSlack: boolean;
+  enableDiscord: boolean;
+  enablePagerDuty: boolean;
   enableDashboard: boolean;
 }
 
+/**
+ * Incoming webhook URLs for a chat channel (Slack, Discord)
+ * Mirrors the Telegram topic routing: mainnet and testnet alerts use their own route when set,
+ * everything else goes to the general webhook
+ */
+export interface ChatWebhookRoutes {
+  webhookUrl?: string;
+  mainnetWebhookUrl?: string;
+  testnetWebhookUrl?: string;
+}
+
+/**
+ * PagerDuty Events v2 escalation configuration
+ * Any Events v2 compatible receiver (e.g. the Opsgenie PagerDuty integration) can be used via eventsUrl
+ */
+export interface PagerDutyNotificationConfig {
+  routingKey?: string;
+  eventsUrl: string;
+  source: string;
+  // Alert types escalated when no routing rule picks the channels, rules escalate by listing the pagerduty channel
+  alertTypes: string[];
+}
+
+/**
+ * Email recipients for one scope, a non-empty severity list takes precedence over the default list
+ */
+export interface EmailRecipientRules {
+  default: string[];
+  critical: string[];
+  warning: string[];
+  info: string[];
+}
+
+/**
+ * SMTP email notification configuration
+ */
+export interface EmailNotificationConfig {
+  host?: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  recipients: {
+    global: EmailRecipientRules;
+    mainnet: EmailRecipientRules;
+    testnet: EmailRecipientRules;
+    // Recipients of periodic reports, falls back to the global default list
+    reports: string[];
+  };
+}
+
 /**
  * Alert filter options
  */
@@ -24,10 +84,73 @@ export interface AlertFilterOptions {
   severity?: AlertSeverity;
   category?: AlertCategory;
   component?: string;
+  alertType?: string;
+  chainId?: number;
   since?: number;
+  until?: number;
+  // Only alerts whose title or message contains this text, e.g. an endpoint URL
+  text?: string;
   limit?: number;
   acknowledgedOnly?: boolean;
   unacknowledgedOnly?: boolean;
+  resolvedOnly?: boolean;
+  unresolvedOnly?: boolean;
+}
+
+/**
+ * A page of alerts returned by the alert lifecycle API
+ */
+export interface AlertPage<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+/**
+ * Time-boxed silence that suppresses notifications for matching alerts
+ * Unset matchers act as wildcards, at least one matcher is always set
+ */
+export interface AlertSilence {
+  id: string;
+  alertType?: string;
+  component?: string;
+  chainId?: number;
+  reason?: string;
+  createdBy?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Open incident for a stateful alert key, resolved when the monitor reports the condition cleared
+ */
+export interface AlertIncident {
+  key: string;
+  alertType?: string;
+  component: string;
+  chainId?: number;
+  title: string;
+  // Whether any alert in the incident was sent as a notification
+  notified: boolean;
+  // Whether a critical alert in the incident was sent to the escalation channels
+  escalated?: boolean;
+  alertIds: string[];
+  startedAt: number;
+  lastAlertAt: number;
+}
+
+/**
+ * Options for creating an alert silence
+ */
+export interface AlertSilenceOptions {
+  alertType?: string;
+  component?: string;
+  chainId?: number;
+  durationMinutes: number;
+  reason?: string;
+  createdBy?: string;
 }
 
 /**
@@ -25,50 +25,99 @@ export interface BlockData {
 
 /**
  * Information about the current state of block monitoring
+ * Per-chain fields are keyed by chain key, e.g. mainnet or testnet.
  */
 export interface BlockMonitoringInfo {
   enabled: boolean;
-  primaryEndpoint: {
-    mainnet: string;
-    testnet: string;
-  };
+  primaryEndpoint: Record<string, string>;
   blockTimeThreshold: {
     error: number;
   };
   scanInterval: number;
-  monitoredEndpoints: {
-    mainnet: NetworkMonitoringData;
-    testnet: NetworkMonitoringData;
-  };
-  blockHeightVariance: {
-    mainnet: number;
-    testnet: number;
-  };
-  rpcStatus: {
-    mainnet: Record<string, boolean>;
-    testnet: Record<string, boolean>;
-  };
+  monitoredEndpoints: Record<string, NetworkMonitoringData>;
+  blockHeightVariance: Record<string, number>;
+  rpcStatus: Record<string, Record<string, boolean>>;
   queueStats: {
     size: number;
     processing: number;
     completed: number;
   };
-  blockTimeStats: {
-    mainnet: {
-      count: number;
-      average: number;
-      min?: number;
-      max?: number;
-      latest?: number;
-    };
-    testnet: {
-      count: number;
-      average: number;
-      min?: number;
-      max?: number;
-      latest?: number;
-    };
-  };
+  backfill: Record<string, BackfillStatus>;
+  blockTimeStats: Record<string, BlockTimeStats>;
+  recentBlocks: Record<string, RecentBlock[]>;
+}
+
+/**
+ * Summary of a processed block, newest blocks are kept for the status page and live updates
+ */
+export interface RecentBlock {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  miner: string;
+  transactionCount: number;
+  confirmedCount: number;
+  failedCount: number;
+}
+
+/**
+ * Block times observed on a chain
+ */
+export interface BlockTimeStats {
+  target: number; // Target block time of the chain in seconds
+  count: number;
+  average: number;
+  min?: number;
+  max?: number;
+  latest?: number;
+}
+
+/**
+ * Range of blocks that were produced between two monitoring cycles
+ */
+export interface BlockGap {
+  from: number;
+  to: number;
+  detectedAt: Date;
+}
+
+/**
+ * Progress of the block gap backfill for a network
+ */
+export interface BackfillStatus {
+  lastProcessedHeight: number | null; // Every block up to this height has been processed
+  latestHeight: number | null;
+  pending: number;
+  completed: number;
+  failed: number;
+  skipped: number;
+  recentGaps: BlockGap[];
+}
+
+/**
+ * Chain reorganization detected on the canonical chain
+ */
+export interface ChainReorg {
+  chainId: number;
+  depth: number; // Number of previously canonical blocks that were replaced
+  commonAncestor: number;
+  oldHead: { number: number; hash: string };
+  newHead: { number: number; hash: string };
+  detectedAt: Date;
+}
+
+/**
+ * RPC endpoint serving a block hash that differs from the other endpoints
+ */
+export interface EndpointDivergence {
+  endpoint: string;
+  chainId: number;
+  divergedAt: number; // Lowest height found where the endpoint differs
+  height: number; // Height that was compared
+  expectedHash: string;
+  actualHash: string;
+  detectedAt: Date;
 }
 
 /**
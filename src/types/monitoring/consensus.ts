@@ -36,6 +36,54 @@ export interface MasternodeList {
   standbynodes: string[];
 }
 
+/**
+ * Interface for the reward a single node received at an epoch checkpoint
+ */
+export interface NodeReward {
+  address: string;
+  status: MinerStatus;
+  amount: number; // In XDC
+  signCount: number;
+}
+
+// Reward amount in wei, nodes return big integers as JSON numbers or strings
+export type RewardAmount = number | string;
+
+/**
+ * Interface for a signer entry of an epoch reward response
+ */
+export interface EpochRewardSigner {
+  sign: number; // Blocks signed during the epoch
+  reward: RewardAmount;
+}
+
+/**
+ * Interface for the XDPoS_getRewardByHash response of an epoch checkpoint block
+ * Older nodes return the plain reward amount instead of a signer entry.
+ */
+export interface EpochRewards {
+  signers?: Record<string, EpochRewardSigner | RewardAmount>;
+  rewards?: Record<string, Record<string, RewardAmount>>; // Signer -> holder -> amount
+}
+
+/**
+ * Interface for reward distribution summary of an epoch checkpoint
+ */
+export interface EpochRewardSummary {
+  chainId: number;
+  epoch: number; // Epoch the rewards were paid for
+  checkpointBlock: number;
+  checkpointHash: string;
+  totalReward: number; // In XDC
+  masternodeReward: number;
+  standbyReward: number;
+  penaltyReward: number;
+  rewardedNodes: number;
+  unrewardedMasternodes: string[];
+  rewardedPenaltyNodes: string[];
+  timestamp: Date;
+}
+
 /**
  * Interface for consensus violation record
  */
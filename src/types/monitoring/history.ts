@@ -0,0 +1,50 @@
+/**
+ * Historical query API types
+ */
+
+/**
+ * Series available under /api/history
+ */
+export type HistoryMetric = 'block-time' | 'latency' | 'uptime' | 'peer-count' | 'tps' | 'missed-rounds';
+
+/**
+ * How the samples of a bucket are combined
+ */
+export type HistoryAggregation = 'mean' | 'min' | 'max' | 'sum' | 'count' | 'last' | 'p95';
+
+export interface HistoryQueryOptions {
+  chainId: number;
+  start: Date;
+  end: Date;
+  intervalMs: number;
+  // Defaults to the metric's own aggregation
+  aggregation?: HistoryAggregation;
+  // Restrict per-endpoint metrics to one endpoint URL
+  endpoint?: string;
+  // Endpoint type for uptime (rpc, websocket, explorer, faucet) and peer count (rpc, websocket)
+  endpointType?: string;
+}
+
+export interface HistoryPoint {
+  // Bucket start
+  time: string;
+  // Null when the bucket has no samples
+  value: number | null;
+  samples: number;
+}
+
+export interface HistorySeries {
+  labels: Record<string, string>;
+  points: HistoryPoint[];
+}
+
+export interface HistoryResult {
+  metric: HistoryMetric;
+  chainId: number;
+  unit: string;
+  aggregation: HistoryAggregation;
+  start: string;
+  end: string;
+  intervalMs: number;
+  series: HistorySeries[];
+}
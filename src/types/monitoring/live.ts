@@ -0,0 +1,48 @@
+/**
+ * Topic a live update is published under
+ */
+export type LiveTopic = 'blocks' | 'endpoints' | 'rpc-selection' | 'alerts' | 'consensus';
+
+/**
+ * Live updates configuration
+ */
+export interface LiveUpdatesConfig {
+  enabled: boolean;
+  // How often coalesced events, such as backfilled blocks, are flushed to clients
+  updateIntervalMs: number;
+  // How often WebSocket clients are pinged and SSE streams receive a keepalive event
+  pingIntervalMs: number;
+}
+
+/**
+ * Event pushed to WebSocket and SSE clients
+ */
+export interface LiveEvent<T = Record<string, unknown>> {
+  topic: LiveTopic;
+  // What happened within the topic, e.g. new-block or primary-switched
+  type: string;
+  // Null for events not tied to a chain, which only reach clients subscribed to every chain
+  chainId: number | null;
+  timestamp: string;
+  data: T;
+}
+
+/**
+ * Chains and topics a client subscribes to or unsubscribes from, all of them when omitted
+ */
+export interface LiveSubscriptionRequest {
+  topics?: string[];
+  chainIds?: number[];
+}
+
+/**
+ * Message a WebSocket client sends to change its subscriptions
+ */
+export interface LiveClientMessage extends LiveSubscriptionRequest {
+  action: 'subscribe' | 'unsubscribe';
+}
+
+/**
+ * Callback receiving every published live event
+ */
+export type LiveEventListener = (event: LiveEvent) => void;
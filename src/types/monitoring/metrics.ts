@@ -17,6 +17,20 @@ export interface InfluxDbConfig {
   adminPassword?: string;
 }
 
+/**
+ * OpenTelemetry OTLP/HTTP export configuration
+ */
+export interface TelemetryConfig {
+  metricsEnabled: boolean;
+  tracesEnabled: boolean;
+  // Collector base URL, /v1/metrics and /v1/traces are appended
+  endpoint: string;
+  headers: Record<string, string>;
+  serviceName: string;
+  metricExportIntervalMs: number;
+  traceSampleRatio: number;
+}
+
 /**
  * Sentinel value configuration for handling null/missing data
  */
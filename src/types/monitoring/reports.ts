@@ -0,0 +1,113 @@
+/**
+ * Report types
+ */
+
+/**
+ * Standard report windows, custom ranges use 'custom'
+ */
+export type ReportPeriod = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Endpoint kinds whose up/down checks are recorded
+ */
+export type SlaEndpointType = 'rpc' | 'websocket' | 'explorer' | 'faucet';
+
+export interface SlaReportOptions {
+  start: Date;
+  end: Date;
+  period: ReportPeriod | 'custom';
+  // All chains when omitted
+  chainId?: number;
+  // All endpoint types when omitted
+  endpointTypes?: SlaEndpointType[];
+}
+
+export interface SlaLatencyPercentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+/**
+ * Service level of one endpoint over the report window
+ */
+export interface SlaEndpointReport {
+  chainId: number;
+  type: SlaEndpointType;
+  endpoint: string;
+  // Share of checks that found the endpoint up
+  uptimePercent: number;
+  checks: number;
+  failedChecks: number;
+  // Only recorded for RPC endpoints, null for other types or without successful checks
+  latencyMs: SlaLatencyPercentiles | null;
+  // Runs of consecutive failed checks
+  incidents: number;
+  // Mean time from the first failed check to the next successful one, null without a recovered incident
+  mttrMs: number | null;
+  // Whether the endpoint was still down at the end of the window
+  down: boolean;
+}
+
+export interface SlaReport {
+  period: ReportPeriod | 'custom';
+  start: Date;
+  end: Date;
+  generatedAt: Date;
+  endpoints: SlaEndpointReport[];
+}
+
+/**
+ * Output formats of alert reports, `telegram` is the HTML subset Telegram renders and what gets delivered
+ */
+export type AlertReportFormat = 'telegram' | 'markdown' | 'html' | 'text';
+
+export interface AlertReportOptions {
+  start: Date;
+  end: Date;
+  period: ReportPeriod | 'custom';
+}
+
+export interface AlertSeverityCounts {
+  total: number;
+  error: number;
+  warning: number;
+  info: number;
+}
+
+/**
+ * Alerts of one component compared with the previous period of the same length
+ */
+export interface AlertComponentTrend {
+  component: string;
+  current: AlertSeverityCounts;
+  previousTotal: number;
+  change: number;
+  // null when the component raised no alerts in the previous period
+  changePercent: number | null;
+}
+
+export interface AlertTypeCount {
+  title: string;
+  count: number;
+  previousCount: number;
+  // Share of all alerts in the period
+  percentOfTotal: number;
+}
+
+export interface AlertReport {
+  period: ReportPeriod | 'custom';
+  start: Date;
+  end: Date;
+  previousStart: Date;
+  previousEnd: Date;
+  generatedAt: Date;
+  totals: AlertSeverityCounts;
+  previousTotals: AlertSeverityCounts;
+  // Keyed by chain key, every registered chain is listed even without alerts
+  byNetwork: Record<string, AlertSeverityCounts>;
+  // Sorted by alert count, components only seen in the previous period come last
+  components: AlertComponentTrend[];
+  // Most frequent alert titles
+  noisyAlertTypes: AlertTypeCount[];
+}
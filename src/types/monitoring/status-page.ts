@@ -0,0 +1,65 @@
+import { ChainType } from '../blockchain/chain';
+import { EndpointKind } from '../rpc/registry';
+import { AlertIncident } from './alerts';
+import { RecentBlock } from './block-monitoring';
+import { ConsensusViolation } from './consensus';
+
+/**
+ * Health of a network or of everything on the status page
+ */
+export type StatusLevel = 'operational' | 'degraded' | 'outage';
+
+/**
+ * Endpoint row of the status page
+ */
+export interface StatusPageEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  kind: EndpointKind;
+  status: 'up' | 'down' | 'unknown';
+  // Last measured latency, RPC endpoints only
+  latency: number | null;
+  // Uptime over the whole window, null when the metrics backend has no data
+  uptimePercent: number | null;
+  // Uptime per bar, oldest first, null for bars without samples
+  uptimeBars: (number | null)[];
+}
+
+/**
+ * Network section of the status page
+ */
+export interface StatusPageNetwork {
+  chainId: number;
+  key: string;
+  name: string;
+  type: ChainType;
+  status: StatusLevel;
+  primaryRpc: string;
+  latestBlock: number | null;
+  averageBlockTime: number | null;
+  targetBlockTime: number;
+  endpoints: StatusPageEndpoint[];
+  recentBlocks: RecentBlock[];
+  incidents: AlertIncident[];
+  consensusViolations: ConsensusViolation[];
+}
+
+/**
+ * Everything the status page shows, built from the monitoring services
+ */
+export interface StatusPageSummary {
+  generatedAt: string;
+  status: StatusLevel;
+  refreshIntervalMs: number;
+  // WebSocket path the page listens on for live updates, null when live updates are disabled or need authentication
+  liveUpdatesPath: string | null;
+  uptimeWindow: {
+    start: string;
+    end: string;
+    intervalMs: number;
+  };
+  networks: StatusPageNetwork[];
+  // Open incidents not tied to a chain
+  incidents: AlertIncident[];
+}
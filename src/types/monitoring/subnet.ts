@@ -0,0 +1,47 @@
+/**
+ * Subnet header as recorded by the checkpoint contract on the parent chain
+ */
+export interface CheckpointedBlock {
+  number: number;
+  hash: string;
+}
+
+/**
+ * Checkpointing progress of a subnet on its parent chain
+ */
+export interface SubnetCheckpointStatus {
+  parentChainId: number;
+  contract: string;
+  // Latest header submitted to the contract, not necessarily committed yet
+  latestSubmitted: CheckpointedBlock;
+  // Latest header the contract considers committed
+  latestCommitted: CheckpointedBlock;
+  lagBlocks: number;
+  lagThresholdBlocks: number;
+  // Seconds the committed header may stay put, the block threshold at the target block time
+  lagThresholdSeconds: number;
+  // Whether the committed hash matches the subnet block at the same height, null if that block could not be fetched
+  hashMatches: boolean | null;
+  // When the committed header last moved forward
+  lastAdvancedAt: Date | null;
+}
+
+/**
+ * Block production, masternodes and checkpointing of a subnet
+ */
+export interface SubnetStatus {
+  chainId: number;
+  name: string;
+  headBlock: number | null;
+  headHash: string | null;
+  // When the monitor last saw the head move forward
+  lastBlockAt: Date | null;
+  stalled: boolean;
+  round: number | null;
+  masternodes: string[];
+  standbynodes: string[];
+  penalty: string[];
+  checkpoint: SubnetCheckpointStatus | null;
+  lastCheckedAt: Date | null;
+  lastError: string | null;
+}
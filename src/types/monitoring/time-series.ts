@@ -0,0 +1,118 @@
+/**
+ * Time-series storage interfaces used by MetricsService
+ */
+import { MetricPoint } from '@metrics/metric-point';
+
+/**
+ * Supported time-series backends
+ */
+export type TimeSeriesBackendType = 'influxdb' | 'prometheus-remote-write' | 'timescaledb' | 'memory';
+
+/**
+ * Field value types, kept explicit because InfluxDB rejects a field that changes type
+ */
+export type MetricFieldType = 'int' | 'float' | 'string' | 'boolean';
+
+export interface MetricField {
+  type: MetricFieldType;
+  value: number | string | boolean;
+}
+
+/**
+ * A point read back from a backend
+ */
+export interface MetricRecord {
+  measurement: string;
+  timestamp: Date;
+  tags: Record<string, string>;
+  fields: Record<string, number | string | boolean>;
+}
+
+/**
+ * Read query against a single measurement
+ */
+export interface MetricQuery {
+  measurement: string;
+  start: Date;
+  // Defaults to now
+  end?: Date;
+  // Tag filters, a list matches if any of its values matches
+  tags?: Record<string, string | string[]>;
+  // Only return the latest point for each combination of these tags ([] for the single latest point)
+  latestBy?: string[];
+}
+
+/**
+ * Storage backend used by MetricsService
+ */
+export interface TimeSeriesBackend {
+  readonly name: string;
+  connect(): Promise<void>;
+  write(points: MetricPoint[]): Promise<void>;
+  // Omitted by write-only backends, history queries then fall back to in-memory data
+  query?(query: MetricQuery): Promise<MetricRecord[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Prometheus remote-write backend configuration
+ */
+export interface PrometheusRemoteWriteConfig {
+  url: string;
+  username?: string;
+  password?: string;
+  bearerToken?: string;
+}
+
+/**
+ * TimescaleDB / PostgreSQL backend configuration
+ */
+export interface TimescaleDbConfig {
+  connectionString: string;
+  table: string;
+}
+
+/**
+ * On-disk spool holding points while the backend is unreachable
+ */
+export interface MetricsSpoolConfig {
+  enabled: boolean;
+  // Directory holding the spool segment files
+  path: string;
+  // Oldest segments are dropped once the spool grows past this size
+  maxBytes: number;
+}
+
+/**
+ * Time-series storage configuration
+ */
+export interface TimeSeriesConfig {
+  backend: TimeSeriesBackendType;
+  remoteWrite: PrometheusRemoteWriteConfig;
+  timescale: TimescaleDbConfig;
+  // Points kept by the memory backend
+  memoryMaxPoints: number;
+  spool: MetricsSpoolConfig;
+}
+
+/**
+ * Reasons points are discarded instead of reaching the backend
+ */
+export type DroppedPointReason = 'queue_full' | 'spool_full' | 'spool_corrupt' | 'rejected';
+
+/**
+ * Metrics storage status exposed through the monitoring API
+ */
+export interface MetricsStorageStatus {
+  backend: string;
+  connected: boolean;
+  queuedPoints: number;
+  spool: {
+    enabled: boolean;
+    path: string;
+    bytes: number;
+    points: number;
+    segments: number;
+  };
+  droppedPoints: Record<DroppedPointReason, number>;
+}
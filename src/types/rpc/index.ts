@@ -5,3 +5,4 @@ export * from './endpoint';
 export * from './providers';
 export * from './status';
 export * from './baseline';
+export * from './registry';
@@ -0,0 +1,59 @@
+import { RpcEndpoint } from './endpoint';
+
+/**
+ * Kinds of endpoints managed by the endpoint registry
+ */
+export type EndpointKind = 'rpc' | 'websocket' | 'explorer' | 'faucet';
+
+/**
+ * Endpoint known to the registry, either built in or added through the API
+ */
+export interface RegisteredEndpoint extends RpcEndpoint {
+  // Stable identifier derived from the URL
+  id: string;
+  kind: EndpointKind;
+  source: 'builtin' | 'api';
+}
+
+/**
+ * Endpoint to add to the registry
+ */
+export interface EndpointInput {
+  url: string;
+  name: string;
+  kind: EndpointKind;
+  chainId: number;
+  // Only used for RPC endpoints, defaults to rpc
+  type?: 'rpc' | 'erpc';
+}
+
+/**
+ * Changes allowed on a registered endpoint, the URL identifies it and cannot change
+ */
+export interface EndpointUpdate {
+  name?: string;
+  chainId?: number;
+  type?: 'rpc' | 'erpc';
+}
+
+/**
+ * Registry change delivered to listeners
+ * Moving an endpoint to another chain is delivered as a removal followed by an addition.
+ */
+export interface EndpointChange {
+  type: 'added' | 'updated' | 'removed';
+  endpoint: RegisteredEndpoint;
+  // Endpoint before an update
+  previous?: RegisteredEndpoint;
+}
+
+/**
+ * Registry changes as stored on disk, applied on top of the built-in endpoints
+ */
+export interface EndpointRegistryFile {
+  version: number;
+  // Endpoints added or edited through the API
+  endpoints: Omit<RegisteredEndpoint, 'id' | 'source'>[];
+  // URLs of built-in endpoints that were removed or replaced
+  removed: string[];
+}
@@ -0,0 +1,56 @@
+/**
+ * Supported state store backends
+ */
+export type StateStoreBackendType = 'file' | 'sqlite' | 'memory';
+
+/**
+ * State store configuration
+ */
+export interface StateStoreConfig {
+  enabled: boolean;
+  backend: StateStoreBackendType;
+  filePath: string;
+  snapshotIntervalMs: number;
+  maxAgeMs: number;
+}
+
+/**
+ * Persisted snapshot of a single registered service
+ */
+export interface StateSnapshot<T = unknown> {
+  key: string;
+  savedAt: number;
+  data: T;
+}
+
+/**
+ * Snapshot/restore handlers a service registers with the state store
+ */
+export interface StateProvider<T = unknown> {
+  // Returns a JSON-serializable copy of the current state
+  snapshot: () => T;
+  // Applies a previously saved snapshot on boot
+  restore: (state: T) => void;
+}
+
+/**
+ * Storage backend used by the state store
+ */
+export interface StateStoreBackend {
+  readonly name: string;
+  load(): Promise<Record<string, StateSnapshot>>;
+  save(snapshots: Record<string, StateSnapshot>): Promise<void>;
+  // Omitted by backends without an open handle
+  close?(): Promise<void>;
+}
+
+/**
+ * State store status exposed through the monitoring API
+ */
+export interface StateStoreStatus {
+  enabled: boolean;
+  backend: string;
+  providers: string[];
+  restored: string[];
+  lastSavedAt: Date | null;
+}